@@ -0,0 +1,119 @@
+const fs = require('fs');
+const path = require('path');
+
+// Durable local storage: one JSON file per collection under DATA_DIR.
+// Writes go to a temp file first and are renamed into place so a crash
+// mid-write never leaves a half-written collection behind.
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
+
+// Each process loads the collections once and writes back its own copy, so
+// two processes writing the same DATA_DIR would undo each other's changes.
+// Whichever writes takes this lock first.
+const LOCK_FILE = path.join(DATA_DIR, 'writer.pid');
+
+const collections = new Map();
+
+class Collection {
+  constructor(name) {
+    this.name = name;
+    this.file = path.join(DATA_DIR, `${name}.json`);
+    this.items = this.load();
+  }
+
+  load() {
+    try {
+      if (!fs.existsSync(this.file)) return [];
+      const raw = fs.readFileSync(this.file, 'utf8');
+      return raw.trim() ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error(`Failed to load collection "${this.name}":`, error);
+      return [];
+    }
+  }
+
+  save() {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.items, null, 2));
+    fs.renameSync(tmp, this.file);
+  }
+
+  all() {
+    return [...this.items];
+  }
+
+  get(id) {
+    return this.items.find(item => item.id === id);
+  }
+
+  find(predicate) {
+    return this.items.find(predicate);
+  }
+
+  filter(predicate) {
+    return this.items.filter(predicate);
+  }
+
+  insert(item) {
+    this.items.push(item);
+    this.save();
+    return item;
+  }
+
+  update(id, updates) {
+    const index = this.items.findIndex(item => item.id === id);
+    if (index === -1) return undefined;
+    this.items[index] = { ...this.items[index], ...updates };
+    this.save();
+    return this.items[index];
+  }
+
+  remove(id) {
+    const index = this.items.findIndex(item => item.id === id);
+    if (index === -1) return false;
+    this.items.splice(index, 1);
+    this.save();
+    return true;
+  }
+}
+
+function isRunning(pid) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return error.code === 'EPERM';
+  }
+}
+
+// Takes the write lock on DATA_DIR. Returns null, or the pid of another live
+// process holding it; a lock left behind by a process that died is taken over.
+function lockStore() {
+  let holder = null;
+  try {
+    holder = Number(fs.readFileSync(LOCK_FILE, 'utf8')) || null;
+  } catch {
+    // no lock yet
+  }
+  if (holder && holder !== process.pid && isRunning(holder)) return holder;
+
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  fs.writeFileSync(LOCK_FILE, String(process.pid));
+  process.on('exit', () => {
+    try {
+      if (Number(fs.readFileSync(LOCK_FILE, 'utf8')) === process.pid) fs.unlinkSync(LOCK_FILE);
+    } catch {
+      // already gone
+    }
+  });
+  return null;
+}
+
+function collection(name) {
+  if (!collections.has(name)) {
+    collections.set(name, new Collection(name));
+  }
+  return collections.get(name);
+}
+
+module.exports = { collection, lockStore, DATA_DIR };
@@ -0,0 +1,130 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { balanceFor } = require('./points');
+
+const users = collection('users');
+
+const ACCESS_TOKEN_TTL = parseInt(process.env.ACCESS_TOKEN_TTL, 10) || 15 * 60; // seconds
+const REFRESH_TOKEN_TTL = parseInt(process.env.REFRESH_TOKEN_TTL, 10) || 30 * 24 * 60 * 60; // seconds
+
+// Without a configured secret, tokens are only valid for the lifetime of this process
+const AUTH_SECRET = process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.AUTH_SECRET) {
+  console.warn('⚠️  AUTH_SECRET not set; using a random secret (sessions reset on restart)');
+}
+
+// Passwords are stored as scrypt$<salt>$<hash>
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function base64url(input) {
+  return Buffer.from(input).toString('base64url');
+}
+
+function hmac(data) {
+  return crypto.createHmac('sha256', AUTH_SECRET).update(data).digest('base64url');
+}
+
+// Compact HS256 JWT; `sub` is the user id
+function signAccessToken(user) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: user.id, iat: now, exp: now + ACCESS_TOKEN_TTL }));
+  return `${header}.${payload}.${hmac(`${header}.${payload}`)}`;
+}
+
+function verifyAccessToken(token) {
+  const parts = (token || '').split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(hmac(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!claims.exp || claims.exp < Math.floor(Date.now() / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// The points balance always comes from the ledger (see points.js). Accounts
+// from before email verification count as verified.
+function publicUser(user) {
+  if (!user) return null;
+  const { passwordHash, emailVerification, deviceHashes, ...rest } = user;
+  return { ...rest, emailVerified: user.emailVerified !== false, SignalAIPoints: balanceFor(user.id) };
+}
+
+function userFromRequest(req) {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+  const claims = token && verifyAccessToken(token);
+  return claims ? users.get(claims.sub) : undefined;
+}
+
+function requireAuth(req, res, next) {
+  const user = userFromRequest(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized', message: 'A valid access token is required' });
+  }
+  req.user = user;
+  next();
+}
+
+function optionalAuth(req, res, next) {
+  req.user = userFromRequest(req);
+  next();
+}
+
+// Admins are the accounts listed in ADMIN_EMAILS (comma separated), once
+// they have verified the address: registering it first grants nothing
+function isAdmin(user) {
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  return !!user && user.emailVerified !== false && admins.includes(user.email.toLowerCase());
+}
+
+function requireAdmin(req, res, next) {
+  requireAuth(req, res, () => {
+    if (!isAdmin(req.user)) {
+      return res.status(403).json({ error: 'Forbidden', message: 'Admin access required' });
+    }
+    next();
+  });
+}
+
+module.exports = {
+  ACCESS_TOKEN_TTL,
+  REFRESH_TOKEN_TTL,
+  hashPassword,
+  verifyPassword,
+  signAccessToken,
+  verifyAccessToken,
+  hashToken,
+  publicUser,
+  requireAuth,
+  optionalAuth,
+  isAdmin,
+  requireAdmin
+};
@@ -0,0 +1,63 @@
+const provider = require('./payments');
+const { refreshAll, updateSubscription } = require('./subscriptions');
+
+function cancelAtProvider(subscription) {
+  return provider.cancelSubscription(subscription.providerSubscriptionId)
+    .then(() => updateSubscription(subscription.id, { providerCancelPending: false }))
+    .catch(error => console.error(`Provider cancellation of ${subscription.providerSubscriptionId} failed:`, error));
+}
+
+// Ends access now (replaced by an upgrade, fully refunded, or cancelled while
+// a renewal is past due). The provider subscription is cancelled in the
+// background; the renewal job retries any cancellation that did not go through.
+function cancelImmediately(subscription, fields = {}) {
+  const cancelled = updateSubscription(subscription.id, {
+    status: 'cancelled',
+    autoRenew: false,
+    scheduledChange: null,
+    cancelledAt: new Date().toISOString(),
+    providerCancelPending: !!subscription.providerSubscriptionId,
+    ...fields
+  });
+  if (subscription.providerSubscriptionId) cancelAtProvider(cancelled);
+  return cancelled;
+}
+
+function retryProviderCancellations() {
+  return Promise.all(refreshAll().filter(s => s.providerCancelPending).map(cancelAtProvider));
+}
+
+// The user keeps what they paid for: access continues until endDate and the
+// provider is told not to charge the next cycle
+async function scheduleCancellation(subscription) {
+  if (subscription.providerSubscriptionId) {
+    await provider.cancelSubscription(subscription.providerSubscriptionId, { atCycleEnd: true });
+  }
+  return updateSubscription(subscription.id, {
+    status: 'cancel_scheduled',
+    autoRenew: false,
+    scheduledChange: null,
+    cancelRequestedAt: new Date().toISOString()
+  });
+}
+
+// Undoes scheduleCancellation before the term ends
+async function resumeSubscription(subscription) {
+  if (subscription.providerSubscriptionId) {
+    await provider.resumeSubscription(subscription.providerSubscriptionId);
+  }
+  // A trial that has not been charged yet goes back to trialing
+  const inTrial = subscription.trialStartedAt && !subscription.razorpayPaymentId;
+  return updateSubscription(subscription.id, {
+    status: inTrial ? 'trialing' : 'active',
+    autoRenew: !!subscription.providerSubscriptionId,
+    cancelRequestedAt: null
+  });
+}
+
+module.exports = {
+  cancelImmediately,
+  retryProviderCancellations,
+  scheduleCancellation,
+  resumeSubscription
+};
@@ -0,0 +1,210 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { findPlan } = require('./plans');
+
+// Promo codes. A coupon takes a percentage or a flat amount (paise) off the
+// first payment for a plan; renewals are charged at the catalog price.
+// Coupons are keyed by their upper-cased code.
+const coupons = collection('coupons');
+const redemptions = collection('coupon_redemptions');
+
+// A checkout that was started but never paid holds its redemption this long
+const RESERVATION_TTL_MS = parseInt(process.env.COUPON_RESERVATION_TTL_MS, 10) || 30 * 60 * 1000;
+// Providers refuse charges below ₹1, so no discount takes a plan under it
+const MIN_CHARGE = 100;
+const TYPES = ['percent', 'flat'];
+
+function normalizeCode(code) {
+  return String(code || '').trim().toUpperCase();
+}
+
+function findCoupon(code) {
+  return coupons.get(normalizeCode(code));
+}
+
+// Paid redemptions count against the limits, and so do other people's
+// checkouts still in progress. The user's own unpaid checkouts do not: a new
+// checkout replaces them.
+function liveRedemptions(coupon, userId, now) {
+  return redemptions.filter(r =>
+    r.code === coupon.code && (
+      r.status === 'redeemed' ||
+      (r.status === 'reserved' && r.userId !== userId && now - Date.parse(r.createdAt) < RESERVATION_TTL_MS)
+    )
+  );
+}
+
+function discountFor(coupon, plan) {
+  const discount = coupon.type === 'percent'
+    ? Math.round(plan.amount * coupon.value / 100)
+    : coupon.value;
+  return Math.max(0, Math.min(discount, plan.amount - MIN_CHARGE));
+}
+
+// Prices `plan` with `code` for `userId`. Returns { coupon, discount, amount }
+// in paise, or { error, message } saying why the code cannot be used.
+function priceWithCoupon(code, { plan, userId, now = Date.now() }) {
+  const coupon = findCoupon(code);
+  if (!coupon || !coupon.active) {
+    return { error: 'invalid', message: 'This code is not valid' };
+  }
+  if (coupon.expiresAt && Date.parse(coupon.expiresAt) <= now) {
+    return { error: 'expired', message: 'This code has expired' };
+  }
+  if (coupon.planIds && coupon.planIds.length && !coupon.planIds.includes(plan.id)) {
+    return { error: 'plan_not_eligible', message: `This code cannot be used for the ${plan.name} plan` };
+  }
+
+  const live = liveRedemptions(coupon, userId, now);
+  if (coupon.maxRedemptions && live.length >= coupon.maxRedemptions) {
+    return { error: 'exhausted', message: 'This code has been fully redeemed' };
+  }
+  if (live.filter(r => r.userId === userId).length >= coupon.perUserLimit) {
+    return { error: 'already_used', message: 'You have already used this code' };
+  }
+
+  const discount = discountFor(coupon, plan);
+  return { coupon, discount, amount: plan.amount - discount };
+}
+
+// Holds a redemption for a checkout (`ref` is { orderId } or { subscriptionId })
+// until it is paid. Any earlier unpaid checkout by the same user lets go of its hold.
+function reserveRedemption({ coupon, userId, plan, discount, ref }) {
+  for (const previous of redemptions.filter(r => r.code === coupon.code && r.userId === userId && r.status === 'reserved')) {
+    redemptions.update(previous.id, { status: 'released' });
+  }
+  return redemptions.insert({
+    id: `cpr_${crypto.randomBytes(8).toString('hex')}`,
+    code: coupon.code,
+    userId,
+    planId: plan.id,
+    discount,
+    ...ref,
+    status: 'reserved',
+    createdAt: new Date().toISOString()
+  });
+}
+
+function findRedemption(ref) {
+  const [key, value] = Object.entries(ref)[0];
+  return redemptions.find(r => r[key] === value);
+}
+
+// The checkout was paid: its hold becomes a redemption. Returns { redemption },
+// or { error, message } when the hold may not be honoured: it was released for
+// a newer checkout, or it lapsed and the limits filled up meanwhile. The
+// payment is then refunded (see fulfillment.js).
+function confirmRedemption(ref, now = Date.now()) {
+  const redemption = findRedemption(ref);
+  if (!redemption || redemption.status === 'redeemed') return { redemption };
+  if (redemption.status === 'released') {
+    return { error: 'released', message: 'This code was applied to a newer checkout' };
+  }
+
+  const coupon = findCoupon(redemption.code);
+  const live = liveRedemptions(coupon, redemption.userId, now).filter(r => r.id !== redemption.id);
+  if (coupon.maxRedemptions && live.length >= coupon.maxRedemptions) {
+    return { error: 'exhausted', message: 'This code has been fully redeemed' };
+  }
+  if (live.filter(r => r.userId === redemption.userId).length >= coupon.perUserLimit) {
+    return { error: 'already_used', message: 'You have already used this code' };
+  }
+
+  return { redemption: redemptions.update(redemption.id, { status: 'redeemed', redeemedAt: new Date(now).toISOString() }) };
+}
+
+// The checkout was rejected or abandoned: its hold no longer counts
+function releaseRedemption(ref) {
+  const redemption = findRedemption(ref);
+  if (!redemption || redemption.status !== 'reserved') return redemption;
+  return redemptions.update(redemption.id, { status: 'released' });
+}
+
+function isPositiveInteger(value) {
+  return Number.isInteger(value) && value > 0;
+}
+
+// Checks an admin-supplied coupon definition. Returns an error message, or null.
+function invalidCouponFields(fields) {
+  if (fields.type !== undefined && !TYPES.includes(fields.type)) return `type must be one of: ${TYPES.join(', ')}`;
+  if (fields.value !== undefined && !isPositiveInteger(fields.value)) return 'value must be a positive whole number';
+  if (fields.type === 'percent' && fields.value > 100) return 'a percent value cannot exceed 100';
+  if (fields.planIds !== undefined && fields.planIds !== null) {
+    if (!Array.isArray(fields.planIds)) return 'planIds must be an array';
+    const unknown = fields.planIds.find(id => !findPlan(id) || findPlan(id).amount <= 0);
+    if (unknown) return `Unknown paid plan: ${unknown}`;
+  }
+  if (fields.expiresAt && Number.isNaN(Date.parse(fields.expiresAt))) return 'expiresAt must be a date';
+  if (fields.maxRedemptions !== undefined && fields.maxRedemptions !== null && !isPositiveInteger(fields.maxRedemptions)) {
+    return 'maxRedemptions must be a positive whole number';
+  }
+  if (fields.perUserLimit !== undefined && !isPositiveInteger(fields.perUserLimit)) {
+    return 'perUserLimit must be a positive whole number';
+  }
+  return null;
+}
+
+function pickCouponFields(input) {
+  const fields = {};
+  for (const key of ['description', 'type', 'value', 'planIds', 'expiresAt', 'maxRedemptions', 'perUserLimit', 'active']) {
+    if (input[key] !== undefined) fields[key] = input[key];
+  }
+  return fields;
+}
+
+function createCoupon(input) {
+  const code = normalizeCode(input.code);
+  if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+    return { error: 'code must be 3-32 letters, digits, dashes or underscores' };
+  }
+  if (findCoupon(code)) return { error: `Coupon ${code} already exists` };
+  if (!input.type || input.value === undefined) return { error: 'type and value are required' };
+
+  const fields = pickCouponFields(input);
+  const error = invalidCouponFields(fields);
+  if (error) return { error };
+
+  return {
+    coupon: coupons.insert({
+      id: code,
+      code,
+      description: '',
+      planIds: null,
+      expiresAt: null,
+      maxRedemptions: null,
+      perUserLimit: 1,
+      active: true,
+      ...fields,
+      createdAt: new Date().toISOString()
+    })
+  };
+}
+
+// Codes are permanent; everything else (including switching one off) can change
+function updateCoupon(code, input) {
+  const coupon = findCoupon(code);
+  if (!coupon) return { error: 'Coupon not found', notFound: true };
+
+  const fields = pickCouponFields(input);
+  const error = invalidCouponFields({ ...fields, type: fields.type || coupon.type, value: fields.value || coupon.value });
+  if (error) return { error };
+  return { coupon: coupons.update(coupon.id, { ...fields, updatedAt: new Date().toISOString() }) };
+}
+
+// Admin view: each coupon with how often it has been paid for
+function listCoupons() {
+  return coupons.all().map(coupon => ({
+    ...coupon,
+    redemptions: redemptions.filter(r => r.code === coupon.code && r.status === 'redeemed').length
+  }));
+}
+
+module.exports = {
+  priceWithCoupon,
+  reserveRedemption,
+  confirmRedemption,
+  releaseRedemption,
+  createCoupon,
+  updateCoupon,
+  listCoupons
+};
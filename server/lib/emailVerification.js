@@ -0,0 +1,38 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { hashToken } = require('./auth');
+const { queueNotification, deliverQueued } = require('./notifications');
+
+// Email verification for new accounts. The link carries a one-time token;
+// like refresh tokens, only its hash is stored on the user, and the queued
+// email drops the token once it has gone out.
+const users = collection('users');
+
+const VERIFICATION_TTL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Emails a fresh link; any earlier link stops working
+function startEmailVerification(userId) {
+  const token = crypto.randomBytes(32).toString('hex');
+  users.update(userId, {
+    emailVerified: false,
+    emailVerification: {
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + VERIFICATION_TTL_DAYS * DAY_MS).toISOString()
+    }
+  });
+  queueNotification({ userId, type: 'verify_email', token, expiresInDays: VERIFICATION_TTL_DAYS });
+  deliverQueued().catch(error => console.error('Verification email delivery failed:', error));
+}
+
+// Returns { user } once verified, or { error, status }
+function verifyEmail(token) {
+  const tokenHash = token ? hashToken(String(token)) : null;
+  const user = tokenHash && users.find(u => u.emailVerification && u.emailVerification.tokenHash === tokenHash);
+  if (!user || Date.parse(user.emailVerification.expiresAt) < Date.now()) {
+    return { error: 'This verification link is invalid or has expired', status: 400 };
+  }
+  return { user: users.update(user.id, { emailVerified: true, emailVerification: null }) };
+}
+
+module.exports = { startEmailVerification, verifyEmail };
@@ -0,0 +1,175 @@
+const crypto = require('crypto');
+const { collection } = require('../../db');
+
+// Groups feed articles that report the same story, so it can be shown once
+// with "N sources are covering this". Two articles are the same story when
+// they are in the same language, published within WINDOW_MS of each other,
+// and either their title and summary share enough words or their text shares
+// enough three-word phrases (syndicated wire copy). Stories are linked
+// transitively. Each cluster has a canonical article: the most complete one,
+// the earliest on a tie.
+//
+// Clusters live in story_clusters; articles themselves are not changed. Only
+// recent articles are re-clustered on each run; older clusters stay as they were.
+const articles = collection('articles');
+const clusters = collection('story_clusters');
+
+const WINDOW_MS = 48 * 60 * 60 * 1000;
+const RECLUSTER_MS = 4 * 24 * 60 * 60 * 1000;
+const WORD_SIMILARITY = 0.35;
+const PHRASE_SIMILARITY = 0.5;
+const PHRASE_WORDS = 200;
+
+// Frequent English words that make unrelated headlines look alike
+const STOPWORDS = new Set(('a an and are as at be been by for from has have he her his in into is it its of on or ' +
+  'over says said she than that the their them they this to under up was were what when which who will with ' +
+  'after amid about new more year years day').split(' '));
+
+function words(text) {
+  return (String(text || '').normalize('NFKC').toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) || [])
+    .filter(word => word.length > 1 && !STOPWORDS.has(word));
+}
+
+function phrases(list) {
+  const out = new Set();
+  for (let i = 0; i + 2 < list.length; i++) out.add(`${list[i]} ${list[i + 1]} ${list[i + 2]}`);
+  return out;
+}
+
+function jaccard(a, b) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function signature(article) {
+  return {
+    article,
+    time: Date.parse(article.publishedAt) || 0,
+    words: new Set(words(`${article.title} ${article.summary}`)),
+    phrases: phrases(words(article.content).slice(0, PHRASE_WORDS))
+  };
+}
+
+function isSameStory(a, b) {
+  return a.article.language === b.article.language &&
+    Math.abs(a.time - b.time) <= WINDOW_MS &&
+    (jaccard(a.words, b.words) >= WORD_SIMILARITY || jaccard(a.phrases, b.phrases) >= PHRASE_SIMILARITY);
+}
+
+function pickCanonical(members) {
+  return [...members].sort((a, b) =>
+    b.content.length - a.content.length ||
+    (Date.parse(a.publishedAt) || 0) - (Date.parse(b.publishedAt) || 0)
+  )[0];
+}
+
+// Named after the earliest member, so a cluster keeps its id as it grows
+function clusterId(memberIds) {
+  return `sc_${crypto.createHash('sha256').update(memberIds[0]).digest('hex').slice(0, 16)}`;
+}
+
+// Articles in clusters of two or more, grouped with union-find over pairs
+// that fall inside the time window
+function groupStories(list) {
+  const signatures = list.map(signature).sort((a, b) => a.time - b.time);
+  const parent = signatures.map((_, i) => i);
+  const root = i => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < signatures.length; i++) {
+    for (let j = i + 1; j < signatures.length && signatures[j].time - signatures[i].time <= WINDOW_MS; j++) {
+      if (isSameStory(signatures[i], signatures[j])) parent[root(j)] = root(i);
+    }
+  }
+
+  const groups = new Map();
+  signatures.forEach((sig, i) => {
+    const key = root(i);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(sig.article);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+let index = null;
+
+// articleId → cluster, rebuilt whenever clusters change
+function clusterIndex() {
+  if (!index) {
+    index = new Map();
+    for (const cluster of clusters.all()) {
+      for (const id of cluster.articleIds) index.set(id, cluster);
+    }
+  }
+  return index;
+}
+
+// Re-clusters the recent feed articles and stores the clusters that changed
+function clusterStories(now = Date.now()) {
+  const since = now - RECLUSTER_MS;
+  const recent = articles.filter(a => a.feedId && a.status === 'published' && (Date.parse(a.publishedAt) || 0) >= since);
+  const recentIds = new Set(recent.map(a => a.id));
+
+  const wanted = new Map();
+  for (const group of groupStories(recent)) {
+    const articleIds = group.map(a => a.id);
+    wanted.set(clusterId(articleIds), { articleIds, canonicalId: pickCanonical(group).id });
+  }
+
+  let changed = 0;
+  // Clusters of recent articles that no longer hold, and clusters whose articles are all gone
+  for (const cluster of clusters.all()) {
+    const live = cluster.articleIds.filter(id => articles.get(id));
+    const touchesRecent = cluster.articleIds.some(id => recentIds.has(id));
+    if ((touchesRecent && !wanted.has(cluster.id)) || live.length < 2) {
+      clusters.remove(cluster.id);
+      changed++;
+    }
+  }
+  for (const [id, fields] of wanted) {
+    const existing = clusters.get(id);
+    const updatedAt = new Date(now).toISOString();
+    if (!existing) {
+      clusters.insert({ id, ...fields, createdAt: updatedAt, updatedAt });
+      changed++;
+    } else if (existing.canonicalId !== fields.canonicalId || existing.articleIds.join() !== fields.articleIds.join()) {
+      clusters.update(id, { ...fields, updatedAt });
+      changed++;
+    }
+  }
+
+  if (changed) index = null;
+  return { clusters: wanted.size, changed };
+}
+
+// Coverage of the article's story, for the API: how many sources carry it,
+// which article is canonical and links to the other versions
+function coverageFor(article) {
+  const cluster = clusterIndex().get(article.id);
+  if (!cluster) return null;
+
+  const members = cluster.articleIds.map(id => articles.get(id)).filter(Boolean);
+  if (members.length < 2) return null;
+  return {
+    clusterId: cluster.id,
+    canonicalId: cluster.canonicalId,
+    sources: new Set(members.map(a => a.source)).size,
+    alternates: members
+      .filter(a => a.id !== article.id)
+      .map(a => ({ id: a.id, title: a.title, source: a.source, sourceUrl: a.sourceUrl || null, publishedAt: a.publishedAt }))
+  };
+}
+
+function withCoverage(article) {
+  const coverage = coverageFor(article);
+  return coverage ? { ...article, coverage } : article;
+}
+
+// True for the non-canonical versions of a clustered story
+function isAlternate(article) {
+  const cluster = clusterIndex().get(article.id);
+  return !!cluster && cluster.canonicalId !== article.id && !!articles.get(cluster.canonicalId);
+}
+
+module.exports = { clusterStories, withCoverage, isAlternate };
@@ -0,0 +1,229 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { collection } = require('../../db');
+const { SOURCES, fallbackImage } = require('./sources');
+const { parseFeed, htmlToText } = require('./parser');
+const { clusterStories } = require('./clustering');
+
+// News ingestion: polls the configured RSS/Atom feeds and stores their
+// entries in the articles collection next to user posts, in the same
+// Article shape. Entries are keyed by feed and guid, so re-polling updates
+// stories instead of duplicating them. Per-feed state (ETag, Last-Modified,
+// last result) lives in feed_state.
+const articles = collection('articles');
+const feedState = collection('feed_state');
+
+const POLL_INTERVAL_MS = parseInt(process.env.FEED_POLL_INTERVAL_MS, 10) || 15 * 60 * 1000;
+const FETCH_TIMEOUT_MS = parseInt(process.env.FEED_FETCH_TIMEOUT_MS, 10) || 10 * 1000;
+// Feed articles older than this are removed (0 keeps everything)
+const RETENTION_DAYS = process.env.FEED_RETENTION_DAYS !== undefined ? parseInt(process.env.FEED_RETENTION_DAYS, 10) : 30;
+const MAX_ENTRIES_PER_FEED = 50;
+const SUMMARY_LENGTH = 280;
+const MAX_TAGS = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Allowed clock skew before a future publish date is treated as "now"
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+function articleId(source, guid) {
+  return `f_${crypto.createHash('sha256').update(`${source.id}\n${guid}`).digest('hex').slice(0, 16)}`;
+}
+
+function truncate(text, length) {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : length).trim()}…`;
+}
+
+function publishDate(value, fetchedAt) {
+  const time = Date.parse(value || '');
+  if (!Number.isFinite(time) || time > fetchedAt.getTime() + FUTURE_TOLERANCE_MS) return fetchedAt.toISOString();
+  return new Date(time).toISOString();
+}
+
+function uniqueTags(categories) {
+  const seen = new Map();
+  for (const category of categories) {
+    const tag = htmlToText(category);
+    if (tag && !seen.has(tag.toLowerCase())) seen.set(tag.toLowerCase(), tag);
+  }
+  return [...seen.values()].slice(0, MAX_TAGS);
+}
+
+// A parsed feed entry in the Article shape, or null when it has no title
+function normalizeEntry(entry, source, fetchedAt = new Date()) {
+  const title = htmlToText(entry.title);
+  if (!title || !entry.guid) return null;
+
+  const summaryText = htmlToText(entry.summary);
+  const content = htmlToText(entry.content) || summaryText;
+  const now = fetchedAt.toISOString();
+
+  return {
+    id: articleId(source, entry.guid),
+    title,
+    summary: truncate((summaryText || content).split('\n\n')[0], SUMMARY_LENGTH),
+    content: content || title,
+    imageUrl: entry.imageUrl || fallbackImage(source.category),
+    author: htmlToText(entry.author) || source.name,
+    publishedAt: publishDate(entry.publishedAt, fetchedAt),
+    category: source.category,
+    source: source.name,
+    sourceUrl: entry.link,
+    feedId: source.id,
+    readTime: Math.max(1, Math.round((content || '').split(/\s+/).length / 200)),
+    tags: uniqueTags(entry.categories),
+    isPremium: false,
+    language: source.language,
+    regionalRelevance: [],
+    status: 'published',
+    createdAt: now,
+    updatedAt: now,
+    views: 0
+  };
+}
+
+// Inserts new stories and updates the text of changed ones; reader-facing
+// counters (views) and the original createdAt are kept
+function storeArticles(normalized) {
+  let added = 0;
+  let updated = 0;
+  for (const article of normalized) {
+    const existing = articles.get(article.id);
+    if (!existing) {
+      articles.insert(article);
+      added++;
+    } else if (['title', 'summary', 'content', 'imageUrl', 'author'].some(field => existing[field] !== article[field])) {
+      const { id, createdAt, views, ...changes } = article;
+      articles.update(id, changes);
+      updated++;
+    }
+  }
+  return { added, updated };
+}
+
+function isLocal(url) {
+  return !/^https?:\/\//i.test(url);
+}
+
+// Conditional GET using the validators from the previous poll. Local files
+// (fixtures) are read directly.
+async function fetchFeed(source, state = {}) {
+  if (isLocal(source.url)) {
+    const file = source.url.startsWith('file:') ? new URL(source.url) : path.resolve(__dirname, '..', '..', source.url);
+    return { xml: fs.readFileSync(file, 'utf8') };
+  }
+
+  const headers = {
+    'User-Agent': 'SignalAI-News feed reader',
+    Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8'
+  };
+  if (state.etag) headers['If-None-Match'] = state.etag;
+  if (state.lastModified) headers['If-Modified-Since'] = state.lastModified;
+
+  const response = await fetch(source.url, { headers, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (response.status === 304) return { notModified: true };
+  if (!response.ok) throw new Error(`HTTP ${response.status} from ${source.url}`);
+  return {
+    xml: await response.text(),
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified')
+  };
+}
+
+function saveState(sourceId, updates) {
+  return feedState.get(sourceId) ? feedState.update(sourceId, updates) : feedState.insert({ id: sourceId, ...updates });
+}
+
+// Polls one feed. Failures are recorded on the feed's state and rethrown.
+async function ingestSource(source) {
+  const state = feedState.get(source.id) || {};
+  const fetchedAt = new Date();
+  try {
+    const fetched = await fetchFeed(source, state);
+    if (fetched.notModified) {
+      saveState(source.id, { lastFetchedAt: fetchedAt.toISOString(), lastError: null });
+      return { sourceId: source.id, added: 0, updated: 0, skipped: 0, notModified: true };
+    }
+
+    const feed = parseFeed(fetched.xml);
+    const entries = feed.entries.slice(0, MAX_ENTRIES_PER_FEED);
+    const normalized = entries.map(entry => normalizeEntry(entry, source, fetchedAt)).filter(Boolean);
+    const { added, updated } = storeArticles(normalized);
+
+    saveState(source.id, {
+      etag: fetched.etag || null,
+      lastModified: fetched.lastModified || null,
+      lastFetchedAt: fetchedAt.toISOString(),
+      lastSuccessAt: fetchedAt.toISOString(),
+      lastError: null,
+      lastCount: normalized.length
+    });
+    return { sourceId: source.id, added, updated, skipped: entries.length - normalized.length };
+  } catch (error) {
+    saveState(source.id, { lastFetchedAt: fetchedAt.toISOString(), lastError: error.message });
+    throw error;
+  }
+}
+
+// Removes feed articles past the retention period; user posts are never touched
+function pruneArticles(now = Date.now()) {
+  if (!(RETENTION_DAYS > 0)) return 0;
+  const cutoff = now - RETENTION_DAYS * DAY_MS;
+  const stale = articles.filter(a => a.feedId && Date.parse(a.publishedAt) < cutoff);
+  for (const article of stale) articles.remove(article.id);
+  return stale.length;
+}
+
+// Polls every feed one after another; one failing feed does not stop the rest.
+// Stories are re-clustered once all feeds are in.
+async function ingestAll(sources = SOURCES) {
+  const results = [];
+  for (const source of sources) {
+    try {
+      results.push(await ingestSource(source));
+    } catch (error) {
+      console.error(`Feed ${source.id} failed:`, error.message);
+      results.push({ sourceId: source.id, error: error.message });
+    }
+  }
+  const pruned = pruneArticles();
+  const stories = clusterStories();
+  const added = results.reduce((sum, r) => sum + (r.added || 0), 0);
+  const updated = results.reduce((sum, r) => sum + (r.updated || 0), 0);
+  if (added || updated || pruned) {
+    console.log('Feed ingestion:', { added, updated, pruned, clusters: stories.clusters, failed: results.filter(r => r.error).length });
+  }
+  return { results, added, updated, pruned, clusters: stories.clusters };
+}
+
+// Configured feeds with the outcome of their last poll, for the admin API
+function feedStatus() {
+  return SOURCES.map(source => {
+    const state = feedState.get(source.id) || {};
+    return {
+      ...source,
+      lastFetchedAt: state.lastFetchedAt || null,
+      lastSuccessAt: state.lastSuccessAt || null,
+      lastError: state.lastError || null,
+      lastCount: state.lastCount || 0,
+      articles: articles.filter(a => a.feedId === source.id).length
+    };
+  });
+}
+
+// FEED_INGESTION=off leaves polling to the admin API and the ingest-feeds script
+function startIngestionScheduler() {
+  if (process.env.FEED_INGESTION === 'off') return;
+  const run = () => ingestAll().catch(error => console.error('Feed ingestion error:', error));
+  run();
+  setInterval(run, POLL_INTERVAL_MS).unref();
+}
+
+module.exports = {
+  normalizeEntry,
+  ingestSource,
+  ingestAll,
+  feedStatus,
+  startIngestionScheduler
+};
@@ -0,0 +1,149 @@
+const { APP_URL } = require('../notifications');
+
+// Renders lists of articles as RSS 2.0, Atom 1.0 and JSON Feed 1.1 for
+// readers and partners. `feed` describes the channel:
+//   { title, description, homeUrl, selfUrl, language, updatedAt }
+// Full text is only published for SignalAI's own articles that are not
+// premium; premium articles and stories ingested from other outlets get their
+// summary and a link.
+const GENERATOR = 'SignalAI News';
+
+function escapeXml(text) {
+  return String(text == null ? '' : text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function articleUrl(article) {
+  return `${APP_URL}/?article=${encodeURIComponent(article.id)}`;
+}
+
+function hasFullText(article) {
+  return !article.isPremium && !article.feedId;
+}
+
+// Article text is paragraphs separated by blank lines
+function contentHtml(article) {
+  return String(article.content || '')
+    .split('\n\n')
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeXml(paragraph)}</p>`)
+    .join('');
+}
+
+function updatedAt(article) {
+  return article.updatedAt || article.publishedAt;
+}
+
+// The newest change in the list, for Last-Modified and the feed's own date
+function lastModified(articles) {
+  const times = articles.map(a => Date.parse(updatedAt(a)) || 0);
+  return new Date(times.length > 0 ? Math.max(...times) : 0);
+}
+
+function renderRss(feed, articles) {
+  const items = articles.map(article => [
+    '    <item>',
+    `      <title>${escapeXml(article.title)}</title>`,
+    `      <link>${escapeXml(articleUrl(article))}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(`signalai:article:${article.id}`)}</guid>`,
+    `      <pubDate>${new Date(article.publishedAt).toUTCString()}</pubDate>`,
+    `      <dc:creator>${escapeXml(article.author)}</dc:creator>`,
+    ...[article.category, ...(article.tags || [])].filter(Boolean).map(tag => `      <category>${escapeXml(tag)}</category>`),
+    `      <description>${escapeXml(article.summary)}</description>`,
+    hasFullText(article) ? `      <content:encoded>${escapeXml(contentHtml(article))}</content:encoded>` : null,
+    article.sourceUrl ? `      <source url="${escapeXml(article.sourceUrl)}">${escapeXml(article.source)}</source>` : null,
+    article.imageUrl && !article.imageUrl.startsWith('data:') ? `      <media:content url="${escapeXml(article.imageUrl)}" medium="image"/>` : null,
+    '    </item>'
+  ].filter(line => line !== null).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/"' +
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    feed.language ? `    <language>${escapeXml(feed.language)}</language>` : null,
+    `    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>`,
+    `    <generator>${GENERATOR}</generator>`,
+    `    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].filter(line => line !== null).join('\n');
+}
+
+function renderAtom(feed, articles) {
+  const entries = articles.map(article => [
+    '  <entry>',
+    `    <id>${escapeXml(`urn:signalai:article:${article.id}`)}</id>`,
+    `    <title>${escapeXml(article.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(articleUrl(article))}"/>`,
+    article.sourceUrl ? `    <link rel="via" type="text/html" href="${escapeXml(article.sourceUrl)}"/>` : null,
+    `    <published>${new Date(article.publishedAt).toISOString()}</published>`,
+    `    <updated>${new Date(updatedAt(article)).toISOString()}</updated>`,
+    `    <author><name>${escapeXml(article.author)}</name></author>`,
+    ...[article.category, ...(article.tags || [])].filter(Boolean).map(tag => `    <category term="${escapeXml(tag)}"/>`),
+    `    <summary type="text">${escapeXml(article.summary)}</summary>`,
+    hasFullText(article) ? `    <content type="html">${escapeXml(contentHtml(article))}</content>` : null,
+    article.imageUrl && !article.imageUrl.startsWith('data:') ? `    <media:thumbnail url="${escapeXml(article.imageUrl)}"/>` : null,
+    '  </entry>'
+  ].filter(line => line !== null).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/"${feed.language ? ` xml:lang="${escapeXml(feed.language)}"` : ''}>`,
+    `  <id>${escapeXml(feed.selfUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>`,
+    `  <updated>${feed.updatedAt.toISOString()}</updated>`,
+    `  <generator>${GENERATOR}</generator>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
+
+function renderJsonFeed(feed, articles) {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.selfUrl,
+    ...(feed.language ? { language: feed.language } : {}),
+    items: articles.map(article => ({
+      id: `signalai:article:${article.id}`,
+      url: articleUrl(article),
+      ...(article.sourceUrl ? { external_url: article.sourceUrl } : {}),
+      title: article.title,
+      summary: article.summary,
+      ...(hasFullText(article) ? { content_text: article.content } : {}),
+      ...(article.imageUrl && !article.imageUrl.startsWith('data:') ? { image: article.imageUrl } : {}),
+      date_published: new Date(article.publishedAt).toISOString(),
+      date_modified: new Date(updatedAt(article)).toISOString(),
+      authors: [{ name: article.author }],
+      tags: [article.category, ...(article.tags || [])].filter(Boolean),
+      language: article.language,
+      _signalai: { premium: !!article.isPremium, source: article.source }
+    }))
+  }, null, 2);
+}
+
+const FORMATS = {
+  xml: { type: 'application/rss+xml; charset=utf-8', render: renderRss },
+  atom: { type: 'application/atom+xml; charset=utf-8', render: renderAtom },
+  json: { type: 'application/feed+json; charset=utf-8', render: renderJsonFeed }
+};
+
+module.exports = { FORMATS, lastModified };
@@ -0,0 +1,240 @@
+// RSS 2.0, RSS 1.0 (RDF) and Atom parsing without dependencies. parseXml
+// builds a plain element tree; parseFeed reads entries out of it in one shape
+// for both formats:
+//   { title, link, entries: [{ guid, title, link, summary, content, author,
+//                              publishedAt, categories, imageUrl }] }
+// Text fields are returned as found in the feed (often HTML); turning them into
+// article text is up to the caller (see htmlToText).
+
+const XML_ENTITIES = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+// Named entities feeds commonly leave in escaped HTML
+const HTML_ENTITIES = {
+  ...XML_ENTITIES,
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  rupee: '₹',
+  euro: '€',
+  pound: '£'
+};
+
+function decodeEntities(text, named = XML_ENTITIES) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    const value = named[entity] !== undefined ? named[entity] : named[entity.toLowerCase()];
+    return value !== undefined ? value : match;
+  });
+}
+
+function parseAttributes(source) {
+  const attrs = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1]] = decodeEntities(match[3] !== undefined ? match[3] : match[4]);
+  }
+  return attrs;
+}
+
+// Element tree of an XML document: { name, attrs, children, text }, where
+// `text` is the element's own text and CDATA with entities decoded. Namespace
+// prefixes are kept in names ('media:content'). Throws on markup that does
+// not nest.
+function parseXml(xml) {
+  const root = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack = [root];
+  const source = String(xml).replace(/^﻿/, '');
+  let pos = 0;
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    const current = stack[stack.length - 1];
+    if (lt === -1) {
+      current.text += decodeEntities(source.slice(pos));
+      break;
+    }
+    if (lt > pos) current.text += decodeEntities(source.slice(pos, lt));
+
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt);
+      if (end === -1) throw new Error('Malformed XML: unterminated CDATA section');
+      current.text += source.slice(lt + 9, end);
+      pos = end + 3;
+    } else if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt);
+      if (end === -1) throw new Error('Malformed XML: unterminated comment');
+      pos = end + 3;
+    } else if (source.startsWith('<?', lt)) {
+      const end = source.indexOf('?>', lt);
+      if (end === -1) throw new Error('Malformed XML: unterminated processing instruction');
+      pos = end + 2;
+    } else if (source.startsWith('<!', lt)) {
+      // DOCTYPE; an internal subset ends with ']>'
+      const bracket = source.indexOf('[', lt);
+      const close = source.indexOf('>', lt);
+      const end = bracket !== -1 && bracket < close ? source.indexOf(']>', bracket) + 1 : close;
+      if (end <= 0) throw new Error('Malformed XML: unterminated declaration');
+      pos = end + 1;
+    } else {
+      const end = source.indexOf('>', lt);
+      if (end === -1) throw new Error('Malformed XML: unterminated tag');
+      const tag = source.slice(lt + 1, end);
+
+      if (tag[0] === '/') {
+        const name = tag.slice(1).trim();
+        if (current.name !== name) {
+          throw new Error(`Malformed XML: </${name}> does not close <${current.name}>`);
+        }
+        stack.pop();
+      } else {
+        const selfClosing = tag.endsWith('/');
+        const body = selfClosing ? tag.slice(0, -1) : tag;
+        const nameEnd = body.search(/\s|$/);
+        const element = { name: body.slice(0, nameEnd), attrs: parseAttributes(body.slice(nameEnd)), children: [], text: '' };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  return root;
+}
+
+function child(element, name) {
+  return element.children.find(c => c.name === name);
+}
+
+function children(element, name) {
+  return element.children.filter(c => c.name === name);
+}
+
+function textOf(element, ...names) {
+  for (const name of names) {
+    const found = child(element, name);
+    const text = found && found.text.trim();
+    if (text) return text;
+  }
+  return '';
+}
+
+function isImage(element) {
+  const type = element.attrs.type || '';
+  const medium = element.attrs.medium || '';
+  return medium === 'image' || type.startsWith('image/') || (!type && !medium && /\.(jpe?g|png|gif|webp)(\?|$)/i.test(element.attrs.url || ''));
+}
+
+// Media RSS (media:content, media:thumbnail, also inside media:group),
+// an image enclosure, or the first <img> in the entry's HTML
+function findImage(entry, html) {
+  const media = [...entry.children, ...children(entry, 'media:group').flatMap(g => g.children)];
+  const content = media.find(e => e.name === 'media:content' && e.attrs.url && isImage(e));
+  if (content) return content.attrs.url;
+  const thumbnail = media.find(e => e.name === 'media:thumbnail' && e.attrs.url);
+  if (thumbnail) return thumbnail.attrs.url;
+  const enclosure = children(entry, 'enclosure').find(e => e.attrs.url && (e.attrs.type || '').startsWith('image/'));
+  if (enclosure) return enclosure.attrs.url;
+  const enclosureLink = children(entry, 'link').find(e => e.attrs.rel === 'enclosure' && (e.attrs.type || '').startsWith('image/'));
+  if (enclosureLink) return enclosureLink.attrs.href;
+  const img = /<img[^>]+src\s*=\s*["']([^"']+)["']/i.exec(html);
+  return img ? decodeEntities(img[1]) : '';
+}
+
+// RSS <author> is an email address, often followed by the name in parentheses
+function rssAuthor(item) {
+  const author = textOf(item, 'dc:creator', 'author');
+  const named = /\(([^)]+)\)\s*$/.exec(author);
+  if (named) return named[1].trim();
+  return author.includes('@') && !author.includes(' ') ? '' : author;
+}
+
+function rssEntry(item) {
+  const summary = textOf(item, 'description');
+  const content = textOf(item, 'content:encoded') || summary;
+  const link = textOf(item, 'link') || (item.attrs['rdf:about'] || '');
+  return {
+    guid: textOf(item, 'guid') || link || textOf(item, 'title'),
+    title: textOf(item, 'title'),
+    link,
+    summary,
+    content,
+    author: rssAuthor(item),
+    publishedAt: textOf(item, 'pubDate', 'dc:date'),
+    categories: [...children(item, 'category'), ...children(item, 'dc:subject')].map(c => c.text.trim()).filter(Boolean),
+    imageUrl: findImage(item, content)
+  };
+}
+
+function atomLink(element) {
+  const links = children(element, 'link');
+  const link = links.find(l => (l.attrs.rel || 'alternate') === 'alternate') || links[0];
+  return link ? link.attrs.href || '' : '';
+}
+
+function atomEntry(entry) {
+  const summary = textOf(entry, 'summary');
+  const content = textOf(entry, 'content') || summary;
+  const author = child(entry, 'author');
+  const link = atomLink(entry);
+  return {
+    guid: textOf(entry, 'id') || link,
+    title: textOf(entry, 'title'),
+    link,
+    summary,
+    content,
+    author: author ? textOf(author, 'name') : '',
+    publishedAt: textOf(entry, 'published', 'updated'),
+    categories: children(entry, 'category').map(c => (c.attrs.label || c.attrs.term || '').trim()).filter(Boolean),
+    imageUrl: findImage(entry, content)
+  };
+}
+
+function parseFeed(xml) {
+  const document = parseXml(xml);
+  const root = document.children[0];
+  if (!root) throw new Error('Not an RSS or Atom feed: the document is empty');
+
+  if (root.name === 'feed') {
+    return { title: textOf(root, 'title'), link: atomLink(root), entries: children(root, 'entry').map(atomEntry) };
+  }
+  if (root.name === 'rss' || root.name === 'rdf:RDF') {
+    const channel = child(root, 'channel');
+    if (!channel) throw new Error('Not an RSS feed: <channel> is missing');
+    // RSS 1.0 puts items next to the channel rather than inside it
+    const items = root.name === 'rss' ? children(channel, 'item') : children(root, 'item');
+    return { title: textOf(channel, 'title'), link: textOf(channel, 'link'), entries: items.map(rssEntry) };
+  }
+  throw new Error(`Not an RSS or Atom feed: unexpected <${root.name}> root element`);
+}
+
+// Feed HTML as article text: paragraphs separated by blank lines, the way
+// the article page renders content
+function htmlToText(html) {
+  const text = String(html || '')
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|blockquote|section|article|figure|tr)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '');
+  return decodeEntities(text, HTML_ENTITIES)
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+module.exports = { parseXml, parseFeed, htmlToText };
@@ -0,0 +1,70 @@
+const fs = require('fs');
+const path = require('path');
+
+// The feeds polled for news, one entry per feed:
+//   { id, name, url, category, language }
+// `category` and `language` are the app's (see NewsContext and
+// LanguageContext); `name` is shown as the article's source. FEEDS_FILE
+// replaces this list with a JSON file of the same shape. `url` may be a
+// file path (relative to the server directory) to ingest a local fixture.
+const DEFAULT_SOURCES = [
+  { id: 'bbc-top', name: 'BBC News', url: 'https://feeds.bbci.co.uk/news/rss.xml', category: 'breaking', language: 'en' },
+  { id: 'bbc-world', name: 'BBC News', url: 'https://feeds.bbci.co.uk/news/world/rss.xml', category: 'world', language: 'en' },
+  { id: 'bbc-business', name: 'BBC News', url: 'https://feeds.bbci.co.uk/news/business/rss.xml', category: 'business', language: 'en' },
+  { id: 'bbc-technology', name: 'BBC News', url: 'https://feeds.bbci.co.uk/news/technology/rss.xml', category: 'technology', language: 'en' },
+  { id: 'bbc-health', name: 'BBC News', url: 'https://feeds.bbci.co.uk/news/health/rss.xml', category: 'health', language: 'en' },
+  { id: 'bbc-entertainment', name: 'BBC News', url: 'https://feeds.bbci.co.uk/news/entertainment_and_arts/rss.xml', category: 'entertainment', language: 'en' },
+  { id: 'hindu-national', name: 'The Hindu', url: 'https://www.thehindu.com/news/national/feeder/default.rss', category: 'india', language: 'en' },
+  { id: 'hindu-sport', name: 'The Hindu', url: 'https://www.thehindu.com/sport/feeder/default.rss', category: 'sports', language: 'en' },
+  { id: 'ie-politics', name: 'The Indian Express', url: 'https://indianexpress.com/section/political-pulse/feed/', category: 'politics', language: 'en' },
+  { id: 'bbc-hindi', name: 'BBC हिन्दी', url: 'https://feeds.bbci.co.uk/hindi/rss.xml', category: 'india', language: 'hi' },
+  { id: 'bbc-bengali', name: 'BBC বাংলা', url: 'https://feeds.bbci.co.uk/bengali/rss.xml', category: 'india', language: 'bn' },
+  { id: 'bbc-tamil', name: 'BBC தமிழ்', url: 'https://feeds.bbci.co.uk/tamil/rss.xml', category: 'india', language: 'ta' },
+  { id: 'bbc-telugu', name: 'BBC తెలుగు', url: 'https://feeds.bbci.co.uk/telugu/rss.xml', category: 'india', language: 'te' },
+  { id: 'bbc-gujarati', name: 'BBC ગુજરાતી', url: 'https://feeds.bbci.co.uk/gujarati/rss.xml', category: 'india', language: 'gu' },
+  { id: 'bbc-marathi', name: 'BBC मराठी', url: 'https://feeds.bbci.co.uk/marathi/rss.xml', category: 'india', language: 'mr' },
+  { id: 'bbc-punjabi', name: 'BBC ਪੰਜਾਬੀ', url: 'https://feeds.bbci.co.uk/punjabi/rss.xml', category: 'india', language: 'pa' }
+];
+
+// Shown for entries whose feed carries no image
+const CATEGORY_IMAGES = {
+  default: 'https://images.pexels.com/photos/518543/pexels-photo-518543.jpeg?auto=compress&cs=tinysrgb&w=800',
+  india: 'https://images.pexels.com/photos/1181467/pexels-photo-1181467.jpeg?auto=compress&cs=tinysrgb&w=800',
+  politics: 'https://images.pexels.com/photos/1181533/pexels-photo-1181533.jpeg?auto=compress&cs=tinysrgb&w=800',
+  business: 'https://images.pexels.com/photos/273230/pexels-photo-273230.jpeg?auto=compress&cs=tinysrgb&w=800',
+  technology: 'https://images.pexels.com/photos/1484771/pexels-photo-1484771.jpeg?auto=compress&cs=tinysrgb&w=800'
+};
+
+const REQUIRED_FIELDS = ['id', 'name', 'url', 'category', 'language'];
+
+function validate(sources, origin) {
+  if (!Array.isArray(sources)) throw new Error(`${origin} must contain a JSON array of feeds`);
+  const seen = new Set();
+  for (const source of sources) {
+    const missing = REQUIRED_FIELDS.filter(field => !source || !source[field]);
+    if (missing.length > 0) {
+      throw new Error(`${origin}: feed ${JSON.stringify(source)} is missing ${missing.join(', ')}`);
+    }
+    if (seen.has(source.id)) throw new Error(`${origin}: duplicate feed id "${source.id}"`);
+    seen.add(source.id);
+  }
+  return sources;
+}
+
+function loadSources() {
+  if (!process.env.FEEDS_FILE) return DEFAULT_SOURCES;
+  const file = path.resolve(__dirname, '..', '..', process.env.FEEDS_FILE);
+  return validate(JSON.parse(fs.readFileSync(file, 'utf8')), 'FEEDS_FILE');
+}
+
+const SOURCES = loadSources();
+
+function findSource(id) {
+  return SOURCES.find(source => source.id === id);
+}
+
+function fallbackImage(category) {
+  return CATEGORY_IMAGES[category] || CATEGORY_IMAGES.default;
+}
+
+module.exports = { SOURCES, findSource, fallbackImage };
@@ -0,0 +1,159 @@
+const { collection } = require('../db');
+const { findPlan } = require('./plans');
+const { activateSubscription, entitledSubscription, startTrial, recordCharge, updateSubscription } = require('./subscriptions');
+const { confirmRedemption, releaseRedemption } = require('./coupons');
+const { issueGiftCode } = require('./gifts');
+const { issueInvoice } = require('./invoices');
+const { qualifyReferral } = require('./referrals');
+const { updateOrder, refundRejected } = require('./refunds');
+const { cancelImmediately } = require('./cancellation');
+const { completePlanChange } = require('./planChange');
+
+const orders = collection('orders');
+
+// Why a paid checkout was not fulfilled, for the customer
+const REJECTION_MESSAGES = {
+  already_subscribed: 'You already have an active subscription',
+  coupon_unavailable: 'The coupon on this checkout can no longer be used',
+  trial_already_used: 'Each account can take one free trial'
+};
+
+// Checks a provider payment against the stored order and the catalog price
+// (less the coupon discount, if one was applied).
+// Returns the name of the first mismatching field, or null.
+function paymentMismatch(order, payment) {
+  const plan = findPlan(order.planId);
+  if (payment.order_id !== order.id) return 'order';
+  if (payment.status !== 'captured') return 'status';
+  if (!plan || payment.amount !== plan.amount - (order.discount || 0)) return 'amount';
+  if (payment.currency !== plan.currency) return 'currency';
+  return null;
+}
+
+// The payment arrived but the order may no longer be fulfilled (e.g. the user
+// subscribed through another checkout meanwhile): the money goes back
+function rejectOrder(order, payment, reason) {
+  if (order.couponCode) releaseRedemption({ orderId: order.id });
+  const rejected = updateOrder(order.id, {
+    status: 'rejected',
+    rejectionReason: reason,
+    rejectedPaymentId: payment.id,
+    refundPending: true,
+    rejectedAt: new Date().toISOString()
+  });
+  refundRejected(rejected, updateOrder);
+  return { order: rejected, rejected: reason };
+}
+
+// The same for a recurring checkout: the record is voided, the provider
+// subscription cancelled so it never charges again, and the payment refunded
+function rejectSubscription(subscription, payment, reason) {
+  if (subscription.couponCode) releaseRedemption({ subscriptionId: subscription.id });
+  const rejected = cancelImmediately(subscription, {
+    status: 'rejected',
+    rejectionReason: reason,
+    rejectedAt: new Date().toISOString(),
+    ...(payment ? { rejectedPaymentId: payment.id, refundPending: true } : {})
+  });
+  if (payment) refundRejected(rejected, updateSubscription);
+  return { subscription: rejected, rejected: reason };
+}
+
+// Starts a trial once its payment method is authorized (see startTrial), from
+// either /api/subscription/verify or the subscription.authenticated webhook
+function fulfillTrial(subscription) {
+  const result = startTrial(subscription);
+  if (result.rejected && result.subscription.status !== 'rejected') {
+    return rejectSubscription(subscription, null, result.rejected);
+  }
+  return result;
+}
+
+// Records a charge on a provider subscription (see recordCharge) from either
+// /api/subscription/verify or the subscription.charged webhook. A first charge
+// that replaces a subscription ends the old one.
+function fulfillCharge(subscription, payment, period) {
+  const result = recordCharge(subscription, payment, period);
+  if (result.rejected && result.subscription.status !== 'rejected') {
+    return rejectSubscription(subscription, payment, result.rejected);
+  }
+  if (result.activated) {
+    completePlanChange(result.subscription);
+    qualifyReferral(result.subscription.userId, 'subscribed');
+  }
+  return result;
+}
+
+// Grants the plan bought by `order`, or for a gift order issues the gift code.
+// Safe to call from both /api/verify and the webhook: whichever arrives second
+// finds the order already paid (or already rejected).
+function fulfillOrder(order, payment) {
+  const current = orders.get(order.id);
+  if (current.status === 'paid') {
+    return { order: current, subscription: null, alreadyFulfilled: true };
+  }
+  if (current.status === 'rejected') {
+    return { order: current, rejected: current.rejectionReason };
+  }
+
+  const mismatch = paymentMismatch(current, payment);
+  if (mismatch) {
+    console.warn('Payment rejected:', {
+      orderId: current.id,
+      paymentId: payment.id,
+      mismatch,
+      received: { amount: payment.amount, currency: payment.currency, status: payment.status }
+    });
+    return { order: current, mismatch };
+  }
+
+  if (current.gift) {
+    const gift = issueGiftCode(current, payment);
+    const plan = findPlan(current.planId);
+    const invoice = issueInvoice({
+      userId: current.userId,
+      payment,
+      description: `SignalAI ${plan.name} gift (one ${plan.interval})`,
+      ref: { orderId: current.id }
+    });
+    const updated = orders.update(current.id, {
+      status: 'paid',
+      paymentId: payment.id,
+      giftCode: gift.code,
+      invoiceId: invoice && invoice.id,
+      paidAt: new Date().toISOString()
+    });
+    return { order: updated, gift };
+  }
+
+  // Checked again now: another checkout may have been paid since this order
+  // was made, or taken over its coupon
+  if (entitledSubscription(current.userId)) {
+    return rejectOrder(current, payment, 'already_subscribed');
+  }
+  if (current.couponCode && confirmRedemption({ orderId: current.id }).error) {
+    return rejectOrder(current, payment, 'coupon_unavailable');
+  }
+
+  const plan = findPlan(current.planId);
+  const subscription = activateSubscription({ userId: current.userId, plan, order: current, payment });
+  const invoice = issueInvoice({
+    userId: current.userId,
+    payment,
+    description: `SignalAI ${plan.name} subscription`,
+    period: { start: subscription.startDate, end: subscription.endDate },
+    ref: { orderId: current.id, subscriptionId: subscription.id }
+  });
+  const updated = orders.update(current.id, {
+    status: 'paid',
+    paymentId: payment.id,
+    subscriptionId: subscription.id,
+    invoiceId: invoice && invoice.id,
+    paidAt: new Date().toISOString()
+  });
+  qualifyReferral(current.userId, 'subscribed');
+
+  return { order: updated, subscription };
+}
+
+module.exports = { REJECTION_MESSAGES, paymentMismatch, fulfillOrder, fulfillTrial, fulfillCharge, rejectSubscription };
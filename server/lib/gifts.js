@@ -0,0 +1,105 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { findPlan } = require('./plans');
+const { ENTITLED_STATUSES, currentForUser, activateGiftSubscription } = require('./subscriptions');
+const { queueNotification, deliverQueued } = require('./notifications');
+
+// Gift codes: one record per code, keyed by the code itself. A code moves from
+// 'issued' to 'redeemed' exactly once; the record keeps who bought it, who
+// redeemed it and the subscription it became.
+const giftCodes = collection('gift_codes');
+const users = collection('users');
+
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 12;
+
+function randomCode() {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  const chars = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `GIFT-${chars.match(/.{4}/g).join('-')}`;
+}
+
+// Accepts codes typed in any case, with or without the dashes and prefix
+function normalizeCode(input) {
+  const chars = String(input || '').toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/^GIFT/, '');
+  if (chars.length !== CODE_LENGTH) return null;
+  return `GIFT-${chars.match(/.{4}/g).join('-')}`;
+}
+
+// Called once the gift order is paid (see fulfillment.js). The buyer always
+// gets the code by email; the recipient too, if the buyer gave an address.
+function issueGiftCode(order, payment) {
+  const plan = findPlan(order.planId);
+  const buyer = users.get(order.userId);
+
+  let code = randomCode();
+  while (giftCodes.get(code)) code = randomCode();
+
+  const gift = giftCodes.insert({
+    id: code,
+    code,
+    planId: plan.id,
+    purchaserId: order.userId,
+    orderId: order.id,
+    paymentId: payment.id,
+    amount: payment.amount,
+    currency: payment.currency,
+    recipientEmail: order.gift.recipientEmail || null,
+    recipientName: order.gift.recipientName || null,
+    message: order.gift.message || null,
+    status: 'issued',
+    createdAt: new Date().toISOString()
+  });
+
+  const details = { code, planId: plan.id, planName: plan.name };
+  queueNotification({ ...details, type: 'gift_purchased', userId: order.userId, recipientEmail: gift.recipientEmail });
+  if (gift.recipientEmail) {
+    queueNotification({
+      ...details,
+      type: 'gift_received',
+      to: gift.recipientEmail,
+      recipientName: gift.recipientName,
+      senderName: (buyer && buyer.fullName.trim()) || 'A SignalAI reader',
+      message: gift.message
+    });
+  }
+  deliverQueued().catch(error => console.error('Gift email delivery failed:', error));
+
+  return gift;
+}
+
+// Turns a code into a subscription for `userId`. Returns { gift, subscription },
+// or { error, status } with the HTTP status the route should answer with.
+function redeemGiftCode(input, userId) {
+  const code = normalizeCode(input);
+  const gift = code && giftCodes.get(code);
+  if (!gift) {
+    return { error: 'This gift code is not valid', status: 404 };
+  }
+  if (gift.status !== 'issued') {
+    return { error: 'This gift code has already been redeemed', status: 409 };
+  }
+
+  const current = currentForUser(userId);
+  if (current && ENTITLED_STATUSES.includes(current.status)) {
+    return {
+      error: 'You already have an active subscription. Redeem the code once it has ended, or pass it on.',
+      status: 409
+    };
+  }
+
+  // Claimed before the subscription exists, so the same code can never grant two
+  const claimed = giftCodes.update(gift.id, { status: 'redeemed', redeemedBy: userId, redeemedAt: new Date().toISOString() });
+  const subscription = activateGiftSubscription({ userId, plan: findPlan(gift.planId), giftCode: gift.code });
+  return { gift: giftCodes.update(claimed.id, { subscriptionId: subscription.id }), subscription };
+}
+
+// Gifts a user has bought, newest first
+function giftsPurchasedBy(userId) {
+  return giftCodes
+    .filter(g => g.purchaserId === userId)
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+module.exports = { issueGiftCode, redeemGiftCode, giftsPurchasedBy };
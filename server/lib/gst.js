@@ -0,0 +1,110 @@
+// GST rules for invoicing. Catalog prices include GST; an invoice splits each
+// amount into its taxable value and tax. Supplies within the seller's state
+// carry CGST + SGST at half the rate each, supplies to another state carry IGST.
+
+// SAC for online text-based information services (online newspapers and periodicals)
+const SAC_CODE = '998431';
+const GST_RATE = Number(process.env.GST_RATE) || 18;
+
+// GST state codes, as used in the first two digits of a GSTIN
+const STATES = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory'
+};
+
+const SELLER = {
+  name: process.env.GST_SELLER_NAME || 'SignalAI News',
+  gstin: process.env.GST_SELLER_GSTIN || null,
+  address: process.env.GST_SELLER_ADDRESS || null,
+  stateCode: process.env.GST_SELLER_STATE || '29'
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Format, state code and the mod-36 check digit
+function isValidGstin(gstin) {
+  if (!GSTIN_PATTERN.test(gstin) || !STATES[gstin.slice(0, 2)]) return false;
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARS.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36] === gstin[14];
+}
+
+function stateName(code) {
+  return STATES[code] || null;
+}
+
+// Where the supply is taxed: the state in the buyer's GSTIN, else their billing
+// state, else the seller's own state when the buyer's location is unknown
+function placeOfSupply(buyer = {}) {
+  if (buyer.gstin) return buyer.gstin.slice(0, 2);
+  return buyer.stateCode || SELLER.stateCode;
+}
+
+// Splits a GST-inclusive amount (paise) into taxable value and tax lines
+function taxBreakdown(total, supplyStateCode) {
+  const taxableValue = Math.round(total * 100 / (100 + GST_RATE));
+  const tax = total - taxableValue;
+
+  if (supplyStateCode === SELLER.stateCode) {
+    const cgst = Math.floor(tax / 2);
+    return {
+      supplyType: 'intra_state',
+      taxableValue,
+      cgst: { rate: GST_RATE / 2, amount: cgst },
+      sgst: { rate: GST_RATE / 2, amount: tax - cgst },
+      igst: { rate: 0, amount: 0 },
+      totalTax: tax,
+      total
+    };
+  }
+  return {
+    supplyType: 'inter_state',
+    taxableValue,
+    cgst: { rate: 0, amount: 0 },
+    sgst: { rate: 0, amount: 0 },
+    igst: { rate: GST_RATE, amount: tax },
+    totalTax: tax,
+    total
+  };
+}
+
+module.exports = { SAC_CODE, GST_RATE, STATES, SELLER, isValidGstin, stateName, placeOfSupply, taxBreakdown };
@@ -0,0 +1,151 @@
+// Renders an invoice (see invoices.js) as a single-page A4 PDF. The layout is
+// plain text and rules in the built-in Helvetica fonts, so no PDF library or
+// embedded font is needed; anything outside Latin-1 is replaced.
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+function pdfString(text) {
+  const latin1 = String(text).replace(/₹/g, 'Rs.').replace(/[^\x20-\xff]/g, '?');
+  return `(${latin1.replace(/[\\()]/g, ch => `\\${ch}`)})`;
+}
+
+function money(paise) {
+  return `Rs. ${(paise / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(iso) {
+  return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// Collects drawing operations top-down, y measured from the top of the page
+function createPage() {
+  const ops = [];
+  return {
+    ops,
+    text(x, y, value, { bold = false, size = 10, align = 'left' } = {}) {
+      // Rough Helvetica advance width, good enough to right-align figures
+      const width = align === 'right' ? String(value).length * size * 0.5 : 0;
+      ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${(x - width).toFixed(1)} ${PAGE_HEIGHT - y} Td ${pdfString(value)} Tj ET`);
+    },
+    rule(y) {
+      ops.push(`${MARGIN} ${PAGE_HEIGHT - y} m ${PAGE_WIDTH - MARGIN} ${PAGE_HEIGHT - y} l 0.5 w S`);
+    }
+  };
+}
+
+function layout(invoice) {
+  const page = createPage();
+  const right = PAGE_WIDTH - MARGIN;
+  let y = MARGIN + 10;
+
+  page.text(MARGIN, y, 'TAX INVOICE', { bold: true, size: 18 });
+  page.text(right, y, invoice.number, { bold: true, size: 12, align: 'right' });
+  y += 18;
+  page.text(right, y, `Date: ${formatDate(invoice.issuedAt)}`, { align: 'right' });
+  y += 24;
+
+  const party = (x, title, details) => {
+    let line = y;
+    page.text(x, line, title, { bold: true });
+    for (const value of details.filter(Boolean)) {
+      line += 14;
+      page.text(x, line, value);
+    }
+    return line;
+  };
+  const sellerEnd = party(MARGIN, 'Sold by', [
+    invoice.seller.name,
+    invoice.seller.address,
+    invoice.seller.state && `State: ${invoice.seller.state} (${invoice.seller.stateCode})`,
+    `GSTIN: ${invoice.seller.gstin || 'Not registered'}`
+  ]);
+  const buyerEnd = party(PAGE_WIDTH / 2, 'Billed to', [
+    invoice.buyer.name,
+    invoice.buyer.email,
+    invoice.buyer.address,
+    invoice.buyer.state && `State: ${invoice.buyer.state} (${invoice.buyer.stateCode})`,
+    invoice.buyer.gstin && `GSTIN: ${invoice.buyer.gstin}`
+  ]);
+  y = Math.max(sellerEnd, buyerEnd) + 24;
+
+  page.text(MARGIN, y, `Place of supply: ${invoice.placeOfSupply.state} (${invoice.placeOfSupply.stateCode})`);
+  page.text(right, y, `Reverse charge: ${invoice.reverseCharge ? 'Yes' : 'No'}`, { align: 'right' });
+  y += 24;
+
+  page.rule(y - 12);
+  page.text(MARGIN, y, 'Description', { bold: true });
+  page.text(330, y, 'SAC', { bold: true });
+  page.text(390, y, 'Qty', { bold: true });
+  page.text(right, y, 'Taxable value', { bold: true, align: 'right' });
+  y += 8;
+  page.rule(y);
+
+  for (const item of invoice.items) {
+    y += 16;
+    page.text(MARGIN, y, item.description);
+    page.text(330, y, item.sac);
+    page.text(390, y, String(item.quantity));
+    page.text(right, y, money(item.taxableValue), { align: 'right' });
+    if (item.period) {
+      y += 13;
+      page.text(MARGIN, y, `${formatDate(item.period.start)} to ${formatDate(item.period.end)}`, { size: 8 });
+    }
+  }
+  y += 10;
+  page.rule(y);
+
+  const totals = [
+    ['Taxable value', money(invoice.taxableValue)],
+    ...(invoice.supplyType === 'intra_state'
+      ? [
+          [`CGST @ ${invoice.cgst.rate}%`, money(invoice.cgst.amount)],
+          [`SGST @ ${invoice.sgst.rate}%`, money(invoice.sgst.amount)]
+        ]
+      : [[`IGST @ ${invoice.igst.rate}%`, money(invoice.igst.amount)]])
+  ];
+  for (const [label, value] of totals) {
+    y += 16;
+    page.text(390, y, label);
+    page.text(right, y, value, { align: 'right' });
+  }
+  y += 20;
+  page.text(390, y, 'Total', { bold: true, size: 12 });
+  page.text(right, y, money(invoice.total), { bold: true, size: 12, align: 'right' });
+
+  y += 40;
+  page.text(MARGIN, y, `Payment reference: ${invoice.paymentId}`, { size: 8 });
+  y += 12;
+  page.text(MARGIN, y, 'This is a computer-generated invoice and does not require a signature.', { size: 8 });
+
+  return page.ops.join('\n');
+}
+
+// Assembles the PDF objects and the cross-reference table
+function renderInvoicePdf(invoice) {
+  const content = layout(invoice);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+module.exports = { renderInvoicePdf };
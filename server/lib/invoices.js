@@ -0,0 +1,92 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { SAC_CODE, SELLER, stateName, placeOfSupply, taxBreakdown } = require('./gst');
+
+// Tax invoices, one per captured payment. Numbers run consecutively within
+// each Indian financial year (April to March), e.g. SAI/26-27/000042, and an
+// invoice is never changed once issued.
+const invoices = collection('invoices');
+const sequences = collection('invoice_sequences');
+const users = collection('users');
+
+const INVOICE_PREFIX = process.env.INVOICE_PREFIX || 'SAI';
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// Financial year of `date` in India time, e.g. '2026-27'
+function financialYear(date) {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+}
+
+function nextInvoiceNumber(date) {
+  const year = financialYear(date);
+  const sequence = sequences.get(year) || sequences.insert({ id: year, last: 0 });
+  const { last } = sequences.update(year, { last: sequence.last + 1 });
+  return `${INVOICE_PREFIX}/${year.slice(2)}/${String(last).padStart(6, '0')}`;
+}
+
+// Billing details the buyer saved (see routes/billing.js), frozen onto the invoice
+function buyerDetails(user) {
+  const billing = user.billing || {};
+  return {
+    name: billing.legalName || user.fullName.trim(),
+    email: user.email,
+    gstin: billing.gstin || null,
+    address: billing.address || null,
+    stateCode: billing.gstin ? billing.gstin.slice(0, 2) : billing.stateCode || null
+  };
+}
+
+// Issues the invoice for a captured payment. Safe to call more than once for
+// the same payment (verify and the webhook both report it): the first call wins.
+// `description` names what was bought, `period` ({ start, end }) the service
+// period it pays for; `ref` links back to the order or subscription.
+function issueInvoice({ userId, payment, description, period = null, ref = {} }) {
+  const existing = invoices.find(i => i.paymentId === payment.id);
+  if (existing) return existing;
+
+  const user = users.get(userId);
+  if (!user || !(payment.amount > 0)) return null;
+
+  const issuedAt = new Date();
+  const buyer = buyerDetails(user);
+  const supplyStateCode = placeOfSupply(buyer);
+  const tax = taxBreakdown(payment.amount, supplyStateCode);
+
+  return invoices.insert({
+    id: `inv_${crypto.randomBytes(8).toString('hex')}`,
+    number: nextInvoiceNumber(issuedAt),
+    userId,
+    paymentId: payment.id,
+    ...ref,
+    issuedAt: issuedAt.toISOString(),
+    currency: payment.currency,
+    seller: { ...SELLER, state: stateName(SELLER.stateCode) },
+    buyer: { ...buyer, state: stateName(buyer.stateCode) },
+    placeOfSupply: { stateCode: supplyStateCode, state: stateName(supplyStateCode) },
+    reverseCharge: false,
+    items: [{
+      description,
+      sac: SAC_CODE,
+      quantity: 1,
+      period,
+      taxableValue: tax.taxableValue,
+      total: tax.total
+    }],
+    ...tax
+  });
+}
+
+function invoicesFor(userId) {
+  return invoices
+    .filter(i => i.userId === userId)
+    .sort((a, b) => Date.parse(b.issuedAt) - Date.parse(a.issuedAt));
+}
+
+function findInvoice(id, userId) {
+  const invoice = invoices.get(id);
+  return invoice && invoice.userId === userId ? invoice : null;
+}
+
+module.exports = { issueInvoice, invoicesFor, findInvoice };
@@ -0,0 +1,35 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { DATA_DIR } = require('../../db');
+
+// Local stand-in for a mail service: each message is written to the outbox
+// directory as an .eml file, which any mail client can open.
+const OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.join(DATA_DIR, 'outbox');
+
+// A header value on one line, so a line break in it cannot start another header
+function header(value) {
+  return String(value).replace(/[\r\n]+/g, ' ');
+}
+
+module.exports = {
+  name: 'file',
+
+  async send({ from, to, subject, text }) {
+    const id = `${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+    const message = [
+      `From: ${header(from)}`,
+      `To: ${header(to)}`,
+      `Subject: ${header(subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${id}@signalai.local>`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      text
+    ].join('\r\n');
+
+    fs.mkdirSync(OUTBOX_DIR, { recursive: true });
+    fs.writeFileSync(path.join(OUTBOX_DIR, `${id}.eml`), message);
+    return { id };
+  }
+};
@@ -0,0 +1,17 @@
+// Outgoing email, sent through the transport selected by MAILER ('file' by default).
+// Every transport implements:
+//   name
+//   send({ from, to, subject, text }) → { id }
+//     (subjects carry names people typed in, so header fields must be kept to one line)
+// To deliver real email, add a transport here (SMTP, SES, ...) with the same shape.
+const transports = {
+  file: require('./file')
+};
+
+const transportName = (process.env.MAILER || 'file').toLowerCase();
+
+if (!transports[transportName]) {
+  throw new Error(`Unknown MAILER "${transportName}" (expected: ${Object.keys(transports).join(', ')})`);
+}
+
+module.exports = transports[transportName];
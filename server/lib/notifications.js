@@ -0,0 +1,147 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const mailer = require('./mailer');
+
+// Outgoing user notifications. Features queue them here; deliverQueued()
+// renders each one as an email and hands it to the mailer. It runs with the
+// renewal job, and right after anything that should go out immediately.
+const notifications = collection('notifications');
+const users = collection('users');
+
+const MAIL_FROM = process.env.MAIL_FROM || 'SignalAI News <no-reply@signalai.news>';
+// Where links in emails point (the web app, not this API)
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+const MAX_ATTEMPTS = 5;
+// Fields only the email itself needs, such as a verification token. They are
+// dropped once the notification is sent or given up on.
+const SECRET_FIELDS = ['token'];
+
+function formatAmount(paise) {
+  return `₹${(paise / 100).toLocaleString('en-IN')}`;
+}
+
+function formatDate(iso) {
+  return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+function redeemLink(code) {
+  return `${APP_URL}/subscription/redeem?code=${encodeURIComponent(code)}`;
+}
+
+// Subject and body for each notification type
+const TEMPLATES = {
+  renewal_reminder: n => ({
+    subject: `Your ${n.planName} subscription renews on ${formatDate(n.chargeDate)}`,
+    text: `Your SignalAI ${n.planName} subscription renews on ${formatDate(n.chargeDate)}. ` +
+      `We will charge ${formatAmount(n.amount)} to your saved payment method.\n\n` +
+      `Manage your subscription: ${APP_URL}/subscription`
+  }),
+  trial_ending: n => ({
+    subject: `Your ${n.planName} trial ends on ${formatDate(n.chargeDate)}`,
+    text: `Your free SignalAI ${n.planName} trial ends on ${formatDate(n.chargeDate)}. ` +
+      `Your subscription then starts at ${formatAmount(n.amount)}, charged to the payment method you added.\n\n` +
+      `Not for you? Cancel before then: ${APP_URL}/subscription`
+  }),
+  plan_change_due: n => ({
+    subject: `Start your SignalAI ${n.planName} plan`,
+    text: `Your SignalAI ${n.fromPlanName} term ended on ${formatDate(n.endDate)}. It does not renew on its own, ` +
+      `so the switch to ${n.planName} you scheduled starts when you check out ` +
+      `(${formatAmount(n.amount)} per ${n.interval}):\n\n${APP_URL}/subscription`
+  }),
+  gift_purchased: n => ({
+    subject: `Your SignalAI ${n.planName} gift code`,
+    text: `Thank you for gifting SignalAI ${n.planName}.\n\n` +
+      `Gift code: ${n.code}\n\n` +
+      (n.recipientEmail
+        ? `We have also sent the code to ${n.recipientEmail}.`
+        : `Share the code with the person you are gifting. They can redeem it at ${redeemLink(n.code)}`)
+  }),
+  gift_received: n => ({
+    subject: `${n.senderName} sent you SignalAI ${n.planName}`,
+    text: `${n.recipientName ? `Hi ${n.recipientName},\n\n` : ''}` +
+      `${n.senderName} has gifted you SignalAI ${n.planName}.\n\n` +
+      (n.message ? `"${n.message}"\n\n` : '') +
+      `Gift code: ${n.code}\n` +
+      `Redeem it here: ${redeemLink(n.code)}`
+  }),
+  verify_email: n => ({
+    subject: 'Confirm your SignalAI email address',
+    text: `Welcome to SignalAI News! Confirm your email address to finish setting up your account:\n\n` +
+      `${APP_URL}/verify-email?token=${encodeURIComponent(n.token)}\n\n` +
+      `The link expires in ${n.expiresInDays} days.`
+  }),
+  seat_invite: n => ({
+    subject: `${n.ownerName} added you to their SignalAI ${n.planName} plan`,
+    text: `${n.ownerName} has given you a seat on their SignalAI ${n.planName} plan.\n\n` +
+      `Sign in or create an account with this email address to start reading: ${APP_URL}`
+  })
+};
+
+// `fields` needs a `type` from TEMPLATES and either a `userId` or a `to` address
+function queueNotification(fields) {
+  return notifications.insert({
+    id: `ntf_${crypto.randomBytes(8).toString('hex')}`,
+    status: 'queued',
+    attempts: 0,
+    ...fields,
+    createdAt: new Date().toISOString()
+  });
+}
+
+function withoutSecrets(updates) {
+  return { ...updates, ...Object.fromEntries(SECRET_FIELDS.map(field => [field, null])) };
+}
+
+function recipientOf(notification) {
+  if (notification.to) return notification.to;
+  const user = users.get(notification.userId);
+  return user ? user.email : null;
+}
+
+// Sends everything still queued. A failed send stays queued for the next run
+// until MAX_ATTEMPTS; a notification that can never be sent is marked failed.
+async function deliverQueued() {
+  let sent = 0;
+  for (const notification of notifications.filter(n => n.status === 'queued')) {
+    const to = recipientOf(notification);
+    const template = TEMPLATES[notification.type];
+    if (!to || !template) {
+      notifications.update(notification.id, withoutSecrets({
+        status: 'failed',
+        lastError: to ? `No template for ${notification.type}` : 'No recipient address'
+      }));
+      continue;
+    }
+
+    // Claimed before the await so an overlapping run does not send it twice
+    notifications.update(notification.id, { status: 'sending' });
+    try {
+      const message = await mailer.send({ from: MAIL_FROM, to, ...template(notification) });
+      notifications.update(notification.id, withoutSecrets({
+        status: 'sent',
+        to,
+        messageId: message.id,
+        sentAt: new Date().toISOString()
+      }));
+      sent++;
+    } catch (error) {
+      const attempts = (notification.attempts || 0) + 1;
+      console.error(`Notification ${notification.id} failed to send:`, error);
+      const updates = { status: attempts >= MAX_ATTEMPTS ? 'failed' : 'queued', attempts, lastError: error.message };
+      notifications.update(notification.id, updates.status === 'failed' ? withoutSecrets(updates) : updates);
+    }
+  }
+  return sent;
+}
+
+// A send cut short by a crash or restart leaves its notification 'sending'.
+// Nothing is being sent yet when the server starts, so those go back in the queue.
+function requeueInterrupted() {
+  const interrupted = notifications.filter(n => n.status === 'sending');
+  for (const notification of interrupted) {
+    notifications.update(notification.id, { status: 'queued' });
+  }
+  return interrupted.length;
+}
+
+module.exports = { APP_URL, queueNotification, deliverQueued, requeueInterrupted };
@@ -0,0 +1,30 @@
+// Payment provider selected by PAYMENT_PROVIDER ('razorpay' by default, or 'mock').
+// Every provider implements:
+//   name, isConfigured(), publicKey()
+//   createOrder({ amount, currency, receipt, notes }) → { id, amount, currency }
+//   verifySignature({ orderId, paymentId, signature }) → boolean
+//   fetchPayment(paymentId) → { id, order_id, amount, currency, status, ... }
+//   refund(paymentId, { amount, notes }) → { id, payment_id, amount, status }
+// Recurring billing (the provider charges each cycle and reports it via webhooks):
+//   createSubscription({ plan, notes, startAt, upfrontAmount }) → { id, status }
+//     (startAt delays the first plan charge; upfrontAmount is charged at checkout instead)
+//   verifySubscriptionSignature({ subscriptionId, paymentId, signature }) → boolean
+//   fetchSubscription(subscriptionId) → { id, status, current_start, current_end, charge_at }
+//   cancelSubscription(subscriptionId, { atCycleEnd }) → { id, status }
+//   resumeSubscription(subscriptionId) → { id, status }  (withdraws a cycle-end cancellation)
+//   changeSubscriptionPlan(subscriptionId, { plan, atCycleEnd }) → { id, status }
+//   cancelScheduledChange(subscriptionId) → { id, status }
+// Optional:
+//   processDueCharges() — runs charges the provider would make on its own (mock only)
+const providers = {
+  razorpay: require('./razorpay'),
+  mock: require('./mock')
+};
+
+const providerName = (process.env.PAYMENT_PROVIDER || 'razorpay').toLowerCase();
+
+if (!providers[providerName]) {
+  throw new Error(`Unknown PAYMENT_PROVIDER "${providerName}" (expected: ${Object.keys(providers).join(', ')})`);
+}
+
+module.exports = providers[providerName];
@@ -0,0 +1,359 @@
+const crypto = require('crypto');
+const { collection } = require('../../db');
+const { addInterval } = require('../subscriptions');
+
+// Offline stand-in for Razorpay. Outcomes are chosen explicitly by scenario
+// rather than at random, so the same checkout always behaves the same way:
+//   success  — payment is captured immediately
+//   failure  — payment fails and a payment.failed event is dispatched
+//   dismiss  — handled entirely by the client adapter (checkout closed)
+//   delayed  — payment is authorized now and captured after MOCK_CAPTURE_DELAY_MS,
+//              at which point a payment.captured (or subscription.charged) event is dispatched
+// Subscription renewals are charged by processDueCharges() once charge_at passes,
+// succeeding or failing per MOCK_RENEWAL_SCENARIO. Failed renewals are retried
+// every MOCK_RENEWAL_RETRY_MS and the subscription halts after MOCK_RENEWAL_RETRIES,
+// like Razorpay's own dunning. MOCK_BILLING_CYCLE_MS shortens the billing
+// cycle (e.g. 60000 to renew every minute) for trying renewals out locally.
+const SCENARIOS = ['success', 'failure', 'dismiss', 'delayed'];
+const SECRET = process.env.MOCK_PAYMENT_SECRET || 'mock_payment_secret';
+const CAPTURE_DELAY_MS = parseInt(process.env.MOCK_CAPTURE_DELAY_MS, 10) || 5000;
+const BILLING_CYCLE_MS = parseInt(process.env.MOCK_BILLING_CYCLE_MS, 10) || 0;
+const RENEWAL_RETRIES = parseInt(process.env.MOCK_RENEWAL_RETRIES, 10) || 3;
+const RENEWAL_RETRY_MS = parseInt(process.env.MOCK_RENEWAL_RETRY_MS, 10) || 24 * 60 * 60 * 1000;
+// What authenticating a payment method for a trial charges (and refunds): ₹5
+const AUTH_AMOUNT = 500;
+
+const mockOrders = collection('mock_orders');
+const mockPayments = collection('mock_payments');
+const mockRefunds = collection('mock_refunds');
+const mockSubscriptions = collection('mock_subscriptions');
+
+function mockId(prefix) {
+  return `${prefix}_mock_${crypto.randomBytes(7).toString('hex')}`;
+}
+
+function sign(first, second) {
+  return crypto.createHmac('sha256', SECRET).update(`${first}|${second}`).digest('hex');
+}
+
+function unixNow() {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Mirrors what Razorpay would POST to our webhook endpoint;
+// `entities` is e.g. { payment } or { subscription, payment }
+function dispatchEvent(eventName, entities) {
+  // Required lazily: the webhook handlers depend on modules that load this provider
+  const { handleEvent } = require('../webhooks');
+  const payload = {};
+  for (const [name, entity] of Object.entries(entities)) {
+    payload[name] = { entity };
+  }
+  try {
+    const result = handleEvent({ event: eventName, payload });
+    console.log(`[mock-payments] ${eventName}:`, result);
+  } catch (error) {
+    console.error(`[mock-payments] ${eventName} failed:`, error);
+  }
+}
+
+// Statuses are derived from timestamps so a delayed capture survives restarts
+function withCurrentStatus(payment) {
+  if (payment.status === 'authorized' && Date.now() >= Date.parse(payment.captureAt)) {
+    return mockPayments.update(payment.id, { status: 'captured', captured: true });
+  }
+  return payment;
+}
+
+function newPayment(fields) {
+  return {
+    id: mockId('pay'),
+    entity: 'payment',
+    method: 'mock',
+    email: 'mock@example.com',
+    contact: '+910000000000',
+    created_at: unixNow(),
+    ...fields
+  };
+}
+
+function failPayment(payment) {
+  const failed = mockPayments.insert({
+    ...payment,
+    status: 'failed',
+    error_code: 'BAD_REQUEST_ERROR',
+    error_description: 'Mock payment declined'
+  });
+  if (payment.order_id) dispatchEvent('payment.failed', { payment: failed });
+  return failed;
+}
+
+function authorizeThenCapture(payment, onCaptured) {
+  mockPayments.insert({
+    ...payment,
+    status: 'authorized',
+    captured: false,
+    captureAt: new Date(Date.now() + CAPTURE_DELAY_MS).toISOString()
+  });
+  setTimeout(() => onCaptured(withCurrentStatus(mockPayments.get(payment.id))), CAPTURE_DELAY_MS).unref();
+}
+
+// Starts the next billing cycle at `startSeconds`
+function startCycle(subscription, startSeconds) {
+  const end = BILLING_CYCLE_MS
+    ? startSeconds * 1000 + BILLING_CYCLE_MS
+    : addInterval(new Date(startSeconds * 1000), subscription.interval).getTime();
+  const currentEnd = Math.floor(end / 1000);
+  return mockSubscriptions.update(subscription.id, {
+    status: 'active',
+    current_start: startSeconds,
+    current_end: currentEnd,
+    charge_at: currentEnd,
+    paid_count: (subscription.paid_count || 0) + 1,
+    retry_count: 0
+  });
+}
+
+// The first payment either starts the first cycle or, for a subscription with
+// a future start_at, covers the time until then (the upfront amount)
+function activate(subscription) {
+  if (!subscription.start_at) return startCycle(subscription, unixNow());
+  return mockSubscriptions.update(subscription.id, {
+    status: 'active',
+    current_start: unixNow(),
+    current_end: subscription.start_at,
+    charge_at: subscription.start_at
+  });
+}
+
+// A subscription with a future start_at and nothing upfront (a free trial) is
+// only authenticated at checkout: the authorization charge is refunded straight
+// away and the first real charge happens at start_at
+function authenticate(subscription, payment) {
+  mockPayments.insert({ ...payment, status: 'refunded', captured: true, amount_refunded: payment.amount });
+  mockSubscriptions.update(subscription.id, {
+    status: 'authenticated',
+    current_end: subscription.start_at,
+    charge_at: subscription.start_at
+  });
+}
+
+function paySubscription(subscriptionId, scenario) {
+  const subscription = mockSubscriptions.get(subscriptionId);
+  const isTrial = subscription.start_at && !subscription.upfront_amount;
+  const payment = newPayment({
+    subscription_id: subscription.id,
+    amount: isTrial ? AUTH_AMOUNT : subscription.upfront_amount || subscription.amount,
+    currency: subscription.currency
+  });
+
+  if (scenario === 'failure') {
+    failPayment(payment);
+    return { failed: true, error: 'Mock payment declined' };
+  }
+
+  if (isTrial) {
+    authenticate(subscription, payment);
+  } else if (scenario === 'delayed') {
+    authorizeThenCapture(payment, captured => {
+      const active = activate(mockSubscriptions.get(subscription.id));
+      dispatchEvent('subscription.charged', { subscription: active, payment: captured });
+    });
+  } else {
+    mockPayments.insert({ ...payment, status: 'captured', captured: true });
+    activate(subscription);
+  }
+
+  return {
+    razorpay_subscription_id: subscription.id,
+    razorpay_payment_id: payment.id,
+    razorpay_signature: sign(payment.id, subscription.id)
+  };
+}
+
+function chargeRenewal(due) {
+  if (due.cancel_at_cycle_end) {
+    const cancelled = mockSubscriptions.update(due.id, { status: 'cancelled', charge_at: null, ended_at: unixNow() });
+    return dispatchEvent('subscription.cancelled', { subscription: cancelled });
+  }
+
+  // A plan change scheduled for the cycle end is billed from this charge on
+  const subscription = due.scheduled_change
+    ? mockSubscriptions.update(due.id, { ...due.scheduled_change, scheduled_change: null })
+    : due;
+
+  const payment = newPayment({
+    subscription_id: subscription.id,
+    amount: subscription.amount,
+    currency: subscription.currency
+  });
+
+  if ((process.env.MOCK_RENEWAL_SCENARIO || 'success') !== 'failure') {
+    const captured = mockPayments.insert({ ...payment, status: 'captured', captured: true });
+    // The new cycle starts where the paid one ended, even when charged late
+    const renewed = startCycle(subscription, subscription.current_end);
+    return dispatchEvent('subscription.charged', { subscription: renewed, payment: captured });
+  }
+
+  const failed = failPayment(payment);
+  const retryCount = (subscription.retry_count || 0) + 1;
+  if (retryCount > RENEWAL_RETRIES) {
+    const halted = mockSubscriptions.update(subscription.id, { status: 'halted', charge_at: null, retry_count: retryCount });
+    return dispatchEvent('subscription.halted', { subscription: halted });
+  }
+
+  const pending = mockSubscriptions.update(subscription.id, {
+    status: 'pending',
+    retry_count: retryCount,
+    charge_at: Math.floor((Date.now() + RENEWAL_RETRY_MS) / 1000)
+  });
+  dispatchEvent('subscription.pending', { subscription: pending, payment: failed });
+}
+
+module.exports = {
+  name: 'mock',
+  SCENARIOS,
+
+  isConfigured() {
+    return true;
+  },
+
+  publicKey() {
+    return 'mock_key';
+  },
+
+  async createOrder({ amount, currency, receipt, notes }) {
+    return mockOrders.insert({
+      id: mockId('order'),
+      amount,
+      currency,
+      receipt,
+      notes,
+      status: 'created',
+      created_at: Math.floor(Date.now() / 1000)
+    });
+  },
+
+  verifySignature({ orderId, paymentId, signature }) {
+    return sign(orderId, paymentId) === signature;
+  },
+
+  async fetchPayment(paymentId) {
+    const payment = mockPayments.get(paymentId);
+    if (!payment) throw new Error(`Mock payment ${paymentId} not found`);
+    return withCurrentStatus(payment);
+  },
+
+  async refund(paymentId, { amount, notes } = {}) {
+    const payment = await this.fetchPayment(paymentId);
+    return mockRefunds.insert({
+      id: mockId('rfnd'),
+      entity: 'refund',
+      payment_id: payment.id,
+      amount: amount || payment.amount,
+      currency: payment.currency,
+      notes,
+      status: 'processed',
+      created_at: Math.floor(Date.now() / 1000)
+    });
+  },
+
+  async createSubscription({ plan, notes, startAt, upfrontAmount }) {
+    return mockSubscriptions.insert({
+      id: mockId('sub'),
+      entity: 'subscription',
+      plan_id: `plan_mock_${plan.id}`,
+      interval: plan.interval,
+      amount: plan.amount,
+      currency: plan.currency,
+      status: 'created',
+      paid_count: 0,
+      retry_count: 0,
+      start_at: startAt || null,
+      upfront_amount: upfrontAmount || null,
+      notes,
+      created_at: unixNow()
+    });
+  },
+
+  verifySubscriptionSignature({ subscriptionId, paymentId, signature }) {
+    return sign(paymentId, subscriptionId) === signature;
+  },
+
+  async fetchSubscription(subscriptionId) {
+    const subscription = mockSubscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`Mock subscription ${subscriptionId} not found`);
+    return subscription;
+  },
+
+  async cancelSubscription(subscriptionId, { atCycleEnd = false } = {}) {
+    const subscription = await this.fetchSubscription(subscriptionId);
+    if (atCycleEnd) {
+      return mockSubscriptions.update(subscription.id, { cancel_at_cycle_end: true });
+    }
+    return mockSubscriptions.update(subscription.id, { status: 'cancelled', charge_at: null, ended_at: unixNow() });
+  },
+
+  async resumeSubscription(subscriptionId) {
+    const subscription = await this.fetchSubscription(subscriptionId);
+    if (!['active', 'authenticated'].includes(subscription.status) || !subscription.cancel_at_cycle_end) {
+      throw new Error(`Mock subscription ${subscriptionId} has no pending cancellation`);
+    }
+    return mockSubscriptions.update(subscription.id, { cancel_at_cycle_end: false });
+  },
+
+  async changeSubscriptionPlan(subscriptionId, { plan, atCycleEnd = true }) {
+    const subscription = await this.fetchSubscription(subscriptionId);
+    const change = {
+      plan_id: `plan_mock_${plan.id}`,
+      interval: plan.interval,
+      amount: plan.amount,
+      currency: plan.currency
+    };
+    return mockSubscriptions.update(subscription.id, atCycleEnd ? { scheduled_change: change } : change);
+  },
+
+  async cancelScheduledChange(subscriptionId) {
+    const subscription = await this.fetchSubscription(subscriptionId);
+    return mockSubscriptions.update(subscription.id, { scheduled_change: null });
+  },
+
+  // Called by the mock checkout route in place of the hosted Razorpay modal.
+  // Returns the same fields Razorpay passes to the checkout `handler`.
+  pay(id, scenario) {
+    if (mockSubscriptions.get(id)) return paySubscription(id, scenario);
+
+    const order = mockOrders.get(id);
+    if (!order) throw new Error(`Mock order ${id} not found`);
+
+    const payment = newPayment({ order_id: order.id, amount: order.amount, currency: order.currency });
+
+    if (scenario === 'failure') {
+      failPayment(payment);
+      return { failed: true, error: 'Mock payment declined' };
+    }
+
+    if (scenario === 'delayed') {
+      authorizeThenCapture(payment, captured => dispatchEvent('payment.captured', { payment: captured }));
+    } else {
+      mockPayments.insert({ ...payment, status: 'captured', captured: true });
+    }
+
+    return {
+      razorpay_order_id: order.id,
+      razorpay_payment_id: payment.id,
+      razorpay_signature: sign(order.id, payment.id)
+    };
+  },
+
+  // Stands in for Razorpay charging subscriptions on their own schedule;
+  // run periodically by the renewal job.
+  async processDueCharges() {
+    const now = unixNow();
+    const due = mockSubscriptions.filter(s =>
+      ['active', 'authenticated', 'pending'].includes(s.status) && s.charge_at && s.charge_at <= now
+    );
+    due.forEach(chargeRenewal);
+    return due.length;
+  }
+};
@@ -0,0 +1,101 @@
+const Razorpay = require('razorpay');
+const crypto = require('crypto');
+
+let client = null;
+
+// Razorpay subscriptions bill against plans created in the dashboard; each
+// catalog plan maps to one via RAZORPAY_PLAN_<PLAN_ID>, e.g. RAZORPAY_PLAN_PREMIUM_MONTHLY
+function providerPlanId(plan) {
+  const variable = `RAZORPAY_PLAN_${plan.id.toUpperCase()}`;
+  if (!process.env[variable]) {
+    throw new Error(`No Razorpay plan configured for "${plan.id}" (set ${variable})`);
+  }
+  return process.env[variable];
+}
+
+function hmac(payload) {
+  return crypto.createHmac('sha256', process.env.RAZORPAY_SECRET).update(payload).digest('hex');
+}
+
+// Constructed on first use so the server can boot without keys (e.g. in mock mode)
+function sdk() {
+  if (!client) {
+    client = new Razorpay({
+      key_id: process.env.RAZORPAY_KEY_ID,
+      key_secret: process.env.RAZORPAY_SECRET
+    });
+  }
+  return client;
+}
+
+module.exports = {
+  name: 'razorpay',
+
+  isConfigured() {
+    return !!(process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_SECRET);
+  },
+
+  publicKey() {
+    return process.env.RAZORPAY_KEY_ID;
+  },
+
+  createOrder({ amount, currency, receipt, notes }) {
+    return sdk().orders.create({ amount, currency, receipt, notes });
+  },
+
+  verifySignature({ orderId, paymentId, signature }) {
+    return hmac(`${orderId}|${paymentId}`) === signature;
+  },
+
+  createSubscription({ plan, notes, startAt, upfrontAmount }) {
+    return sdk().subscriptions.create({
+      plan_id: providerPlanId(plan),
+      // Razorpay requires a finite cycle count; this is ten years either way
+      total_count: plan.interval === 'year' ? 10 : 120,
+      customer_notify: 1,
+      notes,
+      ...(startAt ? { start_at: startAt } : {}),
+      ...(upfrontAmount ? {
+        addons: [{ item: { name: `${plan.name} (prorated)`, amount: upfrontAmount, currency: plan.currency } }]
+      } : {})
+    });
+  },
+
+  // Note the order: for subscriptions Razorpay signs "payment_id|subscription_id"
+  verifySubscriptionSignature({ subscriptionId, paymentId, signature }) {
+    return hmac(`${paymentId}|${subscriptionId}`) === signature;
+  },
+
+  fetchSubscription(subscriptionId) {
+    return sdk().subscriptions.fetch(subscriptionId);
+  },
+
+  cancelSubscription(subscriptionId, { atCycleEnd = false } = {}) {
+    return sdk().subscriptions.cancel(subscriptionId, atCycleEnd);
+  },
+
+  // Razorpay keeps a cycle-end cancellation as a scheduled change on the
+  // subscription; withdrawing it keeps the subscription renewing
+  resumeSubscription(subscriptionId) {
+    return sdk().subscriptions.cancelScheduledChanges(subscriptionId);
+  },
+
+  changeSubscriptionPlan(subscriptionId, { plan, atCycleEnd = true }) {
+    return sdk().subscriptions.update(subscriptionId, {
+      plan_id: providerPlanId(plan),
+      schedule_change_at: atCycleEnd ? 'cycle_end' : 'now'
+    });
+  },
+
+  cancelScheduledChange(subscriptionId) {
+    return sdk().subscriptions.cancelScheduledChanges(subscriptionId);
+  },
+
+  fetchPayment(paymentId) {
+    return sdk().payments.fetch(paymentId);
+  },
+
+  refund(paymentId, { amount, notes } = {}) {
+    return sdk().payments.refund(paymentId, { amount, notes });
+  }
+};
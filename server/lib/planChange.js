@@ -0,0 +1,97 @@
+const { findPlan } = require('./plans');
+const { FREE_TERM_METHODS, addInterval, findSubscription } = require('./subscriptions');
+const { cancelImmediately } = require('./cancellation');
+const { refundableCharge } = require('./refunds');
+
+const TIER_RANK = { free: 0, premium: 1, pro: 2 };
+const INTERVAL_RANK = { month: 0, year: 1 };
+
+// Moving up a tier, to a longer term on the same tier, or to more seats
+function isUpgrade(fromPlan, toPlan) {
+  if (TIER_RANK[toPlan.tier] !== TIER_RANK[fromPlan.tier]) {
+    return TIER_RANK[toPlan.tier] > TIER_RANK[fromPlan.tier];
+  }
+  if (INTERVAL_RANK[toPlan.interval] !== INTERVAL_RANK[fromPlan.interval]) {
+    return INTERVAL_RANK[toPlan.interval] > INTERVAL_RANK[fromPlan.interval];
+  }
+  return (toPlan.seats || 1) > (fromPlan.seats || 1);
+}
+
+// What the customer paid for the current period: its charge less refunds,
+// plus the credit an earlier plan change carried into a first period. Gift,
+// points and referral terms were never paid for.
+function paidForPeriod(subscription) {
+  if (subscription.paymentMethod === 'gift' || FREE_TERM_METHODS.includes(subscription.paymentMethod)) return 0;
+  const charge = refundableCharge(subscription);
+  if (!charge) return 0;
+  const carried = (subscription.renewals || []).length ? 0 : subscription.prorationCredit || 0;
+  return Math.max(0, charge.refundable) + carried;
+}
+
+// Value of the unused part of the current period, at what was paid for it
+function unusedCredit(subscription, now) {
+  const start = Date.parse(subscription.currentPeriodStart || subscription.startDate);
+  const end = Date.parse(subscription.endDate);
+  if (!(end > start) || now >= end) return 0;
+  return Math.round(paidForPeriod(subscription) * (end - Math.max(now, start)) / (end - start));
+}
+
+// What moving `subscription` (null for a first purchase) to `toPlan` costs.
+// Upgrades start a new term today and charge the new price less the unused
+// credit. Downgrades, and upgrades the credit would more than cover, take
+// effect when the current term ends, with nothing charged now.
+function quotePlanChange(subscription, toPlan, now = Date.now()) {
+  const base = { toPlanId: toPlan.id, currency: toPlan.currency, nextBillingAmount: toPlan.amount };
+
+  if (!subscription) {
+    return {
+      ...base,
+      type: 'new',
+      timing: 'now',
+      credit: 0,
+      amountDue: toPlan.amount,
+      effectiveDate: new Date(now).toISOString(),
+      nextBillingDate: addInterval(now, toPlan.interval).toISOString()
+    };
+  }
+
+  const fromPlan = findPlan(subscription.planId);
+  const upgrade = isUpgrade(fromPlan, toPlan);
+  const credit = unusedCredit(subscription, now);
+
+  if (upgrade && toPlan.amount > credit) {
+    return {
+      ...base,
+      fromPlanId: fromPlan.id,
+      type: 'upgrade',
+      timing: 'now',
+      credit,
+      amountDue: toPlan.amount - credit,
+      effectiveDate: new Date(now).toISOString(),
+      nextBillingDate: addInterval(now, toPlan.interval).toISOString()
+    };
+  }
+
+  return {
+    ...base,
+    fromPlanId: fromPlan.id,
+    type: upgrade ? 'upgrade' : 'downgrade',
+    timing: 'period_end',
+    credit: 0,
+    amountDue: 0,
+    effectiveDate: subscription.endDate,
+    nextBillingDate: subscription.endDate
+  };
+}
+
+// Once the replacement of an upgrade is paid for, the old subscription ends immediately
+function completePlanChange(subscription) {
+  if (!subscription.replaces) return null;
+
+  const previous = findSubscription(s => s.id === subscription.replaces);
+  if (!previous || previous.replacedBy) return previous || null;
+
+  return cancelImmediately(previous, { replacedBy: subscription.id });
+}
+
+module.exports = { isUpgrade, unusedCredit, quotePlanChange, completePlanChange };
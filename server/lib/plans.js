@@ -0,0 +1,149 @@
+// Authoritative plan catalog. Prices are integer paise; the client only ever
+// sends a planId and never an amount. bonusPoints are credited with every
+// paid period and taken back if that payment is refunded; the Free plan's are
+// the monthly allowance for readers without a paid plan (see pointRules.js).
+// trialDays is the length of the free trial a reader can take once before
+// paying. seats is the number of people a family or team plan covers, the
+// owner included.
+const PLANS = [
+  {
+    id: 'free',
+    name: 'Free',
+    tier: 'free',
+    amount: 0,
+    currency: 'INR',
+    interval: 'month',
+    bonusPoints: 100,
+    features: [
+      'Access to basic news articles',
+      'Limited voice reading',
+      'Standard news updates',
+      '100 SignalAI Points/month',
+      'Community access'
+    ]
+  },
+  {
+    id: 'premium_monthly',
+    name: 'Premium',
+    tier: 'premium',
+    amount: 19900,
+    currency: 'INR',
+    interval: 'month',
+    bonusPoints: 500,
+    trialDays: 7,
+    popular: true,
+    features: [
+      'Unlimited premium articles',
+      'Unlimited AI voice reading',
+      'Real-time breaking news alerts',
+      'Ad-free experience',
+      '500 SignalAI Points/month',
+      'Priority customer support',
+      'Exclusive journalist content',
+      'Download articles offline'
+    ]
+  },
+  {
+    id: 'premium_yearly',
+    name: 'Premium Annual',
+    tier: 'premium',
+    amount: 199900,
+    currency: 'INR',
+    interval: 'year',
+    bonusPoints: 6000,
+    trialDays: 7,
+    savings: 'Save 17%',
+    features: [
+      'All Premium features',
+      'Save ₹390 per year',
+      '6000 SignalAI Points/year',
+      'Early access to new features',
+      'Exclusive webinars with journalists',
+      'Premium badge on profile'
+    ]
+  },
+  {
+    id: 'pro_monthly',
+    name: 'Pro',
+    tier: 'pro',
+    amount: 49900,
+    currency: 'INR',
+    interval: 'month',
+    bonusPoints: 1500,
+    trialDays: 14,
+    features: [
+      'All Premium features',
+      'Advanced AI news analysis',
+      'Personalized news digest',
+      'Multi-device sync',
+      '1500 SignalAI Points/month',
+      'Book journalist appointments (50% off)',
+      'Access to exclusive events',
+      'API access for developers',
+      'White-label content publishing',
+      'Priority verification badge'
+    ]
+  },
+  {
+    id: 'pro_yearly',
+    name: 'Pro Annual',
+    tier: 'pro',
+    amount: 499900,
+    currency: 'INR',
+    interval: 'year',
+    bonusPoints: 18000,
+    trialDays: 14,
+    savings: 'Save 17%',
+    features: [
+      'All Pro features',
+      'Save ₹990 per year',
+      '18000 SignalAI Points/year',
+      'Lifetime premium badge',
+      'Exclusive founder events',
+      'Direct line to editorial team'
+    ]
+  },
+  {
+    id: 'family_monthly',
+    name: 'Family',
+    tier: 'premium',
+    amount: 39900,
+    currency: 'INR',
+    interval: 'month',
+    bonusPoints: 500,
+    seats: 5,
+    features: [
+      'Premium for up to 5 people',
+      'One bill for the whole family',
+      'Invite members by email or username',
+      '500 SignalAI Points/month for the owner'
+    ]
+  },
+  {
+    id: 'team_monthly',
+    name: 'Team',
+    tier: 'pro',
+    amount: 199900,
+    currency: 'INR',
+    interval: 'month',
+    bonusPoints: 1500,
+    seats: 10,
+    features: [
+      'Pro for up to 10 people',
+      'One bill for the whole newsroom',
+      'Invite and revoke seats anytime',
+      '1500 SignalAI Points/month for the owner'
+    ]
+  }
+];
+
+function findPlan(planId) {
+  return PLANS.find(plan => plan.id === planId);
+}
+
+// Shape sent to the browser: `price` is in rupees for display only
+function toPublicPlan(plan) {
+  return { ...plan, price: plan.amount / 100 };
+}
+
+module.exports = { PLANS, findPlan, toPublicPlan };
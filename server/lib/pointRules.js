@@ -0,0 +1,207 @@
+const { collection } = require('../db');
+const { findPlan } = require('./plans');
+const { FREE_TERM_METHODS, currentForUser } = require('./subscriptions');
+const { adjustPoints, findEntry, countEntries } = require('./points');
+
+// Points earned by activity. Each rule credits `points` per event under its
+// own ledger reason; `dailyCap` and `monthlyCap` limit how many events a user
+// is rewarded for per day or month (India time). Any field can be overridden
+// with POINTS_RULES, e.g. {"article_read":{"points":5}}; points 0 turns a
+// rule off.
+const DEFAULT_RULES = {
+  // Publishing an article, once per article and only with minWords of content
+  post_published: { points: 10, dailyCap: 3, minWords: 50 },
+  // A like from another reader; each reader's likes only count
+  // perLikerDailyCap times a day, so one account cannot farm an author
+  like_received: { points: 2, dailyCap: 25, perLikerDailyCap: 10 },
+  // Finishing an article at least minSeconds after opening it, once per article
+  article_read: { points: 2, dailyCap: 10, minSeconds: 30 },
+  // First visit of the day; each consecutive day adds streakBonus, up to maxStreakDays
+  daily_login: { points: 5, dailyCap: 1, streakBonus: 5, maxStreakDays: 7 },
+  // A referred reader joining (see the referral program)
+  referral: { points: 200, monthlyCap: 10 },
+  // The Free plan's points, once a month for readers without a paid plan.
+  // Subscribers get their plan's bonusPoints with every charge instead.
+  monthly_allowance: { points: findPlan('free').bonusPoints, monthlyCap: 1 }
+};
+
+const RULES = loadRules();
+const users = collection('users');
+const articles = collection('articles');
+const likes = collection('post_likes');
+const reads = collection('article_reads');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+// Statuses where the user pays for their own plan (a trial does not earn its bonus yet)
+const PAID_STATUSES = ['active', 'past_due', 'cancel_scheduled'];
+
+function loadRules() {
+  let overrides = {};
+  if (process.env.POINTS_RULES) {
+    try {
+      overrides = JSON.parse(process.env.POINTS_RULES);
+    } catch (error) {
+      console.error('Ignoring invalid POINTS_RULES:', error.message);
+    }
+  }
+  const rules = {};
+  for (const [id, rule] of Object.entries(DEFAULT_RULES)) {
+    rules[id] = { ...rule, ...(overrides[id] || {}) };
+  }
+  return rules;
+}
+
+// Calendar day in India time, e.g. '2026-10-19'
+function dayKey(date) {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function startOfDay(date) {
+  return new Date(Date.parse(dayKey(date)) - IST_OFFSET_MS).toISOString();
+}
+
+function startOfMonth(date) {
+  return new Date(Date.parse(`${dayKey(date).slice(0, 7)}-01`) - IST_OFFSET_MS).toISOString();
+}
+
+// Credits a rule's points for one event. An event with a `ref` is only ever
+// rewarded once; `points` replaces the rule's amount (e.g. a streak bonus).
+// Returns { awarded } and, when nothing was credited, the reason it was skipped.
+function awardPoints(userId, ruleId, { ref = null, points } = {}) {
+  const rule = RULES[ruleId];
+  if (!rule || !(rule.points > 0)) return { awarded: 0, skipped: 'disabled' };
+  if (ref && findEntry(userId, ruleId, ref)) return { awarded: 0, skipped: 'duplicate' };
+
+  const now = new Date();
+  if (rule.dailyCap && countEntries(userId, ruleId, startOfDay(now)) >= rule.dailyCap) {
+    return { awarded: 0, skipped: 'daily_cap' };
+  }
+  if (rule.monthlyCap && countEntries(userId, ruleId, startOfMonth(now)) >= rule.monthlyCap) {
+    return { awarded: 0, skipped: 'monthly_cap' };
+  }
+  return { awarded: adjustPoints(userId, points || rule.points, { reason: ruleId, ref }) };
+}
+
+function countWords(html) {
+  return String(html || '').replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length;
+}
+
+// Drafts earn their points when first published
+function awardPublishing(article) {
+  if (article.status !== 'published') return { awarded: 0, skipped: 'draft' };
+  if (countWords(article.content) < RULES.post_published.minWords) return { awarded: 0, skipped: 'too_short' };
+  return awardPoints(article.authorId, 'post_published', { ref: { type: 'article', id: article.id } });
+}
+
+// Likes and reads only count for articles readers can see; the client only
+// names the article, never who wrote it
+function publishedArticle(articleId) {
+  const article = articles.get(articleId);
+  return article && article.status === 'published' ? article : null;
+}
+
+// A reader likes a post (a published article), at most once per post. The
+// post's author earns the points. Likes on your own posts, or on feed articles
+// with no author account, are recorded but earn nothing.
+function recordLike(likerId, { postId }) {
+  const article = publishedArticle(postId);
+  if (!article) return { error: 'Post not found', status: 404 };
+  const id = `${likerId}:${postId}`;
+  if (likes.get(id)) return { error: 'Already liked', status: 409 };
+
+  const authorId = article.authorId && users.get(article.authorId) ? article.authorId : null;
+
+  const rule = RULES.like_received;
+  const since = startOfDay(new Date());
+  const rewardedToday = likes.filter(l => l.likerId === likerId && l.rewarded && l.createdAt >= since).length;
+  const result = !authorId ? { awarded: 0, skipped: 'no_author' }
+    : authorId === likerId ? { awarded: 0, skipped: 'own_post' }
+    : rewardedToday >= rule.perLikerDailyCap ? { awarded: 0, skipped: 'liker_cap' }
+    : awardPoints(authorId, 'like_received', { ref: { type: 'like', id } });
+
+  likes.insert({ id, postId, authorId, likerId, rewarded: result.awarded > 0, createdAt: new Date().toISOString() });
+  return result;
+}
+
+// The read timer runs on the server: opening an article starts it and
+// finishing only counts once minSeconds have passed. Returns { read } or
+// { error, status }.
+function startReading(userId, articleId) {
+  if (!publishedArticle(articleId)) return { error: 'Article not found', status: 404 };
+  const id = `${userId}:${articleId}`;
+  const read = reads.get(id);
+  if (read && read.finishedAt) return { read };
+  if (read) return { read: reads.update(id, { startedAt: new Date().toISOString() }) };
+  return { read: reads.insert({ id, userId, articleId, startedAt: new Date().toISOString(), finishedAt: null }) };
+}
+
+function finishReading(userId, articleId) {
+  if (!publishedArticle(articleId)) return { error: 'Article not found', status: 404 };
+  const id = `${userId}:${articleId}`;
+  const read = reads.get(id);
+  if (!read) return { error: 'Reading was not started', status: 409 };
+  if (read.finishedAt) return { awarded: 0, skipped: 'duplicate' };
+  if (Date.now() - Date.parse(read.startedAt) < RULES.article_read.minSeconds * 1000) {
+    return { awarded: 0, skipped: 'too_fast' };
+  }
+
+  reads.update(id, { finishedAt: new Date().toISOString() });
+  return awardPoints(userId, 'article_read', { ref: { type: 'article', id: articleId } });
+}
+
+function grantMonthlyAllowance(userId, now = new Date()) {
+  // Terms bought with points or earned by referral carry no plan bonus, so the allowance continues
+  const current = currentForUser(userId);
+  if (current && PAID_STATUSES.includes(current.status) && !FREE_TERM_METHODS.includes(current.paymentMethod)) {
+    return { awarded: 0, skipped: 'subscribed' };
+  }
+  return awardPoints(userId, 'monthly_allowance', { ref: { type: 'month', id: dayKey(now).slice(0, 7) } });
+}
+
+// Runs when a signed-in user opens the app (registration, login or session restore).
+// The first visit of a day extends or restarts their streak and earns
+// daily_login points; it also grants the monthly allowance when it is due.
+function recordVisit(userId) {
+  const user = users.get(userId);
+  if (!user) return;
+
+  const now = new Date();
+  const today = dayKey(now);
+  grantMonthlyAllowance(userId, now);
+
+  const streak = user.loginStreak || {};
+  if (streak.lastDay === today) return;
+  const days = streak.lastDay === dayKey(new Date(now.getTime() - DAY_MS)) ? streak.days + 1 : 1;
+  const rule = RULES.daily_login;
+  awardPoints(userId, 'daily_login', {
+    ref: { type: 'day', id: today },
+    points: rule.points + (rule.streakBonus || 0) * (Math.min(days, rule.maxStreakDays || 1) - 1)
+  });
+  users.update(userId, { loginStreak: { lastDay: today, days } });
+}
+
+// The active rules with how often the user has been rewarded under each today
+// and this month, for the "ways to earn" panel
+function rulesFor(userId) {
+  const now = new Date();
+  return Object.entries(RULES)
+    .filter(([, rule]) => rule.points > 0)
+    .map(([id, rule]) => ({
+      id,
+      ...rule,
+      earnedToday: countEntries(userId, id, startOfDay(now)),
+      earnedThisMonth: countEntries(userId, id, startOfMonth(now))
+    }));
+}
+
+module.exports = {
+  RULES,
+  awardPoints,
+  awardPublishing,
+  recordLike,
+  startReading,
+  finishReading,
+  recordVisit,
+  rulesFor
+};
@@ -0,0 +1,152 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+
+// Append-only SignalAI points ledger. Every change to a balance is an entry:
+// credits may carry an expiresAt, debits record what the points went on, and
+// `ref` ({ type, id }) points at the order, subscription, article or redemption
+// involved. A balance is the sum of its entries; nothing else stores it.
+//
+// Reason codes: opening_balance, welcome_bonus, subscription_bonus,
+// refund_clawback, reward_redemption (see rewards.js), points_expired, and
+// the activity rules in pointRules.js
+const ledger = collection('points_ledger');
+const users = collection('users');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How long subscription bonus points stay spendable; 0 keeps them forever
+const BONUS_EXPIRY_DAYS = process.env.POINTS_BONUS_EXPIRY_DAYS !== undefined
+  ? parseInt(process.env.POINTS_BONUS_EXPIRY_DAYS, 10) || 0
+  : 365;
+const EXPIRY_DAYS = { subscription_bonus: BONUS_EXPIRY_DAYS };
+
+function append(userId, type, amount, { reason, ref = null, expiresAt = null }) {
+  const now = new Date();
+  const days = EXPIRY_DAYS[reason];
+  return ledger.insert({
+    id: `pts_${crypto.randomBytes(8).toString('hex')}`,
+    userId,
+    type,
+    amount,
+    reason,
+    ref,
+    expiresAt: expiresAt || (type === 'credit' && days ? new Date(now.getTime() + days * DAY_MS).toISOString() : null),
+    createdAt: now.toISOString()
+  });
+}
+
+// Accounts created before the ledger kept their balance on the user record;
+// it becomes an opening credit the first time their ledger is read
+function entriesFor(userId) {
+  const entries = ledger.filter(e => e.userId === userId);
+  if (entries.length > 0) return entries;
+
+  const user = users.get(userId);
+  if (!user || !(user.SignalAIPoints > 0)) return entries;
+  return [append(userId, 'credit', user.SignalAIPoints, { reason: 'opening_balance' })];
+}
+
+function isExpiredAt(entry, time) {
+  return !!entry.expiresAt && Date.parse(entry.expiresAt) <= time;
+}
+
+// Replays the entries in order and returns each credit with what is left of
+// it. Spending uses up the credits that expire soonest first; an expiry entry
+// closes out the one credit it refers to.
+function creditBalances(entries) {
+  const credits = [];
+  for (const entry of entries) {
+    if (entry.type === 'credit') {
+      credits.push({ entry, remaining: entry.amount });
+      continue;
+    }
+
+    // Credits that had expired were written off before any later debit (see expirePoints)
+    const sources = entry.reason === 'points_expired'
+      ? credits.filter(c => c.entry.id === entry.ref.id)
+      : credits
+          .filter(c => c.remaining > 0)
+          .sort((a, b) => Date.parse(a.entry.expiresAt || '9999-12-31') - Date.parse(b.entry.expiresAt || '9999-12-31'));
+    let owed = entry.amount;
+    for (const credit of sources) {
+      const used = Math.min(owed, credit.remaining);
+      credit.remaining -= used;
+      owed -= used;
+      if (owed === 0) break;
+    }
+  }
+  return credits;
+}
+
+// Writes off whatever is left of credits past their expiry date. Runs whenever
+// a balance is read, so an expired point can never be spent.
+function expirePoints(userId, now = Date.now()) {
+  for (const credit of creditBalances(entriesFor(userId))) {
+    if (credit.remaining > 0 && isExpiredAt(credit.entry, now)) {
+      append(userId, 'debit', credit.remaining, {
+        reason: 'points_expired',
+        ref: { type: 'credit', id: credit.entry.id }
+      });
+    }
+  }
+}
+
+function balanceFor(userId) {
+  expirePoints(userId);
+  return entriesFor(userId).reduce((sum, e) => sum + (e.type === 'credit' ? e.amount : -e.amount), 0);
+}
+
+// Moves a user's balance by `delta`, never below zero. For system adjustments
+// (bonuses and refund clawbacks) that must not fail; returns the change
+// actually applied.
+function adjustPoints(userId, delta, { reason, ref } = {}) {
+  if (!users.get(userId) || !delta) return 0;
+
+  const balance = balanceFor(userId);
+  const applied = Math.max(-balance, delta);
+  if (applied !== 0) {
+    append(userId, applied > 0 ? 'credit' : 'debit', Math.abs(applied), { reason, ref });
+  }
+  return applied;
+}
+
+// Spends points the user has, or fails with { error, balance }. The balance
+// check and the debit happen in one synchronous step with no await between
+// them, so concurrent requests can never spend the same points twice.
+function spendPoints(userId, amount, { reason, ref }) {
+  const balance = balanceFor(userId);
+  if (balance < amount) {
+    return { error: 'Insufficient points', balance };
+  }
+  const entry = append(userId, 'debit', amount, { reason, ref });
+  return { entry, balance: balance - amount };
+}
+
+// The first entry for this reason and reference, e.g. to award points once per article
+function findEntry(userId, reason, ref) {
+  return ledger.find(e => e.userId === userId && e.reason === reason &&
+    e.ref && e.ref.type === ref.type && e.ref.id === ref.id);
+}
+
+// How many entries for this reason were written since `since` (an ISO
+// timestamp), e.g. to enforce a daily cap
+function countEntries(userId, reason, since) {
+  return ledger.filter(e => e.userId === userId && e.reason === reason && e.createdAt >= since).length;
+}
+
+// Newest first (the ledger is stored in the order entries were written)
+function pointsHistory(userId, { limit = 50 } = {}) {
+  expirePoints(userId);
+  return entriesFor(userId).reverse().slice(0, limit);
+}
+
+// Points due to expire within `days`, soonest first
+function expiringPoints(userId, days = 30) {
+  const cutoff = Date.now() + days * DAY_MS;
+  expirePoints(userId);
+  return creditBalances(entriesFor(userId))
+    .filter(c => c.remaining > 0 && c.entry.expiresAt && Date.parse(c.entry.expiresAt) <= cutoff)
+    .map(c => ({ amount: c.remaining, expiresAt: c.entry.expiresAt }))
+    .sort((a, b) => Date.parse(a.expiresAt) - Date.parse(b.expiresAt));
+}
+
+module.exports = { adjustPoints, spendPoints, balanceFor, findEntry, countEntries, pointsHistory, expiringPoints };
@@ -0,0 +1,178 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { findPlan } = require('./plans');
+const { ENTITLED_STATUSES, currentForUser, activateFreeTerm } = require('./subscriptions');
+const { awardPoints } = require('./pointRules');
+const { APP_URL } = require('./notifications');
+
+// Referral program. Every user has a referral code. A signup that came
+// through someone's link is recorded as 'pending' and pays the referrer once
+// the new reader verifies their email or subscribes ('qualified'). Signups
+// that look like the referrer's own second account or a repeat account are
+// 'rejected' and never pay.
+const referrals = collection('referrals');
+const users = collection('users');
+
+// What the referrer earns: 'points' (the referral rule in pointRules.js) or
+// 'premium_week', which falls back to points while they already have a plan
+const REFERRAL_REWARD = process.env.REFERRAL_REWARD === 'premium_week' ? 'premium_week' : 'points';
+const PREMIUM_WEEK_DAYS = 7;
+const MAX_DEVICES = 10;
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+function randomCode() {
+  return Array.from(crypto.randomBytes(CODE_LENGTH), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+}
+
+// Accounts get their code the first time they ask for it
+function referralCodeFor(userId) {
+  const user = users.get(userId);
+  if (!user) return null;
+  if (user.referralCode) return user.referralCode;
+
+  let code = randomCode();
+  while (users.find(u => u.referralCode === code)) code = randomCode();
+  users.update(userId, { referralCode: code });
+  return code;
+}
+
+function referralLink(code) {
+  return `${APP_URL}/?ref=${encodeURIComponent(code)}`;
+}
+
+function hashDevice(deviceId) {
+  return crypto.createHash('sha256').update(String(deviceId)).digest('hex');
+}
+
+// The browser sends a random id it keeps in local storage. Its hash is kept
+// for the account's last few devices, so several accounts opened on one
+// device can be recognised.
+function rememberDevice(userId, deviceId) {
+  const user = users.get(userId);
+  if (!user || !deviceId) return;
+
+  const hash = hashDevice(deviceId);
+  const known = user.deviceHashes || [];
+  if (known.includes(hash)) return;
+  users.update(userId, { deviceHashes: [hash, ...known].slice(0, MAX_DEVICES) });
+}
+
+// The mailbox an address delivers to: lower case, without a +tag, and for
+// Gmail without dots
+function canonicalEmail(email) {
+  const [local, domain] = String(email).trim().toLowerCase().split('@');
+  const base = local.split('+')[0];
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    return `${base.replace(/\./g, '')}@gmail.com`;
+  }
+  return `${base}@${domain}`;
+}
+
+// Why a signup should not earn the referrer anything, if there is a reason
+function fraudReason(referrer, referee, deviceHash) {
+  const email = canonicalEmail(referee.email);
+  if (referrer.id === referee.id || canonicalEmail(referrer.email) === email) return 'self_referral';
+  // Without a device id the checks below can be dodged, so it counts against the signup
+  if (!deviceHash) return 'unknown_device';
+  if ((referrer.deviceHashes || []).includes(deviceHash)) return 'self_referral';
+
+  const others = users.filter(u => u.id !== referee.id && u.id !== referrer.id);
+  if (others.some(u => (u.deviceHashes || []).includes(deviceHash))) return 'duplicate_device';
+  if (others.some(u => canonicalEmail(u.email) === email)) return 'duplicate_email';
+  return null;
+}
+
+// Called at registration with the code from the referral link. Unknown codes
+// are ignored; the signup still succeeds.
+function attributeSignup(referee, { code, deviceId } = {}) {
+  const normalized = String(code || '').trim().toUpperCase();
+  const referrer = normalized && users.find(u => u.referralCode === normalized);
+  if (!referrer) return null;
+
+  const reason = fraudReason(referrer, referee, deviceId ? hashDevice(deviceId) : null);
+  return referrals.insert({
+    id: `rfl_${crypto.randomBytes(8).toString('hex')}`,
+    referrerId: referrer.id,
+    refereeId: referee.id,
+    code: normalized,
+    status: reason ? 'rejected' : 'pending',
+    rejectedReason: reason,
+    createdAt: new Date().toISOString()
+  });
+}
+
+function grantReferrerReward(referral) {
+  if (REFERRAL_REWARD === 'premium_week') {
+    const current = currentForUser(referral.referrerId);
+    if (!current || !ENTITLED_STATUSES.includes(current.status)) {
+      const subscription = activateFreeTerm({
+        userId: referral.referrerId,
+        plan: findPlan('premium_monthly'),
+        paymentMethod: 'referral',
+        days: PREMIUM_WEEK_DAYS,
+        referralId: referral.id
+      });
+      return { type: 'premium_week', subscriptionId: subscription.id, endDate: subscription.endDate };
+    }
+  }
+
+  const { awarded, skipped } = awardPoints(referral.referrerId, 'referral', {
+    ref: { type: 'referral', id: referral.id }
+  });
+  return { type: 'points', points: awarded, skipped: skipped || null };
+}
+
+// The referred reader verified their email (`trigger` 'verified') or started
+// paying ('subscribed'). Pays the referrer once; later triggers do nothing.
+function qualifyReferral(refereeId, trigger) {
+  const referral = referrals.find(r => r.refereeId === refereeId && r.status === 'pending');
+  if (!referral) return null;
+
+  // Claimed before the reward is granted, so two triggers cannot both pay
+  referrals.update(referral.id, { status: 'qualified', qualifiedBy: trigger, qualifiedAt: new Date().toISOString() });
+  return referrals.update(referral.id, { reward: grantReferrerReward(referral) });
+}
+
+// Code, link and results for the referral panel, newest referral first
+function referralSummary(userId) {
+  const code = referralCodeFor(userId);
+  const list = referrals
+    .filter(r => r.referrerId === userId)
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+
+  return {
+    code,
+    link: referralLink(code),
+    reward: REFERRAL_REWARD,
+    stats: {
+      total: list.length,
+      pending: list.filter(r => r.status === 'pending').length,
+      qualified: list.filter(r => r.status === 'qualified').length,
+      rejected: list.filter(r => r.status === 'rejected').length,
+      pointsEarned: list.reduce((sum, r) => sum + ((r.reward && r.reward.points) || 0), 0)
+    },
+    referrals: list.map(r => {
+      const referee = users.get(r.refereeId);
+      return {
+        id: r.id,
+        referee: referee ? `@${referee.username}` : null,
+        status: r.status,
+        rejectedReason: r.rejectedReason,
+        qualifiedBy: r.qualifiedBy || null,
+        reward: r.reward || null,
+        createdAt: r.createdAt,
+        qualifiedAt: r.qualifiedAt || null
+      };
+    })
+  };
+}
+
+module.exports = {
+  referralCodeFor,
+  rememberDevice,
+  attributeSignup,
+  qualifyReferral,
+  referralSummary
+};
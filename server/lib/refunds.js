@@ -0,0 +1,102 @@
+const provider = require('./payments');
+const { collection } = require('../db');
+const { adjustPoints } = require('./points');
+const { ENTITLED_STATUSES, refreshAll, updateSubscription } = require('./subscriptions');
+const { cancelImmediately } = require('./cancellation');
+
+const orders = collection('orders');
+
+// Every payment made on a subscription, oldest first: the first charge
+// (or one-off order) followed by renewals. `amount` follows the plan on
+// renewal, so the first charge keeps its own; older records only have `amount`.
+function chargesOf(subscription) {
+  const firstAmount = subscription.firstChargeAmount !== undefined ? subscription.firstChargeAmount : subscription.amount;
+  const first = subscription.razorpayPaymentId
+    ? [{ paymentId: subscription.razorpayPaymentId, amount: firstAmount, bonusPoints: subscription.bonusPoints || 0 }]
+    : [];
+  const renewals = (subscription.renewals || []).map(r => ({
+    paymentId: r.paymentId,
+    amount: r.amount,
+    bonusPoints: r.bonusPoints || 0
+  }));
+  return [...first, ...renewals];
+}
+
+function refundedFor(subscription, paymentId) {
+  return (subscription.refunds || [])
+    .filter(r => r.paymentId === paymentId)
+    .reduce((sum, r) => sum + r.amount, 0);
+}
+
+// The payment for the current period and how much of it can still be refunded
+function refundableCharge(subscription) {
+  const charges = chargesOf(subscription);
+  const latest = charges[charges.length - 1];
+  if (!latest) return null;
+  return { ...latest, refundable: latest.amount - refundedFor(subscription, latest.paymentId) };
+}
+
+// Applies a provider refund to the subscription: takes back the bonus points
+// in proportion to the amount refunded, and ends access once the payment for
+// the current period is refunded in full. Safe to call from both the admin
+// refund route and the refund.processed webhook; each refund id counts once.
+function recordRefund(subscription, refund) {
+  const refunds = subscription.refunds || [];
+  if (refunds.some(r => r.id === refund.id)) {
+    return { subscription, alreadyRecorded: true };
+  }
+
+  const charges = chargesOf(subscription);
+  const charge = charges.find(c => c.paymentId === refund.payment_id);
+  if (!charge) return { subscription, ignored: `payment ${refund.payment_id} is not part of this subscription` };
+
+  const pointsDeducted = -adjustPoints(
+    subscription.userId,
+    -Math.round(charge.bonusPoints * refund.amount / charge.amount),
+    { reason: 'refund_clawback', ref: { type: 'refund', id: refund.id, subscriptionId: subscription.id } }
+  );
+  const fullyRefunded = refundedFor(subscription, charge.paymentId) + refund.amount >= charge.amount;
+
+  let updated = updateSubscription(subscription.id, {
+    refundedAmount: (subscription.refundedAmount || 0) + refund.amount,
+    refunds: [...refunds, {
+      id: refund.id,
+      paymentId: charge.paymentId,
+      amount: refund.amount,
+      pointsDeducted,
+      reason: (refund.notes && refund.notes.reason) || null,
+      refundedBy: (refund.notes && refund.notes.refundedBy) || null,
+      refundedAt: new Date().toISOString()
+    }]
+  });
+
+  const isCurrentPeriod = charge.paymentId === charges[charges.length - 1].paymentId;
+  if (fullyRefunded && isCurrentPeriod && ENTITLED_STATUSES.includes(updated.status)) {
+    updated = cancelImmediately(updated, { cancellationReason: 'refunded' });
+  }
+
+  return { subscription: updated, fullyRefunded, pointsDeducted };
+}
+
+function updateOrder(id, updates) {
+  return orders.update(id, updates);
+}
+
+// Gives back a payment that bought nothing: the checkout was rejected when it
+// was paid (see fulfillment.js). `record` is the rejected order or subscription,
+// which stays refundPending until the provider accepts the refund; the renewal
+// job retries any that did not go through.
+function refundRejected(record, update) {
+  return provider.refund(record.rejectedPaymentId, { notes: { reason: record.rejectionReason } })
+    .then(refund => update(record.id, { refundPending: false, refundId: refund.id }))
+    .catch(error => console.error(`Refund of rejected payment ${record.rejectedPaymentId} failed:`, error));
+}
+
+function retryRejectedRefunds() {
+  return Promise.all([
+    ...orders.filter(o => o.refundPending).map(o => refundRejected(o, updateOrder)),
+    ...refreshAll().filter(s => s.refundPending).map(s => refundRejected(s, updateSubscription))
+  ]);
+}
+
+module.exports = { refundableCharge, recordRefund, updateOrder, refundRejected, retryRejectedRefunds };
@@ -0,0 +1,98 @@
+const provider = require('./payments');
+const { findPlan } = require('./plans');
+const { refreshAll, updateSubscription } = require('./subscriptions');
+const { retryProviderCancellations } = require('./cancellation');
+const { retryRejectedRefunds } = require('./refunds');
+const { queueNotification, deliverQueued } = require('./notifications');
+
+// Periodic billing housekeeping. Renewal charges themselves are made by the
+// provider and arrive as subscription.* webhooks; this job only covers what
+// happens between them.
+const CHECK_INTERVAL_MS = parseInt(process.env.RENEWAL_CHECK_INTERVAL_MS, 10) || 60 * 60 * 1000;
+const REMINDER_DAYS = parseInt(process.env.RENEWAL_REMINDER_DAYS, 10) || 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One reminder per billing period, keyed by the date the charge will happen.
+// A trial gets one before its first charge. The reminder quotes the catalog
+// price of the plan that will be charged, which is the scheduled plan after a
+// downgrade and never a discounted or prorated first charge.
+function queueRenewalReminders(now = Date.now()) {
+  const due = refreshAll().filter(s =>
+    (s.status === 'active' || s.status === 'trialing') &&
+    s.autoRenew &&
+    s.reminderQueuedFor !== s.endDate &&
+    Date.parse(s.endDate) > now &&
+    Date.parse(s.endDate) - now <= REMINDER_DAYS * DAY_MS
+  );
+
+  for (const subscription of due) {
+    const planId = subscription.scheduledChange ? subscription.scheduledChange.planId : subscription.planId;
+    const plan = findPlan(planId);
+    queueNotification({
+      userId: subscription.userId,
+      type: subscription.status === 'trialing' ? 'trial_ending' : 'renewal_reminder',
+      subscriptionId: subscription.id,
+      planId,
+      planName: plan ? plan.name : planId,
+      amount: plan ? plan.amount : subscription.amount,
+      currency: plan ? plan.currency : subscription.currency,
+      chargeDate: subscription.endDate
+    });
+    updateSubscription(subscription.id, { reminderQueuedFor: subscription.endDate });
+  }
+  return due.length;
+}
+
+// A downgrade scheduled on a term the provider does not bill (a one-off order,
+// gift, points or referral term) has no renewal to switch. When the term ends
+// the customer is asked to check out the plan they chose instead.
+function settleUnbilledChanges(now = Date.now()) {
+  const due = refreshAll().filter(s =>
+    s.scheduledChange &&
+    !s.providerSubscriptionId &&
+    Date.parse(s.endDate) <= now
+  );
+
+  for (const subscription of due) {
+    const from = findPlan(subscription.planId);
+    const plan = findPlan(subscription.scheduledChange.planId);
+    queueNotification({
+      userId: subscription.userId,
+      type: 'plan_change_due',
+      subscriptionId: subscription.id,
+      planId: plan.id,
+      planName: plan.name,
+      fromPlanName: from ? from.name : subscription.planId,
+      amount: plan.amount,
+      interval: plan.interval,
+      endDate: subscription.endDate
+    });
+    updateSubscription(subscription.id, {
+      scheduledChange: null,
+      settledChange: { ...subscription.scheduledChange, settledAt: new Date(now).toISOString() }
+    });
+  }
+  return due.length;
+}
+
+async function runRenewalCycle() {
+  // Charges a real provider makes on its own schedule (the mock has to be driven)
+  const charged = provider.processDueCharges ? await provider.processDueCharges() : 0;
+  const reminders = queueRenewalReminders();
+  settleUnbilledChanges();
+  await retryProviderCancellations();
+  await retryRejectedRefunds();
+  const emailed = await deliverQueued();
+  if (charged || reminders || emailed) {
+    console.log('Renewal cycle:', { charged, reminders, emailed });
+  }
+  return { charged, reminders, emailed };
+}
+
+function startRenewalScheduler() {
+  const run = () => runRenewalCycle().catch(error => console.error('Renewal cycle error:', error));
+  run();
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+}
+
+module.exports = { queueRenewalReminders, settleUnbilledChanges, runRenewalCycle, startRenewalScheduler };
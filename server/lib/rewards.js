@@ -0,0 +1,204 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { findPlan } = require('./plans');
+const { ENTITLED_STATUSES, currentForUser, activateFreeTerm } = require('./subscriptions');
+const { spendPoints } = require('./points');
+
+// Rewards catalog: what SignalAI points can be redeemed for. `pointsCost` is
+// debited from the ledger; `stock` is how many exist in total (null for no
+// limit) and `perUserLimit` how many one reader may redeem. Book rewards use
+// the ids of the books in the app, and event tickets stop selling when the
+// event starts.
+const REWARDS = [
+  {
+    id: 'book_1',
+    type: 'book',
+    name: 'Democracy Under Pressure (e-book)',
+    description: 'An in-depth analysis of modern democratic challenges through the lens of investigative journalism.',
+    pointsCost: 299,
+    bookId: '1',
+    stock: null,
+    perUserLimit: 1
+  },
+  {
+    id: 'appointment_25',
+    type: 'appointment_discount',
+    name: '25% off a journalist appointment',
+    description: 'A voucher for one consultation, interview or collaboration session.',
+    pointsCost: 400,
+    discountPercent: 25,
+    stock: 200,
+    perUserLimit: 3
+  },
+  {
+    id: 'appointment_50',
+    type: 'appointment_discount',
+    name: '50% off a journalist appointment',
+    description: 'A voucher for one consultation, interview or collaboration session.',
+    pointsCost: 750,
+    discountPercent: 50,
+    stock: 100,
+    perUserLimit: 2
+  },
+  {
+    id: 'premium_month',
+    type: 'premium_month',
+    name: 'One month of Premium',
+    description: 'Unlimited premium articles and AI voice reading for a month. Does not renew.',
+    pointsCost: 2000,
+    planId: 'premium_monthly',
+    stock: 500,
+    perUserLimit: 1
+  },
+  {
+    id: 'event_newsroom_live_2026',
+    type: 'event_ticket',
+    name: 'Ticket: SignalAI Newsroom Live 2026',
+    description: 'A day of talks and workshops with our journalists and editors.',
+    pointsCost: 1200,
+    event: {
+      startsAt: '2026-12-12T10:00:00+05:30',
+      venue: 'Bangalore International Centre, Bengaluru'
+    },
+    stock: 50,
+    perUserLimit: 2
+  }
+];
+
+// One record per redemption, holding what was granted (a voucher or ticket
+// code, a subscription id or a book id)
+const redemptions = collection('redemptions');
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_PREFIXES = { appointment_discount: 'APPT', event_ticket: 'TKT' };
+
+function randomCode(prefix) {
+  const chars = Array.from(crypto.randomBytes(8), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `${prefix}-${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+function findReward(rewardId) {
+  return REWARDS.find(reward => reward.id === rewardId);
+}
+
+function remainingStock(reward) {
+  if (reward.stock === null) return null;
+  return Math.max(0, reward.stock - redemptions.filter(r => r.rewardId === reward.id).length);
+}
+
+function redeemedCount(userId, rewardId) {
+  return redemptions.filter(r => r.userId === userId && r.rewardId === rewardId).length;
+}
+
+function isOnSale(reward, now = Date.now()) {
+  return !reward.event || Date.parse(reward.event.startsAt) > now;
+}
+
+// Catalog as shown to a reader: stock left and how often they have redeemed each reward
+function catalogFor(userId) {
+  return REWARDS.filter(reward => isOnSale(reward)).map(reward => ({
+    ...reward,
+    remaining: remainingStock(reward),
+    redeemedByYou: userId ? redeemedCount(userId, reward.id) : 0
+  }));
+}
+
+// Why this user cannot redeem the reward right now, if anything
+function redemptionBlocker(userId, reward) {
+  if (!isOnSale(reward)) return { error: 'This reward is no longer available', status: 409 };
+  if (remainingStock(reward) === 0) return { error: 'This reward is out of stock', status: 409 };
+  if (redeemedCount(userId, reward.id) >= reward.perUserLimit) {
+    return {
+      error: reward.perUserLimit === 1
+        ? 'You have already redeemed this reward'
+        : `You can redeem this reward at most ${reward.perUserLimit} times`,
+      status: 409
+    };
+  }
+  if (reward.type === 'premium_month') {
+    const current = currentForUser(userId);
+    if (current && ENTITLED_STATUSES.includes(current.status)) {
+      return { error: 'You already have an active subscription. Redeem this once it has ended.', status: 409 };
+    }
+  }
+  return null;
+}
+
+// What the reward turns into once the points are paid
+function grantReward(userId, reward, redemptionId) {
+  switch (reward.type) {
+    case 'book':
+      return { bookId: reward.bookId };
+    case 'appointment_discount':
+      return { code: randomCode(CODE_PREFIXES[reward.type]), discountPercent: reward.discountPercent, usedAt: null };
+    case 'premium_month': {
+      const subscription = activateFreeTerm({ userId, plan: findPlan(reward.planId), paymentMethod: 'points', redemptionId });
+      return { subscriptionId: subscription.id, endDate: subscription.endDate };
+    }
+    case 'event_ticket':
+      return { code: randomCode(CODE_PREFIXES[reward.type]), event: reward.event };
+    default:
+      throw new Error(`Unknown reward type "${reward.type}"`);
+  }
+}
+
+// Checks stock and limits, debits the points and grants the reward in one
+// synchronous step. Nothing awaits in between, so concurrent requests can
+// neither oversell stock nor spend the same points twice.
+function redeemReward(userId, rewardId) {
+  const reward = findReward(rewardId);
+  if (!reward) return { error: 'Reward not found', status: 404 };
+
+  const blocker = redemptionBlocker(userId, reward);
+  if (blocker) return blocker;
+
+  const id = `rdm_${crypto.randomBytes(8).toString('hex')}`;
+  const spent = spendPoints(userId, reward.pointsCost, {
+    reason: 'reward_redemption',
+    ref: { type: 'redemption', id, rewardId: reward.id }
+  });
+  if (spent.error) {
+    return {
+      error: spent.error,
+      message: `This costs ${reward.pointsCost} points and your balance is ${spent.balance}`,
+      status: 409
+    };
+  }
+
+  const redemption = redemptions.insert({
+    id,
+    userId,
+    rewardId: reward.id,
+    type: reward.type,
+    name: reward.name,
+    pointsCost: reward.pointsCost,
+    ...grantReward(userId, reward, id),
+    createdAt: new Date().toISOString()
+  });
+  return { redemption, balance: spent.balance };
+}
+
+// Redemptions by a user, newest first
+function redemptionsFor(userId) {
+  return redemptions
+    .filter(r => r.userId === userId)
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+// Marks an appointment voucher as used when the booking is made
+function useAppointmentVoucher(userId, input) {
+  const code = String(input || '').trim().toUpperCase();
+  const voucher = redemptions.find(r => r.userId === userId && r.type === 'appointment_discount' && r.code === code);
+  if (!voucher) return { error: 'This voucher code is not valid', status: 404 };
+  if (voucher.usedAt) return { error: 'This voucher has already been used', status: 409 };
+  return { voucher: redemptions.update(voucher.id, { usedAt: new Date().toISOString() }) };
+}
+
+module.exports = {
+  REWARDS,
+  findReward,
+  catalogFor,
+  redeemReward,
+  redemptionsFor,
+  useAppointmentVoucher
+};
@@ -0,0 +1,161 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { queueNotification, deliverQueued } = require('./notifications');
+
+// Seats on family and team plans. Seats belong to the owner rather than to a
+// subscription record, so they carry over plan changes and renewals. A seat
+// is 'invited' until someone who has verified that email signs in, then 'active' until
+// the owner revokes it or the member leaves.
+const seats = collection('seats');
+const users = collection('users');
+
+// People a plan covers, the owner included
+function seatLimit(plan) {
+  return plan && plan.seats ? plan.seats : 1;
+}
+
+// Seats still holding a place on the owner's plan, oldest first
+function openSeats(ownerId) {
+  return seats
+    .filter(s => s.ownerId === ownerId && s.status !== 'revoked')
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+// The seats `plan` actually covers. If the owner ends up on a plan with fewer
+// seats than they have handed out, the newest ones stop granting access.
+function coveredSeats(ownerId, plan) {
+  return openSeats(ownerId).slice(0, seatLimit(plan) - 1);
+}
+
+// Accounts from before email verification have no flag and count as verified
+function isVerified(user) {
+  return user.emailVerified !== false;
+}
+
+// Resolves an email address or a username to { email, user }; an email
+// address without an account yet is fine, the seat waits for it
+function resolveMember(identifier) {
+  const value = String(identifier || '').trim();
+  if (value.includes('@') && !value.startsWith('@')) {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return null;
+    const email = value.toLowerCase();
+    // An unverified account may not own the address; the seat waits until it does
+    const user = users.find(u => u.email.toLowerCase() === email && isVerified(u));
+    return { email, user: user || null };
+  }
+  const username = value.replace(/^@/, '').toLowerCase();
+  const user = username && users.find(u => u.username.toLowerCase() === username);
+  return user ? { email: user.email.toLowerCase(), user } : null;
+}
+
+function toPublicSeat(seat) {
+  const member = seat.userId ? users.get(seat.userId) : null;
+  return {
+    id: seat.id,
+    email: seat.email,
+    status: seat.status,
+    memberName: member ? member.fullName.trim() : null,
+    username: member ? member.username : null,
+    createdAt: seat.createdAt,
+    joinedAt: seat.joinedAt || null
+  };
+}
+
+// Seat usage for the owner's dashboard
+function seatSummary(ownerId, plan) {
+  const open = openSeats(ownerId);
+  return {
+    planId: plan.id,
+    limit: seatLimit(plan),
+    used: 1 + open.length,
+    seats: open.map(toPublicSeat)
+  };
+}
+
+// Gives a seat on `plan` to `identifier` (email or username). Returns { seat }
+// or { error, status } with the HTTP status the route should answer with.
+function inviteMember({ owner, plan, identifier }) {
+  if (seatLimit(plan) <= 1) {
+    return { error: `The ${plan.name} plan has no extra seats`, status: 400 };
+  }
+
+  const member = resolveMember(identifier);
+  if (!member) {
+    return { error: 'Enter a valid email address or an existing username', status: 400 };
+  }
+  if (member.email === owner.email.toLowerCase()) {
+    return { error: 'You already have access as the plan owner', status: 400 };
+  }
+
+  const open = openSeats(owner.id);
+  if (open.some(s => s.email === member.email || (member.user && s.userId === member.user.id))) {
+    return { error: 'This person already has a seat on your plan', status: 409 };
+  }
+  if (open.length >= seatLimit(plan) - 1) {
+    return { error: `All ${seatLimit(plan)} seats on your plan are in use. Revoke one to invite someone else.`, status: 409 };
+  }
+
+  const now = new Date().toISOString();
+  const seat = seats.insert({
+    id: `seat_${crypto.randomBytes(8).toString('hex')}`,
+    ownerId: owner.id,
+    email: member.email,
+    userId: member.user ? member.user.id : null,
+    status: member.user ? 'active' : 'invited',
+    createdAt: now,
+    joinedAt: member.user ? now : null
+  });
+
+  queueNotification({
+    type: 'seat_invite',
+    to: member.email,
+    ownerName: owner.fullName.trim() || 'A SignalAI reader',
+    planName: plan.name
+  });
+  deliverQueued().catch(error => console.error('Seat invite delivery failed:', error));
+
+  return { seat: toPublicSeat(seat) };
+}
+
+// Revokes a seat. The owner can revoke any of their seats; a member can only
+// give up their own.
+function revokeSeat(seatId, userId) {
+  const seat = seats.get(seatId);
+  if (!seat || seat.status === 'revoked' || (seat.ownerId !== userId && seat.userId !== userId)) {
+    return { error: 'Seat not found', status: 404 };
+  }
+  const revoked = seats.update(seat.id, {
+    status: 'revoked',
+    revokedAt: new Date().toISOString(),
+    revokedBy: userId
+  });
+  return { seat: toPublicSeat(revoked) };
+}
+
+// The open seat held by `userId` that `isCovered` accepts, if any. An
+// invitation sent to the user's email is claimed here, once they have verified
+// that address. A user can hold seats from several owners, so a seat on a plan
+// that has lapsed doesn't hide one that is still covered.
+function seatFor(userId, isCovered = () => true) {
+  const user = users.get(userId);
+  if (!user) return null;
+
+  const email = user.email.toLowerCase();
+  const claimable = isVerified(user);
+  const seat = seats
+    .filter(s => s.status !== 'revoked' && (s.userId === userId || (claimable && !s.userId && s.email === email)))
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt))
+    .find(isCovered);
+  if (!seat || seat.userId) return seat || null;
+  return seats.update(seat.id, { userId, status: 'active', joinedAt: new Date().toISOString() });
+}
+
+module.exports = {
+  seatLimit,
+  openSeats,
+  coveredSeats,
+  seatSummary,
+  inviteMember,
+  revokeSeat,
+  seatFor
+};
@@ -0,0 +1,440 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { findPlan } = require('./plans');
+const { adjustPoints } = require('./points');
+const { confirmRedemption } = require('./coupons');
+const { coveredSeats, seatFor } = require('./seats');
+const { issueInvoice } = require('./invoices');
+
+const subscriptions = collection('subscriptions');
+const users = collection('users');
+
+// How long a renewing subscription keeps access after a failed renewal while
+// the provider retries the charge
+const GRACE_PERIOD_DAYS = parseInt(process.env.SUBSCRIPTION_GRACE_DAYS, 10) || 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A trial whose first charge has not arrived this long after it ended has lapsed
+const TRIAL_CONVERSION_WINDOW_MS = DAY_MS;
+// A trial checkout not completed this long after it was opened is abandoned
+const TRIAL_CHECKOUT_TTL_MS = 30 * 60 * 1000;
+
+// Statuses that grant the subscription's tier. cancel_scheduled keeps access
+// until endDate and then becomes 'cancelled'; trialing is a free trial that
+// ends at endDate, when the provider makes the first charge.
+const ENTITLED_STATUSES = ['active', 'trialing', 'past_due', 'cancel_scheduled'];
+// paymentMethod of terms granted by activateFreeTerm
+const FREE_TERM_METHODS = ['points', 'referral'];
+
+function addInterval(date, interval) {
+  const next = new Date(date);
+  if (interval === 'year') {
+    next.setFullYear(next.getFullYear() + 1);
+  } else {
+    next.setMonth(next.getMonth() + 1);
+  }
+  return next;
+}
+
+function graceEndFor(subscription) {
+  return new Date(Date.parse(subscription.endDate) + GRACE_PERIOD_DAYS * DAY_MS).toISOString();
+}
+
+// Expire lapsed subscriptions when they are read. A renewing subscription is
+// charged by the provider at endDate, so it only lapses if no renewal arrived
+// by the end of the grace period (e.g. a missed webhook).
+function refreshStatus(subscription) {
+  const now = Date.now();
+  if (subscription.status === 'active' && Date.parse(subscription.endDate) <= now) {
+    if (!subscription.autoRenew || Date.parse(graceEndFor(subscription)) <= now) {
+      return subscriptions.update(subscription.id, { status: 'expired' });
+    }
+  }
+  if (subscription.status === 'trialing' && Date.parse(subscription.endDate) + TRIAL_CONVERSION_WINDOW_MS <= now) {
+    return subscriptions.update(subscription.id, { status: 'expired', autoRenew: false });
+  }
+  if (subscription.status === 'cancel_scheduled' && Date.parse(subscription.endDate) <= now) {
+    return subscriptions.update(subscription.id, { status: 'cancelled', cancelledAt: subscription.endDate });
+  }
+  if (subscription.status === 'past_due' && Date.parse(subscription.graceUntil) <= now) {
+    return subscriptions.update(subscription.id, { status: 'expired', nextRetryAt: null });
+  }
+  return subscription;
+}
+
+// Checkouts that were never paid stay 'pending', and ones refused when they
+// were paid become 'rejected' (see fulfillment.js); neither is part of the history
+const UNSTARTED_STATUSES = ['pending', 'rejected'];
+
+function listForUser(userId) {
+  return subscriptions
+    .filter(s => s.userId === userId && !UNSTARTED_STATUSES.includes(s.status))
+    .map(refreshStatus)
+    .sort((a, b) => Date.parse(b.startDate) - Date.parse(a.startDate));
+}
+
+function currentForUser(userId) {
+  const history = listForUser(userId);
+  return history.find(s => ENTITLED_STATUSES.includes(s.status)) || history[0] || null;
+}
+
+// The user's own subscription that currently grants access, if any
+function entitledSubscription(userId) {
+  const current = currentForUser(userId);
+  return current && ENTITLED_STATUSES.includes(current.status) ? current : null;
+}
+
+// Another subscription of the same user that already grants access, apart
+// from the one `subscription` replaces
+function otherEntitlement(subscription) {
+  return listForUser(subscription.userId).find(s =>
+    s.id !== subscription.id &&
+    s.id !== subscription.replaces &&
+    ENTITLED_STATUSES.includes(s.status)
+  );
+}
+
+// One free trial per user. A trial checkout counts from the moment it is
+// opened, so two cannot be started side by side; one left unfinished stops
+// counting after TRIAL_CHECKOUT_TTL_MS.
+function hasUsedTrial(userId, { except, now = Date.now() } = {}) {
+  return subscriptions.filter(s =>
+    s.userId === userId &&
+    s.id !== except &&
+    (s.trialStartedAt ||
+      (s.trialEndsAt && s.status === 'pending' && now - Date.parse(s.createdAt) < TRIAL_CHECKOUT_TTL_MS))
+  ).length > 0;
+}
+
+function refreshAll() {
+  return subscriptions.all().map(refreshStatus);
+}
+
+function activateSubscription({ userId, plan, order, payment }) {
+  const startDate = new Date();
+  return subscriptions.insert({
+    id: `sub_${crypto.randomBytes(8).toString('hex')}`,
+    userId,
+    planId: plan.id,
+    tier: plan.tier,
+    status: 'active',
+    startDate: startDate.toISOString(),
+    endDate: addInterval(startDate, plan.interval).toISOString(),
+    paymentMethod: order.provider || 'razorpay',
+    razorpayOrderId: order.id,
+    razorpayPaymentId: payment.id,
+    amount: payment.amount,
+    firstChargeAmount: payment.amount,
+    currency: payment.currency,
+    bonusPoints: adjustPoints(userId, plan.bonusPoints, { reason: 'subscription_bonus', ref: { type: 'order', id: order.id } }),
+    createdAt: startDate.toISOString()
+  });
+}
+
+// A redeemed gift code: one term of the plan, paid for by someone else and
+// never renewed
+function activateGiftSubscription({ userId, plan, giftCode }) {
+  const startDate = new Date();
+  return subscriptions.insert({
+    id: `sub_${crypto.randomBytes(8).toString('hex')}`,
+    userId,
+    planId: plan.id,
+    tier: plan.tier,
+    status: 'active',
+    autoRenew: false,
+    startDate: startDate.toISOString(),
+    endDate: addInterval(startDate, plan.interval).toISOString(),
+    paymentMethod: 'gift',
+    giftCode,
+    amount: 0,
+    currency: plan.currency,
+    bonusPoints: adjustPoints(userId, plan.bonusPoints, { reason: 'subscription_bonus', ref: { type: 'gift', id: giftCode } }),
+    createdAt: startDate.toISOString()
+  });
+}
+
+// A term nobody pays money for: bought with SignalAI points (see rewards.js)
+// or earned through a referral (see referrals.js). Like a gift it is never
+// renewed, and it earns no bonus points of its own. `days` replaces the
+// plan's interval; `refs` links the record to what granted it.
+function activateFreeTerm({ userId, plan, paymentMethod, days, ...refs }) {
+  const startDate = new Date();
+  const endDate = days ? new Date(startDate.getTime() + days * DAY_MS) : addInterval(startDate, plan.interval);
+  return subscriptions.insert({
+    id: `sub_${crypto.randomBytes(8).toString('hex')}`,
+    userId,
+    planId: plan.id,
+    tier: plan.tier,
+    status: 'active',
+    autoRenew: false,
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    paymentMethod,
+    ...refs,
+    amount: 0,
+    currency: plan.currency,
+    bonusPoints: 0,
+    createdAt: startDate.toISOString()
+  });
+}
+
+// Recurring checkout: the record exists from the moment the provider
+// subscription is created, and becomes 'active' once the first charge lands.
+// `change` is set when the checkout replaces an existing subscription
+// (see planChange.js): the first charge is the prorated amount and the first
+// period ends on a fixed date. `coupon` ({ code, discount, amount, firstPeriodEnd })
+// likewise discounts the first charge. `trialEndsAt` makes it a free trial:
+// the provider's first charge happens then (see startTrial).
+function createPendingSubscription({ userId, plan, providerSubscription, provider, change, coupon, trialEndsAt }) {
+  const now = new Date().toISOString();
+  return subscriptions.insert({
+    id: `sub_${crypto.randomBytes(8).toString('hex')}`,
+    userId,
+    planId: plan.id,
+    tier: plan.tier,
+    status: 'pending',
+    autoRenew: true,
+    providerSubscriptionId: providerSubscription.id,
+    paymentMethod: provider,
+    amount: plan.amount,
+    currency: plan.currency,
+    renewals: [],
+    ...(change ? {
+      replaces: change.subscriptionId,
+      upfrontAmount: change.amountDue,
+      prorationCredit: change.credit,
+      firstPeriodEnd: change.nextBillingDate
+    } : {}),
+    ...(coupon ? {
+      couponCode: coupon.code,
+      couponDiscount: coupon.discount,
+      upfrontAmount: coupon.amount,
+      firstPeriodEnd: coupon.firstPeriodEnd
+    } : {}),
+    ...(trialEndsAt ? { trialEndsAt } : {}),
+    createdAt: now
+  });
+}
+
+function unixToIso(seconds) {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+// The customer authorized the payment method for a trial subscription. Nothing
+// has been charged; access runs until trialEndsAt, when the first charge
+// converts it (recordCharge). Checked again here, as several checkouts may have
+// been opened: a trial is `rejected` once another one has started, or while
+// the user has another subscription.
+function startTrial(subscription) {
+  if (subscription.status === 'rejected') return { subscription, rejected: subscription.rejectionReason };
+  if (subscription.status !== 'pending') return { subscription, alreadyStarted: true };
+  if (otherEntitlement(subscription)) return { subscription, rejected: 'already_subscribed' };
+  if (subscriptions.find(s => s.userId === subscription.userId && s.id !== subscription.id && s.trialStartedAt)) {
+    return { subscription, rejected: 'trial_already_used' };
+  }
+
+  const now = new Date().toISOString();
+  return {
+    subscription: updateSubscription(subscription.id, {
+      status: 'trialing',
+      trialStartedAt: now,
+      startDate: now,
+      currentPeriodStart: now,
+      endDate: subscription.trialEndsAt
+    }),
+    started: true
+  };
+}
+
+function bonusEntry(subscription, payment) {
+  return { reason: 'subscription_bonus', ref: { type: 'subscription', id: subscription.id, paymentId: payment.id } };
+}
+
+function invoiceCharge(subscription, plan, payment, period) {
+  return issueInvoice({
+    userId: subscription.userId,
+    payment,
+    description: `SignalAI ${plan.name} subscription`,
+    period,
+    ref: { subscriptionId: subscription.id }
+  });
+}
+
+// Applies a captured charge on a provider subscription: the first one activates
+// it (or converts a trial), later ones are renewals that extend endDate
+// (switching to a downgrade scheduled for this renewal). `period` is the
+// provider's billing cycle ({ current_start, current_end } in unix seconds)
+// when known.
+// Charges already recorded are ignored, so /verify and webhooks can race; a
+// charge that does not match the plan is reported as `mismatch`, and a first
+// charge that may not be honoured (the user subscribed through another
+// checkout meanwhile, or its coupon hold was lost) as `rejected`.
+function recordCharge(subscription, payment, period = {}) {
+  const chargedAt = new Date().toISOString();
+  const charges = subscription.renewals || [];
+  if (subscription.razorpayPaymentId === payment.id || charges.some(c => c.paymentId === payment.id)) {
+    return { subscription, alreadyRecorded: true };
+  }
+  if (subscription.status === 'rejected') return { subscription, rejected: subscription.rejectionReason };
+
+  const activating = subscription.status === 'pending' || subscription.status === 'trialing';
+  const plan = findPlan(!activating && subscription.scheduledChange
+    ? subscription.scheduledChange.planId
+    : subscription.planId);
+  // A plan change or coupon opens with a reduced charge instead of the plan price
+  const expectedAmount = activating && subscription.upfrontAmount ? subscription.upfrontAmount : plan.amount;
+
+  if (payment.status !== 'captured') return { subscription, mismatch: 'status' };
+  if (payment.amount !== expectedAmount) return { subscription, mismatch: 'amount' };
+  if (payment.currency !== plan.currency) return { subscription, mismatch: 'currency' };
+
+  const recovered = {
+    status: 'active',
+    failedAttempts: 0,
+    graceUntil: null,
+    nextRetryAt: null,
+    lastFailureReason: null
+  };
+
+  if (activating) {
+    if (otherEntitlement(subscription)) return { subscription, rejected: 'already_subscribed' };
+    if (subscription.couponCode && confirmRedemption({ subscriptionId: subscription.id }).error) {
+      return { subscription, rejected: 'coupon_unavailable' };
+    }
+    const startDate = unixToIso(period.current_start) || chargedAt;
+    const endDate = subscription.firstPeriodEnd ||
+      unixToIso(period.current_end) ||
+      addInterval(startDate, plan.interval).toISOString();
+    const invoice = invoiceCharge(subscription, plan, payment, { start: startDate, end: endDate });
+    return {
+      subscription: updateSubscription(subscription.id, {
+        ...recovered,
+        bonusPoints: adjustPoints(subscription.userId, plan.bonusPoints, bonusEntry(subscription, payment)),
+        startDate: subscription.startDate || startDate,
+        currentPeriodStart: startDate,
+        endDate,
+        razorpayPaymentId: payment.id,
+        invoiceId: invoice && invoice.id,
+        amount: payment.amount,
+        firstChargeAmount: payment.amount,
+        currency: payment.currency
+      }),
+      activated: true
+    };
+  }
+
+  // Renewals extend from the end of the paid period, not from today, so a
+  // charge that was retried during the grace period does not shift the cycle
+  const endDate = unixToIso(period.current_end) || addInterval(subscription.endDate, plan.interval).toISOString();
+  const bonusPoints = adjustPoints(subscription.userId, plan.bonusPoints, bonusEntry(subscription, payment));
+  const invoice = invoiceCharge(subscription, plan, payment, { start: subscription.endDate, end: endDate });
+  return {
+    subscription: updateSubscription(subscription.id, {
+      ...recovered,
+      planId: plan.id,
+      tier: plan.tier,
+      amount: plan.amount,
+      scheduledChange: null,
+      currentPeriodStart: subscription.endDate,
+      endDate,
+      renewals: [...charges, {
+        paymentId: payment.id,
+        planId: plan.id,
+        amount: payment.amount,
+        bonusPoints,
+        invoiceId: invoice && invoice.id,
+        chargedAt,
+        periodEnd: endDate
+      }]
+    }),
+    renewed: true
+  };
+}
+
+// A renewal charge failed. Access continues until graceUntil while the
+// provider retries; refreshStatus expires it if no charge succeeds by then.
+function markPastDue(subscription, { reason, nextRetryAt } = {}) {
+  return updateSubscription(subscription.id, {
+    status: 'past_due',
+    graceUntil: subscription.graceUntil || graceEndFor(subscription),
+    failedAttempts: (subscription.failedAttempts || 0) + 1,
+    lastFailureReason: reason || 'Renewal payment failed',
+    nextRetryAt: nextRetryAt || null
+  });
+}
+
+function findSubscription(predicate) {
+  const subscription = subscriptions.find(predicate);
+  return subscription ? refreshStatus(subscription) : undefined;
+}
+
+function ownerName(userId) {
+  const user = users.get(userId);
+  return user ? user.fullName.trim() : null;
+}
+
+function updateSubscription(id, updates) {
+  return subscriptions.update(id, { ...updates, updatedAt: new Date().toISOString() });
+}
+
+// A seat on someone else's family or team plan grants that plan's tier for
+// as long as the owner's subscription does
+function seatEntitlement(userId) {
+  const ownerPlan = seat => {
+    const owner = currentForUser(seat.ownerId);
+    if (!owner || !ENTITLED_STATUSES.includes(owner.status)) return null;
+    const plan = findPlan(owner.planId);
+    return coveredSeats(seat.ownerId, plan).some(s => s.id === seat.id) ? { subscription: owner, plan } : null;
+  };
+
+  const seat = seatFor(userId, s => !!ownerPlan(s));
+  return seat ? { seat, ...ownerPlan(seat) } : null;
+}
+
+// What the client needs to decide access: tier/status of the current record plus history.
+// The user's own subscription wins over a seat on someone else's plan.
+function entitlementFor(userId) {
+  const current = currentForUser(userId);
+  const entitled = current && ENTITLED_STATUSES.includes(current.status);
+  const shared = entitled ? null : seatEntitlement(userId);
+  return {
+    tier: entitled ? current.tier : shared ? shared.plan.tier : 'free',
+    status: current ? current.status : 'none',
+    startDate: current ? current.startDate : null,
+    endDate: current ? current.endDate : null,
+    nextBillingDate: entitled && current.autoRenew ? current.endDate : null,
+    graceUntil: current && current.status === 'past_due' ? current.graceUntil : null,
+    trialEndsAt: current && current.status === 'trialing' ? current.endDate : null,
+    trialEligible: !hasUsedTrial(userId),
+    seat: shared ? {
+      id: shared.seat.id,
+      ownerId: shared.seat.ownerId,
+      ownerName: ownerName(shared.seat.ownerId),
+      planId: shared.plan.id,
+      endDate: shared.subscription.endDate
+    } : null,
+    subscription: current,
+    history: listForUser(userId)
+  };
+}
+
+module.exports = {
+  ENTITLED_STATUSES,
+  FREE_TERM_METHODS,
+  addInterval,
+  unixToIso,
+  listForUser,
+  currentForUser,
+  entitledSubscription,
+  hasUsedTrial,
+  refreshAll,
+  activateSubscription,
+  activateGiftSubscription,
+  activateFreeTerm,
+  createPendingSubscription,
+  startTrial,
+  recordCharge,
+  markPastDue,
+  findSubscription,
+  updateSubscription,
+  entitlementFor
+};
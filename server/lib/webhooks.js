@@ -0,0 +1,200 @@
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { fulfillOrder, fulfillTrial, fulfillCharge } = require('./fulfillment');
+const {
+  findSubscription,
+  updateSubscription,
+  markPastDue,
+  unixToIso
+} = require('./subscriptions');
+const { cancelImmediately } = require('./cancellation');
+const { recordRefund } = require('./refunds');
+
+const orders = collection('orders');
+const webhookEvents = collection('webhook_events');
+
+function verifyWebhookSignature(rawBody, signature, secret) {
+  if (!signature || !secret) return false;
+  const expected = Buffer.from(crypto.createHmac('sha256', secret).update(rawBody).digest('hex'));
+  const actual = Buffer.from(String(signature));
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function onPaymentCaptured(payload) {
+  const payment = payload.payment.entity;
+  const order = orders.get(payment.order_id);
+  if (!order) return { ignored: `unknown order ${payment.order_id}` };
+
+  const result = fulfillOrder(order, payment);
+  if (result.mismatch) return { ignored: `payment ${result.mismatch} mismatch` };
+  if (result.rejected) return { orderId: order.id, rejected: result.rejected };
+  return { orderId: order.id, subscriptionId: result.order.subscriptionId };
+}
+
+function onPaymentFailed(payload) {
+  const payment = payload.payment.entity;
+  const order = orders.get(payment.order_id);
+  if (!order) return { ignored: `unknown order ${payment.order_id}` };
+  if (order.status === 'paid' || order.status === 'rejected') return { ignored: `order already ${order.status}` };
+
+  orders.update(order.id, {
+    status: 'failed',
+    failedPaymentId: payment.id,
+    failureReason: payment.error_description || payment.error_code || 'Payment failed',
+    failedAt: new Date().toISOString()
+  });
+  return { orderId: order.id };
+}
+
+function onRefundProcessed(payload) {
+  const refund = payload.refund.entity;
+  const subscription = findSubscription(s =>
+    s.razorpayPaymentId === refund.payment_id ||
+    (s.renewals || []).some(r => r.paymentId === refund.payment_id)
+  );
+  if (!subscription) return { ignored: `no subscription for payment ${refund.payment_id}` };
+
+  const result = recordRefund(subscription, refund);
+  if (result.ignored) return { ignored: result.ignored };
+  return {
+    subscriptionId: subscription.id,
+    fullyRefunded: !!result.fullyRefunded,
+    ...(result.alreadyRecorded ? { alreadyRecorded: true } : { pointsDeducted: result.pointsDeducted })
+  };
+}
+
+// Provider subscription lifecycle → our subscription status. Charges and
+// failed renewals carry more than a status change and have their own handlers.
+const SUBSCRIPTION_STATUS = {
+  'subscription.activated': 'active',
+  'subscription.resumed': 'active',
+  'subscription.halted': 'expired',
+  'subscription.paused': 'expired',
+  'subscription.cancelled': 'cancelled',
+  'subscription.completed': 'expired'
+};
+
+const SUBSCRIPTION_EVENTS = [
+  ...Object.keys(SUBSCRIPTION_STATUS),
+  'subscription.authenticated',
+  'subscription.charged',
+  'subscription.pending'
+];
+
+// The payment method was authorized. Only trials start here; any other
+// subscription waits for its first charge.
+function onSubscriptionAuthenticated(subscription) {
+  if (!subscription.trialEndsAt) return { ignored: 'not a trial' };
+  const result = fulfillTrial(subscription);
+  if (result.rejected) return { subscriptionId: subscription.id, rejected: result.rejected };
+  return {
+    subscriptionId: subscription.id,
+    status: result.subscription.status,
+    ...(result.alreadyStarted ? { alreadyStarted: true } : {})
+  };
+}
+
+// First payment or a renewal: activates the subscription or extends endDate.
+// Access is only granted for a payment fulfillCharge has checked.
+function onSubscriptionCharged(subscription, payload) {
+  const entity = payload.subscription.entity;
+  if (!payload.payment) return { ignored: 'charge without a payment' };
+
+  const result = fulfillCharge(subscription, payload.payment.entity, entity);
+  if (result.mismatch) return { ignored: `payment ${result.mismatch} mismatch` };
+  if (result.rejected) return { subscriptionId: subscription.id, rejected: result.rejected };
+  return {
+    subscriptionId: subscription.id,
+    status: result.subscription.status,
+    endDate: result.subscription.endDate,
+    ...(result.alreadyRecorded ? { alreadyRecorded: true } : {})
+  };
+}
+
+// A renewal charge failed and the provider will retry at charge_at. A trial
+// that fails to convert is not retried: it lapses back to free.
+function onSubscriptionPending(subscription, payload) {
+  const entity = payload.subscription.entity;
+  const payment = payload.payment && payload.payment.entity;
+  if (subscription.status === 'trialing') {
+    const lapsed = cancelImmediately(subscription, {
+      status: 'expired',
+      lastFailureReason: (payment && (payment.error_description || payment.error_code)) || 'Trial payment failed'
+    });
+    return { subscriptionId: subscription.id, status: lapsed.status };
+  }
+  const updated = markPastDue(subscription, {
+    reason: payment && (payment.error_description || payment.error_code),
+    nextRetryAt: unixToIso(entity.charge_at)
+  });
+  return { subscriptionId: subscription.id, status: updated.status, graceUntil: updated.graceUntil };
+}
+
+function onSubscriptionEvent(payload, eventName) {
+  const entity = payload.subscription.entity;
+  const subscription = findSubscription(s => s.providerSubscriptionId === entity.id);
+  if (!subscription) return { ignored: `unknown provider subscription ${entity.id}` };
+  if (subscription.status === 'rejected' && !['subscription.authenticated', 'subscription.charged'].includes(eventName)) {
+    return { ignored: 'checkout was rejected' };
+  }
+
+  if (eventName === 'subscription.authenticated') return onSubscriptionAuthenticated(subscription);
+  if (eventName === 'subscription.charged') return onSubscriptionCharged(subscription, payload);
+  if (eventName === 'subscription.pending') return onSubscriptionPending(subscription, payload);
+
+  // Activation is recorded from the first charge, which may arrive after this
+  if (eventName === 'subscription.activated' && ['pending', 'trialing'].includes(subscription.status)) {
+    return { ignored: 'awaiting first charge' };
+  }
+
+  const updates = { status: SUBSCRIPTION_STATUS[eventName] };
+  if (entity.current_end) updates.endDate = unixToIso(entity.current_end);
+  if (updates.status !== 'active') updates.autoRenew = false;
+  if (eventName === 'subscription.cancelled') updates.cancelledAt = new Date().toISOString();
+
+  updateSubscription(subscription.id, updates);
+  return { subscriptionId: subscription.id, status: updates.status };
+}
+
+function handleEvent(event) {
+  switch (event.event) {
+    case 'payment.captured':
+      return onPaymentCaptured(event.payload);
+    case 'payment.failed':
+      return onPaymentFailed(event.payload);
+    case 'refund.processed':
+      return onRefundProcessed(event.payload);
+    default:
+      if (SUBSCRIPTION_EVENTS.includes(event.event)) return onSubscriptionEvent(event.payload, event.event);
+      return { ignored: `unhandled event ${event.event}` };
+  }
+}
+
+// Records each event id once. Returns false for a duplicate that was already
+// processed; failed deliveries may be retried.
+function claimEvent(eventId, eventName) {
+  const existing = webhookEvents.get(eventId);
+  if (existing && existing.status !== 'failed') return false;
+
+  const record = { id: eventId, event: eventName, status: 'processing', receivedAt: new Date().toISOString() };
+  if (existing) {
+    webhookEvents.update(eventId, record);
+  } else {
+    webhookEvents.insert(record);
+  }
+  return true;
+}
+
+function completeEvent(eventId, result) {
+  webhookEvents.update(eventId, {
+    status: result.ignored ? 'ignored' : 'processed',
+    result,
+    processedAt: new Date().toISOString()
+  });
+}
+
+function failEvent(eventId, error) {
+  webhookEvents.update(eventId, { status: 'failed', error: error.message });
+}
+
+module.exports = { verifyWebhookSignature, handleEvent, claimEvent, completeEvent, failEvent };
@@ -0,0 +1,123 @@
+const express = require('express');
+const provider = require('../lib/payments');
+const { requireAdmin } = require('../lib/auth');
+const { findSubscription } = require('../lib/subscriptions');
+const { refundableCharge, recordRefund } = require('../lib/refunds');
+const { createCoupon, updateCoupon, listCoupons } = require('../lib/coupons');
+const { findSource } = require('../lib/feeds/sources');
+const { ingestSource, ingestAll, feedStatus } = require('../lib/feeds');
+const { clusterStories } = require('../lib/feeds/clustering');
+
+const router = express.Router();
+
+router.get('/subscriptions/:id', requireAdmin, (req, res) => {
+  const subscription = findSubscription(s => s.id === req.params.id);
+  if (!subscription) {
+    return res.status(404).json({ error: 'Subscription not found' });
+  }
+  res.json({ subscription, refundable: refundableCharge(subscription) });
+});
+
+// Refunds the payment for the current period, in full or in part (`amount`
+// in paise). A full refund ends the subscription; bonus points are taken
+// back in proportion either way.
+router.post('/subscriptions/:id/refund', requireAdmin, async (req, res) => {
+  try {
+    const subscription = findSubscription(s => s.id === req.params.id);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const charge = refundableCharge(subscription);
+    if (!charge || charge.refundable <= 0) {
+      return res.status(400).json({ error: 'Nothing left to refund' });
+    }
+
+    const { amount = charge.refundable, reason } = req.body || {};
+    if (!Number.isInteger(amount) || amount <= 0 || amount > charge.refundable) {
+      return res.status(400).json({
+        error: 'Invalid amount',
+        message: `Amount must be a whole number of paise between 1 and ${charge.refundable}`
+      });
+    }
+
+    const notes = { subscriptionId: subscription.id, refundedBy: req.user.id, ...(reason ? { reason } : {}) };
+    const refund = await provider.refund(charge.paymentId, { amount, notes });
+    const result = recordRefund(subscription, { ...refund, payment_id: charge.paymentId, notes });
+
+    console.log('Subscription refunded:', {
+      subscriptionId: subscription.id,
+      paymentId: charge.paymentId,
+      refundId: refund.id,
+      amount,
+      refundedBy: req.user.id
+    });
+
+    res.json({
+      refund: { id: refund.id, amount: refund.amount, status: refund.status },
+      fullyRefunded: result.fullyRefunded,
+      pointsDeducted: result.pointsDeducted,
+      subscription: result.subscription
+    });
+  } catch (error) {
+    console.error('Refund error:', error);
+    res.status(500).json({
+      error: 'Refund failed',
+      message: error.message
+    });
+  }
+});
+
+router.get('/coupons', requireAdmin, (req, res) => {
+  res.json({ coupons: listCoupons() });
+});
+
+// { code, type: 'percent' | 'flat', value, planIds?, expiresAt?, maxRedemptions?,
+//   perUserLimit?, description? }. Flat values are paise.
+router.post('/coupons', requireAdmin, (req, res) => {
+  const result = createCoupon(req.body || {});
+  if (result.error) {
+    return res.status(400).json({ error: 'Invalid coupon', message: result.error });
+  }
+  res.status(201).json({ coupon: result.coupon });
+});
+
+router.patch('/coupons/:code', requireAdmin, (req, res) => {
+  const result = updateCoupon(req.params.code, req.body || {});
+  if (result.notFound) {
+    return res.status(404).json({ error: result.error });
+  }
+  if (result.error) {
+    return res.status(400).json({ error: 'Invalid coupon', message: result.error });
+  }
+  res.json({ coupon: result.coupon });
+});
+
+router.get('/feeds', requireAdmin, (req, res) => {
+  res.json({ feeds: feedStatus() });
+});
+
+// Polls every feed now, or just one with { sourceId }
+router.post('/feeds/ingest', requireAdmin, async (req, res) => {
+  try {
+    const { sourceId } = req.body || {};
+    if (!sourceId) {
+      return res.json(await ingestAll());
+    }
+
+    const source = findSource(sourceId);
+    if (!source) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+    const result = await ingestSource(source);
+    res.json({ results: [result], clusters: clusterStories().clusters });
+  } catch (error) {
+    console.error('Feed ingestion error:', error);
+    res.status(502).json({
+      error: 'Feed ingestion failed',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
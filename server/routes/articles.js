@@ -0,0 +1,223 @@
+const express = require('express');
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { requireAuth, optionalAuth } = require('../lib/auth');
+const { awardPublishing } = require('../lib/pointRules');
+const { withCoverage, isAlternate } = require('../lib/feeds/clustering');
+
+const router = express.Router();
+const articles = collection('articles');
+
+// Fields a client is allowed to set; everything else, including the author
+// (always the signed-in user), is server-managed.
+const EDITABLE_FIELDS = [
+  'title',
+  'summary',
+  'content',
+  'imageUrl',
+  'publishedAt',
+  'category',
+  'source',
+  'readTime',
+  'tags',
+  'isPremium',
+  'language',
+  'localizedContent',
+  'culturalContext',
+  'regionalRelevance',
+  'status'
+];
+
+const STATUSES = ['draft', 'published'];
+
+function pickEditable(body) {
+  const out = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) out[field] = body[field];
+  }
+  return out;
+}
+
+function invalidStatus(fields) {
+  return fields.status !== undefined && !STATUSES.includes(fields.status);
+}
+
+function authorName(user) {
+  return user.fullName || user.username;
+}
+
+function estimateReadTime(content) {
+  return Math.max(1, Math.round((content || '').split(/\s+/).length / 200));
+}
+
+// Drafts are only visible to their author
+function isVisibleTo(article, user) {
+  return article.status === 'published' || (!!user && article.authorId === user.id);
+}
+
+function loadOwnArticle(req, res) {
+  const article = articles.get(req.params.id);
+  if (!article) {
+    res.status(404).json({ error: 'Article not found' });
+    return undefined;
+  }
+  if (article.authorId !== req.user.id) {
+    res.status(403).json({ error: 'You can only modify your own articles' });
+    return undefined;
+  }
+  return article;
+}
+
+function timeOf(article, primary, fallback) {
+  return Date.parse(article[primary] || article[fallback] || '') || 0;
+}
+
+// GET /api/articles — same filters as NewsContext.list. Clustered feed
+// stories carry `coverage`; collapse=stories leaves only one article per story.
+router.get('/', optionalAuth, (req, res) => {
+  const { category, language, status, q, authorId, sort, collapse } = req.query;
+  let out = articles.filter(a => isVisibleTo(a, req.user));
+
+  if (authorId) {
+    out = out.filter(a => a.authorId === authorId || a.author === authorId);
+  }
+  if (status) {
+    out = out.filter(a => a.status === status);
+  }
+  if (category) {
+    out = out.filter(a => a.category === category);
+  }
+  if (language) {
+    out = out.filter(a => a.language === language);
+  }
+  if (q) {
+    const term = String(q).toLowerCase();
+    out = out.filter(a =>
+      [a.title, a.summary, a.content, (a.tags || []).join(' ')].join(' ').toLowerCase().includes(term)
+    );
+  }
+  if (collapse === 'stories') {
+    out = out.filter(a => !isAlternate(a));
+  }
+
+  if (sort === '-createdAt') {
+    out.sort((x, y) => timeOf(y, 'createdAt', 'publishedAt') - timeOf(x, 'createdAt', 'publishedAt'));
+  } else if (sort === 'views') {
+    out.sort((x, y) => (y.views || 0) - (x.views || 0));
+  } else {
+    out.sort((x, y) => timeOf(y, 'publishedAt', 'createdAt') - timeOf(x, 'publishedAt', 'createdAt'));
+  }
+
+  const page = Math.max(1, parseInt(req.query.page, 10) || 1);
+  const limit = Math.min(500, Math.max(1, parseInt(req.query.limit, 10) || 100));
+  const start = (page - 1) * limit;
+
+  res.json({ data: out.slice(start, start + limit).map(withCoverage), total: out.length });
+});
+
+router.get('/:id', optionalAuth, (req, res) => {
+  const article = articles.get(req.params.id);
+  if (!article || !isVisibleTo(article, req.user)) {
+    return res.status(404).json({ error: 'Article not found' });
+  }
+  res.json(withCoverage(article));
+});
+
+router.post('/', requireAuth, (req, res) => {
+  try {
+    const fields = pickEditable(req.body || {});
+    const title = (fields.title || '').trim();
+
+    if (!title) {
+      return res.status(400).json({ error: 'Missing required field: title' });
+    }
+    if (invalidStatus(fields)) {
+      return res.status(400).json({ error: `status must be one of: ${STATUSES.join(', ')}` });
+    }
+
+    const now = new Date().toISOString();
+    const status = fields.status === 'draft' ? 'draft' : 'published';
+
+    const article = {
+      ...fields,
+      id: `u_${crypto.randomBytes(6).toString('hex')}`,
+      title,
+      summary: fields.summary || '',
+      content: fields.content || '',
+      imageUrl: fields.imageUrl || '',
+      author: authorName(req.user),
+      authorId: req.user.id,
+      category: fields.category || 'breaking',
+      source: fields.source || 'User Post',
+      readTime: fields.readTime || estimateReadTime(fields.content),
+      tags: Array.isArray(fields.tags) ? fields.tags : [],
+      isPremium: !!fields.isPremium,
+      language: fields.language || 'en',
+      regionalRelevance: fields.regionalRelevance || [],
+      status,
+      publishedAt: status === 'published' ? now : (fields.publishedAt || now),
+      createdAt: now,
+      updatedAt: now,
+      views: 0
+    };
+
+    articles.insert(article);
+    awardPublishing(article);
+    res.status(201).json(article);
+  } catch (error) {
+    console.error('Article creation error:', error);
+    res.status(500).json({
+      error: 'Failed to create article',
+      message: error.message
+    });
+  }
+});
+
+router.put('/:id', requireAuth, (req, res) => {
+  try {
+    const existing = loadOwnArticle(req, res);
+    if (!existing) return;
+
+    const updates = pickEditable(req.body || {});
+    if (invalidStatus(updates)) {
+      return res.status(400).json({ error: `status must be one of: ${STATUSES.join(', ')}` });
+    }
+    updates.author = authorName(req.user);
+    updates.updatedAt = new Date().toISOString();
+
+    if (updates.status === 'published' && existing.status !== 'published') {
+      updates.publishedAt = updates.updatedAt;
+    }
+    if (updates.content !== undefined && updates.readTime === undefined) {
+      updates.readTime = estimateReadTime(updates.content);
+    }
+
+    const updated = articles.update(existing.id, updates);
+    awardPublishing(updated);
+    res.json(updated);
+  } catch (error) {
+    console.error('Article update error:', error);
+    res.status(500).json({
+      error: 'Failed to update article',
+      message: error.message
+    });
+  }
+});
+
+router.delete('/:id', requireAuth, (req, res) => {
+  try {
+    const existing = loadOwnArticle(req, res);
+    if (!existing) return;
+
+    articles.remove(existing.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Article deletion error:', error);
+    res.status(500).json({
+      error: 'Failed to delete article',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
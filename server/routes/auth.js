@@ -0,0 +1,259 @@
+const express = require('express');
+const crypto = require('crypto');
+const { collection } = require('../db');
+const {
+  ACCESS_TOKEN_TTL,
+  REFRESH_TOKEN_TTL,
+  hashPassword,
+  verifyPassword,
+  signAccessToken,
+  hashToken,
+  publicUser,
+  requireAuth,
+  isAdmin
+} = require('../lib/auth');
+const { adjustPoints } = require('../lib/points');
+const { recordVisit } = require('../lib/pointRules');
+const { rememberDevice, attributeSignup, qualifyReferral } = require('../lib/referrals');
+const { startEmailVerification, verifyEmail } = require('../lib/emailVerification');
+
+const router = express.Router();
+const users = collection('users');
+const sessions = collection('sessions');
+
+const USER_TYPES = ['citizen', 'journalist', 'news_channel'];
+const MIN_PASSWORD_LENGTH = 8;
+const WELCOME_BONUS_POINTS = 100;
+const PROFILE_FIELDS = ['fullName', 'bio', 'location', 'avatar', 'specializations', 'socialLinks'];
+
+// Demo accounts so a local checkout can sign in (password: "password").
+// Opt-in with SEED_DEMO_USERS=true, and never for an admin address.
+function seedDemoUsers() {
+  if (users.all().length > 0 || process.env.SEED_DEMO_USERS !== 'true') return;
+
+  const demo = [
+    {
+      id: '1',
+      email: 'Venkatesh@example.com',
+      username: 'Venkatesh',
+      fullName: 'Venkatesh ',
+      userType: 'journalist',
+      isVerified: true,
+      avatar: 'https://images.pexels.com/photos/1181467/pexels-photo-1181467.jpeg?auto=compress&cs=tinysrgb&w=100',
+      bio: 'Investigative journalist with 10+ years experience covering politics and social issues.',
+      location: 'New Delhi, India',
+      joinedDate: '2020-01-15T00:00:00.000Z',
+      SignalAIPoints: 2500,
+      followers: 15000,
+      following: 500,
+      publishedStories: 150,
+      specializations: ['Politics', 'Social Issues', 'Investigative Reporting'],
+      credentials: ['Reuters Institute Fellowship', 'Pulitzer Prize Nominee'],
+      socialLinks: {
+        twitter: '@Venkatesh_news',
+        linkedin: 'Venkatesh-journalist',
+        website: 'Venkatesh.news'
+      }
+    },
+    {
+      id: '2',
+      email: 'priya.sharma@example.com',
+      username: 'priyasharma',
+      fullName: 'Priya Sharma',
+      userType: 'citizen',
+      isVerified: false,
+      avatar: 'https://images.pexels.com/photos/1181533/pexels-photo-1181533.jpeg?auto=compress&cs=tinysrgb&w=100',
+      bio: 'Citizen journalist passionate about local news and community issues.',
+      location: 'Mumbai, India',
+      joinedDate: '2023-06-20T00:00:00.000Z',
+      SignalAIPoints: 750,
+      followers: 1200,
+      following: 300,
+      publishedStories: 25
+    }
+  ];
+
+  const seeded = demo.filter(user => !isAdmin(user));
+  for (const user of seeded) {
+    users.insert({ ...user, passwordHash: hashPassword('password') });
+  }
+  console.log(`👤 Seeded ${seeded.length} demo users`);
+}
+
+seedDemoUsers();
+
+function findByEmail(email) {
+  const normalized = String(email || '').trim().toLowerCase();
+  return users.find(u => u.email.toLowerCase() === normalized);
+}
+
+// Issues an access token plus a rotating refresh token (stored hashed)
+function createSession(user) {
+  const refreshToken = crypto.randomBytes(32).toString('hex');
+  sessions.insert({
+    id: hashToken(refreshToken),
+    userId: user.id,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL * 1000).toISOString()
+  });
+
+  return {
+    user: publicUser(user),
+    accessToken: signAccessToken(user),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL
+  };
+}
+
+router.post('/register', (req, res) => {
+  try {
+    const {
+      email, password, username, fullName, userType, bio, location, specializations,
+      referralCode, deviceId
+    } = req.body || {};
+
+    if (!email || !password || !username || !fullName) {
+      return res.status(400).json({
+        error: 'Missing required fields: email, password, username, fullName'
+      });
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return res.status(400).json({ error: 'Invalid email address' });
+    }
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      });
+    }
+    if (userType && !USER_TYPES.includes(userType)) {
+      return res.status(400).json({ error: 'Invalid userType' });
+    }
+    if (findByEmail(email)) {
+      return res.status(409).json({ error: 'An account with this email already exists' });
+    }
+    if (users.find(u => u.username.toLowerCase() === String(username).toLowerCase())) {
+      return res.status(409).json({ error: 'Username is already taken' });
+    }
+
+    const user = users.insert({
+      id: crypto.randomUUID(),
+      email: String(email).trim(),
+      username: String(username).trim(),
+      fullName: String(fullName).trim(),
+      userType: userType || 'citizen',
+      isVerified: false, // Journalists need manual verification
+      avatar: `https://images.pexels.com/photos/${Math.floor(Math.random() * 1000000)}/pexels-photo.jpeg?auto=compress&cs=tinysrgb&w=100`,
+      bio: bio || '',
+      location: location || '',
+      specializations: Array.isArray(specializations) ? specializations : [],
+      joinedDate: new Date().toISOString(),
+      followers: 0,
+      following: 0,
+      publishedStories: 0,
+      passwordHash: hashPassword(String(password))
+    });
+    adjustPoints(user.id, WELCOME_BONUS_POINTS, { reason: 'welcome_bonus' });
+    recordVisit(user.id);
+    attributeSignup(user, { code: referralCode, deviceId });
+    rememberDevice(user.id, deviceId);
+    startEmailVerification(user.id);
+
+    res.status(201).json(createSession(users.get(user.id)));
+  } catch (error) {
+    console.error('Registration error:', error);
+    res.status(500).json({
+      error: 'Registration failed',
+      message: error.message
+    });
+  }
+});
+
+router.post('/login', (req, res) => {
+  try {
+    const { email, password, deviceId } = req.body || {};
+    const user = findByEmail(email);
+
+    if (!user || !password || !verifyPassword(String(password), user.passwordHash)) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    recordVisit(user.id);
+    rememberDevice(user.id, deviceId);
+    res.json(createSession(users.get(user.id)));
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      error: 'Login failed',
+      message: error.message
+    });
+  }
+});
+
+router.post('/refresh', (req, res) => {
+  const { refreshToken } = req.body || {};
+  const session = refreshToken && sessions.get(hashToken(refreshToken));
+
+  if (!session || Date.parse(session.expiresAt) < Date.now()) {
+    if (session) sessions.remove(session.id);
+    return res.status(401).json({ error: 'Invalid or expired refresh token' });
+  }
+
+  const user = users.get(session.userId);
+  sessions.remove(session.id);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid or expired refresh token' });
+  }
+
+  res.json(createSession(user));
+});
+
+router.post('/logout', (req, res) => {
+  const { refreshToken } = req.body || {};
+  if (refreshToken) {
+    sessions.remove(hashToken(refreshToken));
+  }
+  res.status(204).end();
+});
+
+// Confirms the address from the emailed link: { token }. A referred reader
+// verifying their email qualifies the referral.
+router.post('/verify-email', (req, res) => {
+  try {
+    const result = verifyEmail((req.body || {}).token);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    qualifyReferral(result.user.id, 'verified');
+    res.json({ user: publicUser(result.user) });
+  } catch (error) {
+    console.error('Email verification error:', error);
+    res.status(500).json({
+      error: 'Email verification failed',
+      message: error.message
+    });
+  }
+});
+
+router.post('/verify-email/resend', requireAuth, (req, res) => {
+  if (req.user.emailVerified !== false) {
+    return res.status(409).json({ error: 'Your email address is already verified' });
+  }
+  startEmailVerification(req.user.id);
+  res.status(202).json({ sent: true });
+});
+
+// Session restores land here, so this also counts as the day's visit
+router.get('/me', requireAuth, (req, res) => {
+  recordVisit(req.user.id);
+  res.json({ user: publicUser(users.get(req.user.id)) });
+});
+
+router.patch('/me', requireAuth, (req, res) => {
+  const updates = {};
+  for (const field of PROFILE_FIELDS) {
+    if (req.body && req.body[field] !== undefined) updates[field] = req.body[field];
+  }
+  res.json({ user: publicUser(users.update(req.user.id, updates)) });
+});
+
+module.exports = router;
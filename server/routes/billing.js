@@ -0,0 +1,106 @@
+const express = require('express');
+const { collection } = require('../db');
+const { requireAuth } = require('../lib/auth');
+const { STATES, isValidGstin } = require('../lib/gst');
+const { invoicesFor, findInvoice } = require('../lib/invoices');
+const { renderInvoicePdf } = require('../lib/invoicePdf');
+
+const router = express.Router();
+const users = collection('users');
+
+const MAX_FIELD_LENGTH = 300;
+
+// What the billing history lists; the full invoice is one request away
+function invoiceSummary(invoice) {
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    issuedAt: invoice.issuedAt,
+    description: invoice.items.map(item => item.description).join(', '),
+    total: invoice.total,
+    totalTax: invoice.totalTax,
+    currency: invoice.currency
+  };
+}
+
+function invoiceFileName(invoice, extension) {
+  return `invoice-${invoice.number.replace(/\//g, '-')}.${extension}`;
+}
+
+// GET /api/billing/profile — the details printed on future invoices, plus the
+// GST state list for the form
+router.get('/profile', requireAuth, (req, res) => {
+  res.json({
+    billing: req.user.billing || {},
+    states: Object.entries(STATES)
+      .map(([code, name]) => ({ code, name }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  });
+});
+
+// Business buyers add their GSTIN; its state code decides the GST split.
+// Invoices already issued keep the details they were issued with.
+router.put('/profile', requireAuth, (req, res) => {
+  const { legalName, gstin, stateCode, address } = req.body || {};
+
+  const normalizedGstin = gstin ? String(gstin).trim().toUpperCase() : null;
+  if (normalizedGstin && !isValidGstin(normalizedGstin)) {
+    return res.status(400).json({ error: 'Invalid GSTIN', message: `"${gstin}" is not a valid GSTIN` });
+  }
+  if (stateCode && !STATES[stateCode]) {
+    return res.status(400).json({ error: 'Invalid state code' });
+  }
+  if ([legalName, address].some(value => value && String(value).length > MAX_FIELD_LENGTH)) {
+    return res.status(400).json({ error: `Fields must be at most ${MAX_FIELD_LENGTH} characters` });
+  }
+
+  const billing = {
+    legalName: legalName ? String(legalName).trim() : null,
+    gstin: normalizedGstin,
+    stateCode: normalizedGstin ? normalizedGstin.slice(0, 2) : stateCode || null,
+    address: address ? String(address).trim() : null
+  };
+  users.update(req.user.id, { billing });
+  res.json({ billing });
+});
+
+// GET /api/billing/invoices — the signed-in user's invoices, newest first
+router.get('/invoices', requireAuth, (req, res) => {
+  res.json({ invoices: invoicesFor(req.user.id).map(invoiceSummary) });
+});
+
+router.get('/invoices/:id', requireAuth, (req, res) => {
+  const invoice = findInvoice(req.params.id, req.user.id);
+  if (!invoice) {
+    return res.status(404).json({ error: 'Invoice not found' });
+  }
+  res.json({ invoice });
+});
+
+router.get('/invoices/:id/json', requireAuth, (req, res) => {
+  const invoice = findInvoice(req.params.id, req.user.id);
+  if (!invoice) {
+    return res.status(404).json({ error: 'Invoice not found' });
+  }
+  res.attachment(invoiceFileName(invoice, 'json'));
+  res.type('application/json').send(JSON.stringify(invoice, null, 2));
+});
+
+router.get('/invoices/:id/pdf', requireAuth, (req, res) => {
+  try {
+    const invoice = findInvoice(req.params.id, req.user.id);
+    if (!invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+    res.attachment(invoiceFileName(invoice, 'pdf'));
+    res.type('application/pdf').send(renderInvoicePdf(invoice));
+  } catch (error) {
+    console.error('Invoice PDF error:', error);
+    res.status(500).json({
+      error: 'Failed to render invoice',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,108 @@
+const express = require('express');
+const crypto = require('crypto');
+const { collection } = require('../db');
+const { APP_URL } = require('../lib/notifications');
+const { isAlternate } = require('../lib/feeds/clustering');
+const { FORMATS, lastModified } = require('../lib/feeds/output');
+
+// Public feeds of published articles for feed readers and partners:
+//   /feeds/:category.{xml,atom,json}         ('all' for every category)
+//   /feeds/author/:authorId.{xml,atom,json}
+// ?language=hi limits a feed to one language. .xml is RSS 2.0, .atom is
+// Atom and .json is JSON Feed. Responses carry an ETag and Last-Modified and
+// answer conditional requests with 304.
+const router = express.Router();
+const articles = collection('articles');
+const users = collection('users');
+
+const CATEGORIES = ['breaking', 'politics', 'india', 'world', 'business', 'technology', 'sports', 'entertainment', 'health'];
+const FEED_SIZE = 50;
+const MAX_AGE_SECONDS = 300;
+
+function selfUrl(req) {
+  return `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+}
+
+function capitalize(text) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Newest published articles matching `predicate`, one version per story
+function feedArticles(predicate, language) {
+  return articles
+    .filter(a => a.status === 'published' && predicate(a) && (!language || a.language === language))
+    .filter(a => !isAlternate(a))
+    .sort((x, y) => (Date.parse(y.publishedAt) || 0) - (Date.parse(x.publishedAt) || 0))
+    .slice(0, FEED_SIZE);
+}
+
+function sendFeed(req, res, format, feed, list) {
+  const updatedAt = lastModified(list);
+  const body = format.render({ ...feed, selfUrl: selfUrl(req), updatedAt }, list);
+
+  res.set({
+    'Content-Type': format.type,
+    'Cache-Control': `public, max-age=${MAX_AGE_SECONDS}`,
+    ETag: `"${crypto.createHash('sha256').update(body).digest('hex').slice(0, 32)}"`,
+    'Last-Modified': updatedAt.toUTCString()
+  });
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+  res.send(body);
+}
+
+function languageOf(req) {
+  return typeof req.query.language === 'string' && req.query.language ? req.query.language : null;
+}
+
+router.get('/author/:authorId.:format', (req, res) => {
+  try {
+    const format = FORMATS[req.params.format];
+    const author = users.get(req.params.authorId);
+    if (!format || !author) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+
+    const language = languageOf(req);
+    const name = author.fullName || author.username;
+    sendFeed(req, res, format, {
+      title: `${name} on SignalAI News`,
+      description: `Stories published by ${name}`,
+      homeUrl: APP_URL,
+      language
+    }, feedArticles(a => a.authorId === author.id, language));
+  } catch (error) {
+    console.error('Author feed error:', error);
+    res.status(500).json({
+      error: 'Failed to build feed',
+      message: error.message
+    });
+  }
+});
+
+router.get('/:category.:format', (req, res) => {
+  try {
+    const format = FORMATS[req.params.format];
+    const { category } = req.params;
+    if (!format || (category !== 'all' && !CATEGORIES.includes(category))) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+
+    const language = languageOf(req);
+    sendFeed(req, res, format, {
+      title: category === 'all' ? 'SignalAI News' : `SignalAI News: ${capitalize(category)}`,
+      description: category === 'all' ? 'The latest stories on SignalAI News' : `The latest ${category} stories on SignalAI News`,
+      homeUrl: category === 'all' ? APP_URL : `${APP_URL}/category/${category}`,
+      language
+    }, feedArticles(a => category === 'all' || a.category === category, language));
+  } catch (error) {
+    console.error('Category feed error:', error);
+    res.status(500).json({
+      error: 'Failed to build feed',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
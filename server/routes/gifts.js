@@ -0,0 +1,83 @@
+const express = require('express');
+const { collection } = require('../db');
+const provider = require('../lib/payments');
+const { requireAuth } = require('../lib/auth');
+const { findPlan } = require('../lib/plans');
+const { giftsPurchasedBy } = require('../lib/gifts');
+
+const router = express.Router();
+const orders = collection('orders');
+
+const MAX_MESSAGE_LENGTH = 500;
+
+// GET /api/gifts — gift codes the signed-in user has bought
+router.get('/', requireAuth, (req, res) => {
+  res.json({ gifts: giftsPurchasedBy(req.user.id) });
+});
+
+// Buys one term of a plan as a gift. It is paid like a one-off order and
+// verified through POST /api/verify, which issues the gift code.
+router.post('/order', requireAuth, async (req, res) => {
+  try {
+    const { planId, recipientEmail, recipientName, message } = req.body;
+
+    const plan = findPlan(planId);
+    if (!plan || plan.amount <= 0) {
+      return res.status(400).json({
+        error: 'Invalid plan',
+        message: `Plan "${planId}" cannot be gifted`
+      });
+    }
+
+    if (recipientEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail)) {
+      return res.status(400).json({ error: 'Invalid recipient email address' });
+    }
+    if (message && String(message).length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({ error: `Message must be at most ${MAX_MESSAGE_LENGTH} characters` });
+    }
+
+    const order = await provider.createOrder({
+      amount: plan.amount,
+      currency: plan.currency,
+      receipt: `gift_${Date.now()}`,
+      notes: {
+        planId: plan.id,
+        userId: req.user.id,
+        gift: 'true',
+        orderDate: new Date().toISOString()
+      }
+    });
+
+    orders.insert({
+      id: order.id,
+      userId: req.user.id,
+      planId: plan.id,
+      amount: order.amount,
+      currency: order.currency,
+      provider: provider.name,
+      status: 'created',
+      gift: {
+        recipientEmail: recipientEmail ? String(recipientEmail).trim() : null,
+        recipientName: recipientName ? String(recipientName).trim() : null,
+        message: message ? String(message).trim() : null
+      },
+      createdAt: new Date().toISOString()
+    });
+
+    res.json({
+      order_id: order.id,
+      amount: order.amount,
+      currency: order.currency,
+      provider: provider.name,
+      key_id: provider.publicKey()
+    });
+  } catch (error) {
+    console.error('Gift order error:', error);
+    res.status(500).json({
+      error: 'Failed to create gift order',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,40 @@
+const express = require('express');
+const { collection } = require('../db');
+const { requireAuth } = require('../lib/auth');
+const { findSubscription } = require('../lib/subscriptions');
+const mockProvider = require('../lib/payments/mock');
+
+// Only mounted when PAYMENT_PROVIDER=mock; stands in for the hosted Razorpay checkout
+const router = express.Router();
+const orders = collection('orders');
+
+// :id is an order id, or a provider subscription id for recurring checkouts
+router.post('/:id/pay', requireAuth, (req, res) => {
+  try {
+    const scenario = (req.body && req.body.scenario) || process.env.MOCK_PAYMENT_SCENARIO || 'success';
+    if (!mockProvider.SCENARIOS.includes(scenario) || scenario === 'dismiss') {
+      return res.status(400).json({ error: `Unsupported mock scenario: ${scenario}` });
+    }
+
+    const owner = orders.get(req.params.id) ||
+      findSubscription(s => s.providerSubscriptionId === req.params.id);
+    if (!owner || owner.userId !== req.user.id) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const result = mockProvider.pay(req.params.id, scenario);
+    if (result.failed) {
+      return res.status(402).json({ error: 'Payment failed', message: result.error });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Mock checkout error:', error);
+    res.status(500).json({
+      error: 'Mock checkout failed',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,229 @@
+const express = require('express');
+const { collection } = require('../db');
+const provider = require('../lib/payments');
+const { requireAuth } = require('../lib/auth');
+const { PLANS, findPlan, toPublicPlan } = require('../lib/plans');
+const { entitlementFor, entitledSubscription } = require('../lib/subscriptions');
+const { REJECTION_MESSAGES, fulfillOrder } = require('../lib/fulfillment');
+const { priceWithCoupon, reserveRedemption } = require('../lib/coupons');
+
+const router = express.Router();
+const orders = collection('orders');
+
+router.get('/plans', (req, res) => {
+  res.json({ plans: PLANS.map(toPublicPlan) });
+});
+
+// GET /api/coupons/:code — what each paid plan costs with this code, for the signed-in user
+router.get('/coupons/:code', requireAuth, (req, res) => {
+  const priced = PLANS
+    .filter(plan => plan.amount > 0)
+    .map(plan => ({ plan, ...priceWithCoupon(req.params.code, { plan, userId: req.user.id }) }));
+  const usable = priced.filter(p => !p.error);
+
+  if (!usable.length) {
+    // Report why the code is unusable rather than that each plan is ineligible
+    const { error, message } = priced.find(p => p.error !== 'plan_not_eligible') || priced[0];
+    return res.status(error === 'invalid' ? 404 : 400).json({ error: 'Coupon not applicable', message });
+  }
+
+  const { coupon } = usable[0];
+  res.json({
+    coupon: {
+      code: coupon.code,
+      description: coupon.description,
+      type: coupon.type,
+      value: coupon.value,
+      expiresAt: coupon.expiresAt
+    },
+    prices: usable.map(p => ({ planId: p.plan.id, discount: p.discount, amount: p.amount }))
+  });
+});
+
+router.post('/order', requireAuth, async (req, res) => {
+  try {
+    const { planId, couponCode } = req.body;
+
+    if (!planId) {
+      return res.status(400).json({
+        error: 'Missing required field: planId'
+      });
+    }
+
+    const plan = findPlan(planId);
+    if (!plan || plan.amount <= 0) {
+      return res.status(400).json({
+        error: 'Invalid plan',
+        message: `Plan "${planId}" cannot be purchased`
+      });
+    }
+
+    // Same rule as /api/subscription/checkout: one subscription at a time
+    if (entitledSubscription(req.user.id)) {
+      return res.status(409).json({
+        error: 'Already subscribed',
+        message: 'Use /api/subscription/change to switch plans'
+      });
+    }
+
+    const priced = couponCode ? priceWithCoupon(couponCode, { plan, userId: req.user.id }) : null;
+    if (priced && priced.error) {
+      return res.status(400).json({
+        error: 'Coupon not applicable',
+        message: priced.message
+      });
+    }
+
+    const order = await provider.createOrder({
+      amount: priced ? priced.amount : plan.amount,
+      currency: plan.currency,
+      receipt: `receipt_${Date.now()}`,
+      notes: {
+        planId: plan.id,
+        userId: req.user.id,
+        orderDate: new Date().toISOString(),
+        ...(priced ? { couponCode: priced.coupon.code } : {})
+      }
+    });
+
+    orders.insert({
+      id: order.id,
+      userId: req.user.id,
+      planId: plan.id,
+      amount: order.amount,
+      currency: order.currency,
+      provider: provider.name,
+      status: 'created',
+      ...(priced ? { couponCode: priced.coupon.code, discount: priced.discount } : {}),
+      createdAt: new Date().toISOString()
+    });
+
+    if (priced) {
+      reserveRedemption({ ...priced, userId: req.user.id, plan, ref: { orderId: order.id } });
+    }
+
+    res.json({
+      order_id: order.id,
+      amount: order.amount,
+      currency: order.currency,
+      provider: provider.name,
+      key_id: provider.publicKey()
+    });
+  } catch (error) {
+    console.error('Order creation error:', error);
+    res.status(500).json({
+      error: 'Failed to create order',
+      message: error.message
+    });
+  }
+});
+
+router.post('/verify', requireAuth, async (req, res) => {
+  try {
+    const {
+      razorpay_order_id,
+      razorpay_payment_id,
+      razorpay_signature
+    } = req.body;
+
+    if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+      return res.status(400).json({
+        error: 'Missing payment verification parameters'
+      });
+    }
+
+    const order = orders.get(razorpay_order_id);
+    if (!order || order.userId !== req.user.id) {
+      return res.status(404).json({
+        error: 'Order not found'
+      });
+    }
+
+    const isAuthentic = provider.verifySignature({
+      orderId: razorpay_order_id,
+      paymentId: razorpay_payment_id,
+      signature: razorpay_signature
+    });
+
+    if (!isAuthentic) {
+      return res.status(400).json({
+        error: 'Invalid signature',
+        message: 'Payment verification failed'
+      });
+    }
+
+    // The webhook may already have fulfilled this order
+    if (order.status === 'paid') {
+      return res.json({
+        success: true,
+        message: 'Payment already verified',
+        subscriptionId: order.subscriptionId,
+        giftCode: order.giftCode,
+        entitlement: entitlementFor(req.user.id)
+      });
+    }
+
+    // The signature only proves the payment belongs to the order; the captured
+    // amount still has to match what the catalog charges for this plan, less any coupon.
+    const payment = await provider.fetchPayment(razorpay_payment_id);
+
+    // Authorized but not yet captured: the payment.captured webhook will finish the job
+    if (payment.status === 'authorized' && payment.order_id === order.id) {
+      return res.status(202).json({
+        success: true,
+        pending: true,
+        message: 'Payment authorized; awaiting capture',
+        entitlement: entitlementFor(req.user.id)
+      });
+    }
+
+    const result = fulfillOrder(order, payment);
+
+    if (result.mismatch) {
+      return res.status(400).json({
+        error: 'Payment mismatch',
+        message: `Payment ${result.mismatch} does not match the order`
+      });
+    }
+    if (result.rejected) {
+      return res.status(409).json({
+        error: 'Payment refunded',
+        message: `${REJECTION_MESSAGES[result.rejected]}, so this payment is being refunded.`
+      });
+    }
+
+    console.log('Payment verified successfully:', {
+      orderId: razorpay_order_id,
+      paymentId: razorpay_payment_id,
+      userId: req.user.id,
+      planId: order.planId,
+      amount: payment.amount / 100,
+      status: payment.status
+    });
+
+    res.json({
+      success: true,
+      message: 'Payment verified successfully',
+      subscriptionId: result.order.subscriptionId,
+      giftCode: result.order.giftCode,
+      entitlement: entitlementFor(req.user.id),
+      payment: {
+        id: payment.id,
+        amount: payment.amount / 100,
+        currency: payment.currency,
+        status: payment.status,
+        method: payment.method,
+        email: payment.email,
+        contact: payment.contact
+      }
+    });
+  } catch (error) {
+    console.error('Verification error:', error);
+    res.status(500).json({
+      error: 'Verification failed',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
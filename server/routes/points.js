@@ -0,0 +1,69 @@
+const express = require('express');
+const { requireAuth } = require('../lib/auth');
+const { balanceFor, pointsHistory, expiringPoints } = require('../lib/points');
+const { recordLike, startReading, finishReading, rulesFor } = require('../lib/pointRules');
+
+const router = express.Router();
+
+const MAX_HISTORY = 200;
+const MAX_ID_LENGTH = 100;
+
+function validId(value) {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+}
+
+// GET /api/points — balance, points about to expire and the newest ledger entries
+router.get('/', requireAuth, (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit, 10) || 50, MAX_HISTORY);
+  res.json({
+    balance: balanceFor(req.user.id),
+    expiring: expiringPoints(req.user.id),
+    entries: pointsHistory(req.user.id, { limit })
+  });
+});
+
+// GET /api/points/rules — the ways to earn points and the user's progress
+// against each rule's caps
+router.get('/rules', requireAuth, (req, res) => {
+  const streak = req.user.loginStreak || null;
+  res.json({ rules: rulesFor(req.user.id), streak });
+});
+
+// A like on a post: { postId }, the id of a published article. Its author
+// earns like_received points within the rule's caps.
+router.post('/likes', requireAuth, (req, res) => {
+  const { postId } = req.body || {};
+  if (!validId(postId)) {
+    return res.status(400).json({ error: 'postId is required' });
+  }
+
+  const result = recordLike(req.user.id, { postId });
+  if (result.error) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  res.status(201).json(result);
+});
+
+// Reading an article: start when it is opened, finish when the reader reaches
+// the end. Responds with { awarded, skipped } so the client can retry a
+// finish that came too soon.
+router.post('/reads/:articleId/start', requireAuth, (req, res) => {
+  if (!validId(req.params.articleId)) {
+    return res.status(400).json({ error: 'Invalid article id' });
+  }
+  const result = startReading(req.user.id, req.params.articleId);
+  if (result.error) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  res.json({ startedAt: result.read.startedAt, finishedAt: result.read.finishedAt });
+});
+
+router.post('/reads/:articleId/finish', requireAuth, (req, res) => {
+  const result = finishReading(req.user.id, req.params.articleId);
+  if (result.error) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  res.json(result);
+});
+
+module.exports = router;
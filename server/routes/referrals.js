@@ -0,0 +1,12 @@
+const express = require('express');
+const { requireAuth } = require('../lib/auth');
+const { referralSummary } = require('../lib/referrals');
+
+const router = express.Router();
+
+// GET /api/referrals — the signed-in user's referral code, link and results
+router.get('/', requireAuth, (req, res) => {
+  res.json(referralSummary(req.user.id));
+});
+
+module.exports = router;
@@ -0,0 +1,43 @@
+const express = require('express');
+const { requireAuth, optionalAuth } = require('../lib/auth');
+const { catalogFor, redeemReward, redemptionsFor, useAppointmentVoucher } = require('../lib/rewards');
+
+const router = express.Router();
+
+// GET /api/rewards — the catalog with stock left (and, when signed in, how
+// often the reader has redeemed each reward)
+router.get('/', optionalAuth, (req, res) => {
+  res.json({ rewards: catalogFor(req.user && req.user.id) });
+});
+
+// GET /api/rewards/redemptions — the signed-in user's redemptions, newest first
+router.get('/redemptions', requireAuth, (req, res) => {
+  res.json({ redemptions: redemptionsFor(req.user.id) });
+});
+
+router.post('/:id/redeem', requireAuth, (req, res) => {
+  try {
+    const result = redeemReward(req.user.id, req.params.id);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error, message: result.message });
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Reward redemption error:', error);
+    res.status(500).json({
+      error: 'Failed to redeem reward',
+      message: error.message
+    });
+  }
+});
+
+// Uses an appointment voucher: { code }. Responds with its discountPercent.
+router.post('/vouchers/use', requireAuth, (req, res) => {
+  const result = useAppointmentVoucher(req.user.id, (req.body || {}).code);
+  if (result.error) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  res.json({ discountPercent: result.voucher.discountPercent, voucher: result.voucher });
+});
+
+module.exports = router;
@@ -0,0 +1,61 @@
+const express = require('express');
+const { requireAuth } = require('../lib/auth');
+const { findPlan } = require('../lib/plans');
+const { seatLimit, seatSummary, inviteMember, revokeSeat } = require('../lib/seats');
+const { ENTITLED_STATUSES, currentForUser } = require('../lib/subscriptions');
+
+const router = express.Router();
+
+// The owner's plan, if it is an entitled family or team plan
+function seatedPlan(userId) {
+  const current = currentForUser(userId);
+  if (!current || !ENTITLED_STATUSES.includes(current.status)) return null;
+  const plan = findPlan(current.planId);
+  return seatLimit(plan) > 1 ? plan : null;
+}
+
+// GET /api/subscription/seats — seat usage on the signed-in owner's plan
+router.get('/', requireAuth, (req, res) => {
+  const plan = seatedPlan(req.user.id);
+  if (!plan) {
+    return res.status(404).json({ error: 'No family or team plan' });
+  }
+  res.json(seatSummary(req.user.id, plan));
+});
+
+// Gives a seat to `member`, an email address or a username
+router.post('/', requireAuth, (req, res) => {
+  try {
+    const plan = seatedPlan(req.user.id);
+    if (!plan) {
+      return res.status(404).json({ error: 'No family or team plan' });
+    }
+
+    const result = inviteMember({ owner: req.user, plan, identifier: (req.body || {}).member });
+    if (result.error) {
+      return res.status(result.status).json({ error: 'Cannot add member', message: result.error });
+    }
+
+    console.log('Seat added:', { ownerId: req.user.id, seatId: result.seat.id, planId: plan.id });
+    res.status(201).json({ seat: result.seat, usage: seatSummary(req.user.id, plan) });
+  } catch (error) {
+    console.error('Seat invite error:', error);
+    res.status(500).json({
+      error: 'Failed to add member',
+      message: error.message
+    });
+  }
+});
+
+// Revokes a seat; members can also use this to leave a plan
+router.delete('/:id', requireAuth, (req, res) => {
+  const result = revokeSeat(req.params.id, req.user.id);
+  if (result.error) {
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  console.log('Seat revoked:', { seatId: req.params.id, revokedBy: req.user.id });
+  res.json({ seat: result.seat });
+});
+
+module.exports = router;
@@ -0,0 +1,458 @@
+const express = require('express');
+const provider = require('../lib/payments');
+const { requireAuth } = require('../lib/auth');
+const { PLANS, findPlan } = require('../lib/plans');
+const { priceWithCoupon, reserveRedemption } = require('../lib/coupons');
+const { quotePlanChange } = require('../lib/planChange');
+const { REJECTION_MESSAGES, fulfillTrial, fulfillCharge } = require('../lib/fulfillment');
+const { cancelImmediately, scheduleCancellation, resumeSubscription } = require('../lib/cancellation');
+const { redeemGiftCode } = require('../lib/gifts');
+const { seatLimit, openSeats } = require('../lib/seats');
+const {
+  addInterval,
+  entitledSubscription,
+  hasUsedTrial,
+  createPendingSubscription,
+  findSubscription,
+  updateSubscription,
+  entitlementFor
+} = require('../lib/subscriptions');
+
+const router = express.Router();
+
+function paidPlan(planId) {
+  const plan = findPlan(planId);
+  return plan && plan.amount > 0 ? plan : null;
+}
+
+// What the browser needs to open the provider's checkout
+function checkoutResponse(providerSubscription, amount, currency) {
+  return {
+    subscription_id: providerSubscription.id,
+    amount,
+    currency,
+    provider: provider.name,
+    key_id: provider.publicKey()
+  };
+}
+
+// GET /api/subscription — the source of truth for isPremium / isPro
+router.get('/', requireAuth, (req, res) => {
+  res.json(entitlementFor(req.user.id));
+});
+
+// GET /api/subscription/quotes — what switching to each paid plan would cost today
+router.get('/quotes', requireAuth, (req, res) => {
+  const current = entitledSubscription(req.user.id);
+  const quotes = PLANS
+    .filter(plan => plan.amount > 0 && (!current || plan.id !== current.planId))
+    .map(plan => quotePlanChange(current, plan));
+  res.json({ quotes });
+});
+
+// Starts a recurring subscription: the provider charges the first cycle at
+// checkout and every renewal after that on its own. With a coupon the first
+// cycle is charged upfront at the discounted price, and the plan itself starts
+// billing one term later.
+router.post('/checkout', requireAuth, async (req, res) => {
+  try {
+    const { planId, couponCode } = req.body;
+
+    if (!planId) {
+      return res.status(400).json({
+        error: 'Missing required field: planId'
+      });
+    }
+
+    const plan = paidPlan(planId);
+    if (!plan) {
+      return res.status(400).json({
+        error: 'Invalid plan',
+        message: `Plan "${planId}" cannot be purchased`
+      });
+    }
+
+    if (entitledSubscription(req.user.id)) {
+      return res.status(409).json({
+        error: 'Already subscribed',
+        message: 'Use /api/subscription/change to switch plans'
+      });
+    }
+
+    const priced = couponCode ? priceWithCoupon(couponCode, { plan, userId: req.user.id }) : null;
+    if (priced && priced.error) {
+      return res.status(400).json({
+        error: 'Coupon not applicable',
+        message: priced.message
+      });
+    }
+
+    const firstPeriodEnd = priced ? addInterval(new Date(), plan.interval) : null;
+    const providerSubscription = await provider.createSubscription({
+      plan,
+      ...(priced ? { startAt: Math.floor(firstPeriodEnd.getTime() / 1000), upfrontAmount: priced.amount } : {}),
+      notes: {
+        planId: plan.id,
+        userId: req.user.id,
+        ...(priced ? { couponCode: priced.coupon.code } : {})
+      }
+    });
+
+    const subscription = createPendingSubscription({
+      userId: req.user.id,
+      plan,
+      providerSubscription,
+      provider: provider.name,
+      coupon: priced && { ...priced, code: priced.coupon.code, firstPeriodEnd: firstPeriodEnd.toISOString() }
+    });
+    if (priced) {
+      reserveRedemption({ ...priced, userId: req.user.id, plan, ref: { subscriptionId: subscription.id } });
+    }
+
+    res.json(checkoutResponse(providerSubscription, priced ? priced.amount : plan.amount, plan.currency));
+  } catch (error) {
+    console.error('Subscription checkout error:', error);
+    res.status(500).json({
+      error: 'Failed to start subscription',
+      message: error.message
+    });
+  }
+});
+
+// Starts a free trial. Checkout only authorizes the payment method; the
+// provider makes the first charge when the trial ends, and the subscription
+// lapses back to free if that charge fails or the trial is cancelled.
+router.post('/trial', requireAuth, async (req, res) => {
+  try {
+    const { planId } = req.body;
+    const plan = paidPlan(planId);
+    if (!plan || !plan.trialDays) {
+      return res.status(400).json({
+        error: 'Invalid plan',
+        message: `Plan "${planId}" has no free trial`
+      });
+    }
+
+    if (entitledSubscription(req.user.id)) {
+      return res.status(409).json({ error: 'Already subscribed' });
+    }
+    if (hasUsedTrial(req.user.id)) {
+      return res.status(409).json({
+        error: 'Trial already used',
+        message: 'Each account can take one free trial'
+      });
+    }
+
+    const trialEndsAt = new Date(Date.now() + plan.trialDays * 24 * 60 * 60 * 1000);
+    const providerSubscription = await provider.createSubscription({
+      plan,
+      startAt: Math.floor(trialEndsAt.getTime() / 1000),
+      notes: {
+        planId: plan.id,
+        userId: req.user.id,
+        trial: 'true'
+      }
+    });
+
+    createPendingSubscription({
+      userId: req.user.id,
+      plan,
+      providerSubscription,
+      provider: provider.name,
+      trialEndsAt: trialEndsAt.toISOString()
+    });
+
+    res.json(checkoutResponse(providerSubscription, 0, plan.currency));
+  } catch (error) {
+    console.error('Trial start error:', error);
+    res.status(500).json({
+      error: 'Failed to start trial',
+      message: error.message
+    });
+  }
+});
+
+router.post('/verify', requireAuth, async (req, res) => {
+  try {
+    const {
+      razorpay_subscription_id,
+      razorpay_payment_id,
+      razorpay_signature
+    } = req.body;
+
+    if (!razorpay_subscription_id || !razorpay_payment_id || !razorpay_signature) {
+      return res.status(400).json({
+        error: 'Missing payment verification parameters'
+      });
+    }
+
+    const subscription = findSubscription(s => s.providerSubscriptionId === razorpay_subscription_id);
+    if (!subscription || subscription.userId !== req.user.id) {
+      return res.status(404).json({
+        error: 'Subscription not found'
+      });
+    }
+
+    const isAuthentic = provider.verifySubscriptionSignature({
+      subscriptionId: razorpay_subscription_id,
+      paymentId: razorpay_payment_id,
+      signature: razorpay_signature
+    });
+
+    if (!isAuthentic) {
+      return res.status(400).json({
+        error: 'Invalid signature',
+        message: 'Payment verification failed'
+      });
+    }
+
+    // A trial checkout charges nothing; the signature shows the payment method was authorized
+    if (subscription.trialEndsAt && ['pending', 'trialing', 'rejected'].includes(subscription.status)) {
+      const trial = fulfillTrial(subscription);
+      if (trial.rejected) {
+        return res.status(409).json({ error: 'Trial not started', message: REJECTION_MESSAGES[trial.rejected] });
+      }
+      return res.json({
+        success: true,
+        message: trial.alreadyStarted ? 'Trial already started' : 'Trial started',
+        subscriptionId: subscription.id,
+        entitlement: entitlementFor(req.user.id)
+      });
+    }
+
+    const payment = await provider.fetchPayment(razorpay_payment_id);
+
+    // Authorized but not yet captured: subscription.charged will activate it
+    if (payment.status === 'authorized') {
+      return res.status(202).json({
+        success: true,
+        pending: true,
+        message: 'Payment authorized; awaiting capture',
+        entitlement: entitlementFor(req.user.id)
+      });
+    }
+
+    const period = await provider.fetchSubscription(razorpay_subscription_id);
+    const result = fulfillCharge(subscription, payment, period);
+
+    if (result.mismatch) {
+      return res.status(400).json({
+        error: 'Payment mismatch',
+        message: `Payment ${result.mismatch} does not match the plan`
+      });
+    }
+    if (result.rejected) {
+      return res.status(409).json({
+        error: 'Payment refunded',
+        message: `${REJECTION_MESSAGES[result.rejected]}, so this payment is being refunded.`
+      });
+    }
+
+    console.log('Subscription payment verified:', {
+      subscriptionId: subscription.id,
+      providerSubscriptionId: razorpay_subscription_id,
+      paymentId: razorpay_payment_id,
+      userId: req.user.id,
+      planId: subscription.planId
+    });
+
+    res.json({
+      success: true,
+      message: result.alreadyRecorded ? 'Payment already verified' : 'Payment verified successfully',
+      subscriptionId: subscription.id,
+      entitlement: entitlementFor(req.user.id)
+    });
+  } catch (error) {
+    console.error('Subscription verification error:', error);
+    res.status(500).json({
+      error: 'Verification failed',
+      message: error.message
+    });
+  }
+});
+
+// Upgrades are charged the prorated difference now and go through checkout
+// with a replacement subscription; downgrades are scheduled for the end of
+// the current term on the existing one.
+router.post('/change', requireAuth, async (req, res) => {
+  try {
+    const { planId } = req.body;
+    const plan = paidPlan(planId);
+    if (!plan) {
+      return res.status(400).json({
+        error: 'Invalid plan',
+        message: `Plan "${planId}" cannot be purchased`
+      });
+    }
+
+    const current = entitledSubscription(req.user.id);
+    if (!current) {
+      return res.status(404).json({ error: 'No active subscription' });
+    }
+    if (current.status === 'cancel_scheduled') {
+      return res.status(409).json({
+        error: 'Cancellation scheduled',
+        message: 'Resume the subscription before changing plans'
+      });
+    }
+    if (current.status === 'trialing') {
+      return res.status(409).json({
+        error: 'Trial in progress',
+        message: 'Plans can be changed once the trial has ended'
+      });
+    }
+    if (current.status !== 'active') {
+      return res.status(409).json({
+        error: 'Renewal payment outstanding',
+        message: 'Plans can be changed once the failed renewal has been paid'
+      });
+    }
+    if (current.planId === plan.id) {
+      return res.status(400).json({ error: 'Already on this plan' });
+    }
+    const seatsInUse = 1 + openSeats(req.user.id).length;
+    if (seatLimit(plan) < seatsInUse) {
+      return res.status(409).json({
+        error: 'Too many seats in use',
+        message: `${plan.name} covers ${seatLimit(plan)} ${seatLimit(plan) === 1 ? 'person' : 'people'}. Revoke seats before switching.`
+      });
+    }
+
+    const quote = quotePlanChange(current, plan);
+
+    if (quote.timing === 'period_end') {
+      if (current.providerSubscriptionId) {
+        await provider.changeSubscriptionPlan(current.providerSubscriptionId, { plan, atCycleEnd: true });
+      }
+      updateSubscription(current.id, { scheduledChange: { planId: plan.id, effectiveDate: quote.effectiveDate } });
+      return res.json({ quote, entitlement: entitlementFor(req.user.id) });
+    }
+
+    // The new plan's first renewal falls one full term from today; until then
+    // the customer pays only what the credit does not cover
+    const providerSubscription = await provider.createSubscription({
+      plan,
+      startAt: Math.floor(Date.parse(quote.nextBillingDate) / 1000),
+      upfrontAmount: quote.amountDue,
+      notes: {
+        planId: plan.id,
+        userId: req.user.id,
+        replaces: current.id
+      }
+    });
+
+    createPendingSubscription({
+      userId: req.user.id,
+      plan,
+      providerSubscription,
+      provider: provider.name,
+      change: { ...quote, subscriptionId: current.id }
+    });
+
+    res.json({ quote, checkout: checkoutResponse(providerSubscription, quote.amountDue, quote.currency) });
+  } catch (error) {
+    console.error('Plan change error:', error);
+    res.status(500).json({
+      error: 'Failed to change plan',
+      message: error.message
+    });
+  }
+});
+
+// Drops a downgrade that was scheduled for the end of the term
+router.delete('/change', requireAuth, async (req, res) => {
+  try {
+    const current = entitledSubscription(req.user.id);
+    if (!current || !current.scheduledChange) {
+      return res.status(404).json({ error: 'No scheduled plan change' });
+    }
+
+    if (current.providerSubscriptionId) {
+      await provider.cancelScheduledChange(current.providerSubscriptionId);
+    }
+    updateSubscription(current.id, { scheduledChange: null });
+    res.json(entitlementFor(req.user.id));
+  } catch (error) {
+    console.error('Scheduled change cancellation error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel plan change',
+      message: error.message
+    });
+  }
+});
+
+router.post('/cancel', requireAuth, async (req, res) => {
+  try {
+    const current = entitledSubscription(req.user.id);
+    if (!current || current.status === 'cancel_scheduled') {
+      return res.status(404).json({ error: 'No active subscription' });
+    }
+
+    // A paid term runs to its end; a lapsed renewal has nothing left to keep
+    if (current.status === 'past_due') {
+      cancelImmediately(current);
+    } else {
+      await scheduleCancellation(current);
+    }
+    res.json(entitlementFor(req.user.id));
+  } catch (error) {
+    console.error('Cancellation error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel subscription',
+      message: error.message
+    });
+  }
+});
+
+router.post('/resume', requireAuth, async (req, res) => {
+  try {
+    const current = entitledSubscription(req.user.id);
+    if (!current || current.status !== 'cancel_scheduled') {
+      return res.status(404).json({ error: 'No scheduled cancellation' });
+    }
+
+    await resumeSubscription(current);
+    res.json(entitlementFor(req.user.id));
+  } catch (error) {
+    console.error('Resume error:', error);
+    res.status(500).json({
+      error: 'Failed to resume subscription',
+      message: error.message
+    });
+  }
+});
+
+// Activates a gift code for the signed-in user
+router.post('/redeem', requireAuth, (req, res) => {
+  try {
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'Missing required field: code' });
+    }
+
+    const result = redeemGiftCode(code, req.user.id);
+    if (result.error) {
+      return res.status(result.status).json({ error: 'Cannot redeem gift', message: result.error });
+    }
+
+    console.log('Gift code redeemed:', {
+      code: result.gift.code,
+      userId: req.user.id,
+      subscriptionId: result.subscription.id
+    });
+
+    res.json({
+      success: true,
+      planId: result.gift.planId,
+      entitlement: entitlementFor(req.user.id)
+    });
+  } catch (error) {
+    console.error('Gift redemption error:', error);
+    res.status(500).json({
+      error: 'Failed to redeem gift',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
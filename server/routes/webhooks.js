@@ -0,0 +1,57 @@
+const express = require('express');
+const crypto = require('crypto');
+const {
+  verifyWebhookSignature,
+  handleEvent,
+  claimEvent,
+  completeEvent,
+  failEvent
+} = require('../lib/webhooks');
+
+const router = express.Router();
+
+// The signature covers the exact bytes Razorpay sent, so this router parses
+// its own raw body and must be mounted before the JSON body parser.
+router.post('/razorpay', express.raw({ type: '*/*' }), (req, res) => {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('Webhook received but RAZORPAY_WEBHOOK_SECRET is not configured');
+    return res.status(500).json({ error: 'Webhook secret not configured' });
+  }
+
+  const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+  if (!verifyWebhookSignature(rawBody, req.get('X-Razorpay-Signature'), secret)) {
+    return res.status(400).json({ error: 'Invalid signature' });
+  }
+
+  let event;
+  try {
+    event = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    return res.status(400).json({ error: 'Invalid JSON payload' });
+  }
+
+  const eventId = req.get('X-Razorpay-Event-Id') ||
+    `evt_${crypto.createHash('sha256').update(rawBody).digest('hex').slice(0, 24)}`;
+
+  if (!claimEvent(eventId, event.event)) {
+    return res.json({ received: true, duplicate: true });
+  }
+
+  try {
+    const result = handleEvent(event);
+    completeEvent(eventId, result);
+    console.log(`Webhook ${event.event} (${eventId}):`, result);
+    res.json({ received: true, result });
+  } catch (error) {
+    // A 5xx makes Razorpay redeliver; the failed record allows reprocessing
+    failEvent(eventId, error);
+    console.error(`Webhook ${event.event} (${eventId}) failed:`, error);
+    res.status(500).json({
+      error: 'Webhook processing failed',
+      message: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+// Replays Razorpay webhook fixtures against a locally running server, signed
+// with RAZORPAY_WEBHOOK_SECRET, so the webhook path can be tested offline.
+//
+//   npm run webhooks:replay -- payment.captured --set orderId=order_abc
+//   npm run webhooks:replay -- refund.processed --set paymentId=pay_abc --set amount=19900
+//   npm run webhooks:replay -- subscription.pending --set providerSubscriptionId=sub_abc
+//
+// Options:
+//   --url <base>       server base URL (default http://localhost:$PORT)
+//   --set key=value    fill a {{key}} placeholder in the fixture (repeatable)
+//   --event-id <id>    X-Razorpay-Event-Id to send (default: derived from the body,
+//                      so replaying the same fixture twice exercises idempotency)
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+require('dotenv').config({ path: path.join(__dirname, '..', '.env') });
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'webhooks');
+
+const now = Math.floor(Date.now() / 1000);
+const DEFAULTS = {
+  paymentId: `pay_replay_${now}`,
+  refundId: `rfnd_replay_${now}`,
+  amount: '19900',
+  currentStart: String(now),
+  currentEnd: String(now + 30 * 24 * 60 * 60),
+  chargeAt: String(now + 24 * 60 * 60),
+  providerPlanId: 'plan_replay'
+};
+
+function parseArgs(argv) {
+  const args = { url: `http://localhost:${process.env.PORT || 5000}`, vars: { ...DEFAULTS }, fixtures: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--url') {
+      args.url = argv[++i];
+    } else if (arg === '--event-id') {
+      args.eventId = argv[++i];
+    } else if (arg === '--set') {
+      const [key, ...rest] = argv[++i].split('=');
+      args.vars[key] = rest.join('=');
+    } else {
+      args.fixtures.push(arg);
+    }
+  }
+  return args;
+}
+
+function resolveFixture(name) {
+  const candidates = [name, path.join(FIXTURE_DIR, name), path.join(FIXTURE_DIR, `${name}.json`)];
+  const found = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+  if (!found) throw new Error(`Fixture not found: ${name}`);
+  return found;
+}
+
+// "{{key}}" becomes a JSON number when the value is numeric, otherwise a string
+function render(template, vars) {
+  return template.replace(/"\{\{(\w+)\}\}"/g, (match, key) => {
+    if (vars[key] === undefined) throw new Error(`Missing value for {{${key}}} (use --set ${key}=...)`);
+    return /^\d+$/.test(vars[key]) ? vars[key] : JSON.stringify(vars[key]);
+  });
+}
+
+async function replay(file, args, secret) {
+  const body = render(fs.readFileSync(file, 'utf8'), args.vars);
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+  const eventId = args.eventId || `evt_replay_${crypto.createHash('sha256').update(body).digest('hex').slice(0, 16)}`;
+
+  const response = await fetch(`${args.url}/api/webhooks/razorpay`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Razorpay-Signature': signature,
+      'X-Razorpay-Event-Id': eventId
+    },
+    body
+  });
+
+  console.log(`${path.basename(file)} [${eventId}] → ${response.status}`, await response.text());
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+  if (!secret) {
+    console.error('RAZORPAY_WEBHOOK_SECRET must be set (server/.env) to sign fixtures');
+    process.exit(1);
+  }
+  if (args.fixtures.length === 0) {
+    console.error(`Usage: replay-webhooks.js <fixture...> [--set key=value] [--url base]\nFixtures: ${fs.readdirSync(FIXTURE_DIR).join(', ')}`);
+    process.exit(1);
+  }
+
+  for (const name of args.fixtures) {
+    await replay(resolveFixture(name), args, secret);
+  }
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
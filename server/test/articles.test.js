@@ -0,0 +1,69 @@
+const { createUser, serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const articlesRouter = require('../routes/articles');
+
+let api;
+const author = createUser({ fullName: 'Asha Rao' });
+const reader = createUser();
+
+before(async () => {
+  api = await serve({ '/api/articles': articlesRouter });
+});
+after(() => api.close());
+
+test('the author comes from the signed-in user, not the request body', async () => {
+  const created = await api.request('/api/articles', {
+    user: author,
+    body: { title: 'Monsoon arrives', content: 'Rain across the coast.', author: 'Someone Else', authorId: reader.id }
+  });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.author, 'Asha Rao');
+  assert.equal(created.body.authorId, author.id);
+
+  const updated = await api.request(`/api/articles/${created.body.id}`, {
+    user: author,
+    method: 'PUT',
+    body: { author: 'Someone Else', summary: 'Updated' }
+  });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.author, 'Asha Rao');
+  assert.equal(updated.body.summary, 'Updated');
+});
+
+test('status must be draft or published', async () => {
+  const created = await api.request('/api/articles', { user: author, body: { title: 'Hidden', status: 'archived' } });
+  assert.equal(created.status, 400);
+
+  const draft = await api.request('/api/articles', { user: author, body: { title: 'Draft', status: 'draft' } });
+  const updated = await api.request(`/api/articles/${draft.body.id}`, {
+    user: author,
+    method: 'PUT',
+    body: { status: 'deleted' }
+  });
+  assert.equal(updated.status, 400);
+});
+
+test('drafts are only visible to their author', async () => {
+  const draft = await api.request('/api/articles', { user: author, body: { title: 'Work in progress', status: 'draft' } });
+
+  assert.equal((await api.request(`/api/articles/${draft.body.id}`, { user: author })).status, 200);
+  assert.equal((await api.request(`/api/articles/${draft.body.id}`, { user: reader })).status, 404);
+  assert.equal((await api.request(`/api/articles/${draft.body.id}`)).status, 404);
+
+  const listed = await api.request('/api/articles', { user: reader });
+  assert.ok(!listed.body.data.some(a => a.id === draft.body.id));
+});
+
+test('only the author can edit or delete an article', async () => {
+  const created = await api.request('/api/articles', { user: author, body: { title: 'Mine' } });
+
+  const edit = await api.request(`/api/articles/${created.body.id}`, { user: reader, method: 'PUT', body: { title: 'Yours' } });
+  assert.equal(edit.status, 403);
+  const remove = await api.request(`/api/articles/${created.body.id}`, { user: reader, method: 'DELETE' });
+  assert.equal(remove.status, 403);
+
+  const own = await api.request(`/api/articles/${created.body.id}`, { user: author, method: 'DELETE' });
+  assert.equal(own.status, 204);
+});
@@ -0,0 +1,90 @@
+const { serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+// Demo seeding runs when the router loads, so it is switched on first. One of
+// the demo addresses is an admin here and must not be seeded.
+process.env.SEED_DEMO_USERS = 'true';
+process.env.ADMIN_EMAILS = 'admin@example.com,priya.sharma@example.com';
+
+const { collection } = require('../db');
+const { isAdmin } = require('../lib/auth');
+const authRouter = require('../routes/auth');
+
+const users = collection('users');
+let api;
+
+before(async () => {
+  api = await serve({ '/api/auth': authRouter });
+});
+after(() => api.close());
+
+function register(name, fields = {}) {
+  return api.request('/api/auth/register', {
+    body: { email: `${name}@example.com`, password: 'correct horse', username: name, fullName: name, deviceId: `device-${name}`, ...fields }
+  });
+}
+
+test('demo users are seeded when asked, except admin addresses', () => {
+  const demo = users.find(u => u.email === 'Venkatesh@example.com');
+  assert.ok(demo);
+  assert.match(demo.passwordHash, /^scrypt\$/);
+  assert.equal(users.find(u => u.email === 'priya.sharma@example.com'), undefined);
+});
+
+test('registration stores a password hash and opens a session', async () => {
+  const response = await register('meera');
+  assert.equal(response.status, 201);
+  assert.ok(response.body.accessToken);
+  assert.ok(response.body.refreshToken);
+  assert.equal(response.body.user.passwordHash, undefined);
+
+  const stored = users.find(u => u.username === 'meera');
+  assert.notEqual(stored.passwordHash, 'correct horse');
+  assert.equal((await register('meera')).status, 409);
+});
+
+test('registration checks the email, password and user type', async () => {
+  assert.equal((await register('short', { password: 'abc' })).status, 400);
+  assert.equal((await register('bad', { email: 'not-an-email' })).status, 400);
+  assert.equal((await register('typed', { userType: 'admin' })).status, 400);
+});
+
+test('login needs the right password', async () => {
+  await register('kabir');
+  const wrong = await api.request('/api/auth/login', { body: { email: 'kabir@example.com', password: 'wrong password' } });
+  assert.equal(wrong.status, 401);
+
+  const right = await api.request('/api/auth/login', { body: { email: 'KABIR@example.com', password: 'correct horse' } });
+  assert.equal(right.status, 200);
+  assert.equal(right.body.user.username, 'kabir');
+});
+
+test('a refresh token works once', async () => {
+  const { body: session } = await register('tara');
+
+  const refreshed = await api.request('/api/auth/refresh', { body: { refreshToken: session.refreshToken } });
+  assert.equal(refreshed.status, 200);
+  assert.notEqual(refreshed.body.refreshToken, session.refreshToken);
+
+  const reused = await api.request('/api/auth/refresh', { body: { refreshToken: session.refreshToken } });
+  assert.equal(reused.status, 401);
+});
+
+test('/me needs a valid access token', async () => {
+  assert.equal((await api.request('/api/auth/me')).status, 401);
+
+  const { body: session } = await register('ravi');
+  const me = await api.request('/api/auth/me', { user: users.get(session.user.id) });
+  assert.equal(me.status, 200);
+  assert.equal(me.body.user.email, 'ravi@example.com');
+});
+
+test('an admin address grants admin rights only once it is verified', async () => {
+  assert.equal((await register('admin')).status, 201);
+  const admin = users.find(u => u.email === 'admin@example.com');
+  assert.equal(admin.emailVerified, false);
+  assert.equal(isAdmin(admin), false);
+
+  assert.equal(isAdmin(users.update(admin.id, { emailVerified: true })), true);
+});
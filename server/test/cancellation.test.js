@@ -0,0 +1,94 @@
+const { createUser, serve, subscribe } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { findPlan } = require('../lib/plans');
+const { entitlementFor, findSubscription } = require('../lib/subscriptions');
+const { balanceFor } = require('../lib/points');
+
+const subscriptions = collection('subscriptions');
+const mockSubscriptions = collection('mock_subscriptions');
+const admin = createUser({ email: 'admin@example.com' });
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/admin': require('../routes/admin'),
+    '/api/subscription': require('../routes/subscriptions'),
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+async function subscribed() {
+  const user = createUser();
+  const verified = await subscribe(api, user, { planId: 'premium_monthly' });
+  return { user, subscription: subscriptions.get(verified.body.subscriptionId) };
+}
+
+function refund(subscription, body = {}, user = admin) {
+  return api.request(`/api/admin/subscriptions/${subscription.id}/refund`, { user, body });
+}
+
+test('a cancelled subscription keeps access until the end of the term', async () => {
+  const { user, subscription } = await subscribed();
+  const cancelled = await api.request('/api/subscription/cancel', { user, body: {} });
+  assert.equal(cancelled.status, 200);
+  assert.equal(cancelled.body.tier, 'premium');
+  assert.equal(subscriptions.get(subscription.id).status, 'cancel_scheduled');
+  assert.equal(mockSubscriptions.get(subscription.providerSubscriptionId).cancel_at_cycle_end, true);
+
+  subscriptions.update(subscription.id, { endDate: new Date(Date.now() - 1000).toISOString() });
+  assert.equal(findSubscription(s => s.id === subscription.id).status, 'cancelled');
+  assert.equal(entitlementFor(user.id).tier, 'free');
+});
+
+test('a scheduled cancellation can be withdrawn before the term ends', async () => {
+  const { user, subscription } = await subscribed();
+  await api.request('/api/subscription/cancel', { user, body: {} });
+
+  const resumed = await api.request('/api/subscription/resume', { user, body: {} });
+  assert.equal(resumed.status, 200);
+  const stored = subscriptions.get(subscription.id);
+  assert.equal(stored.status, 'active');
+  assert.equal(stored.autoRenew, true);
+  assert.equal(mockSubscriptions.get(subscription.providerSubscriptionId).cancel_at_cycle_end, false);
+
+  assert.equal((await api.request('/api/subscription/resume', { user, body: {} })).status, 404);
+});
+
+test('only admins can refund', async () => {
+  const { user, subscription } = await subscribed();
+  assert.equal((await refund(subscription, {}, user)).status, 403);
+  assert.equal((await refund({ id: 'sub_missing' })).status, 404);
+});
+
+test('a partial refund takes back bonus points in proportion', async () => {
+  const { user, subscription } = await subscribed();
+  const plan = findPlan('premium_monthly');
+
+  const response = await refund(subscription, { amount: plan.amount / 2, reason: 'Service outage' });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.fullyRefunded, false);
+  assert.equal(response.body.pointsDeducted, Math.round(plan.bonusPoints / 2));
+  assert.equal(balanceFor(user.id), plan.bonusPoints - Math.round(plan.bonusPoints / 2));
+  assert.equal(entitlementFor(user.id).tier, 'premium');
+
+  assert.equal((await refund(subscription, { amount: plan.amount })).status, 400);
+});
+
+test('a full refund ends the subscription', async () => {
+  const { user, subscription } = await subscribed();
+
+  const response = await refund(subscription);
+  assert.equal(response.status, 200);
+  assert.equal(response.body.fullyRefunded, true);
+  assert.equal(response.body.subscription.status, 'cancelled');
+  assert.equal(response.body.subscription.cancellationReason, 'refunded');
+  assert.equal(entitlementFor(user.id).tier, 'free');
+  assert.equal(balanceFor(user.id), 0);
+
+  assert.equal((await refund(subscription)).status, 400);
+});
@@ -0,0 +1,94 @@
+const { serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { ingestSource } = require('../lib/feeds');
+const { clusterStories, withCoverage, isAlternate } = require('../lib/feeds/clustering');
+
+const articles = collection('articles');
+const clusters = collection('story_clusters');
+// The fixtures were published on the morning of 19 October 2026
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+let api;
+
+before(async () => {
+  await ingestSource({ id: 'times', name: 'Fixture Times', url: 'fixtures/feeds/rss2.xml', category: 'india', language: 'en' });
+  await ingestSource({ id: 'herald', name: 'Fixture Herald', url: 'fixtures/feeds/rss2-herald.xml', category: 'india', language: 'en' });
+  api = await serve({ '/api/articles': require('../routes/articles') });
+});
+after(() => api.close());
+
+function byTitle(start) {
+  return articles.find(a => a.title.startsWith(start));
+}
+
+function wireStory(id, fields = {}) {
+  return articles.insert({
+    id,
+    title: 'Flood warning issued for Assam districts',
+    summary: 'Authorities issued a flood warning for low-lying districts of Assam.',
+    content: 'Authorities issued a flood warning for low-lying districts of Assam.',
+    source: id,
+    feedId: id,
+    language: 'en',
+    status: 'published',
+    publishedAt: '2026-10-19T06:00:00.000Z',
+    ...fields
+  });
+}
+
+test('two outlets reporting the same story are clustered', () => {
+  assert.deepEqual(clusterStories(NOW), { clusters: 2, changed: 2 });
+  assert.deepEqual(clusterStories(NOW), { clusters: 2, changed: 0 });
+
+  const monsoon = clusters.find(c => c.articleIds.includes(byTitle('Monsoon reaches').id));
+  assert.deepEqual(monsoon.articleIds, [byTitle('Monsoon reaches').id, byTitle('Southwest monsoon').id]);
+  // The most complete version is canonical
+  assert.equal(monsoon.canonicalId, byTitle('Monsoon reaches').id);
+  const rbi = clusters.find(c => c.articleIds.includes(byTitle('RBI keeps').id));
+  assert.equal(rbi.canonicalId, byTitle('RBI holds').id);
+
+  assert.equal(clusters.find(c => c.articleIds.includes(byTitle('Chennai Metro').id)), undefined);
+});
+
+test('coverage lists the other versions, and alternates are collapsed', async () => {
+  clusterStories(NOW);
+  const canonical = byTitle('Monsoon reaches');
+  const alternate = byTitle('Southwest monsoon');
+
+  const { coverage } = withCoverage(canonical);
+  assert.equal(coverage.sources, 2);
+  assert.equal(coverage.canonicalId, canonical.id);
+  assert.deepEqual(coverage.alternates.map(a => a.source), ['Fixture Herald']);
+  assert.equal(withCoverage(byTitle('Chennai Metro')).coverage, undefined);
+  assert.equal(isAlternate(canonical), false);
+  assert.equal(isAlternate(alternate), true);
+
+  const collapsed = await api.request('/api/articles?collapse=stories');
+  const ids = collapsed.body.data.map(a => a.id);
+  assert.ok(ids.includes(canonical.id));
+  assert.ok(!ids.includes(alternate.id));
+  assert.equal(collapsed.body.total, (await api.request('/api/articles')).body.total - 2);
+});
+
+test('stories in other languages or far apart in time are kept apart', () => {
+  wireStory('wire_a');
+  wireStory('wire_b', { language: 'hi' });
+  wireStory('wire_c', { publishedAt: '2026-10-16T05:00:00.000Z' });
+  clusterStories(NOW);
+  assert.equal(clusters.find(c => c.articleIds.some(id => id.startsWith('wire_'))), undefined);
+
+  wireStory('wire_d', { publishedAt: '2026-10-19T09:00:00.000Z' });
+  clusterStories(NOW);
+  assert.deepEqual(clusters.find(c => c.articleIds.includes('wire_a')).articleIds, ['wire_a', 'wire_d']);
+});
+
+test('a cluster goes away when its articles do', () => {
+  clusterStories(NOW);
+  const cluster = clusters.find(c => c.articleIds.includes('wire_a'));
+  articles.remove('wire_d');
+  clusterStories(NOW);
+  assert.equal(clusters.get(cluster.id), undefined);
+  assert.equal(isAlternate(articles.get('wire_a')), false);
+});
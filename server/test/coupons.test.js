@@ -0,0 +1,137 @@
+const { createUser, serve, payOrder, subscribe } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { findPlan } = require('../lib/plans');
+const { createCoupon, priceWithCoupon, reserveRedemption, confirmRedemption } = require('../lib/coupons');
+const provider = require('../lib/payments');
+const { balanceFor } = require('../lib/points');
+const { recordRefund } = require('../lib/refunds');
+
+const orders = collection('orders');
+const redemptions = collection('coupon_redemptions');
+const subscriptions = collection('subscriptions');
+const mockSubscriptions = collection('mock_subscriptions');
+const premium = findPlan('premium_monthly');
+const admin = createUser({ email: 'admin@example.com' });
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/admin': require('../routes/admin'),
+    '/api/subscription': require('../routes/subscriptions'),
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+function coupon(code, fields) {
+  return createCoupon({ code, ...fields }).coupon;
+}
+
+test('percent and flat discounts leave at least the minimum charge', () => {
+  coupon('HALF', { type: 'percent', value: 50 });
+  coupon('FLAT100', { type: 'flat', value: 10000 });
+  coupon('FREEBIE', { type: 'percent', value: 100 });
+  const userId = createUser().id;
+
+  assert.equal(priceWithCoupon('half', { plan: premium, userId }).amount, 9950);
+  assert.equal(priceWithCoupon('FLAT100', { plan: premium, userId }).amount, 9900);
+  assert.equal(priceWithCoupon('FREEBIE', { plan: premium, userId }).amount, 100);
+});
+
+test('expired, restricted and unknown codes are refused', () => {
+  coupon('OLD', { type: 'percent', value: 10, expiresAt: '2020-01-01T00:00:00Z' });
+  coupon('PROONLY', { type: 'percent', value: 10, planIds: ['pro_monthly'] });
+  const userId = createUser().id;
+
+  assert.equal(priceWithCoupon('OLD', { plan: premium, userId }).error, 'expired');
+  assert.equal(priceWithCoupon('PROONLY', { plan: premium, userId }).error, 'plan_not_eligible');
+  assert.equal(priceWithCoupon('PROONLY', { plan: findPlan('pro_monthly'), userId }).error, undefined);
+  assert.equal(priceWithCoupon('NOSUCHCODE', { plan: premium, userId }).error, 'invalid');
+});
+
+test('the preview lists the discounted price of each eligible plan', async () => {
+  coupon('PREVIEW', { type: 'percent', value: 20, planIds: ['premium_monthly', 'pro_monthly'] });
+  const user = createUser();
+
+  const response = await api.request('/api/coupons/preview', { user });
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body.prices.map(p => p.planId), ['premium_monthly', 'pro_monthly']);
+  assert.equal(response.body.prices[0].amount, 15920);
+  assert.equal((await api.request('/api/coupons/NOSUCHCODE', { user })).status, 404);
+});
+
+test('an order is charged the discounted price and records the redemption', async () => {
+  coupon('LAUNCH', { type: 'flat', value: 5000 });
+  const user = createUser();
+
+  const verified = await payOrder(api, user, { planId: 'premium_monthly', couponCode: 'launch' });
+  assert.equal(verified.status, 200);
+  assert.equal(verified.body.payment.amount, (premium.amount - 5000) / 100);
+  const order = orders.find(o => o.subscriptionId === verified.body.subscriptionId);
+  assert.equal(redemptions.find(r => r.orderId === order.id).status, 'redeemed');
+});
+
+test('the per-user limit and max redemptions are enforced', async () => {
+  coupon('ONCE', { type: 'percent', value: 10 });
+  coupon('SINGLE', { type: 'percent', value: 10, maxRedemptions: 1 });
+  const user = createUser();
+  await payOrder(api, user, { planId: 'premium_monthly', couponCode: 'ONCE' });
+
+  assert.equal(priceWithCoupon('ONCE', { plan: premium, userId: user.id }).error, 'already_used');
+
+  const first = await api.request('/api/order', { user: createUser(), body: { planId: 'premium_monthly', couponCode: 'SINGLE' } });
+  assert.equal(first.status, 200);
+  const second = await api.request('/api/order', { user: createUser(), body: { planId: 'premium_monthly', couponCode: 'SINGLE' } });
+  assert.equal(second.status, 400);
+});
+
+test('refunding a discounted first charge after a renewal refunds it in full', async () => {
+  coupon('FIRSTHALF', { type: 'percent', value: 50 });
+  const user = createUser();
+  const verified = await subscribe(api, user, { planId: 'premium_monthly', couponCode: 'FIRSTHALF' });
+  const first = subscriptions.get(verified.body.subscriptionId);
+  assert.equal(first.firstChargeAmount, 9950);
+
+  mockSubscriptions.update(first.providerSubscriptionId, { charge_at: Math.floor(Date.now() / 1000) - 1 });
+  await provider.processDueCharges();
+  const renewed = subscriptions.get(first.id);
+  assert.equal(renewed.amount, premium.amount);
+  const points = balanceFor(user.id);
+
+  const result = recordRefund(renewed, { id: 'rfnd_first_half', payment_id: first.razorpayPaymentId, amount: 9950 });
+  assert.equal(result.fullyRefunded, true);
+  assert.equal(result.pointsDeducted, premium.bonusPoints);
+  assert.equal(balanceFor(user.id), points - premium.bonusPoints);
+});
+
+test('a lapsed hold is not honoured once the code has run out', () => {
+  const limited = coupon('LASTONE', { type: 'percent', value: 10, maxRedemptions: 1 });
+  const early = createUser().id;
+  const late = createUser().id;
+  const later = Date.now() + 60 * 60 * 1000;
+
+  const held = priceWithCoupon('LASTONE', { plan: premium, userId: early });
+  reserveRedemption({ ...held, userId: early, plan: premium, ref: { orderId: 'order_early' } });
+
+  const priced = priceWithCoupon('LASTONE', { plan: premium, userId: late, now: later });
+  assert.equal(priced.coupon.code, limited.code);
+  reserveRedemption({ ...priced, userId: late, plan: premium, ref: { orderId: 'order_late' } });
+  assert.equal(confirmRedemption({ orderId: 'order_late' }, later).redemption.status, 'redeemed');
+
+  assert.equal(confirmRedemption({ orderId: 'order_early' }, later).error, 'exhausted');
+});
+
+test('admins create coupons and definitions are checked', async () => {
+  const created = await api.request('/api/admin/coupons', { user: admin, body: { code: 'diwali25', type: 'percent', value: 25 } });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.coupon.code, 'DIWALI25');
+
+  const invalid = await api.request('/api/admin/coupons', { user: admin, body: { code: 'TOOMUCH', type: 'percent', value: 150 } });
+  assert.equal(invalid.status, 400);
+  const forbidden = await api.request('/api/admin/coupons', { user: createUser(), body: { code: 'MINE', type: 'flat', value: 100 } });
+  assert.equal(forbidden.status, 403);
+});
@@ -0,0 +1,94 @@
+const { DATA_DIR } = require('./helpers');
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const { collection, lockStore } = require('../db');
+const { parseFeed } = require('../lib/feeds/parser');
+const { normalizeEntry, ingestSource } = require('../lib/feeds');
+const { fallbackImage } = require('../lib/feeds/sources');
+
+const articles = collection('articles');
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'feeds');
+
+function fixture(name) {
+  return parseFeed(fs.readFileSync(path.join(FIXTURES, name), 'utf8'));
+}
+
+function source(id, fields = {}) {
+  return { id, name: 'Fixture Times', url: 'fixtures/feeds/rss2.xml', category: 'india', language: 'en', ...fields };
+}
+
+test('RSS 2.0 and Atom entries are read with their authors and images', () => {
+  const rss = fixture('rss2.xml');
+  assert.equal(rss.entries.length, 4);
+  assert.equal(rss.entries[0].author, 'Anjali Menon');
+  assert.equal(rss.entries[0].imageUrl, 'https://news.example.com/images/monsoon.jpg');
+  assert.equal(rss.entries[1].author, 'Business Desk');
+  assert.equal(rss.entries[1].imageUrl, 'https://news.example.com/images/rbi.png');
+  assert.equal(rss.entries[2].guid, rss.entries[2].link);
+  assert.equal(rss.entries[2].imageUrl, 'https://news.example.com/images/markets.jpg');
+
+  const atom = fixture('atom.xml');
+  assert.equal(atom.entries[0].author, 'रवि कुमार');
+  assert.equal(atom.entries[1].imageUrl, 'https://hi.news.example.com/images/cricket-thumb.jpg');
+  assert.equal(fixture('rss1.xml').entries[0].title, 'UPI Lite limit raised for offline payments');
+});
+
+test('entries are normalized to plain-text articles', () => {
+  const fetchedAt = new Date('2026-10-19T06:00:00Z');
+  const [monsoon, rbi, markets, untitled] = fixture('rss2.xml').entries.map(entry => normalizeEntry(entry, source('fixture-rss'), fetchedAt));
+
+  assert.equal(untitled, null);
+  assert.match(monsoon.id, /^f_[0-9a-f]{16}$/);
+  assert.deepEqual(monsoon.tags, ['Weather', 'Kerala']);
+  assert.doesNotMatch(monsoon.content, /trackView|<p>/);
+  assert.equal(monsoon.publishedAt, '2026-10-19T01:00:00.000Z');
+  assert.equal(rbi.summary, 'The Monetary Policy Committee voted 5–1 to hold rates & retain its ‘neutral’ stance.');
+  assert.equal(markets.author, 'Fixture Times');
+  assert.equal(markets.publishedAt, fetchedAt.toISOString());
+
+  const [aqi, , future] = fixture('atom.xml').entries.map(entry => normalizeEntry(entry, source('fixture-atom', { language: 'hi' }), fetchedAt));
+  assert.equal(aqi.title, 'दिल्ली में वायु गुणवत्ता बहुत ख़राब');
+  assert.equal(future.publishedAt, fetchedAt.toISOString());
+  assert.equal(future.imageUrl, fallbackImage('india'));
+});
+
+test('polling a feed again updates its stories instead of repeating them', async () => {
+  const first = await ingestSource(source('fixture-rss'));
+  assert.deepEqual(first, { sourceId: 'fixture-rss', added: 3, updated: 0, skipped: 1 });
+  const stored = articles.filter(a => a.feedId === 'fixture-rss');
+  assert.equal(stored.length, 3);
+  articles.update(stored[0].id, { views: 12 });
+
+  assert.equal((await ingestSource(source('fixture-rss'))).added, 0);
+
+  const edited = path.join(DATA_DIR, 'rss2-edited.xml');
+  fs.writeFileSync(edited, fs.readFileSync(path.join(FIXTURES, 'rss2.xml'), 'utf8').replace('three days ahead', 'early'));
+  const again = await ingestSource(source('fixture-rss', { url: edited }));
+  assert.equal(again.added, 0);
+  assert.equal(again.updated, 1);
+  const monsoon = articles.get(stored[0].id);
+  assert.match(monsoon.title, /reaches Kerala early/);
+  assert.equal(monsoon.views, 12);
+  assert.equal(monsoon.createdAt, stored[0].createdAt);
+});
+
+test('a feed that cannot be read records the error', async () => {
+  await assert.rejects(ingestSource(source('fixture-missing', { url: 'fixtures/feeds/missing.xml' })));
+  assert.match(collection('feed_state').get('fixture-missing').lastError, /ENOENT/);
+});
+
+test('only one process writes to the store at a time', () => {
+  const lockFile = path.join(DATA_DIR, 'writer.pid');
+  const exited = spawnSync(process.execPath, ['-e', '']).pid;
+  fs.writeFileSync(lockFile, String(exited));
+  assert.equal(lockStore(), null);
+  assert.equal(fs.readFileSync(lockFile, 'utf8'), String(process.pid));
+
+  const ingest = spawnSync(process.execPath, [path.join(__dirname, '..', 'scripts', 'ingest-feeds.js'), 'rss1.xml'], { encoding: 'utf8', timeout: 30000 });
+  assert.equal(ingest.status, 1);
+  assert.match(ingest.stderr, new RegExp(`pid ${process.pid}`));
+});
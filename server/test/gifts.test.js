@@ -0,0 +1,83 @@
+const { createUser, serve, sentTo } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { entitlementFor } = require('../lib/subscriptions');
+const { queueNotification, requeueInterrupted } = require('../lib/notifications');
+
+const giftCodes = collection('gift_codes');
+const notifications = collection('notifications');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/gifts': require('../routes/gifts'),
+    '/api/subscription': require('../routes/subscriptions'),
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+async function buyGift(buyer, body = {}) {
+  const order = await api.request('/api/gifts/order', { user: buyer, body: { planId: 'premium_monthly', ...body } });
+  const paid = await api.request(`/api/mock-checkout/${order.body.order_id}/pay`, { user: buyer, body: {} });
+  const verified = await api.request('/api/verify', { user: buyer, body: paid.body });
+  assert.equal(verified.status, 200);
+  return verified.body.giftCode;
+}
+
+function redeem(user, code) {
+  return api.request('/api/subscription/redeem', { user, body: { code } });
+}
+
+test('a paid gift issues a code and grants the buyer nothing', async () => {
+  const buyer = createUser();
+  const code = await buyGift(buyer);
+  assert.match(code, /^GIFT-[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+  assert.equal(giftCodes.get(code).status, 'issued');
+  assert.equal(entitlementFor(buyer.id).tier, 'free');
+
+  const listed = await api.request('/api/gifts', { user: buyer });
+  assert.deepEqual(listed.body.gifts.map(g => g.code), [code]);
+});
+
+test('a code can be redeemed once, typed in any form', async () => {
+  const code = await buyGift(createUser());
+  const recipient = createUser();
+
+  const redeemed = await redeem(recipient, code.toLowerCase().replace(/-/g, ' '));
+  assert.equal(redeemed.status, 200);
+  assert.equal(redeemed.body.entitlement.tier, 'premium');
+  assert.equal(giftCodes.get(code).redeemedBy, recipient.id);
+
+  assert.equal((await redeem(createUser(), code)).status, 409);
+  assert.equal((await redeem(createUser(), 'GIFT-AAAA-BBBB-CCCC')).status, 404);
+});
+
+test('a code is not redeemed over an active subscription', async () => {
+  const recipient = createUser();
+  await redeem(recipient, await buyGift(createUser()));
+
+  const code = await buyGift(createUser());
+  assert.equal((await redeem(recipient, code)).status, 409);
+  assert.equal(giftCodes.get(code).status, 'issued');
+});
+
+test('the recipient is emailed the code, with the sender on one header line', async () => {
+  const buyer = createUser({ fullName: 'Asha\r\nBcc: someone@example.com' });
+  const code = await buyGift(buyer, { recipientEmail: 'nani@example.com', message: 'Happy birthday' });
+
+  const [headers, body] = (await sentTo('nani@example.com')).split('\r\n\r\n');
+  assert.ok(body.includes(code));
+  assert.ok(body.includes('Happy birthday'));
+  assert.match(headers, /^Subject: Asha Bcc: someone@example.com sent you/m);
+  assert.doesNotMatch(headers, /^Bcc:/m);
+});
+
+test('sends cut short by a restart are queued again', () => {
+  const interrupted = queueNotification({ type: 'gift_purchased', userId: createUser().id, status: 'sending' });
+  assert.equal(requeueInterrupted(), 1);
+  assert.equal(notifications.get(interrupted.id).status, 'queued');
+});
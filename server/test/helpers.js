@@ -0,0 +1,113 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+
+// Shared setup for the server tests. Require this before anything that loads
+// the store: every test file runs in its own process against its own empty
+// data directory, with the mock payment provider and the file mailer.
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'signalai-test-'));
+Object.assign(process.env, {
+  DATA_DIR,
+  PAYMENT_PROVIDER: 'mock',
+  MAILER: 'file',
+  FEED_INGESTION: 'off',
+  AUTH_SECRET: 'test-secret',
+  ADMIN_EMAILS: 'admin@example.com'
+});
+process.on('exit', () => fs.rmSync(DATA_DIR, { recursive: true, force: true }));
+
+const express = require('express');
+const { collection } = require('../db');
+const { signAccessToken } = require('../lib/auth');
+
+const users = collection('users');
+const notifications = collection('notifications');
+
+function createUser(fields = {}) {
+  const name = fields.username || `reader_${crypto.randomBytes(4).toString('hex')}`;
+  return users.insert({
+    id: `usr_${crypto.randomBytes(6).toString('hex')}`,
+    email: `${name}@example.com`,
+    username: name,
+    fullName: name,
+    emailVerified: true,
+    createdAt: new Date().toISOString(),
+    ...fields
+  });
+}
+
+// Mounts routers ({ '/api/articles': router, ... }) on a bare app listening on
+// a free port. As in server.js, webhooks go before the JSON parser.
+// `request(path, { user, method, body, headers })` signs in as `user` when
+// given; a string body is sent as it is. JSON responses are parsed, anything
+// else comes back as text.
+async function serve(routes) {
+  const app = express();
+  const mounts = Object.entries(routes);
+  const isWebhook = ([mountPath]) => mountPath.startsWith('/api/webhooks');
+  for (const [mountPath, router] of mounts.filter(isWebhook)) {
+    app.use(mountPath, router);
+  }
+  app.use(express.json());
+  for (const [mountPath, router] of mounts.filter(mount => !isWebhook(mount))) {
+    app.use(mountPath, router);
+  }
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const base = `http://127.0.0.1:${server.address().port}`;
+
+  async function request(urlPath, { user, method, body, headers } = {}) {
+    const response = await fetch(base + urlPath, {
+      method: method || (body ? 'POST' : 'GET'),
+      headers: {
+        'Content-Type': 'application/json',
+        ...(user ? { Authorization: `Bearer ${signAccessToken(user)}` } : {}),
+        ...headers
+      },
+      body: typeof body === 'string' ? body : body ? JSON.stringify(body) : undefined
+    });
+    const text = await response.text();
+    const isJson = /json/.test(response.headers.get('content-type') || '');
+    return { status: response.status, headers: response.headers, body: text ? (isJson ? JSON.parse(text) : text) : null };
+  }
+
+  return { request, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+// Buys a one-off order through the mock checkout and verifies it, as the
+// browser would. Needs the payments router at /api and the mock checkout at
+// /api/mock-checkout. Returns the failing response if the order is refused.
+async function payOrder(api, user, body) {
+  const order = await api.request('/api/order', { user, body });
+  if (order.status !== 200) return order;
+  const paid = await api.request(`/api/mock-checkout/${order.body.order_id}/pay`, { user, body: {} });
+  return api.request('/api/verify', { user, body: paid.body });
+}
+
+// Same for a recurring subscription: needs the subscriptions router at
+// /api/subscription and the mock checkout at /api/mock-checkout.
+async function subscribe(api, user, body, scenario) {
+  const checkout = await api.request('/api/subscription/checkout', { user, body });
+  if (checkout.status !== 200) return checkout;
+  const paid = await api.request(`/api/mock-checkout/${checkout.body.subscription_id}/pay`, {
+    user,
+    body: scenario ? { scenario } : {}
+  });
+  if (paid.status !== 200) return paid;
+  return api.request('/api/subscription/verify', { user, body: paid.body });
+}
+
+// The last email sent to `address`, as the file mailer wrote it. Some emails
+// go out in the background after the response, so this waits briefly.
+async function sentTo(address) {
+  for (let i = 0; i < 50; i++) {
+    const sent = notifications.filter(n => n.to === address && n.status === 'sent').pop();
+    if (sent) return fs.readFileSync(path.join(DATA_DIR, 'outbox', `${sent.messageId}.eml`), 'utf8');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Nothing was sent to ${address}`);
+}
+
+module.exports = { DATA_DIR, createUser, serve, payOrder, subscribe, sentTo };
@@ -0,0 +1,98 @@
+const { createUser, serve, payOrder } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { SAC_CODE, isValidGstin, taxBreakdown } = require('../lib/gst');
+const { issueInvoice, invoicesFor } = require('../lib/invoices');
+const { renderInvoicePdf } = require('../lib/invoicePdf');
+
+// The seller is registered in Karnataka (29) unless GST_SELLER_STATE says otherwise
+const MAHARASHTRA_GSTIN = '27AAPFU0939F1ZV';
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/billing': require('../routes/billing'),
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+async function invoiceAfterPaying(user) {
+  await payOrder(api, user, { planId: 'premium_monthly' });
+  return invoicesFor(user.id)[0];
+}
+
+test('GSTINs are checked for format, state and check digit', () => {
+  assert.equal(isValidGstin(MAHARASHTRA_GSTIN), true);
+  assert.equal(isValidGstin('27AAPFU0939F1ZA'), false);
+  assert.equal(isValidGstin('99AAPFU0939F1ZV'), false);
+  assert.equal(isValidGstin('27aapfu0939f1zv'), false);
+});
+
+test('GST is split into CGST and SGST within the state, IGST across states', () => {
+  const intra = taxBreakdown(19900, '29');
+  assert.equal(intra.supplyType, 'intra_state');
+  assert.equal(intra.taxableValue, 16864);
+  assert.equal(intra.cgst.amount + intra.sgst.amount, 3036);
+  assert.equal(intra.igst.amount, 0);
+
+  const inter = taxBreakdown(19900, '27');
+  assert.equal(inter.supplyType, 'inter_state');
+  assert.equal(inter.igst.amount, 3036);
+  assert.equal(inter.cgst.amount, 0);
+});
+
+test('every captured payment gets the next invoice number', async () => {
+  const first = await invoiceAfterPaying(createUser());
+  const second = await invoiceAfterPaying(createUser());
+
+  assert.match(first.number, /^SAI\/\d{2}-\d{2}\/\d{6}$/);
+  assert.equal(Number(second.number.slice(-6)), Number(first.number.slice(-6)) + 1);
+  assert.equal(first.items[0].sac, SAC_CODE);
+  assert.equal(first.total, 19900);
+  assert.equal(first.placeOfSupply.stateCode, '29');
+});
+
+test('a payment is invoiced once', async () => {
+  const user = createUser();
+  const invoice = await invoiceAfterPaying(user);
+  const again = issueInvoice({ userId: user.id, payment: { id: invoice.paymentId, amount: 19900, currency: 'INR' }, description: 'Again' });
+  assert.equal(again.id, invoice.id);
+  assert.equal(invoicesFor(user.id).length, 1);
+});
+
+test('a business buyer\'s GSTIN sets the place of supply', async () => {
+  const user = createUser();
+  const saved = await api.request('/api/billing/profile', {
+    user,
+    method: 'PUT',
+    body: { legalName: 'Asha Media LLP', gstin: MAHARASHTRA_GSTIN.toLowerCase() }
+  });
+  assert.equal(saved.status, 200);
+  assert.equal(saved.body.billing.stateCode, '27');
+
+  const invoice = await invoiceAfterPaying(user);
+  assert.equal(invoice.buyer.gstin, MAHARASHTRA_GSTIN);
+  assert.equal(invoice.buyer.name, 'Asha Media LLP');
+  assert.equal(invoice.supplyType, 'inter_state');
+  assert.equal(invoice.igst.amount, invoice.totalTax);
+
+  const invalid = await api.request('/api/billing/profile', { user, method: 'PUT', body: { gstin: '27AAPFU0939F1ZA' } });
+  assert.equal(invalid.status, 400);
+});
+
+test('invoices are listed and downloadable only by their buyer', async () => {
+  const user = createUser();
+  const invoice = await invoiceAfterPaying(user);
+
+  const listed = await api.request('/api/billing/invoices', { user });
+  assert.deepEqual(listed.body.invoices.map(i => i.number), [invoice.number]);
+  const json = await api.request(`/api/billing/invoices/${invoice.id}/json`, { user });
+  assert.equal(json.status, 200);
+  assert.equal(json.body.number, invoice.number);
+
+  assert.equal((await api.request(`/api/billing/invoices/${invoice.id}`, { user: createUser() })).status, 404);
+  assert.equal(renderInvoicePdf(invoice).subarray(0, 5).toString(), '%PDF-');
+});
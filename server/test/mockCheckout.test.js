@@ -0,0 +1,89 @@
+const { createUser, serve, payOrder } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+// Short enough for the delayed scenario to capture within a test
+process.env.MOCK_CAPTURE_DELAY_MS = '50';
+
+const { collection } = require('../db');
+const provider = require('../lib/payments');
+
+const orders = collection('orders');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+async function createOrder(user) {
+  const response = await api.request('/api/order', { user, body: { planId: 'premium_monthly' } });
+  return response.body.order_id;
+}
+
+function pay(user, orderId, scenario) {
+  return api.request(`/api/mock-checkout/${orderId}/pay`, { user, body: scenario ? { scenario } : {} });
+}
+
+test('PAYMENT_PROVIDER=mock selects the offline provider', () => {
+  assert.equal(provider.name, 'mock');
+  assert.equal(provider.isConfigured(), true);
+});
+
+test('a successful mock payment verifies and activates the plan', async () => {
+  const user = createUser();
+  const verified = await payOrder(api, user, { planId: 'premium_monthly' });
+  assert.equal(verified.status, 200);
+  assert.equal(verified.body.entitlement.tier, 'premium');
+  assert.equal(verified.body.payment.status, 'captured');
+});
+
+test('a declined mock payment fails the order', async () => {
+  const user = createUser();
+  const orderId = await createOrder(user);
+
+  const response = await pay(user, orderId, 'failure');
+  assert.equal(response.status, 402);
+  assert.equal(orders.get(orderId).status, 'failed');
+});
+
+test('a delayed payment is pending until it is captured', async () => {
+  const user = createUser();
+  const orderId = await createOrder(user);
+
+  const paid = await pay(user, orderId, 'delayed');
+  const pending = await api.request('/api/verify', { user, body: paid.body });
+  assert.equal(pending.status, 202);
+  assert.equal(pending.body.pending, true);
+
+  await new Promise(resolve => setTimeout(resolve, 100));
+  assert.equal(orders.get(orderId).status, 'paid');
+});
+
+test('only the order owner can pay, with a supported scenario', async () => {
+  const user = createUser();
+  const orderId = await createOrder(user);
+
+  assert.equal((await pay(createUser(), orderId)).status, 404);
+  assert.equal((await pay(user, orderId, 'dismiss')).status, 400);
+  assert.equal((await pay(user, orderId, 'jackpot')).status, 400);
+});
+
+test('a forged signature is refused', async () => {
+  const user = createUser();
+  const orderId = await createOrder(user);
+  const { body: paid } = await pay(user, orderId);
+
+  assert.equal(provider.verifySignature({
+    orderId,
+    paymentId: paid.razorpay_payment_id,
+    signature: paid.razorpay_signature
+  }), true);
+
+  const forged = await api.request('/api/verify', { user, body: { ...paid, razorpay_signature: 'f'.repeat(64) } });
+  assert.equal(forged.status, 400);
+  assert.equal(orders.get(orderId).status, 'created');
+});
@@ -0,0 +1,106 @@
+const { createUser, serve, payOrder, subscribe } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { findPlan } = require('../lib/plans');
+const { entitlementFor } = require('../lib/subscriptions');
+const { isUpgrade, unusedCredit, quotePlanChange } = require('../lib/planChange');
+const { settleUnbilledChanges } = require('../lib/renewals');
+
+const subscriptions = collection('subscriptions');
+const notifications = collection('notifications');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/subscription': require('../routes/subscriptions'),
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+async function subscribed(planId) {
+  const user = createUser();
+  const verified = await subscribe(api, user, { planId });
+  assert.equal(verified.status, 200);
+  return { user, subscription: subscriptions.get(verified.body.subscriptionId) };
+}
+
+function midpoint(subscription) {
+  return (Date.parse(subscription.currentPeriodStart) + Date.parse(subscription.endDate)) / 2;
+}
+
+test('upgrades go up a tier, to a longer term or to more seats', () => {
+  assert.equal(isUpgrade(findPlan('premium_monthly'), findPlan('pro_monthly')), true);
+  assert.equal(isUpgrade(findPlan('pro_yearly'), findPlan('premium_yearly')), false);
+  assert.equal(isUpgrade(findPlan('premium_monthly'), findPlan('premium_yearly')), true);
+  assert.equal(isUpgrade(findPlan('premium_monthly'), findPlan('family_monthly')), true);
+  assert.equal(isUpgrade(findPlan('family_monthly'), findPlan('premium_monthly')), false);
+});
+
+test('the unused credit is the paid amount for the rest of the period', async () => {
+  const { subscription } = await subscribed('premium_monthly');
+  assert.equal(unusedCredit(subscription, midpoint(subscription)), 9950);
+  assert.equal(unusedCredit(subscription, Date.parse(subscription.endDate)), 0);
+  assert.equal(unusedCredit({ ...subscription, paymentMethod: 'gift' }, midpoint(subscription)), 0);
+});
+
+test('an upgrade charges the new price less the credit, now', async () => {
+  const { subscription } = await subscribed('premium_monthly');
+  const quote = quotePlanChange(subscription, findPlan('pro_monthly'), midpoint(subscription));
+  assert.equal(quote.type, 'upgrade');
+  assert.equal(quote.timing, 'now');
+  assert.equal(quote.credit, 9950);
+  assert.equal(quote.amountDue, findPlan('pro_monthly').amount - 9950);
+});
+
+test('a downgrade waits for the end of the term and charges nothing', async () => {
+  const { subscription } = await subscribed('pro_monthly');
+  const quote = quotePlanChange(subscription, findPlan('premium_monthly'), midpoint(subscription));
+  assert.equal(quote.type, 'downgrade');
+  assert.equal(quote.timing, 'period_end');
+  assert.equal(quote.amountDue, 0);
+  assert.equal(quote.effectiveDate, subscription.endDate);
+});
+
+test('a paid upgrade replaces the old subscription', async () => {
+  const { user, subscription } = await subscribed('premium_monthly');
+  const change = await api.request('/api/subscription/change', { user, body: { planId: 'pro_monthly' } });
+  assert.equal(change.status, 200);
+  assert.equal(change.body.checkout.amount, change.body.quote.amountDue);
+
+  const paid = await api.request(`/api/mock-checkout/${change.body.checkout.subscription_id}/pay`, { user, body: {} });
+  const verified = await api.request('/api/subscription/verify', { user, body: paid.body });
+  assert.equal(verified.status, 200);
+  assert.equal(verified.body.entitlement.tier, 'pro');
+  assert.equal(subscriptions.get(subscription.id).replacedBy, verified.body.subscriptionId);
+});
+
+test('a downgrade is scheduled and can be withdrawn', async () => {
+  const { user, subscription } = await subscribed('pro_monthly');
+  const change = await api.request('/api/subscription/change', { user, body: { planId: 'premium_monthly' } });
+  assert.equal(change.status, 200);
+  assert.equal(subscriptions.get(subscription.id).scheduledChange.planId, 'premium_monthly');
+  assert.equal(entitlementFor(user.id).tier, 'pro');
+
+  const withdrawn = await api.request('/api/subscription/change', { user, method: 'DELETE' });
+  assert.equal(withdrawn.status, 200);
+  assert.equal(subscriptions.get(subscription.id).scheduledChange, null);
+});
+
+test('a downgrade on a one-off term asks for a checkout when the term ends', async () => {
+  const user = createUser();
+  const verified = await payOrder(api, user, { planId: 'pro_monthly' });
+  await api.request('/api/subscription/change', { user, body: { planId: 'premium_monthly' } });
+  const term = subscriptions.get(verified.body.subscriptionId);
+
+  settleUnbilledChanges(Date.parse(term.endDate));
+  const settled = subscriptions.get(term.id);
+  assert.equal(settled.scheduledChange, null);
+  assert.equal(settled.settledChange.planId, 'premium_monthly');
+  const notice = notifications.find(n => n.subscriptionId === term.id);
+  assert.equal(notice.type, 'plan_change_due');
+  assert.equal(notice.planId, 'premium_monthly');
+});
@@ -0,0 +1,55 @@
+const { createUser, serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { PLANS, findPlan } = require('../lib/plans');
+const { paymentMismatch } = require('../lib/fulfillment');
+const paymentsRouter = require('../routes/payments');
+
+const orders = collection('orders');
+let api;
+
+before(async () => {
+  api = await serve({ '/api': paymentsRouter });
+});
+after(() => api.close());
+
+test('the catalog is served with display prices in rupees', async () => {
+  const response = await api.request('/api/plans');
+  assert.equal(response.status, 200);
+  assert.equal(response.body.plans.length, PLANS.length);
+
+  const premium = response.body.plans.find(plan => plan.id === 'premium_monthly');
+  assert.equal(premium.amount, findPlan('premium_monthly').amount);
+  assert.equal(premium.price, premium.amount / 100);
+});
+
+test('an order is charged the catalog price whatever the client sends', async () => {
+  const user = createUser();
+  const response = await api.request('/api/order', { user, body: { planId: 'pro_monthly', amount: 100 } });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.amount, findPlan('pro_monthly').amount);
+  assert.equal(orders.get(response.body.order_id).amount, findPlan('pro_monthly').amount);
+});
+
+test('free and unknown plans cannot be ordered', async () => {
+  const user = createUser();
+  assert.equal((await api.request('/api/order', { user, body: { planId: 'free' } })).status, 400);
+  assert.equal((await api.request('/api/order', { user, body: { planId: 'platinum' } })).status, 400);
+  assert.equal((await api.request('/api/order', { user, body: {} })).status, 400);
+  assert.equal((await api.request('/api/order', { body: { planId: 'premium_monthly' } })).status, 401);
+});
+
+test('a payment must match the order it claims to pay', () => {
+  const plan = findPlan('premium_monthly');
+  const order = { id: 'order_1', planId: plan.id };
+  const payment = { order_id: 'order_1', status: 'captured', amount: plan.amount, currency: plan.currency };
+
+  assert.equal(paymentMismatch(order, payment), null);
+  assert.equal(paymentMismatch(order, { ...payment, order_id: 'order_2' }), 'order');
+  assert.equal(paymentMismatch(order, { ...payment, status: 'authorized' }), 'status');
+  assert.equal(paymentMismatch(order, { ...payment, amount: 100 }), 'amount');
+  assert.equal(paymentMismatch(order, { ...payment, currency: 'USD' }), 'currency');
+  assert.equal(paymentMismatch({ ...order, discount: 5000 }, { ...payment, amount: plan.amount - 5000 }), null);
+});
@@ -0,0 +1,109 @@
+const { createUser, serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { balanceFor } = require('../lib/points');
+const { RULES, recordVisit } = require('../lib/pointRules');
+
+const articles = collection('articles');
+const reads = collection('article_reads');
+const users = collection('users');
+const LONG_ENOUGH = 'word '.repeat(RULES.post_published.minWords);
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/articles': require('../routes/articles'),
+    '/api/points': require('../routes/points')
+  });
+});
+after(() => api.close());
+
+async function publish(author, fields = {}) {
+  const response = await api.request('/api/articles', { user: author, body: { title: 'Story', content: LONG_ENOUGH, ...fields } });
+  return response.body;
+}
+
+function like(user, postId) {
+  return api.request('/api/points/likes', { user, body: { postId } });
+}
+
+test('publishing earns points once, for articles long enough', async () => {
+  const author = createUser();
+  await publish(author, { content: 'Too short' });
+  assert.equal(balanceFor(author.id), 0);
+
+  const draft = await publish(author, { status: 'draft' });
+  assert.equal(balanceFor(author.id), 0);
+  await api.request(`/api/articles/${draft.id}`, { user: author, method: 'PUT', body: { status: 'published' } });
+  assert.equal(balanceFor(author.id), RULES.post_published.points);
+
+  await api.request(`/api/articles/${draft.id}`, { user: author, method: 'PUT', body: { title: 'Edited' } });
+  assert.equal(balanceFor(author.id), RULES.post_published.points);
+});
+
+test('publishing stops earning at the daily cap', async () => {
+  const author = createUser();
+  for (let i = 0; i <= RULES.post_published.dailyCap; i++) await publish(author);
+  assert.equal(balanceFor(author.id), RULES.post_published.points * RULES.post_published.dailyCap);
+});
+
+test('a like earns its author points, once per reader', async () => {
+  const author = createUser();
+  const post = await publish(author);
+  const reader = createUser();
+  const earlier = balanceFor(author.id);
+
+  const liked = await like(reader, post.id);
+  assert.equal(liked.status, 201);
+  assert.equal(liked.body.awarded, RULES.like_received.points);
+  assert.equal(balanceFor(author.id), earlier + RULES.like_received.points);
+
+  assert.equal((await like(reader, post.id)).status, 409);
+  assert.equal((await like(author, post.id)).body.skipped, 'own_post');
+});
+
+test('likes need a published article and earn nothing without an author', async () => {
+  const reader = createUser();
+  const draft = await publish(createUser(), { status: 'draft' });
+  assert.equal((await like(reader, draft.id)).status, 404);
+  assert.equal((await like(reader, 'no-such-post')).status, 404);
+
+  const feedArticle = articles.insert({ id: 'feed_1', title: 'Wire story', status: 'published', authorId: null });
+  assert.equal((await like(reader, feedArticle.id)).body.skipped, 'no_author');
+});
+
+test('a read counts once, and only after the minimum time', async () => {
+  const reader = createUser();
+  const post = await publish(createUser());
+
+  assert.equal((await api.request(`/api/points/reads/${post.id}/finish`, { user: reader, body: {} })).status, 409);
+  await api.request(`/api/points/reads/${post.id}/start`, { user: reader, body: {} });
+  const early = await api.request(`/api/points/reads/${post.id}/finish`, { user: reader, body: {} });
+  assert.equal(early.body.skipped, 'too_fast');
+
+  const startedAt = new Date(Date.now() - RULES.article_read.minSeconds * 1000).toISOString();
+  reads.update(`${reader.id}:${post.id}`, { startedAt });
+  const finished = await api.request(`/api/points/reads/${post.id}/finish`, { user: reader, body: {} });
+  assert.equal(finished.body.awarded, RULES.article_read.points);
+  const again = await api.request(`/api/points/reads/${post.id}/finish`, { user: reader, body: {} });
+  assert.equal(again.body.skipped, 'duplicate');
+
+  assert.equal((await api.request('/api/points/reads/no-such-article/start', { user: reader, body: {} })).status, 404);
+});
+
+test('a daily visit grows the streak bonus and grants the monthly allowance', () => {
+  const rule = RULES.daily_login;
+  const user = createUser();
+  recordVisit(user.id);
+  recordVisit(user.id);
+  assert.equal(balanceFor(user.id), RULES.monthly_allowance.points + rule.points);
+
+  // Streak days are calendar days in India time
+  const yesterday = new Date(Date.now() + 330 * 60 * 1000 - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const returning = createUser({ loginStreak: { lastDay: yesterday, days: 2 } });
+  recordVisit(returning.id);
+  assert.equal(users.get(returning.id).loginStreak.days, 3);
+  assert.equal(balanceFor(returning.id), RULES.monthly_allowance.points + rule.points + 2 * rule.streakBonus);
+});
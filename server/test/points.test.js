@@ -0,0 +1,87 @@
+const { createUser, serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { adjustPoints, spendPoints, balanceFor, pointsHistory } = require('../lib/points');
+
+const ledger = collection('points_ledger');
+let api;
+
+before(async () => {
+  api = await serve({ '/api/points': require('../routes/points') });
+});
+after(() => api.close());
+
+function expireNow(entry) {
+  ledger.update(entry.id, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+}
+
+test('the balance is the sum of the ledger', () => {
+  const user = createUser();
+  adjustPoints(user.id, 100, { reason: 'welcome_bonus' });
+  adjustPoints(user.id, 40, { reason: 'subscription_bonus', ref: { type: 'subscription', id: 'sub_1' } });
+  spendPoints(user.id, 30, { reason: 'reward_redemption', ref: { type: 'redemption', id: 'rdm_1' } });
+
+  assert.equal(balanceFor(user.id), 110);
+  assert.deepEqual(pointsHistory(user.id).map(e => [e.type, e.amount, e.reason]), [
+    ['debit', 30, 'reward_redemption'],
+    ['credit', 40, 'subscription_bonus'],
+    ['credit', 100, 'welcome_bonus']
+  ]);
+});
+
+test('a balance kept on the user record becomes an opening credit', () => {
+  const user = createUser({ SignalAIPoints: 250 });
+  assert.equal(balanceFor(user.id), 250);
+  assert.equal(balanceFor(user.id), 250);
+  assert.deepEqual(ledger.filter(e => e.userId === user.id).map(e => e.reason), ['opening_balance']);
+});
+
+test('points cannot be spent twice', () => {
+  const user = createUser();
+  adjustPoints(user.id, 50, { reason: 'welcome_bonus' });
+
+  assert.equal(spendPoints(user.id, 50, { reason: 'reward_redemption' }).balance, 0);
+  const second = spendPoints(user.id, 50, { reason: 'reward_redemption' });
+  assert.equal(second.error, 'Insufficient points');
+  assert.equal(balanceFor(user.id), 0);
+});
+
+test('system adjustments never take the balance below zero', () => {
+  const user = createUser();
+  adjustPoints(user.id, 30, { reason: 'subscription_bonus' });
+  assert.equal(adjustPoints(user.id, -100, { reason: 'refund_clawback' }), -30);
+  assert.equal(balanceFor(user.id), 0);
+});
+
+test('subscription bonus points expire, and are spent before points that do not', () => {
+  const user = createUser();
+  adjustPoints(user.id, 100, { reason: 'welcome_bonus' });
+  adjustPoints(user.id, 50, { reason: 'subscription_bonus' });
+  const bonus = ledger.find(e => e.userId === user.id && e.reason === 'subscription_bonus');
+  assert.ok(bonus.expiresAt);
+
+  spendPoints(user.id, 30, { reason: 'reward_redemption' });
+  expireNow(bonus);
+  assert.equal(balanceFor(user.id), 100);
+
+  const expiry = ledger.find(e => e.userId === user.id && e.reason === 'points_expired');
+  assert.equal(expiry.amount, 20);
+  assert.equal(expiry.ref.id, bonus.id);
+  assert.equal(balanceFor(user.id), 100);
+});
+
+test('the points API shows the balance, expiring points and history', async () => {
+  const user = createUser();
+  adjustPoints(user.id, 75, { reason: 'subscription_bonus' });
+  const bonus = ledger.find(e => e.userId === user.id);
+  ledger.update(bonus.id, { expiresAt: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString() });
+
+  const response = await api.request('/api/points', { user });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.balance, 75);
+  assert.deepEqual(response.body.expiring.map(e => e.amount), [75]);
+  assert.equal(response.body.entries.length, 1);
+  assert.equal((await api.request('/api/points')).status, 401);
+});
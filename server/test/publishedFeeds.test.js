@@ -0,0 +1,97 @@
+const { createUser, serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { clusterStories } = require('../lib/feeds/clustering');
+const { parseFeed } = require('../lib/feeds/parser');
+
+const articles = collection('articles');
+const author = createUser({ fullName: 'Asha Rao' });
+let api;
+
+function hoursAgo(hours) {
+  return new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+}
+
+function article(id, fields = {}) {
+  return articles.insert({
+    id,
+    title: `Story ${id}`,
+    summary: `Summary of ${id}`,
+    content: `First paragraph of ${id}.\n\nSecond paragraph.`,
+    author: 'Asha Rao',
+    authorId: author.id,
+    category: 'india',
+    language: 'en',
+    status: 'published',
+    isPremium: false,
+    publishedAt: hoursAgo(3),
+    ...fields
+  });
+}
+
+before(async () => {
+  article('own', { title: 'Rates & "returns" <explained>', tags: ['economy'] });
+  article('premium', { isPremium: true, publishedAt: hoursAgo(2) });
+  article('hindi', { language: 'hi', title: 'हिंदी में ख़बर', publishedAt: hoursAgo(4) });
+  article('draft', { status: 'draft' });
+  article('sports', { category: 'sports' });
+  const wire = { authorId: null, author: 'Wire', feedId: 'wire', title: 'Flood warning issued for Assam districts', summary: 'Authorities issued a flood warning for Assam.' };
+  article('wire_long', { ...wire, source: 'Wire One', sourceUrl: 'https://one.example.com/flood', content: 'Authorities issued a flood warning for low-lying districts of Assam on Monday.', publishedAt: hoursAgo(1) });
+  article('wire_short', { ...wire, source: 'Wire Two', sourceUrl: 'https://two.example.com/flood', content: 'Flood warning for Assam.', publishedAt: hoursAgo(1) });
+  clusterStories();
+  api = await serve({ '/feeds': require('../routes/feeds') });
+});
+after(() => api.close());
+
+test('the RSS feed lists published stories, newest first, one version per story', async () => {
+  const response = await api.request('/feeds/india.xml');
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('content-type'), /^application\/rss\+xml/);
+
+  const feed = parseFeed(response.body);
+  assert.equal(feed.title, 'SignalAI News: India');
+  assert.deepEqual(feed.entries.map(e => e.guid), ['signalai:article:wire_long', 'signalai:article:premium', 'signalai:article:own', 'signalai:article:hindi']);
+  assert.equal(feed.entries[2].title, 'Rates & "returns" <explained>');
+  assert.deepEqual(feed.entries[2].categories, ['india', 'economy']);
+});
+
+test('full text is published only for our own free articles', async () => {
+  const { body } = await api.request('/feeds/all.json');
+  const items = Object.fromEntries(body.items.map(item => [item.id.replace('signalai:article:', ''), item]));
+
+  assert.equal(items.own.content_text, 'First paragraph of own.\n\nSecond paragraph.');
+  assert.equal(items.premium.content_text, undefined);
+  assert.equal(items.premium._signalai.premium, true);
+  assert.equal(items.wire_long.content_text, undefined);
+  assert.equal(items.wire_long.external_url, 'https://one.example.com/flood');
+  assert.ok(items.sports);
+  assert.equal(items.draft, undefined);
+});
+
+test('feeds can be limited to a language or an author', async () => {
+  const hindi = parseFeed((await api.request('/feeds/all.atom?language=hi')).body);
+  assert.deepEqual(hindi.entries.map(e => e.title), ['हिंदी में ख़बर']);
+
+  const byAuthor = await api.request(`/feeds/author/${author.id}.json`);
+  assert.equal(byAuthor.body.title, 'Asha Rao on SignalAI News');
+  assert.ok(byAuthor.body.items.every(item => item.authors[0].name === 'Asha Rao'));
+  assert.equal(byAuthor.body.items.length, 4);
+});
+
+test('unknown feeds and formats are 404', async () => {
+  assert.equal((await api.request('/feeds/gossip.xml')).status, 404);
+  assert.equal((await api.request('/feeds/india.html')).status, 404);
+  assert.equal((await api.request('/feeds/author/usr_nobody.xml')).status, 404);
+});
+
+test('an unchanged feed answers conditional requests with 304', async () => {
+  const first = await api.request('/feeds/india.atom');
+  // fetch adds Cache-Control: no-cache to conditional requests unless one is given
+  const headers = { 'If-None-Match': first.headers.get('etag'), 'Cache-Control': 'max-age=0' };
+  assert.equal((await api.request('/feeds/india.atom', { headers })).status, 304);
+
+  article('late', { publishedAt: new Date().toISOString() });
+  assert.equal((await api.request('/feeds/india.atom', { headers })).status, 200);
+});
@@ -0,0 +1,110 @@
+const { createUser, serve, subscribe, sentTo } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { balanceFor } = require('../lib/points');
+const { RULES } = require('../lib/pointRules');
+const { referralCodeFor, rememberDevice } = require('../lib/referrals');
+
+const referrals = collection('referrals');
+const notifications = collection('notifications');
+const users = collection('users');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/auth': require('../routes/auth'),
+    '/api/referrals': require('../routes/referrals'),
+    '/api/subscription': require('../routes/subscriptions'),
+    '/api/mock-checkout': require('../routes/mockCheckout')
+  });
+});
+after(() => api.close());
+
+async function register(name, fields = {}) {
+  const response = await api.request('/api/auth/register', {
+    body: { email: `${name}@example.com`, password: 'correct horse', username: name, fullName: name, deviceId: `device-${name}`, ...fields }
+  });
+  assert.equal(response.status, 201);
+  return { user: users.get(response.body.user.id), referral: referrals.find(r => r.refereeId === response.body.user.id) };
+}
+
+async function verifyEmail(user) {
+  const token = (await sentTo(user.email)).match(/token=([0-9a-f]+)/)[1];
+  return api.request('/api/auth/verify-email', { body: { token } });
+}
+
+function referrer() {
+  const user = createUser();
+  rememberDevice(user.id, `device-${user.username}`);
+  return { user, code: referralCodeFor(user.id) };
+}
+
+test('a referred signup pays the referrer once the email is verified', async () => {
+  const { user: host, code } = referrer();
+  const { user: guest, referral } = await register('guest_verify', { referralCode: code.toLowerCase() });
+  assert.equal(referral.status, 'pending');
+  assert.equal(balanceFor(host.id), 0);
+
+  assert.equal((await verifyEmail(guest)).status, 200);
+  const qualified = referrals.get(referral.id);
+  assert.equal(qualified.status, 'qualified');
+  assert.equal(qualified.qualifiedBy, 'verified');
+  assert.equal(balanceFor(host.id), RULES.referral.points);
+
+  const summary = await api.request('/api/referrals', { user: host });
+  assert.equal(summary.body.code, code);
+  assert.match(summary.body.link, new RegExp(`\\?ref=${code}$`));
+  assert.deepEqual(summary.body.stats, { total: 1, pending: 0, qualified: 1, rejected: 0, pointsEarned: RULES.referral.points });
+});
+
+test('subscribing qualifies a referral too, and only pays once', async () => {
+  const { user: host, code } = referrer();
+  const { user: guest, referral } = await register('guest_subscribe', { referralCode: code });
+
+  assert.equal((await subscribe(api, guest, { planId: 'premium_monthly' })).status, 200);
+  assert.equal(referrals.get(referral.id).qualifiedBy, 'subscribed');
+  await verifyEmail(guest);
+  assert.equal(balanceFor(host.id), RULES.referral.points);
+});
+
+test('the verification email is the only place the token is kept', async () => {
+  const { user } = await register('guest_token');
+  await sentTo(user.email);
+  const email = notifications.find(n => n.userId === user.id && n.type === 'verify_email');
+  assert.equal(email.token, null);
+  assert.equal(users.get(user.id).emailVerification.token, undefined);
+  assert.ok(users.get(user.id).emailVerification.tokenHash);
+});
+
+test('referring yourself is rejected', async () => {
+  const { user: host, code } = referrer();
+  const { referral: sameEmail } = await register('self_email', { referralCode: code, email: host.email.replace('@', '+alt@') });
+  assert.equal(sameEmail.rejectedReason, 'self_referral');
+
+  const { referral: sameDevice } = await register('self_device', { referralCode: code, deviceId: `device-${host.username}` });
+  assert.equal(sameDevice.rejectedReason, 'self_referral');
+});
+
+test('repeat devices and addresses are rejected', async () => {
+  const { code } = referrer();
+  await register('first_account');
+
+  const { referral: device } = await register('second_device', { referralCode: code, deviceId: 'device-first_account' });
+  assert.equal(device.rejectedReason, 'duplicate_device');
+
+  createUser({ email: 'first.person@gmail.com' });
+  const { referral: email } = await register('firstperson', { referralCode: code, email: 'firstperson+news@gmail.com' });
+  assert.equal(email.rejectedReason, 'duplicate_email');
+});
+
+test('a signup without a device id is not trusted', async () => {
+  const { user: host, code } = referrer();
+  const { user: guest, referral } = await register('no_device', { referralCode: code, deviceId: undefined });
+  assert.equal(referral.status, 'rejected');
+  assert.equal(referral.rejectedReason, 'unknown_device');
+
+  await verifyEmail(guest);
+  assert.equal(balanceFor(host.id), 0);
+});
@@ -0,0 +1,133 @@
+const { createUser, serve, payOrder, subscribe } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const provider = require('../lib/payments');
+const { entitlementFor, findSubscription } = require('../lib/subscriptions');
+const { queueRenewalReminders } = require('../lib/renewals');
+
+const orders = collection('orders');
+const subscriptions = collection('subscriptions');
+const mockSubscriptions = collection('mock_subscriptions');
+const notifications = collection('notifications');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/subscription': require('../routes/subscriptions'),
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function subscribed(planId = 'premium_monthly') {
+  const user = createUser();
+  const verified = await subscribe(api, user, { planId });
+  assert.equal(verified.status, 200);
+  return { user, subscription: subscriptions.get(verified.body.subscriptionId) };
+}
+
+// Makes the mock provider charge the next cycle now
+function chargeNow(subscription) {
+  mockSubscriptions.update(subscription.providerSubscriptionId, { charge_at: Math.floor(Date.now() / 1000) - 1 });
+  return provider.processDueCharges();
+}
+
+test('checkout creates an auto-renewing subscription', async () => {
+  const { user, subscription } = await subscribed();
+  assert.equal(subscription.status, 'active');
+  assert.equal(subscription.autoRenew, true);
+  assert.ok(subscription.providerSubscriptionId);
+  assert.equal(entitlementFor(user.id).tier, 'premium');
+});
+
+test('a renewal extends the term from the end of the paid period', async () => {
+  const { subscription } = await subscribed();
+  assert.equal(await chargeNow(subscription), 1);
+
+  const renewed = subscriptions.get(subscription.id);
+  assert.equal(renewed.status, 'active');
+  assert.equal(renewed.renewals.length, 1);
+  assert.equal(renewed.currentPeriodStart, subscription.endDate);
+  assert.ok(Date.parse(renewed.endDate) > Date.parse(subscription.endDate));
+});
+
+test('a failed renewal keeps access through the grace period, then expires', async t => {
+  process.env.MOCK_RENEWAL_SCENARIO = 'failure';
+  t.after(() => delete process.env.MOCK_RENEWAL_SCENARIO);
+  const { user, subscription } = await subscribed();
+
+  await chargeNow(subscription);
+  const pastDue = subscriptions.get(subscription.id);
+  assert.equal(pastDue.status, 'past_due');
+  assert.equal(pastDue.failedAttempts, 1);
+  assert.ok(pastDue.nextRetryAt);
+  assert.equal(entitlementFor(user.id).tier, 'premium');
+
+  subscriptions.update(subscription.id, { graceUntil: new Date(Date.now() - 1000).toISOString() });
+  assert.equal(findSubscription(s => s.id === subscription.id).status, 'expired');
+  assert.equal(entitlementFor(user.id).tier, 'free');
+});
+
+test('a retried renewal recovers a past-due subscription', async () => {
+  process.env.MOCK_RENEWAL_SCENARIO = 'failure';
+  const { subscription } = await subscribed();
+  await chargeNow(subscription);
+  delete process.env.MOCK_RENEWAL_SCENARIO;
+
+  await chargeNow(subscription);
+  const recovered = subscriptions.get(subscription.id);
+  assert.equal(recovered.status, 'active');
+  assert.equal(recovered.graceUntil, null);
+  assert.equal(recovered.failedAttempts, 0);
+});
+
+test('one reminder is queued a few days before each charge', async () => {
+  const { user, subscription } = await subscribed();
+  const now = Date.parse(subscription.endDate) - 2 * DAY_MS;
+
+  queueRenewalReminders(now);
+  queueRenewalReminders(now);
+  const reminders = notifications.filter(n => n.subscriptionId === subscription.id);
+  assert.equal(reminders.length, 1);
+  assert.equal(reminders[0].type, 'renewal_reminder');
+  assert.equal(reminders[0].userId, user.id);
+  assert.equal(reminders[0].chargeDate, subscription.endDate);
+});
+
+test('the reminder quotes the full price of the plan that will be charged', async () => {
+  const { subscription: discounted } = await subscribed();
+  subscriptions.update(discounted.id, { amount: 9950 });
+  const { subscription: downgrading } = await subscribed('pro_monthly');
+  subscriptions.update(downgrading.id, { scheduledChange: { planId: 'premium_monthly' } });
+
+  queueRenewalReminders(Date.parse(discounted.endDate) - 2 * DAY_MS);
+  const reminderFor = subscription => notifications.find(n => n.subscriptionId === subscription.id);
+  assert.equal(reminderFor(discounted).amount, 19900);
+  assert.equal(reminderFor(downgrading).planName, 'Premium');
+  assert.equal(reminderFor(downgrading).amount, 19900);
+});
+
+test('a one-off order is refused while a subscription is active', async () => {
+  const { user } = await subscribed();
+  const order = await payOrder(api, user, { planId: 'pro_monthly' });
+  assert.equal(order.status, 409);
+  assert.equal((await subscribe(api, user, { planId: 'pro_monthly' })).status, 409);
+  assert.equal(entitlementFor(user.id).tier, 'premium');
+});
+
+test('an order opened before subscribing is refunded when it is paid', async () => {
+  const user = createUser();
+  const order = await api.request('/api/order', { user, body: { planId: 'pro_monthly' } });
+  await subscribe(api, user, { planId: 'premium_monthly' });
+
+  const paid = await api.request(`/api/mock-checkout/${order.body.order_id}/pay`, { user, body: {} });
+  const verified = await api.request('/api/verify', { user, body: paid.body });
+  assert.equal(verified.status, 409);
+  assert.equal(orders.get(order.body.order_id).status, 'rejected');
+  assert.equal(entitlementFor(user.id).tier, 'premium');
+});
@@ -0,0 +1,112 @@
+const { createUser, serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { adjustPoints, balanceFor } = require('../lib/points');
+const { findReward } = require('../lib/rewards');
+const { findPlan } = require('../lib/plans');
+const { activateSubscription, entitlementFor } = require('../lib/subscriptions');
+
+const redemptions = collection('redemptions');
+let api;
+
+before(async () => {
+  api = await serve({ '/api/rewards': require('../routes/rewards') });
+});
+after(() => api.close());
+
+function readerWith(points) {
+  const user = createUser();
+  adjustPoints(user.id, points, { reason: 'welcome_bonus' });
+  return user;
+}
+
+function redeem(user, rewardId) {
+  return api.request(`/api/rewards/${rewardId}/redeem`, { user, body: {} });
+}
+
+test('redeeming debits the points and records the reward', async () => {
+  const book = findReward('book_1');
+  const user = readerWith(book.pointsCost + 1);
+
+  const redeemed = await redeem(user, book.id);
+  assert.equal(redeemed.status, 201);
+  assert.equal(redeemed.body.balance, 1);
+  assert.equal(redeemed.body.redemption.bookId, book.bookId);
+  assert.equal(balanceFor(user.id), 1);
+
+  const history = await api.request('/api/rewards/redemptions', { user });
+  assert.deepEqual(history.body.redemptions.map(r => r.rewardId), [book.id]);
+  const catalog = await api.request('/api/rewards', { user });
+  assert.equal(catalog.body.rewards.find(r => r.id === book.id).redeemedByYou, 1);
+});
+
+test('a reward costs points the reader has, within the per-reader limit', async () => {
+  const book = findReward('book_1');
+  const poor = readerWith(book.pointsCost - 1);
+  const refused = await redeem(poor, book.id);
+  assert.equal(refused.status, 409);
+  assert.equal(balanceFor(poor.id), book.pointsCost - 1);
+
+  const rich = readerWith(book.pointsCost * 2);
+  await redeem(rich, book.id);
+  assert.equal((await redeem(rich, book.id)).status, 409);
+  assert.equal(balanceFor(rich.id), book.pointsCost);
+  assert.equal((await redeem(rich, 'no_such_reward')).status, 404);
+});
+
+test('concurrent redemptions cannot spend the same points twice', async () => {
+  const voucher = findReward('appointment_25');
+  const user = readerWith(voucher.pointsCost * 2);
+
+  const results = await Promise.all([1, 2, 3].map(() => redeem(user, voucher.id)));
+  assert.deepEqual(results.map(r => r.status).sort(), [201, 201, 409]);
+  assert.equal(balanceFor(user.id), 0);
+});
+
+test('a reward stops selling when its stock runs out', async () => {
+  const voucher = findReward('appointment_50');
+  for (let i = redemptions.filter(r => r.rewardId === voucher.id).length; i < voucher.stock; i++) {
+    redemptions.insert({ id: `rdm_stock_${i}`, userId: 'usr_someone', rewardId: voucher.id, createdAt: new Date().toISOString() });
+  }
+  const user = readerWith(voucher.pointsCost);
+
+  const refused = await redeem(user, voucher.id);
+  assert.equal(refused.status, 409);
+  assert.equal(refused.body.error, 'This reward is out of stock');
+  assert.equal(balanceFor(user.id), voucher.pointsCost);
+});
+
+test('a month of Premium grants the tier, but not on top of a subscription', async () => {
+  const month = findReward('premium_month');
+  const user = readerWith(month.pointsCost * 2);
+
+  const redeemed = await redeem(user, month.id);
+  assert.equal(redeemed.status, 201);
+  assert.equal(entitlementFor(user.id).tier, 'premium');
+  assert.equal(entitlementFor(user.id).subscription.paymentMethod, 'points');
+
+  const subscriber = readerWith(month.pointsCost);
+  activateSubscription({
+    userId: subscriber.id,
+    plan: findPlan('pro_monthly'),
+    order: { id: 'order_subscriber', provider: 'mock' },
+    payment: { id: 'pay_subscriber', amount: 49900, currency: 'INR' }
+  });
+  const stacked = await redeem(subscriber, month.id);
+  assert.equal(stacked.status, 409);
+  assert.equal(balanceFor(subscriber.id), month.pointsCost + findPlan('pro_monthly').bonusPoints);
+});
+
+test('an appointment voucher can be used once', async () => {
+  const user = readerWith(findReward('appointment_25').pointsCost);
+  const { body } = await redeem(user, 'appointment_25');
+  assert.match(body.redemption.code, /^APPT-/);
+
+  const used = await api.request('/api/rewards/vouchers/use', { user, body: { code: body.redemption.code.toLowerCase() } });
+  assert.equal(used.status, 200);
+  assert.equal(used.body.discountPercent, 25);
+  assert.equal((await api.request('/api/rewards/vouchers/use', { user, body: { code: body.redemption.code } })).status, 409);
+  assert.equal((await api.request('/api/rewards/vouchers/use', { user: createUser(), body: { code: body.redemption.code } })).status, 404);
+});
@@ -0,0 +1,112 @@
+const { createUser, serve, payOrder } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { entitlementFor } = require('../lib/subscriptions');
+
+const subscriptions = collection('subscriptions');
+const users = collection('users');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/seats': require('../routes/seats'),
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+async function familyOwner() {
+  const owner = createUser();
+  const verified = await payOrder(api, owner, { planId: 'family_monthly' });
+  assert.equal(verified.status, 200);
+  return { owner, subscriptionId: verified.body.subscriptionId };
+}
+
+function invite(owner, member) {
+  return api.request('/api/seats', { user: owner, body: { member } });
+}
+
+test('a member invited by username shares the owner\'s tier', async () => {
+  const { owner } = await familyOwner();
+  const member = createUser();
+
+  const invited = await invite(owner, `@${member.username}`);
+  assert.equal(invited.status, 201);
+  assert.equal(invited.body.seat.status, 'active');
+  assert.equal(invited.body.usage.used, 2);
+
+  const entitlement = entitlementFor(member.id);
+  assert.equal(entitlement.tier, 'premium');
+  assert.equal(entitlement.seat.ownerId, owner.id);
+});
+
+test('an email invitation is claimed once the address is verified', async () => {
+  const { owner } = await familyOwner();
+  const invited = await invite(owner, 'Newcomer@Example.com');
+  assert.equal(invited.body.seat.status, 'invited');
+
+  const member = createUser({ email: 'newcomer@example.com', emailVerified: false });
+  assert.equal(entitlementFor(member.id).tier, 'free');
+
+  users.update(member.id, { emailVerified: true });
+  assert.equal(entitlementFor(member.id).tier, 'premium');
+  assert.equal(entitlementFor(member.id).seat.id, invited.body.seat.id);
+});
+
+test('an unverified account with the invited address is not given the seat', async () => {
+  const { owner } = await familyOwner();
+  const squatter = createUser({ email: 'squatter@example.com', emailVerified: false });
+
+  const invited = await invite(owner, 'squatter@example.com');
+  assert.equal(invited.body.seat.status, 'invited');
+  assert.equal(invited.body.seat.username, null);
+  assert.equal(entitlementFor(squatter.id).tier, 'free');
+});
+
+test('invitations stop at the plan\'s seat limit', async () => {
+  const { owner } = await familyOwner();
+  for (let i = 0; i < 4; i++) {
+    assert.equal((await invite(owner, `member${i}@example.com`)).status, 201);
+  }
+  assert.equal((await invite(owner, 'member0@example.com')).status, 409);
+  assert.equal((await invite(owner, 'one-too-many@example.com')).status, 409);
+  assert.equal((await invite(owner, owner.email)).status, 400);
+});
+
+test('a revoked member loses access; members can leave on their own', async () => {
+  const { owner } = await familyOwner();
+  const first = createUser();
+  const second = createUser();
+  const { body: { seat } } = await invite(owner, first.username);
+  const { body: { seat: other } } = await invite(owner, second.username);
+
+  assert.equal((await api.request(`/api/seats/${seat.id}`, { user: createUser(), method: 'DELETE' })).status, 404);
+  assert.equal((await api.request(`/api/seats/${seat.id}`, { user: owner, method: 'DELETE' })).status, 200);
+  assert.equal(entitlementFor(first.id).tier, 'free');
+
+  assert.equal((await api.request(`/api/seats/${other.id}`, { user: second, method: 'DELETE' })).status, 200);
+  assert.equal(entitlementFor(second.id).tier, 'free');
+});
+
+test('a seat on a lapsed plan does not hide one that is still covered', async () => {
+  const lapsed = await familyOwner();
+  const active = await familyOwner();
+  const member = createUser();
+  await invite(lapsed.owner, member.username);
+  await invite(active.owner, member.username);
+
+  subscriptions.update(lapsed.subscriptionId, { endDate: new Date(Date.now() - 1000).toISOString() });
+  const entitlement = entitlementFor(member.id);
+  assert.equal(entitlement.tier, 'premium');
+  assert.equal(entitlement.seat.ownerId, active.owner.id);
+});
+
+test('single-person plans have no seats to manage', async () => {
+  const owner = createUser();
+  await payOrder(api, owner, { planId: 'premium_monthly' });
+  assert.equal((await api.request('/api/seats', { user: owner })).status, 404);
+  assert.equal((await invite(owner, 'friend@example.com')).status, 404);
+});
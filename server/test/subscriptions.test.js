@@ -0,0 +1,81 @@
+const { createUser, serve, payOrder } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const { findPlan } = require('../lib/plans');
+const { addInterval, activateSubscription, entitlementFor } = require('../lib/subscriptions');
+const { balanceFor } = require('../lib/points');
+
+const subscriptions = collection('subscriptions');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/subscription': require('../routes/subscriptions'),
+    '/api/mock-checkout': require('../routes/mockCheckout'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test('addInterval moves a date on by a month or a year', () => {
+  const start = new Date('2026-01-15T10:00:00Z');
+  assert.equal(addInterval(start, 'month').toISOString(), '2026-02-15T10:00:00.000Z');
+  assert.equal(addInterval(start, 'year').toISOString(), '2027-01-15T10:00:00.000Z');
+});
+
+test('a new reader has no subscription', async () => {
+  const response = await api.request('/api/subscription', { user: createUser() });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.tier, 'free');
+  assert.equal(response.body.status, 'none');
+  assert.deepEqual(response.body.history, []);
+});
+
+test('a paid order is stored as a subscription and grants its tier', async () => {
+  const user = createUser();
+  const verified = await payOrder(api, user, { planId: 'pro_monthly' });
+  assert.equal(verified.status, 200);
+  assert.equal(verified.body.entitlement.tier, 'pro');
+
+  const stored = subscriptions.get(verified.body.subscriptionId);
+  assert.equal(stored.userId, user.id);
+  assert.equal(stored.status, 'active');
+  assert.equal(stored.amount, findPlan('pro_monthly').amount);
+
+  const response = await api.request('/api/subscription', { user });
+  assert.equal(response.body.tier, 'pro');
+  assert.equal(response.body.subscription.id, stored.id);
+  assert.equal(balanceFor(user.id), findPlan('pro_monthly').bonusPoints);
+});
+
+test('a term that has ended without renewing expires when it is read', () => {
+  const user = createUser();
+  const subscription = activateSubscription({
+    userId: user.id,
+    plan: findPlan('premium_monthly'),
+    order: { id: 'order_expired', provider: 'mock' },
+    payment: { id: 'pay_expired', amount: 19900, currency: 'INR' }
+  });
+  assert.equal(entitlementFor(user.id).tier, 'premium');
+
+  subscriptions.update(subscription.id, { endDate: new Date(Date.now() - DAY_MS).toISOString() });
+  const entitlement = entitlementFor(user.id);
+  assert.equal(entitlement.tier, 'free');
+  assert.equal(entitlement.status, 'expired');
+  assert.equal(entitlement.history.length, 1);
+});
+
+test('another reader cannot verify my order', async () => {
+  const owner = createUser();
+  const order = await api.request('/api/order', { user: owner, body: { planId: 'premium_monthly' } });
+  const paid = await api.request(`/api/mock-checkout/${order.body.order_id}/pay`, { user: owner, body: {} });
+
+  const stolen = await api.request('/api/verify', { user: createUser(), body: paid.body });
+  assert.equal(stolen.status, 404);
+  const forged = await api.request('/api/verify', { user: owner, body: { ...paid.body, razorpay_signature: 'forged' } });
+  assert.equal(forged.status, 400);
+});
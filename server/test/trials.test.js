@@ -0,0 +1,102 @@
+const { createUser, serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { collection } = require('../db');
+const provider = require('../lib/payments');
+const { entitlementFor, findSubscription, hasUsedTrial } = require('../lib/subscriptions');
+
+const subscriptions = collection('subscriptions');
+const mockSubscriptions = collection('mock_subscriptions');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/subscription': require('../routes/subscriptions'),
+    '/api/mock-checkout': require('../routes/mockCheckout')
+  });
+});
+after(() => api.close());
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function openTrial(user, planId = 'premium_monthly') {
+  return api.request('/api/subscription/trial', { user, body: { planId } });
+}
+
+async function startTrial(user, planId) {
+  const checkout = await openTrial(user, planId);
+  const paid = await api.request(`/api/mock-checkout/${checkout.body.subscription_id}/pay`, { user, body: {} });
+  const verified = await api.request('/api/subscription/verify', { user, body: paid.body });
+  assert.equal(verified.status, 200);
+  return subscriptions.get(verified.body.subscriptionId);
+}
+
+function endTrialNow(trial) {
+  mockSubscriptions.update(trial.providerSubscriptionId, { charge_at: Math.floor(Date.now() / 1000) - 1 });
+  return provider.processDueCharges();
+}
+
+test('a trial grants the plan for its trial days without a charge', async () => {
+  const user = createUser();
+  const trial = await startTrial(user, 'pro_monthly');
+  assert.equal(trial.status, 'trialing');
+  assert.equal(trial.razorpayPaymentId, undefined);
+  assert.equal(Math.round((Date.parse(trial.endDate) - Date.parse(trial.trialStartedAt)) / DAY_MS), 14);
+  assert.equal(entitlementFor(user.id).tier, 'pro');
+});
+
+test('each account gets one trial', async () => {
+  const user = createUser();
+  const trial = await startTrial(user);
+  await api.request('/api/subscription/cancel', { user, body: {} });
+  subscriptions.update(trial.id, { endDate: new Date(Date.now() - 1000).toISOString() });
+
+  const again = await openTrial(user, 'pro_monthly');
+  assert.equal(again.status, 409);
+  assert.equal(again.body.error, 'Trial already used');
+});
+
+test('an open trial checkout blocks a second one until it is abandoned', async () => {
+  const user = createUser();
+  const first = await openTrial(user);
+  assert.equal(first.status, 200);
+  assert.equal((await openTrial(user)).status, 409);
+
+  assert.equal(hasUsedTrial(user.id, { now: Date.now() + 60 * 60 * 1000 }), false);
+});
+
+test('plans without a trial cannot be trialled', async () => {
+  assert.equal((await openTrial(createUser(), 'family_monthly')).status, 400);
+});
+
+test('the first charge at the end of the trial converts it', async () => {
+  const user = createUser();
+  const trial = await startTrial(user);
+
+  await endTrialNow(trial);
+  const converted = subscriptions.get(trial.id);
+  assert.equal(converted.status, 'active');
+  assert.ok(converted.razorpayPaymentId);
+  assert.equal(entitlementFor(user.id).tier, 'premium');
+});
+
+test('a trial whose first charge fails lapses to free', async t => {
+  process.env.MOCK_RENEWAL_SCENARIO = 'failure';
+  t.after(() => delete process.env.MOCK_RENEWAL_SCENARIO);
+  const user = createUser();
+  const trial = await startTrial(user);
+
+  await endTrialNow(trial);
+  assert.equal(subscriptions.get(trial.id).status, 'expired');
+  assert.equal(entitlementFor(user.id).tier, 'free');
+});
+
+test('a trial with no charge a day after it ended lapses when read', async () => {
+  const user = createUser();
+  const trial = await startTrial(user);
+
+  subscriptions.update(trial.id, { endDate: new Date(Date.now() - 2 * DAY_MS).toISOString() });
+  assert.equal(findSubscription(s => s.id === trial.id).status, 'expired');
+  assert.equal(entitlementFor(user.id).tier, 'free');
+});
@@ -0,0 +1,110 @@
+const { createUser, serve } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+process.env.RAZORPAY_WEBHOOK_SECRET = 'webhook-secret';
+
+const { collection } = require('../db');
+
+const orders = collection('orders');
+const subscriptions = collection('subscriptions');
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'webhooks');
+let api;
+
+before(async () => {
+  api = await serve({
+    '/api/webhooks': require('../routes/webhooks'),
+    '/api': require('../routes/payments')
+  });
+});
+after(() => api.close());
+
+// A fixture with its {{placeholders}} filled in, as scripts/replay-webhooks.js sends it
+function fixture(name, vars) {
+  return fs.readFileSync(path.join(FIXTURE_DIR, `${name}.json`), 'utf8')
+    .replace(/"\{\{(\w+)\}\}"/g, (match, key) => JSON.stringify(vars[key]));
+}
+
+function deliver(body, { eventId, secret = process.env.RAZORPAY_WEBHOOK_SECRET } = {}) {
+  return api.request('/api/webhooks/razorpay', {
+    body,
+    headers: {
+      'X-Razorpay-Signature': crypto.createHmac('sha256', secret).update(body).digest('hex'),
+      ...(eventId ? { 'X-Razorpay-Event-Id': eventId } : {})
+    }
+  });
+}
+
+async function createOrder(user) {
+  const response = await api.request('/api/order', { user, body: { planId: 'premium_monthly' } });
+  return orders.get(response.body.order_id);
+}
+
+test('events with a bad signature are refused', async () => {
+  const body = fixture('payment.captured', { paymentId: 'pay_forged', orderId: 'order_forged', amount: 19900 });
+  const response = await deliver(body, { secret: 'someone-else' });
+  assert.equal(response.status, 400);
+});
+
+test('payment.captured fulfils the order once, however often it is delivered', async () => {
+  const user = createUser();
+  const order = await createOrder(user);
+  const body = fixture('payment.captured', { paymentId: 'pay_captured', orderId: order.id, amount: order.amount });
+
+  const first = await deliver(body, { eventId: 'evt_captured' });
+  assert.equal(first.status, 200);
+  assert.equal(orders.get(order.id).status, 'paid');
+  assert.equal(subscriptions.filter(s => s.userId === user.id).length, 1);
+
+  const again = await deliver(body, { eventId: 'evt_captured' });
+  assert.equal(again.body.duplicate, true);
+  const redelivered = await deliver(body, { eventId: 'evt_captured_retry' });
+  assert.equal(redelivered.status, 200);
+  assert.equal(subscriptions.filter(s => s.userId === user.id).length, 1);
+});
+
+test('a captured amount that does not match the order is ignored', async () => {
+  const user = createUser();
+  const order = await createOrder(user);
+  const body = fixture('payment.captured', { paymentId: 'pay_short', orderId: order.id, amount: 100 });
+
+  const response = await deliver(body);
+  assert.match(response.body.result.ignored, /amount/);
+  assert.equal(orders.get(order.id).status, 'created');
+});
+
+test('payment.failed marks an open order failed but leaves a paid one alone', async () => {
+  const user = createUser();
+  const open = await createOrder(user);
+  await deliver(fixture('payment.failed', { paymentId: 'pay_declined', orderId: open.id, amount: open.amount }));
+  assert.equal(orders.get(open.id).status, 'failed');
+
+  const other = createUser();
+  const paid = await createOrder(other);
+  await deliver(fixture('payment.captured', { paymentId: 'pay_ok', orderId: paid.id, amount: paid.amount }));
+  await deliver(fixture('payment.failed', { paymentId: 'pay_late_failure', orderId: paid.id, amount: paid.amount }));
+  assert.equal(orders.get(paid.id).status, 'paid');
+});
+
+test('unknown events are acknowledged and ignored', async () => {
+  const response = await deliver(JSON.stringify({ event: 'invoice.paid', payload: {} }));
+  assert.equal(response.status, 200);
+  assert.match(response.body.result.ignored, /unhandled/);
+});
+
+test('a charged event without a payment does not activate a subscription', async () => {
+  const user = createUser();
+  const pending = subscriptions.insert({ id: 'sub_unpaid', userId: user.id, planId: 'premium_monthly', status: 'pending', providerSubscriptionId: 'sub_provider_unpaid' });
+  const event = JSON.parse(fixture('subscription.charged', {
+    providerSubscriptionId: 'sub_provider_unpaid', providerPlanId: 'plan_premium', currentStart: 1760000000, currentEnd: 1900000000, paymentId: 'pay_none', amount: 0
+  }));
+  delete event.payload.payment;
+
+  const response = await deliver(JSON.stringify(event));
+  assert.equal(response.status, 200);
+  assert.match(response.body.result.ignored, /without a payment/);
+  assert.equal(subscriptions.get(pending.id).status, 'pending');
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import Header from './components/Header';
 import Footer from './components/Footer';
@@ -12,18 +12,33 @@ import FullArticle from './components/FullArticle';
 import Chatbot from './components/Chatbot';
 import VoiceReader from './components/VoiceReader';
 import AddNewsModal from './components/AddNewsModal';
-import { NewsProvider } from './context/NewsContext';
+import { NewsProvider, Article } from './context/NewsContext';
 import { LanguageProvider } from './context/LanguageContext';
 import { AuthProvider } from './context/AuthContext';
 import { SubscriptionProvider } from './context/SubscriptionContext';
 import SubscriptionPage from './pages/SubscriptionPage';
 import SubscriptionSuccess from './pages/SubscriptionSuccess';
+import RedeemGiftPage from './pages/RedeemGiftPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
 import MyPosts from './pages/MyPosts';
+import { apiRequest } from './services/apiClient';
 
 function App() {
   const [selectedArticle, setSelectedArticle] = useState<any>(null);
   const [showFullArticle, setShowFullArticle] = useState(false);
 
+  // Links from the published feeds point at /?article=<id>
+  useEffect(() => {
+    const articleId = new URLSearchParams(window.location.search).get('article');
+    if (!articleId) return;
+    apiRequest<Article>(`/api/articles/${encodeURIComponent(articleId)}`)
+      .then(article => {
+        setSelectedArticle(article);
+        setShowFullArticle(true);
+      })
+      .catch(error => console.error('Failed to open linked article:', error));
+  }, []);
+
   return (
     <AuthProvider>
       <SubscriptionProvider>
@@ -83,7 +98,9 @@ function App() {
                     />
                     <Route path="/subscription" element={<SubscriptionPage />} />
                     <Route path="/subscription/success" element={<SubscriptionSuccess />} />
+                    <Route path="/subscription/redeem" element={<RedeemGiftPage />} />
                     <Route path="/my-posts" element={<MyPosts />} />
+                    <Route path="/verify-email" element={<VerifyEmailPage />} />
                   </Routes>
                 </main>
 
@@ -1,6 +1,8 @@
 import React from 'react';
-import { Clock, User, Tag, Crown, Volume2 } from 'lucide-react';
+import { Clock, User, Tag, Crown, Volume2, Layers } from 'lucide-react';
 import { useLanguage } from '../context/LanguageContext';
+import type { StoryCoverage } from '../context/NewsContext';
+import Highlight from './Highlight';
 
 interface Article {
   id: string;
@@ -8,11 +10,12 @@ interface Article {
   summary: string;
   imageUrl: string;
   author: string;
-  publishedAt: Date;
-  readTime: number;
+  publishedAt: string | Date;
+  readTime?: number;
   source: string;
-  isPremium: boolean;
+  isPremium?: boolean;
   tags: string[];
+  coverage?: StoryCoverage;
 }
 
 interface ArticleCardProps {
@@ -20,13 +23,17 @@ interface ArticleCardProps {
   onClick: () => void;
   compact?: boolean;
   showFullDetails?: boolean;
+  highlightTerms?: string[];   // search terms to mark in the title and summary
+  excerpt?: string;            // shown instead of the summary, e.g. a search snippet
 }
 
 const ArticleCard: React.FC<ArticleCardProps> = ({ 
   article, 
   onClick, 
   compact = false, 
-  showFullDetails = false 
+  showFullDetails = false,
+  highlightTerms,
+  excerpt
 }) => {
   const { translations } = useLanguage();
 
@@ -60,9 +67,15 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
                 </div>
               )}
               <span className="text-xs bbc-text font-medium bbc-accent">{article.source}</span>
+              {article.coverage && (
+                <span className="flex items-center text-xs bbc-article-meta" title={`${article.coverage.sources} sources are covering this`}>
+                  <Layers className="w-3 h-3 mr-1" />
+                  {article.coverage.sources}
+                </span>
+              )}
             </div>
             <h3 className="font-semibold bbc-article-title group-hover:text-red-600 bbc-transition line-clamp-2 text-sm">
-              {article.title}
+              <Highlight text={article.title} terms={highlightTerms} />
             </h3>
             <div className="flex items-center text-xs bbc-article-meta mt-2 space-x-3">
               <span className="flex items-center">
@@ -121,17 +134,23 @@ const ArticleCard: React.FC<ArticleCardProps> = ({
           <span className="bbc-category-badge">
             {article.source}
           </span>
-          <span className="text-xs bbc-article-meta">
-            {new Date(article.publishedAt).toLocaleDateString()}
+          <span className="flex items-center space-x-3 text-xs bbc-article-meta">
+            {article.coverage && (
+              <span className="flex items-center">
+                <Layers className="w-3 h-3 mr-1" />
+                {article.coverage.sources} sources
+              </span>
+            )}
+            <span>{new Date(article.publishedAt).toLocaleDateString()}</span>
           </span>
         </div>
 
         <h2 className="text-lg font-bold bbc-article-title mb-3 group-hover:text-red-600 bbc-transition line-clamp-2">
-          {article.title}
+          <Highlight text={article.title} terms={highlightTerms} />
         </h2>
 
         <p className="bbc-article-summary text-sm mb-4 line-clamp-3">
-          {article.summary}
+          <Highlight text={excerpt ?? article.summary} terms={highlightTerms} />
         </p>
 
         {showFullDetails && (
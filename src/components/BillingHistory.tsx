@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText } from 'lucide-react';
+import {
+  BillingProfile,
+  GstState,
+  InvoiceSummary,
+  downloadInvoice,
+  getBillingProfile,
+  listInvoices,
+  saveBillingProfile
+} from '../services/billingService';
+
+function formatRupees(paise: number) {
+  return `₹${(paise / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Billing tab of the dashboard: GST details for future invoices and the invoice history
+const BillingHistory: React.FC = () => {
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [states, setStates] = useState<GstState[]>([]);
+  const [profile, setProfile] = useState<BillingProfile>({});
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getBillingProfile()
+      .then(res => {
+        setProfile(res.billing);
+        setStates(res.states);
+      })
+      .catch(err => console.error('Failed to load billing details:', err));
+    listInvoices()
+      .then(setInvoices)
+      .catch(err => console.error('Failed to load invoices:', err));
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      setProfile(await saveBillingProfile({
+        legalName: profile.legalName?.trim() || null,
+        gstin: profile.gstin?.trim() || null,
+        stateCode: profile.stateCode || null,
+        address: profile.address?.trim() || null
+      }));
+      setMessage('Saved. New invoices will use these details.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save billing details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownload = async (invoice: InvoiceSummary, format: 'pdf' | 'json') => {
+    try {
+      await downloadInvoice(invoice, format);
+    } catch (err) {
+      console.error('Invoice download failed:', err);
+      alert('Could not download this invoice. Please try again.');
+    }
+  };
+
+  // A GSTIN fixes the state: its first two digits are the state code
+  const gstinState = profile.gstin?.trim().slice(0, 2) || '';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Billing details</h3>
+        <p className="text-sm text-gray-600 mb-6">
+          Add your GSTIN to claim input tax credit. Invoices already issued are not changed.
+        </p>
+        <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Legal name</label>
+            <input
+              type="text"
+              value={profile.legalName || ''}
+              onChange={(e) => setProfile({ ...profile, legalName: e.target.value })}
+              placeholder="Name or business name on the invoice"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">GSTIN (optional)</label>
+            <input
+              type="text"
+              value={profile.gstin || ''}
+              onChange={(e) => setProfile({ ...profile, gstin: e.target.value.toUpperCase() })}
+              placeholder="e.g. 29ABCDE1234F1Z5"
+              maxLength={15}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">State</label>
+            <select
+              value={gstinState || profile.stateCode || ''}
+              onChange={(e) => setProfile({ ...profile, stateCode: e.target.value })}
+              disabled={!!gstinState}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent disabled:bg-gray-100"
+            >
+              <option value="">Select your state</option>
+              {states.map(state => (
+                <option key={state.code} value={state.code}>{state.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Billing address</label>
+            <input
+              type="text"
+              value={profile.address || ''}
+              onChange={(e) => setProfile({ ...profile, address: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+          <div className="md:col-span-2 flex items-center space-x-4">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-lg font-medium disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save details'}
+            </button>
+            {message && <p className="text-sm text-green-700">{message}</p>}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Invoices</h3>
+        {invoices.length === 0 ? (
+          <p className="text-sm text-gray-600">No invoices yet. One is issued for every payment you make.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Invoice</th>
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Description</th>
+                  <th className="py-2 pr-4 font-medium text-right">GST</th>
+                  <th className="py-2 pr-4 font-medium text-right">Total</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {invoices.map(invoice => (
+                  <tr key={invoice.id}>
+                    <td className="py-3 pr-4 font-mono text-gray-900">{invoice.number}</td>
+                    <td className="py-3 pr-4 text-gray-600">{new Date(invoice.issuedAt).toLocaleDateString()}</td>
+                    <td className="py-3 pr-4 text-gray-900">{invoice.description}</td>
+                    <td className="py-3 pr-4 text-right text-gray-600">{formatRupees(invoice.totalTax)}</td>
+                    <td className="py-3 pr-4 text-right font-medium text-gray-900">{formatRupees(invoice.total)}</td>
+                    <td className="py-3">
+                      <div className="flex justify-end space-x-3">
+                        <button
+                          onClick={() => handleDownload(invoice, 'pdf')}
+                          className="inline-flex items-center text-red-600 hover:text-red-700 font-medium"
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          PDF
+                        </button>
+                        <button
+                          onClick={() => handleDownload(invoice, 'json')}
+                          className="inline-flex items-center text-gray-600 hover:text-gray-800 font-medium"
+                        >
+                          <FileText className="w-4 h-4 mr-1" />
+                          JSON
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BillingHistory;
@@ -1,14 +1,17 @@
 import React from 'react';
 import { Clock, User, Crown, Volume2 } from 'lucide-react';
 import { useLanguage } from '../context/LanguageContext';
+import Highlight from './Highlight';
 
 interface FeaturedArticleProps {
   article: any;
   onClick: () => void;
   size: 'large' | 'small';
+  highlightTerms?: string[];   // search terms to mark in the title and summary
+  excerpt?: string;            // shown instead of the summary, e.g. a search snippet
 }
 
-const FeaturedArticle: React.FC<FeaturedArticleProps> = ({ article, onClick, size }) => {
+const FeaturedArticle: React.FC<FeaturedArticleProps> = ({ article, onClick, size, highlightTerms, excerpt }) => {
   const { translations } = useLanguage();
 
   const handleVoiceRead = (e: React.MouseEvent) => {
@@ -46,7 +49,7 @@ const FeaturedArticle: React.FC<FeaturedArticleProps> = ({ article, onClick, siz
         
         <div className="p-4">
           <h3 className="font-bold bbc-article-title group-hover:text-red-600 bbc-transition line-clamp-2 text-sm">
-            {article.title}
+            <Highlight text={article.title} terms={highlightTerms} />
           </h3>
           <div className="flex items-center text-xs bbc-article-meta mt-2">
             <Clock className="w-3 h-3 mr-1" />
@@ -93,11 +96,11 @@ const FeaturedArticle: React.FC<FeaturedArticleProps> = ({ article, onClick, siz
         </div>
 
         <h2 className="text-xl font-bold bbc-article-title mb-4 group-hover:text-red-600 bbc-transition">
-          {article.title}
+          <Highlight text={article.title} terms={highlightTerms} />
         </h2>
 
         <p className="bbc-article-summary mb-4 line-clamp-3">
-          {article.summary}
+          <Highlight text={excerpt ?? article.summary} terms={highlightTerms} />
         </p>
 
         <div className="flex items-center justify-between">
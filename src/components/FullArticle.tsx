@@ -1,6 +1,10 @@
 import React from 'react';
-import { X, Clock, User, Tag, Share2, Crown, Volume2, Play, Pause } from 'lucide-react';
+import { X, Clock, User, Tag, Share2, Crown, Volume2, Play, Pause, Layers, ExternalLink, Heart } from 'lucide-react';
 import { useLanguage } from '../context/LanguageContext';
+import { useAuth } from '../context/AuthContext';
+import { finishReading, recordLike, startReading } from '../services/pointsService';
+import { ApiError } from '../services/apiClient';
+import type { StoryCoverage } from '../context/NewsContext';
 
 interface FullArticleProps {
   article: any;
@@ -9,7 +13,59 @@ interface FullArticleProps {
 
 const FullArticle: React.FC<FullArticleProps> = ({ article, onClose }) => {
   const { translations } = useLanguage();
+  const { isAuthenticated, refreshUser } = useAuth();
   const [isReading, setIsReading] = React.useState(false);
+  // 'done' once the read has been counted (or can no longer be)
+  const readState = React.useRef<'idle' | 'pending' | 'done'>('idle');
+  const [liked, setLiked] = React.useState(false);
+
+  // Reading points: the server starts timing when the article opens and
+  // credits the read when the reader reaches the end, listens to it all or
+  // closes it after long enough
+  React.useEffect(() => {
+    if (!isAuthenticated || !article.id) return;
+    readState.current = 'idle';
+    startReading(String(article.id)).catch(err => console.error('Start reading failed:', err));
+  }, [article.id, isAuthenticated]);
+
+  const handleFinished = React.useCallback(() => {
+    if (!isAuthenticated || !article.id || readState.current !== 'idle') return;
+    readState.current = 'pending';
+    finishReading(String(article.id))
+      .then(res => {
+        // Too soon: the next scroll to the end (or closing) tries again
+        readState.current = res.skipped === 'too_fast' ? 'idle' : 'done';
+        if (res.awarded) refreshUser();
+      })
+      .catch(err => {
+        readState.current = 'done';
+        console.error('Finish reading failed:', err);
+      });
+  }, [article.id, isAuthenticated, refreshUser]);
+
+  const handleClose = () => {
+    handleFinished();
+    onClose();
+  };
+
+  const handleContentScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    if (el.scrollTop + el.clientHeight >= el.scrollHeight - 40) handleFinished();
+  };
+
+  React.useEffect(() => setLiked(false), [article.id]);
+
+  // A like earns the article's author points; the server allows one per reader
+  const handleLike = () => {
+    if (!isAuthenticated || !article.id || liked) return;
+    setLiked(true);
+    recordLike(String(article.id)).catch(err => {
+      if (!(err instanceof ApiError && err.status === 409)) {
+        setLiked(false);
+        console.error('Like not recorded:', err);
+      }
+    });
+  };
 
   const handleVoiceRead = () => {
     if (isReading) {
@@ -45,6 +101,11 @@ const FullArticle: React.FC<FullArticleProps> = ({ article, onClose }) => {
     }
   };
 
+  React.useEffect(() => {
+    window.addEventListener('voiceReadingEnded', handleFinished);
+    return () => window.removeEventListener('voiceReadingEnded', handleFinished);
+  }, [handleFinished]);
+
   React.useEffect(() => {
     const handleVoiceEnd = () => setIsReading(false);
     const handleVoiceStop = () => setIsReading(false);
@@ -85,6 +146,17 @@ const FullArticle: React.FC<FullArticleProps> = ({ article, onClose }) => {
                 <span>{isReading ? 'Stop' : translations.listen}</span>
               </button>
               
+              {isAuthenticated && (
+                <button
+                  onClick={handleLike}
+                  disabled={liked}
+                  className={`bbc-button flex items-center space-x-2 px-6 py-3 bbc-transition ${liked ? 'text-red-600' : ''}`}
+                >
+                  <Heart className={`w-4 h-4 ${liked ? 'fill-current' : ''}`} />
+                  <span>{liked ? 'Liked' : 'Like'}</span>
+                </button>
+              )}
+
               <button
                 onClick={handleShare}
                 className="bbc-button flex items-center space-x-2 px-6 py-3 bbc-transition"
@@ -94,7 +166,7 @@ const FullArticle: React.FC<FullArticleProps> = ({ article, onClose }) => {
               </button>
               
               <button
-                onClick={onClose}
+                onClick={handleClose}
                 className="bbc-button p-3 bbc-transition"
               >
                 <X className="w-5 h-5" />
@@ -103,7 +175,7 @@ const FullArticle: React.FC<FullArticleProps> = ({ article, onClose }) => {
           </div>
 
           {/* Article Content */}
-          <div className="overflow-y-auto max-h-[calc(100vh-200px)]">
+          <div className="overflow-y-auto max-h-[calc(100vh-200px)]" onScroll={handleContentScroll}>
             <div className="p-8">
               <div className="mb-6">
                 <h1 className="text-4xl md:text-5xl font-bold bbc-heading mb-6 leading-tight">
@@ -150,6 +222,35 @@ const FullArticle: React.FC<FullArticleProps> = ({ article, onClose }) => {
                   ))}
                 </div>
               </div>
+
+              {article.coverage && (
+                <div className="mt-10 p-6 bg-gray-50 border border-gray-200">
+                  <h2 className="flex items-center text-lg font-bold bbc-heading mb-4">
+                    <Layers className="w-5 h-5 mr-2" />
+                    {article.coverage.sources} sources are covering this
+                  </h2>
+                  <ul className="space-y-3">
+                    {(article.coverage as StoryCoverage).alternates.map(alternate => (
+                      <li key={alternate.id} className="text-sm">
+                        <span className="font-medium bbc-accent mr-2">{alternate.source}</span>
+                        {alternate.sourceUrl ? (
+                          <a
+                            href={alternate.sourceUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="bbc-text hover:text-red-600 inline-flex items-center"
+                          >
+                            {alternate.title}
+                            <ExternalLink className="w-3 h-3 ml-1 flex-shrink-0" />
+                          </a>
+                        ) : (
+                          <span className="bbc-text">{alternate.title}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -4,12 +4,15 @@ import { Search, Menu, X, Clock, Radio, Zap, Users, Tv, User, LogOut, MessageSqu
 import { useLanguage } from '../context/LanguageContext';
 import { useNews } from '../context/NewsContext';
 import { useAuth } from '../context/AuthContext';
+import { useSubscription } from '../context/SubscriptionContext';
 import LoginModal from './LoginModal';
 import MyNewsModal from './MyNewsModal';
+import { parseQuery, QuerySyntaxError } from '../utils/searchQuery';
 
 const Header = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchError, setSearchError] = useState<string | null>(null);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showMyNewsModal, setShowMyNewsModal] = useState(false);
@@ -18,6 +21,7 @@ const Header = () => {
   const { currentLanguage, setLanguage, languages, translations } = useLanguage();
   const { lastUpdated, articles, refreshNews } = useNews();
   const { user, isAuthenticated, logout } = useAuth();
+  const { subscriptionTier, trialDaysLeft } = useSubscription();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -35,6 +39,15 @@ const Header = () => {
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (searchQuery.trim()) {
+      // Malformed queries are explained here instead of leading to an empty results page
+      try {
+        parseQuery(searchQuery);
+      } catch (error) {
+        if (!(error instanceof QuerySyntaxError)) throw error;
+        setSearchError(error.message);
+        return;
+      }
+      setSearchError(null);
       navigate(`/news/search?q=${encodeURIComponent(searchQuery)}&lang=${currentLanguage}&t=${Date.now()}`);
       setSearchQuery('');
       setIsMenuOpen(false);
@@ -155,14 +168,27 @@ const Header = () => {
                   ))}
                 </select>
 
-                <Link
-                  to="/subscription"
-                  className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-600 hover:bg-orange-700 rounded text-xs font-medium transition-colors text-white"
-                  title="Go Premium"
-                >
-                  <Crown className="w-3 h-3" />
-                  <span className="hidden sm:inline font-bold">Premium</span>
-                </Link>
+                {trialDaysLeft !== null ? (
+                  <Link
+                    to="/subscription"
+                    className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-600 hover:bg-orange-700 rounded text-xs font-medium transition-colors text-white"
+                    title="Manage your trial"
+                  >
+                    <Crown className="w-3 h-3" />
+                    <span className="font-bold capitalize">
+                      {subscriptionTier} trial: {trialDaysLeft === 1 ? '1 day' : `${trialDaysLeft} days`} left
+                    </span>
+                  </Link>
+                ) : (
+                  <Link
+                    to="/subscription"
+                    className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-600 hover:bg-orange-700 rounded text-xs font-medium transition-colors text-white"
+                    title="Go Premium"
+                  >
+                    <Crown className="w-3 h-3" />
+                    <span className="hidden sm:inline font-bold">Premium</span>
+                  </Link>
+                )}
               </div>
             </div>
           </div>
@@ -238,11 +264,20 @@ const Header = () => {
                     <input
                       type="text"
                       value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
+                      onChange={(e) => {
+                        setSearchQuery(e.target.value);
+                        setSearchError(null);
+                      }}
                       placeholder={translations.searchPlaceholder}
                       className="bbc-search pl-8 pr-3 py-1.5 w-36 max-w-[9rem] min-w-0 transition-all truncate bg-gray-50 border border-gray-200 rounded text-xs"
                       aria-label="Search news"
+                      aria-invalid={!!searchError}
                     />
+                    {searchError && (
+                      <p role="alert" className="absolute right-0 top-full mt-1 w-72 p-2 bg-white border border-red-200 rounded shadow text-xs text-red-600 z-50">
+                        {searchError}
+                      </p>
+                    )}
                   </div>
                 </form>
 
@@ -323,11 +358,16 @@ const Header = () => {
                     <input
                       type="text"
                       value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
+                      onChange={(e) => {
+                        setSearchQuery(e.target.value);
+                        setSearchError(null);
+                      }}
                       placeholder={translations.searchPlaceholder}
                       className="bbc-search w-full pl-10 pr-3 py-2 bg-gray-50 border border-gray-200 rounded text-sm"
+                      aria-invalid={!!searchError}
                     />
                   </div>
+                  {searchError && <p role="alert" className="mt-1 text-xs text-red-600">{searchError}</p>}
                 </form>
 
                 {/* Mobile Navigation */}
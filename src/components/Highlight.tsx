@@ -0,0 +1,25 @@
+import React from 'react';
+import { highlight } from '../utils/searchIndex';
+
+interface HighlightProps {
+  text: string;
+  terms?: string[];
+}
+
+// Text with the words matching a search marked
+const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  if (!terms || terms.length === 0) return <>{text}</>;
+  return (
+    <>
+      {highlight(text, terms).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-yellow-200 text-inherit px-0.5">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default Highlight;
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
-import { X, Mail, Lock, User, MapPin, BookOpen, Camera, Shield } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { X, Mail, Lock, User, MapPin, BookOpen, Camera, Shield, UserPlus } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useLanguage } from '../context/LanguageContext';
+import { pendingReferralCode } from '../services/referralService';
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -18,7 +19,8 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
     userType: 'citizen' as 'citizen' | 'journalist' | 'news_channel',
     bio: '',
     location: '',
-    specializations: [] as string[]
+    specializations: [] as string[],
+    referralCode: ''
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -26,6 +28,11 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
   const { login, register } = useAuth();
   const { currentLanguage } = useLanguage();
 
+  // Prefill the code from a referral link the visitor arrived through
+  useEffect(() => {
+    if (isOpen) setFormData(prev => ({ ...prev, referralCode: prev.referralCode || pendingReferralCode() }));
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -47,7 +54,7 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
         setError(isLogin ? 'Invalid credentials' : 'Registration failed');
       }
     } catch (err) {
-      setError('An error occurred. Please try again.');
+      setError(err instanceof Error && err.message ? err.message : 'An error occurred. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -284,6 +291,23 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
                   </div>
                 </div>
               )}
+
+              {/* Referral code */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Referral code (optional)
+                </label>
+                <div className="relative">
+                  <UserPlus className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <input
+                    type="text"
+                    value={formData.referralCode}
+                    onChange={(e) => setFormData(prev => ({ ...prev, referralCode: e.target.value }))}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    placeholder="From a friend's invite link"
+                  />
+                </div>
+              </div>
             </>
           )}
 
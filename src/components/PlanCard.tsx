@@ -1,16 +1,26 @@
 import React from 'react';
 import { Check, Crown, Star, Zap } from 'lucide-react';
-import { SubscriptionPlan } from '../context/SubscriptionContext';
+import { PlanChangeQuote, SubscriptionPlan } from '../context/SubscriptionContext';
 
 interface PlanCardProps {
   plan: SubscriptionPlan;
   currentTier: string;
+  currentPlanId?: string;
+  quote?: PlanChangeQuote;      // cost of switching to this plan from the current one
+  isScheduled?: boolean;        // a downgrade to this plan is booked for the next renewal
+  couponPrice?: { amount: number; discount: number };  // first payment with the applied promo code
   onSubscribe: (planId: string) => void;
+  onStartTrial?: (planId: string) => void;  // set while the reader can still take a free trial
+  isGift?: boolean;             // buying one term of this plan for someone else
   isProcessing: boolean;
 }
 
-const PlanCard: React.FC<PlanCardProps> = ({ plan, currentTier, onSubscribe, isProcessing }) => {
-  const isCurrentPlan = currentTier === plan.tier;
+const formatRupees = (paise: number) => `₹${(paise / 100).toLocaleString('en-IN')}`;
+
+const PlanCard: React.FC<PlanCardProps> = ({ plan, currentTier, currentPlanId, quote, isScheduled, couponPrice, onSubscribe, onStartTrial, isGift, isProcessing }) => {
+  // Tiers alone can't tell monthly from annual, so prefer the exact plan
+  const isCurrentPlan = !isGift && (currentPlanId ? currentPlanId === plan.id : currentTier === plan.tier);
+  const isChange = !!quote && quote.type !== 'new';
   const isFree = plan.tier === 'free';
   const isPremium = plan.tier === 'premium';
   const isPro = plan.tier === 'pro';
@@ -27,6 +37,17 @@ const PlanCard: React.FC<PlanCardProps> = ({ plan, currentTier, onSubscribe, isP
     return 'from-gray-600 to-gray-700';
   };
 
+  const getActionLabel = () => {
+    if (isCurrentPlan) return 'Current Plan';
+    if (isFree) return 'Always Free';
+    if (isProcessing) return 'Processing...';
+    if (isGift) return `Gift ${plan.name}`;
+    if (isScheduled) return 'Scheduled';
+    if (quote?.type === 'upgrade') return `Upgrade to ${plan.name}`;
+    if (quote?.type === 'downgrade') return `Switch to ${plan.name}`;
+    return `Subscribe to ${plan.name}`;
+  };
+
   const getBorderColor = () => {
     if (plan.popular) return 'border-red-500 border-2';
     return 'border-gray-200';
@@ -60,13 +81,28 @@ const PlanCard: React.FC<PlanCardProps> = ({ plan, currentTier, onSubscribe, isP
         </div>
 
         <div className="flex items-baseline space-x-2">
-          <span className="text-5xl font-bold">₹{plan.price}</span>
+          {couponPrice && (
+            <span className="text-2xl font-semibold line-through opacity-70">₹{plan.price}</span>
+          )}
+          <span className="text-5xl font-bold">{couponPrice ? formatRupees(couponPrice.amount) : `₹${plan.price}`}</span>
           {!isFree && (
             <span className="text-lg opacity-90">/{plan.interval}</span>
           )}
         </div>
 
-        {plan.interval === 'year' && !isFree && (
+        {couponPrice && (
+          <p className="text-sm mt-2 font-medium">
+            You save {formatRupees(couponPrice.discount)} on your first {plan.interval}, then ₹{plan.price}/{plan.interval}
+          </p>
+        )}
+
+        {plan.seats && (
+          <p className="text-sm mt-2 opacity-90">
+            For up to {plan.seats} people · ≈ ₹{Math.round(plan.price / plan.seats)} each
+          </p>
+        )}
+
+        {plan.interval === 'year' && !isFree && !couponPrice && (
           <p className="text-sm mt-2 opacity-90">
             ≈ ₹{Math.round(plan.price / 12)}/month
           </p>
@@ -85,9 +121,35 @@ const PlanCard: React.FC<PlanCardProps> = ({ plan, currentTier, onSubscribe, isP
           ))}
         </ul>
 
+        {isChange && quote && !isCurrentPlan && (
+          <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+            {quote.timing === 'now' ? (
+              <>
+                <p className="font-semibold text-gray-900">{formatRupees(quote.amountDue)} due today</p>
+                {quote.credit > 0 && (
+                  <p>Includes {formatRupees(quote.credit)} credit for your unused time</p>
+                )}
+                <p>
+                  Then {formatRupees(quote.nextBillingAmount)}/{plan.interval} from{' '}
+                  {new Date(quote.nextBillingDate).toLocaleDateString()}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="font-semibold text-gray-900">Nothing due today</p>
+                <p>
+                  {isScheduled ? 'Switches' : 'Switch takes effect'} on{' '}
+                  {new Date(quote.effectiveDate).toLocaleDateString()}, then{' '}
+                  {formatRupees(quote.nextBillingAmount)}/{plan.interval}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
         <button
           onClick={() => onSubscribe(plan.id)}
-          disabled={isCurrentPlan || isProcessing || isFree}
+          disabled={isCurrentPlan || isProcessing || isFree || isScheduled}
           className={`w-full py-3 px-6 rounded-lg font-semibold text-sm transition-all ${
             isCurrentPlan
               ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
@@ -100,9 +162,19 @@ const PlanCard: React.FC<PlanCardProps> = ({ plan, currentTier, onSubscribe, isP
               : 'bg-gray-600 hover:bg-gray-700 text-white'
           }`}
         >
-          {isCurrentPlan ? 'Current Plan' : isFree ? 'Always Free' : isProcessing ? 'Processing...' : `Subscribe to ${plan.name}`}
+          {getActionLabel()}
         </button>
 
+        {onStartTrial && plan.trialDays && !isCurrentPlan && !isFree && (
+          <button
+            onClick={() => onStartTrial(plan.id)}
+            disabled={isProcessing}
+            className="w-full mt-3 py-2 px-6 rounded-lg font-semibold text-sm border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            Start {plan.trialDays}-day free trial
+          </button>
+        )}
+
         {isCurrentPlan && !isFree && (
           <p className="text-center text-xs text-gray-500 mt-2">
             Active subscription
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Flame } from 'lucide-react';
+import {
+  LoginStreak,
+  PointRule,
+  PointRuleId,
+  PointsReason,
+  PointsSummary,
+  getPointRules,
+  getPoints
+} from '../services/pointsService';
+
+const REASON_LABELS: Record<PointsReason, string> = {
+  opening_balance: 'Opening balance',
+  welcome_bonus: 'Welcome bonus',
+  subscription_bonus: 'Subscription bonus',
+  post_published: 'Published a story',
+  like_received: 'Likes on your post',
+  article_read: 'Finished an article',
+  daily_login: 'Daily visit',
+  referral: 'Referred a reader',
+  monthly_allowance: 'Monthly allowance',
+  refund_clawback: 'Refunded subscription',
+  reward_redemption: 'Redeemed a reward',
+  points_expired: 'Points expired'
+};
+
+const RULE_DESCRIPTIONS: Record<PointRuleId, string> = {
+  post_published: 'Publish a story',
+  like_received: 'Get a like from another reader',
+  article_read: 'Read an article to the end',
+  daily_login: 'Visit every day',
+  referral: 'Refer a new reader',
+  monthly_allowance: 'Free plan allowance each month'
+};
+
+function ruleLimit(rule: PointRule) {
+  if (rule.dailyCap) return `${Math.min(rule.earnedToday, rule.dailyCap)}/${rule.dailyCap} today`;
+  if (rule.monthlyCap) return `${Math.min(rule.earnedThisMonth, rule.monthlyCap)}/${rule.monthlyCap} this month`;
+  return '';
+}
+
+// Points panel for the Earnings tab: ways to earn, what is about to expire and
+// every credit and debit
+const PointsHistory: React.FC<{ balance: number }> = ({ balance }) => {
+  const [summary, setSummary] = useState<PointsSummary | null>(null);
+  const [rules, setRules] = useState<PointRule[]>([]);
+  const [streak, setStreak] = useState<LoginStreak | null>(null);
+
+  // Reload whenever the balance shown in the header changes, e.g. after a purchase
+  useEffect(() => {
+    getPoints()
+      .then(setSummary)
+      .catch(err => console.error('Failed to load points history:', err));
+    getPointRules()
+      .then(res => {
+        setRules(res.rules);
+        setStreak(res.streak);
+      })
+      .catch(err => console.error('Failed to load points rules:', err));
+  }, [balance]);
+
+  if (!summary) {
+    return <p className="text-sm text-gray-600">Loading points history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {rules.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h5 className="font-medium text-gray-900">Ways to earn</h5>
+            {streak && streak.days > 1 && (
+              <span className="inline-flex items-center text-sm text-orange-600 font-medium">
+                <Flame className="w-4 h-4 mr-1" />
+                {streak.days}-day streak
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-sm">
+                <div>
+                  <p className="text-gray-900">{RULE_DESCRIPTIONS[rule.id] || rule.id}</p>
+                  <p className="text-gray-500 text-xs">{ruleLimit(rule)}</p>
+                </div>
+                <span className="font-medium text-green-600">+{rule.points}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {summary.expiring.length > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex items-center text-yellow-800 font-medium mb-1">
+            <Clock className="w-4 h-4 mr-2" />
+            Expiring soon
+          </div>
+          <ul className="text-sm text-yellow-800 space-y-1">
+            {summary.expiring.map(item => (
+              <li key={item.expiresAt}>
+                {item.amount.toLocaleString()} points on {new Date(item.expiresAt).toLocaleDateString()}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary.entries.length === 0 ? (
+        <p className="text-sm text-gray-600">No points activity yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Activity</th>
+                <th className="py-2 pr-4 font-medium">Expires</th>
+                <th className="py-2 font-medium text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {summary.entries.map(entry => (
+                <tr key={entry.id}>
+                  <td className="py-3 pr-4 text-gray-600">{new Date(entry.createdAt).toLocaleDateString()}</td>
+                  <td className="py-3 pr-4 text-gray-900">{REASON_LABELS[entry.reason] || entry.reason}</td>
+                  <td className="py-3 pr-4 text-gray-600">
+                    {entry.expiresAt ? new Date(entry.expiresAt).toLocaleDateString() : '—'}
+                  </td>
+                  <td className={`py-3 text-right font-medium ${entry.type === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
+                    {entry.type === 'credit' ? '+' : '−'}{entry.amount.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PointsHistory;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Crown, Lock, Sparkles } from 'lucide-react';
+import { Clock, Crown, Lock, Sparkles } from 'lucide-react';
 import { useSubscription } from '../context/SubscriptionContext';
 import { useAuth } from '../context/AuthContext';
 
@@ -15,15 +15,41 @@ const PremiumContentGuard: React.FC<PremiumContentGuardProps> = ({
   requiredTier = 'premium',
   fallbackMessage
 }) => {
-  const { isPremium, isPro, subscriptionTier } = useSubscription();
+  const { isPremium, isPro, subscriptionTier, trialDaysLeft, trialEndsAt, trialEligible, plans } = useSubscription();
   const { isAuthenticated } = useAuth();
 
   const hasAccess = requiredTier === 'premium' ? isPremium : isPro;
 
+  if (hasAccess && trialDaysLeft !== null && trialEndsAt) {
+    return (
+      <>
+        <div className="mb-4 flex items-center justify-between bg-orange-50 border border-orange-200 text-orange-800 px-4 py-3 rounded-lg text-sm">
+          <span className="flex items-center">
+            <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
+            <span>
+              You're reading this on your <span className="capitalize">{subscriptionTier}</span> trial:{' '}
+              {trialDaysLeft === 1 ? '1 day' : `${trialDaysLeft} days`} left. Your plan starts on{' '}
+              {trialEndsAt.toLocaleDateString()}.
+            </span>
+          </span>
+          <Link to="/subscription" className="ml-4 font-medium text-orange-700 hover:text-orange-900 whitespace-nowrap">
+            Manage
+          </Link>
+        </div>
+        {children}
+      </>
+    );
+  }
+
   if (hasAccess) {
     return <>{children}</>;
   }
 
+  // Longest trial on offer for the required tier, if the reader can still take one
+  const trialDays = trialEligible
+    ? Math.max(0, ...plans.filter(p => p.tier === requiredTier).map(p => p.trialDays || 0))
+    : 0;
+
   const defaultMessage = requiredTier === 'pro'
     ? 'This feature is available for Pro subscribers only'
     : 'This content is available for Premium subscribers only';
@@ -61,7 +87,9 @@ const PremiumContentGuard: React.FC<PremiumContentGuardProps> = ({
             >
               <span className="flex items-center justify-center">
                 <Sparkles className="w-5 h-5 mr-2" />
-                Upgrade to {requiredTier === 'pro' ? 'Pro' : 'Premium'}
+                {trialDays > 0
+                  ? `Try ${requiredTier === 'pro' ? 'Pro' : 'Premium'} free for ${trialDays} days`
+                  : `Upgrade to ${requiredTier === 'pro' ? 'Pro' : 'Premium'}`}
               </span>
             </Link>
 
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, MailWarning, UserPlus } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { Referral, ReferralSummary, getReferrals } from '../services/referralService';
+
+const REJECTED_LABELS: Record<NonNullable<Referral['rejectedReason']>, string> = {
+  self_referral: 'Your own account',
+  duplicate_device: 'Device already has an account',
+  unknown_device: 'Device could not be identified',
+  duplicate_email: 'Email already has an account'
+};
+
+function referralStatus(referral: Referral) {
+  if (referral.status === 'rejected') {
+    return referral.rejectedReason ? `Not eligible: ${REJECTED_LABELS[referral.rejectedReason]}` : 'Not eligible';
+  }
+  if (referral.status === 'pending') return 'Waiting for them to verify or subscribe';
+  if (!referral.reward) return 'Joined';
+  if (referral.reward.type === 'premium_week') return 'Earned a week of Premium';
+  return referral.reward.points ? `Earned ${referral.reward.points} points` : 'Joined (monthly limit reached)';
+}
+
+// Referrals tab of the dashboard: the reader's invite link and who joined through it
+const ReferralPanel: React.FC = () => {
+  const { user, resendVerificationEmail } = useAuth();
+  const [summary, setSummary] = useState<ReferralSummary | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getReferrals()
+      .then(setSummary)
+      .catch(err => console.error('Failed to load referrals:', err));
+  }, []);
+
+  if (!user) return null;
+
+  const handleCopy = async () => {
+    if (!summary) return;
+    try {
+      await navigator.clipboard.writeText(summary.link);
+      setMessage('Link copied');
+    } catch {
+      setMessage(summary.link);
+    }
+  };
+
+  const handleResend = async () => {
+    setError('');
+    try {
+      await resendVerificationEmail();
+      setMessage(`We sent a new link to ${user.email}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send the email');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {user.emailVerified === false && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between">
+          <div className="flex items-center text-yellow-800 text-sm">
+            <MailWarning className="w-5 h-5 mr-2 flex-shrink-0" />
+            Please verify your email address. Check your inbox for the link.
+          </div>
+          <button onClick={handleResend} className="text-sm font-medium text-yellow-900 hover:underline">
+            Resend
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center space-x-2 mb-2">
+          <UserPlus className="w-5 h-5 text-red-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Invite friends</h3>
+        </div>
+        {!summary ? (
+          <p className="text-sm text-gray-600">Loading referrals...</p>
+        ) : (
+          <>
+            <p className="text-gray-600 text-sm mb-4">
+              {summary.reward === 'premium_week'
+                ? 'Get a free week of Premium for every friend who joins with your link and verifies their email or subscribes.'
+                : 'Earn points for every friend who joins with your link and verifies their email or subscribes.'}
+            </p>
+            <div className="flex items-center space-x-2 mb-2">
+              <input
+                type="text"
+                readOnly
+                value={summary.link}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+              />
+              <button
+                onClick={handleCopy}
+                className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                Copy link
+              </button>
+            </div>
+            <p className="text-sm text-gray-500">
+              Your code: <span className="font-mono font-medium text-gray-900">{summary.code}</span>
+            </p>
+            {message && <p className="mt-3 text-sm text-green-700">{message}</p>}
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+              {[
+                { label: 'Joined', value: summary.stats.total },
+                { label: 'Pending', value: summary.stats.pending },
+                { label: 'Qualified', value: summary.stats.qualified },
+                { label: 'Points earned', value: summary.stats.pointsEarned }
+              ].map(stat => (
+                <div key={stat.label} className="p-4 border border-gray-200 rounded-lg text-center">
+                  <p className="text-2xl font-bold text-gray-900">{stat.value.toLocaleString()}</p>
+                  <p className="text-sm text-gray-500">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {summary && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Your referrals</h3>
+          {summary.referrals.length === 0 ? (
+            <p className="text-sm text-gray-600">Nobody has joined with your link yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Joined</th>
+                    <th className="py-2 pr-4 font-medium">Reader</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {summary.referrals.map(referral => (
+                    <tr key={referral.id}>
+                      <td className="py-3 pr-4 text-gray-600">{new Date(referral.createdAt).toLocaleDateString()}</td>
+                      <td className="py-3 pr-4 text-gray-900">{referral.referee || 'Deleted account'}</td>
+                      <td className={`py-3 ${referral.status === 'rejected' ? 'text-gray-500' : referral.status === 'qualified' ? 'text-green-600' : 'text-gray-700'}`}>
+                        {referralStatus(referral)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferralPanel;
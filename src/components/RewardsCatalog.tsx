@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { BookOpen, Crown, Gift, Ticket } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useSubscription } from '../context/SubscriptionContext';
+import { Redemption, Reward, RewardType, listRedemptions, listRewards, redeemReward } from '../services/rewardsService';
+
+const TYPE_ICONS: Record<RewardType, React.ElementType> = {
+  book: BookOpen,
+  appointment_discount: Gift,
+  premium_month: Crown,
+  event_ticket: Ticket
+};
+
+// What the reader got, in one line for the history table
+function redemptionDetail(redemption: Redemption) {
+  switch (redemption.type) {
+    case 'appointment_discount':
+      return `Voucher ${redemption.code}${redemption.usedAt ? ' (used)' : ''}`;
+    case 'event_ticket':
+      return `Ticket ${redemption.code}${redemption.event ? `, ${new Date(redemption.event.startsAt).toLocaleDateString()} at ${redemption.event.venue}` : ''}`;
+    case 'premium_month':
+      return redemption.endDate ? `Premium until ${new Date(redemption.endDate).toLocaleDateString()}` : 'Premium';
+    default:
+      return 'Added to your library';
+  }
+}
+
+// Rewards tab of the dashboard: the points catalog and the reader's redemptions
+const RewardsCatalog: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const { checkSubscriptionStatus } = useSubscription();
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [redeemingId, setRedeemingId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const load = () => {
+    listRewards()
+      .then(setRewards)
+      .catch(err => console.error('Failed to load rewards:', err));
+    listRedemptions()
+      .then(setRedemptions)
+      .catch(err => console.error('Failed to load redemptions:', err));
+  };
+
+  useEffect(load, []);
+
+  if (!user) return null;
+
+  const handleRedeem = async (reward: Reward) => {
+    if (!window.confirm(`Redeem "${reward.name}" for ${reward.pointsCost.toLocaleString()} points?`)) return;
+
+    setRedeemingId(reward.id);
+    setError('');
+    setMessage('');
+    try {
+      const { redemption } = await redeemReward(reward.id);
+      setMessage(`Redeemed: ${redemptionDetail(redemption)}`);
+      if (reward.type === 'premium_month') checkSubscriptionStatus();
+      await refreshUser();
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not redeem this reward');
+    } finally {
+      setRedeemingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">Rewards</h3>
+          <span className="text-sm text-gray-600">
+            Your balance: <span className="font-bold text-red-600">{user.SignalAIPoints.toLocaleString()} points</span>
+          </span>
+        </div>
+        {message && <p className="mb-4 text-sm text-green-700">{message}</p>}
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {rewards.map(reward => {
+            const Icon = TYPE_ICONS[reward.type] || Gift;
+            const soldOut = reward.remaining === 0;
+            const limitReached = reward.redeemedByYou >= reward.perUserLimit;
+            const tooExpensive = user.SignalAIPoints < reward.pointsCost;
+            return (
+              <div key={reward.id} className="border border-gray-200 rounded-lg p-4 flex flex-col">
+                <div className="flex items-center space-x-2 mb-2">
+                  <Icon className="w-5 h-5 text-red-600" />
+                  <h4 className="font-medium text-gray-900">{reward.name}</h4>
+                </div>
+                <p className="text-gray-600 text-sm mb-3 flex-1">{reward.description}</p>
+                {reward.event && (
+                  <p className="text-gray-500 text-xs mb-2">
+                    {new Date(reward.event.startsAt).toLocaleString()} · {reward.event.venue}
+                  </p>
+                )}
+                <div className="flex items-center justify-between text-sm mb-3">
+                  <span className="text-lg font-bold text-red-600">{reward.pointsCost.toLocaleString()} pts</span>
+                  {reward.remaining !== null && (
+                    <span className={soldOut ? 'text-red-600' : 'text-gray-500'}>
+                      {soldOut ? 'Out of stock' : `${reward.remaining} left`}
+                    </span>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleRedeem(reward)}
+                  disabled={soldOut || limitReached || tooExpensive || redeemingId !== null}
+                  className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {redeemingId === reward.id ? 'Redeeming...'
+                    : limitReached ? 'Already redeemed'
+                    : tooExpensive ? `Need ${(reward.pointsCost - user.SignalAIPoints).toLocaleString()} more points`
+                    : 'Redeem'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Redemption history</h3>
+        {redemptions.length === 0 ? (
+          <p className="text-sm text-gray-600">You haven't redeemed any rewards yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Reward</th>
+                  <th className="py-2 pr-4 font-medium">Details</th>
+                  <th className="py-2 font-medium text-right">Points</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {redemptions.map(redemption => (
+                  <tr key={redemption.id}>
+                    <td className="py-3 pr-4 text-gray-600">{new Date(redemption.createdAt).toLocaleDateString()}</td>
+                    <td className="py-3 pr-4 text-gray-900">{redemption.name}</td>
+                    <td className="py-3 pr-4 text-gray-600 font-mono text-xs">{redemptionDetail(redemption)}</td>
+                    <td className="py-3 text-right font-medium text-red-600">−{redemption.pointsCost.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RewardsCatalog;
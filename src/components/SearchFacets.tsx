@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useLanguage, languages } from '../context/LanguageContext';
+import { FACETS, DATE_BUCKETS, FacetKey, FacetValue } from '../utils/searchFacets';
+
+interface SearchFacetsProps {
+  counts: Record<FacetKey, FacetValue[]>;
+  hasSelection: boolean;
+  onToggle: (key: FacetKey, value: string) => void;
+  onClear: () => void;
+}
+
+// Values shown per facet before "Show all"
+const COLLAPSED_VALUES = 6;
+
+const SearchFacets: React.FC<SearchFacetsProps> = ({ counts, hasSelection, onToggle, onClear }) => {
+  const { translations } = useLanguage();
+  const [expanded, setExpanded] = useState<Partial<Record<FacetKey, boolean>>>({});
+
+  const labelFor = (key: FacetKey, value: string) => {
+    switch (key) {
+      case 'category':
+        return translations[value] || value.charAt(0).toUpperCase() + value.slice(1);
+      case 'language':
+        return languages.find(l => l.code === value)?.name || value;
+      case 'access':
+        return value === 'premium' ? 'Premium' : 'Free';
+      case 'date':
+        return DATE_BUCKETS.find(b => b.value === value)?.label || value;
+      default:
+        return value;
+    }
+  };
+
+  return (
+    <aside className="bbc-card p-4 space-y-6" aria-label="Filter results">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold bbc-heading">Filter results</h2>
+        {hasSelection && (
+          <button onClick={onClear} className="flex items-center text-xs text-red-600 hover:text-red-700">
+            <X className="w-3 h-3 mr-1" />
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {FACETS.map(facet => {
+        const values = counts[facet.key] || [];
+        if (values.length === 0) return null;
+        const shown = expanded[facet.key]
+          ? values
+          : values.filter((v, i) => i < COLLAPSED_VALUES || v.selected);
+
+        return (
+          <fieldset key={facet.key}>
+            <legend className="text-xs font-semibold uppercase tracking-wide bbc-article-meta mb-2">{facet.label}</legend>
+            <ul className="space-y-1">
+              {shown.map(({ value, count, selected }) => (
+                <li key={value}>
+                  <label className={`flex items-center justify-between text-sm cursor-pointer ${count === 0 && !selected ? 'opacity-50' : ''}`}>
+                    <span className="flex items-center min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={selected}
+                        disabled={count === 0 && !selected}
+                        onChange={() => onToggle(facet.key, value)}
+                        className="mr-2 accent-red-600"
+                      />
+                      <span className="truncate bbc-text">{labelFor(facet.key, value)}</span>
+                    </span>
+                    <span className="ml-2 text-xs bbc-article-meta">{count}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            {values.length > shown.length && (
+              <button
+                onClick={() => setExpanded(prev => ({ ...prev, [facet.key]: true }))}
+                className="mt-1 text-xs text-red-600 hover:text-red-700"
+              >
+                Show all {values.length}
+              </button>
+            )}
+          </fieldset>
+        );
+      })}
+    </aside>
+  );
+};
+
+export default SearchFacets;
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Users, UserPlus, X } from 'lucide-react';
+import { SeatUsage, useSubscription } from '../context/SubscriptionContext';
+
+// Seat usage and invitations for the owner of a family or team plan
+const SeatManager: React.FC = () => {
+  const { currentSubscription, plans, listSeats, addSeat, revokeSeat } = useSubscription();
+  const [usage, setUsage] = useState<SeatUsage | null>(null);
+  const [member, setMember] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const plan = plans.find(p => p.id === currentSubscription?.planId);
+
+  useEffect(() => {
+    if (!plan?.seats) return;
+    listSeats()
+      .then(setUsage)
+      .catch(err => console.error('Failed to load seats:', err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [plan?.id]);
+
+  if (!plan?.seats || !usage) return null;
+
+  const isFull = usage.used >= usage.limit;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!member.trim()) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      setUsage(await addSeat(member.trim()));
+      setMember('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add this member');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (seatId: string, label: string) => {
+    if (!window.confirm(`Remove ${label} from your ${plan.name} plan? They lose access straight away.`)) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await revokeSeat(seatId);
+      setUsage(await listSeats());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke this seat');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Users className="w-5 h-5 text-gray-600" />
+          <h4 className="font-medium text-gray-900">Seats</h4>
+        </div>
+        <span className="text-sm text-gray-600">{usage.used} of {usage.limit} in use</span>
+      </div>
+
+      <div className="w-full bg-gray-100 rounded-full h-2 mb-4">
+        <div
+          className="bg-red-600 h-2 rounded-full"
+          style={{ width: `${Math.min(100, (usage.used / usage.limit) * 100)}%` }}
+        />
+      </div>
+
+      <ul className="divide-y divide-gray-100 text-sm mb-4">
+        <li className="flex items-center justify-between py-2">
+          <span className="text-gray-900">You</span>
+          <span className="text-xs text-gray-500">Owner</span>
+        </li>
+        {usage.seats.map(seat => {
+          const label = seat.memberName || seat.email;
+          return (
+            <li key={seat.id} className="flex items-center justify-between py-2">
+              <span>
+                <span className="text-gray-900">{label}</span>
+                {seat.memberName && <span className="text-gray-500"> · {seat.email}</span>}
+              </span>
+              <span className="flex items-center space-x-3">
+                <span className={`text-xs font-medium ${seat.status === 'active' ? 'text-green-700' : 'text-yellow-700'}`}>
+                  {seat.status === 'active' ? 'Active' : 'Invited'}
+                </span>
+                <button
+                  onClick={() => handleRevoke(seat.id, label)}
+                  disabled={isSaving}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  aria-label={`Revoke seat for ${label}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {isFull ? (
+        <p className="text-sm text-gray-600">All seats are in use. Revoke one to invite someone else.</p>
+      ) : (
+        <form onSubmit={handleInvite} className="flex space-x-2">
+          <input
+            type="text"
+            value={member}
+            onChange={(e) => setMember(e.target.value)}
+            placeholder="Email or username"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !member.trim()}
+            className="inline-flex items-center px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SeatManager;
@@ -1,13 +1,34 @@
 import React, { useState } from 'react';
-import { User, Settings, BookOpen, Calendar, Award, TrendingUp, MessageSquare, Shield, Camera, Video, FileText, DollarSign, Users, Star } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { User, Settings, BookOpen, Calendar, Award, TrendingUp, MessageSquare, Shield, Camera, Video, FileText, DollarSign, Users, Star, Crown, AlertCircle, Receipt, Gift, UserPlus } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useLanguage } from '../context/LanguageContext';
+import { useSubscription } from '../context/SubscriptionContext';
+import SeatManager from './SeatManager';
+import BillingHistory from './BillingHistory';
+import PointsHistory from './PointsHistory';
+import RewardsCatalog from './RewardsCatalog';
+import ReferralPanel from './ReferralPanel';
 
 const UserDashboard: React.FC = () => {
-  const { user, updateProfile, appointments, books, addSignalAIPoints } = useAuth();
+  const { user, updateProfile, appointments, books, purchaseBook } = useAuth();
   const { currentLanguage } = useLanguage();
+  const {
+    currentSubscription,
+    subscriptionTier,
+    isSubscribed,
+    nextBillingDate,
+    graceUntil,
+    seat,
+    plans,
+    cancelSubscription,
+    resumeSubscription,
+    leaveSeat
+  } = useSubscription();
+  const [isUpdatingSubscription, setIsUpdatingSubscription] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
   const [isEditing, setIsEditing] = useState(false);
+  const isCancelScheduled = currentSubscription?.status === 'cancel_scheduled';
   const [editForm, setEditForm] = useState({
     fullName: user?.fullName || '',
     bio: user?.bio || '',
@@ -22,12 +43,68 @@ const UserDashboard: React.FC = () => {
     setIsEditing(false);
   };
 
+  const handleCancelSubscription = async () => {
+    if (!currentSubscription) return;
+    const message = currentSubscription.status === 'past_due'
+      ? 'Cancel your subscription now? Your benefits end immediately.'
+      : `Cancel your subscription? You keep your benefits until ${currentSubscription.endDate.toLocaleDateString()}.`;
+    if (!window.confirm(message)) return;
+
+    setIsUpdatingSubscription(true);
+    try {
+      await cancelSubscription();
+    } catch (error) {
+      console.error('Cancellation failed:', error);
+      alert('Could not cancel your subscription. Please try again.');
+    } finally {
+      setIsUpdatingSubscription(false);
+    }
+  };
+
+  const handleResumeSubscription = async () => {
+    setIsUpdatingSubscription(true);
+    try {
+      await resumeSubscription();
+    } catch (error) {
+      console.error('Resume failed:', error);
+      alert('Could not resume your subscription. Please try again.');
+    } finally {
+      setIsUpdatingSubscription(false);
+    }
+  };
+
+  const handleLeaveSeat = async () => {
+    if (!seat || !window.confirm(`Leave ${seat.ownerName || 'this'}'s plan? Your ${subscriptionTier} benefits end straight away.`)) return;
+
+    setIsUpdatingSubscription(true);
+    try {
+      await leaveSeat();
+    } catch (error) {
+      console.error('Leaving seat failed:', error);
+      alert('Could not leave the plan. Please try again.');
+    } finally {
+      setIsUpdatingSubscription(false);
+    }
+  };
+
+  const handleBuyBook = async (bookId: string) => {
+    try {
+      await purchaseBook(bookId);
+    } catch (error) {
+      console.error('Book purchase failed:', error);
+      alert(error instanceof Error ? error.message : 'Could not buy this book. Please try again.');
+    }
+  };
+
   const tabs = [
     { id: 'overview', label: 'Overview', icon: TrendingUp },
     { id: 'profile', label: 'Profile', icon: User },
     { id: 'appointments', label: 'Appointments', icon: Calendar },
     { id: 'books', label: 'Books & Content', icon: BookOpen },
     { id: 'earnings', label: 'Earnings', icon: DollarSign },
+    { id: 'rewards', label: 'Rewards', icon: Gift },
+    { id: 'referrals', label: 'Referrals', icon: UserPlus },
+    { id: 'billing', label: 'Billing', icon: Receipt },
     { id: 'settings', label: 'Settings', icon: Settings }
   ];
 
@@ -76,6 +153,74 @@ const UserDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Subscription */}
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <div className="bg-yellow-100 p-2 rounded-full">
+              <Crown className="w-5 h-5 text-yellow-600" />
+            </div>
+            <div>
+              <p className="font-medium text-gray-900 capitalize">
+                {isSubscribed || seat ? `${subscriptionTier} plan` : 'Free plan'}
+              </p>
+              {!isSubscribed && seat && (
+                <p className="text-sm text-gray-600">
+                  Seat on {seat.ownerName ? `${seat.ownerName}'s` : 'a'}{' '}
+                  {plans.find(p => p.id === seat.planId)?.name || 'shared'} plan
+                </p>
+              )}
+              {isSubscribed && nextBillingDate && (
+                <p className="text-sm text-gray-600">
+                  {currentSubscription?.status === 'trialing' ? 'Trial ends and first charge on' : 'Next billing date:'}{' '}
+                  {nextBillingDate.toLocaleDateString()}
+                </p>
+              )}
+              {isSubscribed && !nextBillingDate && currentSubscription && (
+                <p className="text-sm text-gray-600">
+                  {isCancelScheduled ? 'Cancels on' : 'Access until'} {currentSubscription.endDate.toLocaleDateString()}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            {!isSubscribed && seat && (
+              <button
+                onClick={handleLeaveSeat}
+                disabled={isUpdatingSubscription}
+                className="text-sm font-medium text-gray-600 hover:text-gray-800 disabled:opacity-50"
+              >
+                Leave plan
+              </button>
+            )}
+            {isSubscribed && (
+              <button
+                onClick={isCancelScheduled ? handleResumeSubscription : handleCancelSubscription}
+                disabled={isUpdatingSubscription}
+                className="text-sm font-medium text-gray-600 hover:text-gray-800 disabled:opacity-50"
+              >
+                {isCancelScheduled ? 'Resume subscription' : 'Cancel subscription'}
+              </button>
+            )}
+            <Link to="/subscription" className="text-sm font-medium text-red-600 hover:text-red-700">
+              {isSubscribed ? 'Manage' : 'Upgrade'}
+            </Link>
+          </div>
+        </div>
+
+        {graceUntil && (
+          <div className="mt-4 flex items-start space-x-3 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-yellow-800">
+              Your last renewal payment failed. We'll retry automatically; update your payment method
+              before {graceUntil.toLocaleDateString()} to keep your {subscriptionTier} benefits.
+            </p>
+          </div>
+        )}
+
+        {isSubscribed && <SeatManager />}
+      </div>
+
       {/* Recent Activity */}
       <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h3>
@@ -270,13 +415,20 @@ const UserDashboard: React.FC = () => {
               <h4 className="font-medium text-gray-900 mb-2">{book.title}</h4>
               <p className="text-gray-600 text-sm mb-3 line-clamp-2">{book.description}</p>
               <div className="flex items-center justify-between">
-                <span className="text-lg font-bold text-red-600">₹{book.price}</span>
+                <span className="text-lg font-bold text-red-600">{book.price} pts</span>
                 <div className="flex items-center text-yellow-500">
                   <Star className="w-4 h-4 mr-1" />
                   <span className="text-sm">{book.rating}</span>
                 </div>
               </div>
               <p className="text-gray-500 text-xs mt-2">{book.downloads} downloads</p>
+              <button
+                onClick={() => handleBuyBook(book.id)}
+                disabled={user.SignalAIPoints < book.price}
+                className="mt-3 w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                Buy for {book.price} points
+              </button>
             </div>
           </div>
         ))}
@@ -349,8 +501,13 @@ const UserDashboard: React.FC = () => {
                 <p className="text-blue-700">This Month</p>
               </div>
             </div>
+            <h4 className="font-semibold text-gray-900 mt-8 mb-4">Points history</h4>
+            <PointsHistory balance={user.SignalAIPoints} />
           </div>
         )}
+        {activeTab === 'rewards' && <RewardsCatalog />}
+        {activeTab === 'referrals' && <ReferralPanel />}
+        {activeTab === 'billing' && <BillingHistory />}
         {activeTab === 'settings' && (
           <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-6">Account Settings</h3>
@@ -1,8 +1,13 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { apiRequest, ApiError, setAccessToken, setSessionRefresher } from '../services/apiClient';
+import { LoginStreak } from '../services/pointsService';
+import { applyAppointmentVoucher, redeemReward } from '../services/rewardsService';
+import { captureReferralCode, clearReferralCode, deviceId } from '../services/referralService';
 
 export interface User {
   id: string;
   email: string;
+  emailVerified?: boolean;
   username: string;
   fullName: string;
   userType: 'citizen' | 'journalist' | 'news_channel';
@@ -12,6 +17,7 @@ export interface User {
   location: string;
   joinedDate: Date;
   SignalAIPoints: number;
+  loginStreak?: LoginStreak;   // consecutive days the user has opened the app
   followers: number;
   following: number;
   publishedStories: number;
@@ -79,15 +85,17 @@ interface AuthContextType {
   register: (userData: RegisterData) => Promise<boolean>;
   logout: () => void;
   updateProfile: (updates: Partial<User>) => void;
+  refreshUser: () => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerificationEmail: () => Promise<void>;
   posts: Post[];
   createPost: (postData: Omit<Post, 'id' | 'userId' | 'user' | 'timestamp' | 'likes' | 'shares' | 'comments'>) => void;
   likePost: (postId: string) => void;
   sharePost: (postId: string) => void;
   appointments: Appointment[];
-  bookAppointment: (appointmentData: Omit<Appointment, 'id' | 'status'>) => void;
+  bookAppointment: (appointmentData: Omit<Appointment, 'id' | 'status'>, voucherCode?: string) => Promise<void>;
   books: Book[];
-  purchaseBook: (bookId: string) => void;
-  addSignalAIPoints: (points: number, reason: string) => void;
+  purchaseBook: (bookId: string) => Promise<void>;
 }
 
 interface RegisterData {
@@ -99,10 +107,48 @@ interface RegisterData {
   bio?: string;
   location?: string;
   specializations?: string[];
+  referralCode?: string;   // from the referral link the visitor arrived through
+}
+
+interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+}
+
+interface AuthResponse extends AuthSession {
+  user: User;
+  expiresIn: number;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Only the tokens are kept client-side; the user itself always comes from /api/auth/me
+const SESSION_KEY = 'SignalAI-session';
+const LEGACY_USER_KEY = 'SignalAI-user';
+
+function loadSession(): AuthSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) as AuthSession : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: AuthSession | null) {
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  setAccessToken(session ? session.accessToken : null);
+}
+
+// The server sends dates as ISO strings
+function toUser(raw: User): User {
+  return { ...raw, joinedDate: new Date(raw.joinedDate) };
+}
+
 // Mock data for demonstration
 const mockUsers: User[] = [
   {
@@ -202,55 +248,134 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [posts, setPosts] = useState<Post[]>(mockPosts);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [books] = useState<Book[]>(mockBooks);
+  // shared in-flight refresh so concurrent 401s only rotate the refresh token once
+  const refreshInFlight = useRef<Promise<string | null> | null>(null);
+
+  const refreshAccessToken = (): Promise<string | null> => {
+    if (refreshInFlight.current) return refreshInFlight.current;
 
+    const session = loadSession();
+    if (!session) return Promise.resolve(null);
+
+    refreshInFlight.current = apiRequest<AuthResponse>('/api/auth/refresh', {
+      method: 'POST',
+      body: { refreshToken: session.refreshToken }
+    })
+      .then(res => {
+        saveSession({ accessToken: res.accessToken, refreshToken: res.refreshToken });
+        setUser(toUser(res.user));
+        return res.accessToken;
+      })
+      .catch(error => {
+        // Only a rejected refresh token ends the session; a network or server
+        // error leaves it in place for the next attempt
+        if (error instanceof ApiError && error.status === 401) {
+          saveSession(null);
+          setUser(null);
+        }
+        return null;
+      })
+      .finally(() => {
+        refreshInFlight.current = null;
+      });
+
+    return refreshInFlight.current;
+  };
+
+  // Restore the session from the server rather than trusting a cached user blob
   useEffect(() => {
-    const savedUser = localStorage.getItem('SignalAI-user');
-    if (savedUser) {
-      setUser(JSON.parse(savedUser));
+    localStorage.removeItem(LEGACY_USER_KEY);
+    setSessionRefresher(refreshAccessToken);
+    captureReferralCode();
+
+    const session = loadSession();
+    if (session) {
+      setAccessToken(session.accessToken);
+      apiRequest<{ user: User }>('/api/auth/me')
+        .then(res => setUser(toUser(res.user)))
+        // A 401 has already gone through refreshAccessToken, which signs out
+        // when the refresh token is rejected; other failures keep the session
+        .catch(err => console.error('Session restore failed:', err));
     }
+
+    return () => setSessionRefresher(null);
   }, []);
 
+  // Re-read the user after the server changed it (e.g. points credited for a subscription)
+  const refreshUser = async () => {
+    if (!loadSession()) return;
+    try {
+      const res = await apiRequest<{ user: User }>('/api/auth/me');
+      setUser(toUser(res.user));
+    } catch (error) {
+      console.error('Failed to refresh user:', error);
+    }
+  };
+
+  // The link from the verification email works whether or not the reader is signed in
+  const verifyEmail = async (token: string) => {
+    const res = await apiRequest<{ user: User }>('/api/auth/verify-email', {
+      method: 'POST',
+      body: { token }
+    });
+    if (user && user.id === res.user.id) setUser(toUser(res.user));
+  };
+
+  const resendVerificationEmail = async () => {
+    await apiRequest('/api/auth/verify-email/resend', { method: 'POST' });
+  };
+
+  const startSession = (res: AuthResponse) => {
+    saveSession({ accessToken: res.accessToken, refreshToken: res.refreshToken });
+    setUser(toUser(res.user));
+  };
+
   const login = async (email: string, password: string): Promise<boolean> => {
-    // Mock login - in real app, this would call an API
-    const foundUser = mockUsers.find(u => u.email === email);
-    if (foundUser && password === 'password') {
-      setUser(foundUser);
-      localStorage.setItem('SignalAI-user', JSON.stringify(foundUser));
+    try {
+      startSession(await apiRequest<AuthResponse>('/api/auth/login', {
+        method: 'POST',
+        body: { email, password, deviceId: deviceId() }
+      }));
       return true;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) return false;
+      throw error;
     }
-    return false;
   };
 
   const register = async (userData: RegisterData): Promise<boolean> => {
-    // Mock registration - in real app, this would call an API
-    const newUser: User = {
-      id: Date.now().toString(),
-      ...userData,
-      isVerified: userData.userType === 'journalist' ? false : false, // Journalists need manual verification
-      avatar: `https://images.pexels.com/photos/${Math.floor(Math.random() * 1000000)}/pexels-photo.jpeg?auto=compress&cs=tinysrgb&w=100`,
-      joinedDate: new Date(),
-      SignalAIPoints: 100, // Welcome bonus
-      followers: 0,
-      following: 0,
-      publishedStories: 0
-    };
-    
-    mockUsers.push(newUser);
-    setUser(newUser);
-    localStorage.setItem('SignalAI-user', JSON.stringify(newUser));
+    startSession(await apiRequest<AuthResponse>('/api/auth/register', {
+      method: 'POST',
+      body: { ...userData, deviceId: deviceId() }
+    }));
+    clearReferralCode();
     return true;
   };
 
   const logout = () => {
+    const session = loadSession();
+    if (session) {
+      apiRequest<void>('/api/auth/logout', {
+        method: 'POST',
+        body: { refreshToken: session.refreshToken }
+      }).catch(err => console.error('Logout error:', err));
+    }
+    saveSession(null);
     setUser(null);
-    localStorage.removeItem('SignalAI-user');
   };
 
   const updateProfile = (updates: Partial<User>) => {
     if (user) {
       const updatedUser = { ...user, ...updates };
       setUser(updatedUser);
-      localStorage.setItem('SignalAI-user', JSON.stringify(updatedUser));
+
+      // Profile fields are persisted server-side; other fields stay in memory
+      const { fullName, bio, location, avatar, specializations, socialLinks } = updates;
+      const profile = { fullName, bio, location, avatar, specializations, socialLinks };
+      if (Object.values(profile).some(v => v !== undefined)) {
+        apiRequest<{ user: User }>('/api/auth/me', { method: 'PATCH', body: profile })
+          .catch(err => console.error('Profile update error:', err));
+      }
     }
   };
 
@@ -269,11 +394,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
 
     setPosts(prev => [newPost, ...prev]);
-    
-    // Award points for posting
-    addSignalAIPoints(10, 'Posted news content');
   };
 
+  // Social posts only live in this browser, so their likes earn no points;
+  // liking a published article does (see FullArticle)
   const likePost = (postId: string) => {
     setPosts(prev => prev.map(post => 
       post.id === postId ? { ...post, likes: post.likes + 1 } : post
@@ -286,29 +410,26 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     ));
   };
 
-  const bookAppointment = (appointmentData: Omit<Appointment, 'id' | 'status'>) => {
+  // A voucher code from the rewards catalog takes its discount off the price;
+  // an invalid or used code rejects the booking (ApiError)
+  const bookAppointment = async (appointmentData: Omit<Appointment, 'id' | 'status'>, voucherCode?: string) => {
+    const discountPercent = voucherCode ? await applyAppointmentVoucher(voucherCode) : 0;
     const newAppointment: Appointment = {
       ...appointmentData,
+      price: Math.round(appointmentData.price * (100 - discountPercent) / 100),
       id: Date.now().toString(),
       status: 'pending'
     };
     setAppointments(prev => [...prev, newAppointment]);
   };
 
-  const purchaseBook = (bookId: string) => {
-    const book = books.find(b => b.id === bookId);
-    if (book && user && user.SignalAIPoints >= book.price) {
-      updateProfile({ SignalAIPoints: user.SignalAIPoints - book.price });
-      // In real app, would add book to user's library
-    }
-  };
-
-  const addSignalAIPoints = (points: number, reason: string) => {
-    if (user) {
-      updateProfile({ SignalAIPoints: user.SignalAIPoints + points });
-      // In real app, would log the transaction
-      console.log(`+${points} SignalAI Points: ${reason}`);
-    }
+  // Books are redeemed from the rewards catalog. The server debits the ledger
+  // and rejects the purchase (ApiError) if the balance is short or the book
+  // was already bought.
+  const purchaseBook = async (bookId: string) => {
+    if (!user) return;
+    await redeemReward(`book_${bookId}`);
+    await refreshUser();
   };
 
   return (
@@ -319,6 +440,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       register,
       logout,
       updateProfile,
+      refreshUser,
+      verifyEmail,
+      resendVerificationEmail,
       posts,
       createPost,
       likePost,
@@ -326,8 +450,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       appointments,
       bookAppointment,
       books,
-      purchaseBook,
-      addSignalAIPoints
+      purchaseBook
     }}>
       {children}
     </AuthContext.Provider>
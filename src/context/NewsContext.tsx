@@ -1,7 +1,17 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
-import { generateArticlesByCategory } from '../utils/newsGenerator';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { useLanguage } from './LanguageContext';
 import { useAuth } from './AuthContext'; // <-- ensures we can set authorId on new user posts
+import { apiRequest } from '../services/apiClient';
+import { SearchIndex, SearchHit } from '../utils/searchIndex';
+import { parseQuery, runQuery, QuerySyntaxError } from '../utils/searchQuery';
+
+// Other outlets reporting the same story (server/lib/feeds/clustering.js)
+export interface StoryCoverage {
+  clusterId: string;
+  canonicalId: string;     // the version shown when the story appears once
+  sources: number;         // outlets covering the story, this one included
+  alternates: { id: string; title: string; source: string; sourceUrl: string | null; publishedAt: string }[];
+}
 
 // Article shape extended a bit to support UI features and user-created posts
 export interface Article {
@@ -10,8 +20,11 @@ export interface Article {
   summary: string;
   content: string;
   imageUrl: string;
-  author: string;         // human-readable author name (generated articles supply this)
+  author: string;         // human-readable author name (feed articles supply this)
   authorId?: string;      // optional — present for user-created posts
+  feedId?: string;        // present for articles ingested from a news feed
+  sourceUrl?: string;     // the original story, for feed articles
+  coverage?: StoryCoverage;
   publishedAt: string;    // ISO string
   createdAt?: string;
   updatedAt?: string;
@@ -24,7 +37,7 @@ export interface Article {
   localizedContent?: Record<string, { title: string; summary: string; content: string }>;
   culturalContext?: string;
   regionalRelevance?: string[];
-  status?: 'published' | 'draft'; // added for draft/publish support (default published for generated)
+  status?: 'published' | 'draft'; // added for draft/publish support (default published for feed articles)
   views?: number;
 }
 
@@ -36,6 +49,7 @@ interface NewsContextType {
   refreshPersonalizedNews: () => Promise<void>;
   getArticlesByCategory: (category: string) => Article[];
   searchArticles: (query: string) => Article[];
+  search: (query: string, limit?: number) => SearchHit<Article>[]; // throws QuerySyntaxError
   getLocalizedArticles: (language: string) => Article[];
   translateArticle: (article: Article, targetLanguage: string) => Article;
   addNewsArticle: (newArticle: Partial<Article> & { status?: 'draft'|'published' }) => Promise<Article>;
@@ -62,36 +76,30 @@ interface NewsContextType {
 
 const NewsContext = createContext<NewsContextType | undefined>(undefined);
 
-// Local-storage key for user-created posts (frontend-only persistence)
-const USER_POSTS_KEY = 'SignalAI_user_posts_v1';
+// Feed articles and user-created posts are both served by server/routes/articles.js
+const ARTICLES_ENDPOINT = '/api/articles';
+const USER_POSTS_PAGE_SIZE = 500;
+const NEWS_PAGE_SIZE = 500;
 
-function uid(prefix = 'a') {
-  return `${prefix}_${Math.random().toString(36).slice(2, 9)}`;
-}
+type ArticleListResponse = { data: Article[]; total: number };
 
-function loadUserPosts(): Article[] {
-  try {
-    const raw = localStorage.getItem(USER_POSTS_KEY);
-    if (!raw) return [];
-    const arr = JSON.parse(raw) as Article[];
-    return arr;
-  } catch (e) {
-    console.error('loadUserPosts error', e);
-    return [];
-  }
-}
+// Everyone's published posts, plus the current author's drafts when signed in
+async function loadUserPosts(authorId?: string): Promise<Article[]> {
+  const published = await apiRequest<ArticleListResponse>(ARTICLES_ENDPOINT, {
+    query: { status: 'published', limit: USER_POSTS_PAGE_SIZE }
+  });
+  if (!authorId) return published.data;
 
-function saveUserPosts(items: Article[]) {
-  try {
-    localStorage.setItem(USER_POSTS_KEY, JSON.stringify(items));
-  } catch (e) {
-    console.error('saveUserPosts error', e);
-  }
+  const own = await apiRequest<ArticleListResponse>(ARTICLES_ENDPOINT, {
+    query: { authorId, limit: USER_POSTS_PAGE_SIZE }
+  });
+  const map = new Map<string, Article>();
+  for (const a of [...own.data, ...published.data]) map.set(a.id, a);
+  return Array.from(map.values());
 }
 
 export const NewsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [articles, setArticles] = useState<Article[]>([]);
-  const [localizedArticles] = useState<Record<string, Article[]>>({});
   const [personalizedArticles, setPersonalizedArticles] = useState<Article[]>([]);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   // small helper to consistently notify listeners when articles/userPosts change
@@ -105,21 +113,24 @@ export const NewsProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const { currentLanguage } = useLanguage();
-  const { user } = useAuth();
+  const { user, refreshUser } = useAuth();
+  const currentUserId = user ? (user.id || (user as any)._id) : undefined;
 
-  const categories = ['breaking', 'politics', 'india', 'world', 'business', 'technology', 'sports', 'entertainment', 'health'];
-  // supportedLanguages intentionally omitted (not used currently)
+  // user-created posts are loaded from the server; the ref lets deferred work see the latest list
+  const [userPosts, setUserPosts] = useState<Article[]>([]);
+  const userPostsRef = useRef<Article[]>([]);
+  userPostsRef.current = userPosts;
 
-  // user-created posts are persisted separately
-  const [userPosts, setUserPosts] = useState<Article[]>(() => loadUserPosts());
+  // Full-text index over `articles`, brought up to date on the next search
+  const searchIndexRef = useRef(new SearchIndex<Article>());
 
-  // Merge generated articles + userPosts (userPosts appear on top chronologically)
+  // Merge feed articles + userPosts (userPosts appear on top chronologically)
   const mergeArticles = (generated: Article[], users: Article[]) => {
     // unique by id
     const map = new Map<string, Article>();
     // user posts first (so they show up immediately)
     for (const u of users) map.set(u.id, u);
-    // then add generated articles if not already present
+    // then add feed articles if not already present
     for (const g of generated) {
       if (!map.has(g.id)) map.set(g.id, g);
     }
@@ -132,122 +143,38 @@ export const NewsProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
     return arr;
   };
-// --- replace refreshNews in NewsContext.tsx with this ---
-const refreshNews = async (_language: string = 'en') => {
-  setIsLoading(true);
-
-  // small immediate seed so UI shows articles quickly
-  const fastCount = 8;        // number per category for immediate UI
-  const backgroundCount = 92; // remaining per category to generate in background (so total ~=100)
-
-  try {
-    const immediateArticles: Article[] = [];
-    const backgroundBuckets: Record<string, Article[]> = {};
-
-    // synchronous fast generation (quick)
-    for (const category of categories) {
-      const fast = generateArticlesByCategory(category, fastCount, 'en').map(a => normalizeGeneratedArticle(a));
-      immediateArticles.push(...fast);
-
-      // prepare slot for background generation
-      backgroundBuckets[category] = [];
-    }
-
-  // merge with user posts (user posts should still appear on top)
-  const publishedUserPostsNow = userPosts.filter(p => p.status === 'published');
-  const mergedNow = mergeArticles(immediateArticles, publishedUserPostsNow);
-    setArticles(mergedNow);
-    setLastUpdated(new Date());
-    setIsLoading(false); // UI can render now
-
-    // schedule background generation without blocking UI
-    const doBackgroundWork = () => {
-      console.info('Starting background article generation...');
-      try {
-        const bgAll: Article[] = [];
-        for (const category of categories) {
-          // generate the rest for each category
-          const bg = generateArticlesByCategory(category, backgroundCount, 'en').map(a => normalizeGeneratedArticle(a));
-          backgroundBuckets[category] = bg;
-          bgAll.push(...bg);
-        }
-        // merge the background articles with current articles and user posts
-        setArticles(prev => {
-          // prev might already include user posts; ensure we don't duplicate user posts
-          const generatedOnlyNow = [...prev].filter(p => !p.id.startsWith('u'));
-          const publishedUserPostsBg = userPosts.filter(p => p.status === 'published');
-          return mergeArticles([...generatedOnlyNow, ...bgAll], publishedUserPostsBg);
-        });
-        setLastUpdated(new Date());
-        console.info('Background generation complete: added', bgAll.length, 'articles');
-      } catch (bgErr) {
-        console.error('Background generation failed', bgErr);
-      }
-    };
-
-    // use requestIdleCallback in modern browsers so this runs when the main thread is idle
-    if ((window as any).requestIdleCallback) {
-      (window as any).requestIdleCallback(() => doBackgroundWork(), { timeout: 2000 });
-    } else {
-      // fallback - run after a small delay to let UI settle
-      setTimeout(doBackgroundWork, 800);
+  // News comes from the server: stories ingested from the configured feeds
+  // (server/lib/feeds) and everyone's published posts
+  const refreshNews = async (_language: string = 'en') => {
+    try {
+      const res = await apiRequest<ArticleListResponse>(ARTICLES_ENDPOINT, {
+        query: { status: 'published', limit: NEWS_PAGE_SIZE }
+      });
+      const publishedUserPosts = userPostsRef.current.filter(p => p.status === 'published');
+      setArticles(mergeArticles(res.data, publishedUserPosts));
+      setLastUpdated(new Date());
+    } catch (error) {
+      console.error('Error loading news:', error);
+    } finally {
+      setIsLoading(false);
     }
-  } catch (error) {
-    console.error('Error in refreshNews (fast startup):', error);
-    setIsLoading(false);
-  }
-};
-
+  };
 
   const refreshPersonalizedNews = async () => {
     try {
-      const personalizedContent: Article[] = [];
       const trendingCategories = ['breaking', 'politics', 'technology', 'business'];
-      for (const category of trendingCategories) {
-        const categoryArticles = generateArticlesByCategory(category, 25, 'en').map(a => normalizeGeneratedArticle(a));
-        personalizedContent.push(...categoryArticles);
-      }
-      personalizedContent.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
-      setPersonalizedArticles(personalizedContent.slice(0, 50));
-      console.log('Personalized news refreshed: 50 articles');
+      const res = await apiRequest<ArticleListResponse>(ARTICLES_ENDPOINT, {
+        query: { status: 'published', limit: NEWS_PAGE_SIZE }
+      });
+      setPersonalizedArticles(res.data.filter(a => trendingCategories.includes(a.category)).slice(0, 50));
     } catch (error) {
       console.error('Error refreshing personalized news:', error);
     }
   };
 
-  // Normalizes generated articles to include required fields & types
-  function normalizeGeneratedArticle(a: any): Article {
-    return {
-      id: a.id || uid('g'),
-      title: a.title || a.headline || 'Untitled',
-      summary: a.summary || a.excerpt || '',
-      content: a.content || '',
-      imageUrl: a.imageUrl || a.image || '',
-      author: a.author || 'Agency',
-      publishedAt: (a.publishedAt ? new Date(a.publishedAt).toISOString() : new Date().toISOString()),
-      createdAt: a.createdAt ? new Date(a.createdAt).toISOString() : new Date().toISOString(),
-      updatedAt: a.updatedAt ? new Date(a.updatedAt).toISOString() : new Date().toISOString(),
-      category: a.category || 'breaking',
-      source: a.source || 'Wire',
-      readTime: a.readTime || Math.max(1, Math.round((a.content || '').split(/\s+/).length / 200)),
-      tags: a.tags || [],
-      isPremium: !!a.isPremium,
-      language: a.language || 'en',
-      localizedContent: a.localizedContent,
-      culturalContext: a.culturalContext,
-      regionalRelevance: a.regionalRelevance || [],
-      status: 'published',
-      views: a.views || Math.floor(Math.random() * 1000)
-    };
-  }
-
   // Called once at mount (and periodically by intervals)
   useEffect(() => {
-    // load user posts from storage
-    const saved = loadUserPosts();
-    setUserPosts(saved);
-
-    // initial generation + merge
+    // initial load + merge
     (async () => {
       await refreshNews(currentLanguage || 'en');
       await refreshPersonalizedNews();
@@ -262,16 +189,28 @@ const refreshNews = async (_language: string = 'en') => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // (re)load user posts from the server whenever the signed-in author changes
+  useEffect(() => {
+    let cancelled = false;
+    loadUserPosts(currentUserId)
+      .then(posts => {
+        if (!cancelled) setUserPosts(posts);
+      })
+      .catch(err => console.error('loadUserPosts error', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUserId]);
+
   // keep articles merged if userPosts changes
   useEffect(() => {
-    // regenerate merge quickly without regenerating all categories
-    // find generated-only items from current 'articles' by filtering out userPosts ids
+    // re-merge without reloading the news
+    // find feed-only items from current 'articles' by filtering out userPosts ids
     const generatedOnly = articles.filter(a => !userPosts.some(u => u.id === a.id));
     // Only merge user posts that are published into the public articles list.
     const publishedUserPosts = userPosts.filter(p => p.status === 'published');
     const merged = mergeArticles(generatedOnly, publishedUserPosts);
     setArticles(merged);
-    saveUserPosts(userPosts);
     setLastUpdated(new Date());
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [userPosts]);
@@ -286,7 +225,7 @@ const addNewsArticle = async (newArticle: Partial<Article> & { status?: 'draft'|
   const now = new Date().toISOString();
   const generatedId = newArticle.id || `u_${Math.random().toString(36).slice(2, 9)}`;
 
-  const post: Article = {
+  const draft: Article = {
     id: generatedId,
     title: (newArticle.title || 'Untitled').trim(),
     summary: newArticle.summary || '',
@@ -311,10 +250,10 @@ const addNewsArticle = async (newArticle: Partial<Article> & { status?: 'draft'|
   };
 
   // If already present in userPosts, route to edit to avoid duplicates
-  const existsById = userPosts.find(p => p.id === post.id);
+  const existsById = userPosts.find(p => p.id === draft.id);
   if (existsById) {
     try {
-      const edited = await editNewsArticle(post.id, post);
+      const edited = await editNewsArticle(draft.id, draft);
       return edited;
     } catch (e) {
       return existsById;
@@ -324,21 +263,20 @@ const addNewsArticle = async (newArticle: Partial<Article> & { status?: 'draft'|
   // Heuristic dedupe: same title + author within 2 minutes
   const twoMinutesAgo = Date.now() - 2 * 60 * 1000;
   const existsQuick = userPosts.find(p =>
-    p.title === post.title &&
-    (p.author === post.author || p.authorId === post.authorId) &&
+    p.title === draft.title &&
+    (p.author === draft.author || p.authorId === draft.authorId) &&
     new Date(p.createdAt || 0).getTime() >= twoMinutesAgo
   );
   if (existsQuick) return existsQuick;
 
-  // Persist user post
-  setUserPosts(prev => {
-    const next = [post, ...prev.filter(p => p.id !== post.id)];
-    saveUserPosts(next);
-    return next;
-  });
+  // Persist user post on the server; it assigns the id and timestamps
+  const post = await apiRequest<Article>(ARTICLES_ENDPOINT, { method: 'POST', body: draft });
+  setUserPosts(prev => [post, ...prev.filter(p => p.id !== post.id)]);
 
   // Only merge published posts into the public articles list immediately.
   if (post.status === 'published') {
+    // Publishing credits points on the server
+    refreshUser();
     setArticles(prev => {
       const filtered = prev.filter(a => a.id !== post.id);
       const merged = [post, ...filtered];
@@ -373,24 +311,22 @@ const addNewsArticle = async (newArticle: Partial<Article> & { status?: 'draft'|
 const editNewsArticle = async (id: string, updates: Partial<Article>) => {
   if (!id) throw new Error('Invalid id');
 
-  // We'll attempt to update userPosts first — if found, update and return.
+  // We'll attempt to update userPosts first — if found, update on the server and return.
   let updated: Article | undefined;
 
-  // Update userPosts synchronously via setter
-  setUserPosts(prev => {
-    const found = prev.find(p => p.id === id);
-    if (!found) return prev;
-    const merged = { ...found, ...updates, updatedAt: new Date().toISOString() };
-    if ((updates as any).status === 'published' && !merged.publishedAt) merged.publishedAt = new Date().toISOString();
-    updated = merged;
-    const next = prev.map(p => (p.id === id ? merged : p));
-    saveUserPosts(next);
-    return next;
-  });
+  if (userPosts.some(p => p.id === id)) {
+    const saved = await apiRequest<Article>(`${ARTICLES_ENDPOINT}/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: updates
+    });
+    updated = saved;
+    setUserPosts(prev => prev.map(p => (p.id === id ? saved : p)));
+  }
 
   // If we updated a userPost, make sure articles list reflects it
   if (updated) {
     if (updated.status === 'published') {
+      refreshUser();
       // ensure published drafts move into articles (or update existing)
       setArticles(prev => {
         const filtered = prev.filter(a => a.id !== id);
@@ -414,7 +350,7 @@ const editNewsArticle = async (id: string, updates: Partial<Article>) => {
     return updated;
   }
 
-  // Not a user post — try updating in articles (generated content) and return updated copy
+  // Not a user post — try updating in articles (feed content) and return updated copy
   setArticles(prev => {
     let foundUpdated: Article | undefined;
     const next = prev.map(a => {
@@ -461,12 +397,11 @@ const editNewsArticle = async (id: string, updates: Partial<Article>) => {
 const deleteNewsArticle = async (id: string) => {
   if (!id) throw new Error('deleteNewsArticle: missing id');
 
-  setUserPosts(prev => {
-    const next = prev.filter(p => p.id !== id);
-    saveUserPosts(next);
-    return next;
-  });
+  if (userPosts.some(p => p.id === id)) {
+    await apiRequest<void>(`${ARTICLES_ENDPOINT}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
 
+  setUserPosts(prev => prev.filter(p => p.id !== id));
   setArticles(prev => prev.filter(a => a.id !== id));
 
   // ensure listeners are notified after state update
@@ -480,9 +415,18 @@ const deleteNewsArticle = async (id: string) => {
 const fetchByAuthor = async (authorId: string) => {
   if (!authorId) return [];
 
-  // combine userPosts + generated articles that match the authorId
-  const fromUser = userPosts.filter(p => p.authorId === authorId || p.author === authorId);
-  const fromGenerated = articles.filter(a => a.authorId === authorId);
+  // combine the author's server-side posts + feed articles that match the authorId
+  let fromUser: Article[];
+  try {
+    const res = await apiRequest<ArticleListResponse>(ARTICLES_ENDPOINT, {
+      query: { authorId, sort: '-createdAt', limit: USER_POSTS_PAGE_SIZE }
+    });
+    fromUser = res.data;
+  } catch (e) {
+    console.error('fetchByAuthor error', e);
+    fromUser = userPosts.filter(p => p.authorId === authorId || p.author === authorId);
+  }
+  const fromGenerated = articles.filter(a => a.authorId === authorId && !fromUser.some(u => u.id === a.id));
 
   // merge and sort by newest (prefer createdAt then publishedAt)
   const merged = [...fromUser, ...fromGenerated];
@@ -531,8 +475,8 @@ const fetchByAuthor = async (authorId: string) => {
       out = out.filter(a => a.language === opts.language);
     }
     if (opts?.q) {
-      const q = opts.q.toLowerCase();
-      out = out.filter(a => ((a.title + ' ' + a.summary + ' ' + a.content + ' ' + (a.tags || []).join(' ')).toLowerCase().includes(q)));
+      const matching = new Set(search(opts.q, articles.length).map(hit => hit.article.id));
+      out = out.filter(a => matching.has(a.id));
     }
 
     // simple sorting
@@ -554,16 +498,18 @@ const fetchByAuthor = async (authorId: string) => {
     return { data, total: out.length };
   };
 
+  // Feeds are ingested per language, so localized news is the articles in that language
   const getLocalizedArticles = (language: string) => {
     if (language === 'en') {
       return articles;
     }
-    return localizedArticles[language] || articles;
+    const inLanguage = articles.filter(a => a.language === language);
+    return inLanguage.length > 0 ? inLanguage : articles;
   };
 
   const translateArticle = (article: Article, targetLanguage: string) => {
-    if (targetLanguage === 'en') return article;
-    const localizedVersions = localizedArticles[targetLanguage] || [];
+    if (targetLanguage === 'en' || article.language === targetLanguage) return article;
+    const localizedVersions = articles.filter(a => a.language === targetLanguage);
     const matchingArticle = localizedVersions.find(a =>
       a.category === article.category &&
       Math.abs((Date.parse(a.publishedAt || '') || 0) - (Date.parse(article.publishedAt || '') || 0)) < 3600000
@@ -571,17 +517,24 @@ const fetchByAuthor = async (authorId: string) => {
     return matchingArticle || article;
   };
 
+  // Ranked matches with the searched terms and a snippet for highlighting.
+  // `query` uses the syntax in utils/searchQuery; throws QuerySyntaxError when malformed.
+  const search = (query: string, limit = 50) => {
+    const index = searchIndexRef.current;
+    index.sync(articles);
+    return runQuery(index, articles, parseQuery(query), limit);
+  };
+
+  // Free text from other features (the chatbot) that may not be valid query syntax
+  // is searched as plain words instead
   const searchArticles = (query: string) => {
-    const searchTerm = (query || '').toLowerCase();
-    const results = articles.filter(article =>
-      article.title.toLowerCase().includes(searchTerm) ||
-      article.summary.toLowerCase().includes(searchTerm) ||
-      article.content.toLowerCase().includes(searchTerm) ||
-      (article.tags || []).some(tag => tag.toLowerCase().includes(searchTerm)) ||
-      article.author.toLowerCase().includes(searchTerm) ||
-      article.source.toLowerCase().includes(searchTerm)
-    );
-    return results.slice(0, 50);
+    try {
+      return search(query).map(hit => hit.article);
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) throw error;
+      const index = searchIndexRef.current;
+      return index.search(query).map(hit => hit.article);
+    }
   };
 
   // ...existing code...
@@ -597,7 +550,7 @@ const fetchByAuthor = async (authorId: string) => {
   };
 
   const refresh = () => {
-    // small helper to re-run merge without regenerating everything
+    // small helper to re-run merge without reloading everything
     const publishedUserPosts = userPosts.filter(p => p.status === 'published');
     setArticles(prev => mergeArticles(prev.filter(p => !p.id.startsWith('u')), publishedUserPosts));
     setLastUpdated(new Date());
@@ -624,6 +577,7 @@ const fetchByAuthor = async (authorId: string) => {
     refreshPersonalizedNews,
     getArticlesByCategory,
     searchArticles,
+    search,
     getLocalizedArticles,
     translateArticle,
     addNewsArticle,
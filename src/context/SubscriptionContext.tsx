@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
+import { apiRequest } from '../services/apiClient';
+import { CheckoutOrder, CheckoutResult, getCheckoutAdapter } from '../services/checkoutService';
 
 export type SubscriptionTier = 'free' | 'premium' | 'pro';
 
@@ -7,10 +9,14 @@ export interface SubscriptionPlan {
   id: string;
   name: string;
   tier: SubscriptionTier;
-  price: number;
+  price: number;          // rupees, for display only
+  amount: number;         // integer paise, as charged by the server
   currency: string;
   interval: 'month' | 'year';
   features: string[];
+  bonusPoints?: number;   // SignalAI points credited with each paid period
+  trialDays?: number;     // length of the one free trial each account can take
+  seats?: number;         // family and team plans: people covered, the owner included
   popular?: boolean;
   savings?: string;
 }
@@ -22,289 +28,435 @@ export interface Subscription {
   tier: SubscriptionTier;
   startDate: Date;
   endDate: Date;
-  status: 'active' | 'cancelled' | 'expired';
+  // past_due: a renewal failed and is being retried; access continues until graceUntil
+  // cancel_scheduled: cancelled by the user; access continues until endDate
+  // trialing: free trial until endDate, then the first charge converts it to active
+  status: 'active' | 'trialing' | 'past_due' | 'cancel_scheduled' | 'cancelled' | 'expired';
   paymentMethod: string;
+  autoRenew?: boolean;
+  providerSubscriptionId?: string;
+  scheduledChange?: { planId: string; effectiveDate: string } | null;
   razorpayOrderId?: string;
   razorpayPaymentId?: string;
 }
 
+// Wire format of GET /api/subscription (dates are ISO strings)
+interface EntitlementResponse {
+  tier: SubscriptionTier;
+  status: Subscription['status'] | 'none';
+  startDate: string | null;
+  endDate: string | null;
+  nextBillingDate: string | null;
+  graceUntil: string | null;
+  trialEndsAt: string | null;
+  trialEligible: boolean;
+  seat: SeatMembership | null;
+  subscription: SubscriptionRecord | null;
+  history: SubscriptionRecord[];
+}
+
+// A seat on someone else's family or team plan, which grants that plan's tier
+export interface SeatMembership {
+  id: string;
+  ownerId: string;
+  ownerName: string | null;
+  planId: string;
+  endDate: string;
+}
+
+// A seat the signed-in owner has handed out. 'invited' waits for someone to
+// sign up with that email address.
+export interface Seat {
+  id: string;
+  email: string;
+  status: 'invited' | 'active';
+  memberName: string | null;
+  username: string | null;
+  createdAt: string;
+  joinedAt: string | null;
+}
+
+// GET /api/subscription/seats: `used` counts the owner
+export interface SeatUsage {
+  planId: string;
+  limit: number;
+  used: number;
+  seats: Seat[];
+}
+
+// What moving to a plan costs today (GET /api/subscription/quotes). Amounts are paise.
+export interface PlanChangeQuote {
+  type: 'new' | 'upgrade' | 'downgrade';
+  timing: 'now' | 'period_end';   // period_end: switches at the next renewal, nothing due now
+  fromPlanId?: string;
+  toPlanId: string;
+  credit: number;                 // unused value of the current period
+  amountDue: number;
+  currency: string;
+  effectiveDate: string;
+  nextBillingDate: string;
+  nextBillingAmount: number;
+}
+
+// A promo code priced against each plan it applies to (GET /api/coupons/:code).
+// Discounts apply to the first payment only; amounts are paise.
+export interface CouponPreview {
+  coupon: {
+    code: string;
+    description: string;
+    type: 'percent' | 'flat';
+    value: number;
+    expiresAt: string | null;
+  };
+  prices: { planId: string; discount: number; amount: number }[];
+}
+
+export interface GiftRecipient {
+  recipientEmail?: string;
+  recipientName?: string;
+  message?: string;
+}
+
+// A gift code bought by the signed-in user (GET /api/gifts)
+export interface GiftCode extends GiftRecipient {
+  code: string;
+  planId: string;
+  status: 'issued' | 'redeemed';
+  createdAt: string;
+  redeemedAt?: string;
+}
+
+interface GiftVerifyResponse {
+  success: boolean;
+  pending?: boolean;      // the code is issued (and emailed) once the payment is captured
+  giftCode?: string;
+}
+
+interface PlanChangeResponse {
+  quote: PlanChangeQuote;
+  checkout?: CheckoutOrder;
+  entitlement?: EntitlementResponse;
+}
+
+type SubscriptionRecord = Omit<Subscription, 'startDate' | 'endDate'> & { startDate: string; endDate: string };
+
+interface VerifyResponse {
+  success: boolean;
+  message: string;
+  subscriptionId?: string;
+  pending?: boolean;      // authorized but not yet captured; the webhook activates it
+  entitlement: EntitlementResponse;
+}
+
+const CAPTURE_POLL_INTERVAL_MS = 2000;
+const CAPTURE_POLL_ATTEMPTS = 15;
+
 interface SubscriptionContextType {
   currentSubscription: Subscription | null;
+  subscriptionHistory: Subscription[];
   subscriptionTier: SubscriptionTier;
+  nextBillingDate: Date | null;
+  graceUntil: Date | null;
+  trialEndsAt: Date | null;
+  trialDaysLeft: number | null;
+  trialEligible: boolean;
+  seat: SeatMembership | null;
   isSubscribed: boolean;
   isPremium: boolean;
   isPro: boolean;
   plans: SubscriptionPlan[];
-  subscribe: (planId: string) => Promise<void>;
+  quotes: Record<string, PlanChangeQuote>;
+  subscribe: (planId: string, couponCode?: string) => Promise<void>;
+  startTrial: (planId: string) => Promise<void>;
+  previewCoupon: (code: string) => Promise<CouponPreview>;
+  buyGift: (planId: string, recipient: GiftRecipient) => Promise<string | null>;
+  listGifts: () => Promise<GiftCode[]>;
+  redeemGift: (code: string) => Promise<void>;
+  listSeats: () => Promise<SeatUsage>;
+  addSeat: (member: string) => Promise<SeatUsage>;
+  revokeSeat: (seatId: string) => Promise<void>;
+  leaveSeat: () => Promise<void>;
+  changePlan: (planId: string) => Promise<PlanChangeQuote>;
+  cancelScheduledChange: () => Promise<void>;
   cancelSubscription: () => Promise<void>;
+  resumeSubscription: () => Promise<void>;
   checkSubscriptionStatus: () => void;
 }
 
 const SubscriptionContext = createContext<SubscriptionContextType | undefined>(undefined);
 
-const subscriptionPlans: SubscriptionPlan[] = [
-  {
-    id: 'free',
-    name: 'Free',
-    tier: 'free',
-    price: 0,
-    currency: 'INR',
-    interval: 'month',
-    features: [
-      'Access to basic news articles',
-      'Limited voice reading',
-      'Standard news updates',
-      '100 SignalAI Points/month',
-      'Community access'
-    ]
-  },
-  {
-    id: 'premium_monthly',
-    name: 'Premium',
-    tier: 'premium',
-    price: 199,
-    currency: 'INR',
-    interval: 'month',
-    popular: true,
-    features: [
-      'Unlimited premium articles',
-      'Unlimited AI voice reading',
-      'Real-time breaking news alerts',
-      'Ad-free experience',
-      '500 SignalAI Points/month',
-      'Priority customer support',
-      'Exclusive journalist content',
-      'Download articles offline'
-    ]
-  },
-  {
-    id: 'premium_yearly',
-    name: 'Premium Annual',
-    tier: 'premium',
-    price: 1999,
-    currency: 'INR',
-    interval: 'year',
-    savings: 'Save 17%',
-    features: [
-      'All Premium features',
-      'Save ₹390 per year',
-      '6000 SignalAI Points/year',
-      'Early access to new features',
-      'Exclusive webinars with journalists',
-      'Premium badge on profile'
-    ]
-  },
-  {
-    id: 'pro_monthly',
-    name: 'Pro',
-    tier: 'pro',
-    price: 499,
-    currency: 'INR',
-    interval: 'month',
-    features: [
-      'All Premium features',
-      'Advanced AI news analysis',
-      'Personalized news digest',
-      'Multi-device sync',
-      '1500 SignalAI Points/month',
-      'Book journalist appointments (50% off)',
-      'Access to exclusive events',
-      'API access for developers',
-      'White-label content publishing',
-      'Priority verification badge'
-    ]
-  },
-  {
-    id: 'pro_yearly',
-    name: 'Pro Annual',
-    tier: 'pro',
-    price: 4999,
-    currency: 'INR',
-    interval: 'year',
-    savings: 'Save 17%',
-    features: [
-      'All Pro features',
-      'Save ₹990 per year',
-      '18000 SignalAI Points/year',
-      'Lifetime premium badge',
-      'Exclusive founder events',
-      'Direct line to editorial team'
-    ]
-  }
-];
+function toSubscription(record: SubscriptionRecord): Subscription {
+  return { ...record, startDate: new Date(record.startDate), endDate: new Date(record.endDate) };
+}
 
 export const SubscriptionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { user, updateProfile } = useAuth();
+  const { user, refreshUser } = useAuth();
   const [currentSubscription, setCurrentSubscription] = useState<Subscription | null>(null);
+  const [subscriptionHistory, setSubscriptionHistory] = useState<Subscription[]>([]);
+  // Tier is decided by the server; nothing stored in the browser can grant access
+  const [subscriptionTier, setSubscriptionTier] = useState<SubscriptionTier>('free');
+  const [nextBillingDate, setNextBillingDate] = useState<Date | null>(null);
+  const [graceUntil, setGraceUntil] = useState<Date | null>(null);
+  const [trialEndsAt, setTrialEndsAt] = useState<Date | null>(null);
+  const [trialEligible, setTrialEligible] = useState(false);
+  const [seat, setSeat] = useState<SeatMembership | null>(null);
+  // The plan catalog (and its prices) is owned by the server: GET /api/plans
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [quotes, setQuotes] = useState<Record<string, PlanChangeQuote>>({});
 
   useEffect(() => {
-    if (user) {
-      loadSubscription();
+    apiRequest<{ plans: SubscriptionPlan[] }>('/api/plans')
+      .then(res => setPlans(res.plans))
+      .catch(err => console.error('Failed to load plans:', err));
+  }, []);
+
+  const applyEntitlement = (entitlement: EntitlementResponse | null) => {
+    setSubscriptionTier(entitlement ? entitlement.tier : 'free');
+    setNextBillingDate(entitlement?.nextBillingDate ? new Date(entitlement.nextBillingDate) : null);
+    setGraceUntil(entitlement?.graceUntil ? new Date(entitlement.graceUntil) : null);
+    setTrialEndsAt(entitlement?.trialEndsAt ? new Date(entitlement.trialEndsAt) : null);
+    setTrialEligible(!!entitlement?.trialEligible);
+    setSeat(entitlement?.seat || null);
+    setCurrentSubscription(entitlement?.subscription ? toSubscription(entitlement.subscription) : null);
+    setSubscriptionHistory(entitlement ? entitlement.history.map(toSubscription) : []);
+    if (entitlement) {
+      loadQuotes();
     } else {
-      setCurrentSubscription(null);
+      setQuotes({});
     }
-  }, [user]);
-
-  const loadSubscription = () => {
-    const saved = localStorage.getItem(`subscription_${user?.id}`);
-    if (saved) {
-      const subscription = JSON.parse(saved);
-      subscription.startDate = new Date(subscription.startDate);
-      subscription.endDate = new Date(subscription.endDate);
+  };
 
-      if (new Date() > subscription.endDate) {
-        subscription.status = 'expired';
-      }
+  // Prices depend on the current subscription and how much of its term is left
+  const loadQuotes = async () => {
+    try {
+      const res = await apiRequest<{ quotes: PlanChangeQuote[] }>('/api/subscription/quotes');
+      setQuotes(Object.fromEntries(res.quotes.map(q => [q.toPlanId, q])));
+    } catch (error) {
+      console.error('Failed to load plan quotes:', error);
+    }
+  };
 
-      setCurrentSubscription(subscription);
+  const loadSubscription = async () => {
+    try {
+      applyEntitlement(await apiRequest<EntitlementResponse>('/api/subscription'));
+    } catch (error) {
+      console.error('Failed to load subscription:', error);
     }
   };
 
-  const subscriptionTier: SubscriptionTier = currentSubscription?.tier || 'free';
-  const isSubscribed = currentSubscription?.status === 'active';
-  const isPremium = isSubscribed && (subscriptionTier === 'premium' || subscriptionTier === 'pro');
-  const isPro = isSubscribed && subscriptionTier === 'pro';
+  // Re-check entitlement on load and whenever the tab regains focus
+  useEffect(() => {
+    if (!user) {
+      applyEntitlement(null);
+      return;
+    }
+
+    loadSubscription();
+    const onFocus = () => loadSubscription();
+    const onVisibility = () => {
+      if (document.visibilityState === 'visible') loadSubscription();
+    };
+    window.addEventListener('focus', onFocus);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.removeEventListener('focus', onFocus);
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
 
-  const subscribe = async (planId: string): Promise<void> => {
+  const isSubscribed = subscriptionTier !== 'free' && !!currentSubscription &&
+    ['active', 'trialing', 'past_due', 'cancel_scheduled'].includes(currentSubscription.status);
+  // Members of a family or team plan get the owner's tier without a subscription of their own
+  const hasAccess = isSubscribed || !!seat;
+  const isPremium = hasAccess && (subscriptionTier === 'premium' || subscriptionTier === 'pro');
+  const isPro = hasAccess && subscriptionTier === 'pro';
+
+  const subscribe = async (planId: string, couponCode?: string): Promise<void> => {
     if (!user) {
       throw new Error('User must be logged in to subscribe');
     }
 
-    const plan = subscriptionPlans.find(p => p.id === planId);
+    const plan = plans.find(p => p.id === planId);
     if (!plan) {
       throw new Error('Invalid plan');
     }
 
-    return new Promise((resolve, reject) => {
-      createRazorpayOrder(plan)
-        .then(orderData => {
-          openRazorpayCheckout(orderData, plan, resolve, reject);
-        })
-        .catch(reject);
+    // Existing subscribers switch plans instead of buying a second one
+    if (isSubscribed) {
+      await changePlan(planId);
+      return;
+    }
+
+    await payAndVerify(await startCheckout(plan, couponCode), plan);
+  };
+
+  // Checkout only authorizes the payment method; the first charge comes when the trial ends
+  const startTrial = async (planId: string): Promise<void> => {
+    const plan = plans.find(p => p.id === planId);
+    if (!user || !plan) {
+      throw new Error('Invalid plan');
+    }
+
+    const order = await apiRequest<CheckoutOrder>('/api/subscription/trial', {
+      method: 'POST',
+      body: { planId }
     });
+    await payAndVerify(order, plan);
   };
 
-  const createRazorpayOrder = async (plan: SubscriptionPlan) => {
-    try {
-      const response = await fetch('http://localhost:5000/api/order', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          planId: plan.id,
-          amount: plan.price,
-          currency: plan.currency,
-          userId: user?.id
-        })
-      });
+  // Gifts are one-off orders; resolves to the new code, or null while the payment is still being captured
+  const buyGift = async (planId: string, recipient: GiftRecipient): Promise<string | null> => {
+    const plan = plans.find(p => p.id === planId);
+    if (!user || !plan) {
+      throw new Error('Invalid plan');
+    }
 
-      if (!response.ok) {
-        throw new Error('Failed to create order');
+    const order = await apiRequest<CheckoutOrder>('/api/gifts/order', {
+      method: 'POST',
+      body: { planId, ...recipient }
+    });
+    const payment = await getCheckoutAdapter(order.provider).open({
+      order,
+      description: `${plan.name} Gift`,
+      prefill: {
+        name: user.fullName,
+        email: user.email
+      }
+    });
+    const res = await apiRequest<GiftVerifyResponse>('/api/verify', {
+      method: 'POST',
+      body: {
+        razorpay_order_id: payment.razorpay_order_id,
+        razorpay_payment_id: payment.razorpay_payment_id,
+        razorpay_signature: payment.razorpay_signature
       }
+    });
+    return res.giftCode || null;
+  };
 
-      return await response.json();
-    } catch (error) {
-      console.error('Order creation error:', error);
-      throw error;
+  const listGifts = async (): Promise<GiftCode[]> => {
+    const res = await apiRequest<{ gifts: GiftCode[] }>('/api/gifts');
+    return res.gifts;
+  };
+
+  const redeemGift = async (code: string): Promise<void> => {
+    const res = await apiRequest<{ entitlement: EntitlementResponse }>('/api/subscription/redeem', {
+      method: 'POST',
+      body: { code }
+    });
+    applyEntitlement(res.entitlement);
+    // The gifted plan's bonus points were credited on the server
+    await refreshUser();
+  };
+
+  const listSeats = async (): Promise<SeatUsage> => {
+    return apiRequest<SeatUsage>('/api/subscription/seats');
+  };
+
+  // `member` is an email address or a username
+  const addSeat = async (member: string): Promise<SeatUsage> => {
+    const res = await apiRequest<{ usage: SeatUsage }>('/api/subscription/seats', {
+      method: 'POST',
+      body: { member }
+    });
+    return res.usage;
+  };
+
+  const revokeSeat = async (seatId: string): Promise<void> => {
+    await apiRequest(`/api/subscription/seats/${encodeURIComponent(seatId)}`, { method: 'DELETE' });
+  };
+
+  const leaveSeat = async (): Promise<void> => {
+    if (!seat) return;
+    await revokeSeat(seat.id);
+    await loadSubscription();
+  };
+
+  const previewCoupon = async (code: string): Promise<CouponPreview> => {
+    return apiRequest<CouponPreview>(`/api/coupons/${encodeURIComponent(code.trim())}`);
+  };
+
+  const changePlan = async (planId: string): Promise<PlanChangeQuote> => {
+    const plan = plans.find(p => p.id === planId);
+    if (!user || !plan) {
+      throw new Error('Invalid plan');
+    }
+
+    const res = await apiRequest<PlanChangeResponse>('/api/subscription/change', {
+      method: 'POST',
+      body: { planId }
+    });
+
+    if (res.checkout) {
+      // Upgrade: pay the prorated amount for a replacement subscription
+      await payAndVerify(res.checkout, plan);
+    } else if (res.entitlement) {
+      applyEntitlement(res.entitlement);
     }
+    return res.quote;
+  };
+
+  const cancelScheduledChange = async (): Promise<void> => {
+    applyEntitlement(await apiRequest<EntitlementResponse>('/api/subscription/change', { method: 'DELETE' }));
   };
 
-  const openRazorpayCheckout = (
-    orderData: any,
-    plan: SubscriptionPlan,
-    resolve: () => void,
-    reject: (error: Error) => void
-  ) => {
-    const options = {
-      key: orderData.key_id,
-      amount: orderData.amount,
-      currency: orderData.currency,
-      name: 'SignalAI News',
+  const payAndVerify = async (order: CheckoutOrder, plan: SubscriptionPlan) => {
+    const payment = await getCheckoutAdapter(order.provider).open({
+      order,
       description: `${plan.name} Subscription`,
-      image: '/News.png',
-      order_id: orderData.order_id,
-      handler: async (response: any) => {
-        try {
-          await verifyPayment(response, plan);
-          resolve();
-        } catch (error) {
-          reject(error as Error);
-        }
-      },
       prefill: {
         name: user?.fullName,
-        email: user?.email,
-      },
-      theme: {
-        color: '#bb1919'
-      },
-      modal: {
-        ondismiss: () => {
-          reject(new Error('Payment cancelled'));
-        }
+        email: user?.email
       }
-    };
-
-    const razorpay = new (window as any).Razorpay(options);
-    razorpay.open();
+    });
+    await verifyPayment(payment);
   };
 
-  const verifyPayment = async (paymentResponse: any, plan: SubscriptionPlan) => {
+  // Plans renew automatically: checkout creates a provider subscription
+  const startCheckout = async (plan: SubscriptionPlan, couponCode?: string) => {
     try {
-      const response = await fetch('http://localhost:5000/api/verify', {
+      // Only the plan id (and coupon code) is sent; the server decides the amount
+      return await apiRequest<CheckoutOrder>('/api/subscription/checkout', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          razorpay_order_id: paymentResponse.razorpay_order_id,
-          razorpay_payment_id: paymentResponse.razorpay_payment_id,
-          razorpay_signature: paymentResponse.razorpay_signature,
-          userId: user?.id,
-          planId: plan.id
-        })
+        body: { planId: plan.id, ...(couponCode ? { couponCode } : {}) }
       });
+    } catch (error) {
+      console.error('Subscription checkout error:', error);
+      throw error;
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error('Payment verification failed');
+  // Delayed capture: poll the server until the webhook has activated the subscription
+  const waitForActivation = async (providerSubscriptionId: string): Promise<EntitlementResponse> => {
+    for (let attempt = 0; attempt < CAPTURE_POLL_ATTEMPTS; attempt++) {
+      await new Promise(r => setTimeout(r, CAPTURE_POLL_INTERVAL_MS));
+      const entitlement = await apiRequest<EntitlementResponse>('/api/subscription');
+      if (entitlement.subscription?.providerSubscriptionId === providerSubscriptionId && entitlement.status === 'active') {
+        return entitlement;
       }
+    }
+    throw new Error('Your payment is being processed. Your subscription will activate shortly.');
+  };
 
-      const data = await response.json();
+  const verifyPayment = async (paymentResponse: CheckoutResult) => {
+    try {
+      const data = await apiRequest<VerifyResponse>('/api/subscription/verify', {
+        method: 'POST',
+        body: {
+          razorpay_subscription_id: paymentResponse.razorpay_subscription_id,
+          razorpay_payment_id: paymentResponse.razorpay_payment_id,
+          razorpay_signature: paymentResponse.razorpay_signature
+        }
+      });
 
-      const startDate = new Date();
-      const endDate = new Date();
-      if (plan.interval === 'month') {
-        endDate.setMonth(endDate.getMonth() + 1);
-      } else {
-        endDate.setFullYear(endDate.getFullYear() + 1);
-      }
+      // The server persisted the subscription; adopt its view of the entitlement
+      applyEntitlement(data.pending
+        ? await waitForActivation(paymentResponse.razorpay_subscription_id || '')
+        : data.entitlement);
 
-      const subscription: Subscription = {
-        id: data.subscriptionId || Date.now().toString(),
-        userId: user!.id,
-        planId: plan.id,
-        tier: plan.tier,
-        startDate,
-        endDate,
-        status: 'active',
-        paymentMethod: 'razorpay',
-        razorpayOrderId: paymentResponse.razorpay_order_id,
-        razorpayPaymentId: paymentResponse.razorpay_payment_id
-      };
-
-      localStorage.setItem(`subscription_${user?.id}`, JSON.stringify(subscription));
-      setCurrentSubscription(subscription);
-
-      const bonusPoints = plan.tier === 'pro'
-        ? (plan.interval === 'month' ? 1500 : 18000)
-        : (plan.interval === 'month' ? 500 : 6000);
-
-      if (updateProfile && user) {
-        updateProfile({
-          SignalAIPoints: (user.SignalAIPoints || 0) + bonusPoints
-        });
-      }
+      // The server credited the plan's bonus points
+      await refreshUser();
     } catch (error) {
       console.error('Payment verification error:', error);
       throw error;
@@ -314,32 +466,52 @@ export const SubscriptionProvider: React.FC<{ children: ReactNode }> = ({ childr
   const cancelSubscription = async (): Promise<void> => {
     if (!currentSubscription) return;
 
-    const cancelled = { ...currentSubscription, status: 'cancelled' as const };
-    localStorage.setItem(`subscription_${user?.id}`, JSON.stringify(cancelled));
-    setCurrentSubscription(cancelled);
+    applyEntitlement(await apiRequest<EntitlementResponse>('/api/subscription/cancel', { method: 'POST' }));
+  };
+
+  const resumeSubscription = async (): Promise<void> => {
+    applyEntitlement(await apiRequest<EntitlementResponse>('/api/subscription/resume', { method: 'POST' }));
   };
 
+  const trialDaysLeft = trialEndsAt
+    ? Math.max(0, Math.ceil((trialEndsAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)))
+    : null;
+
   const checkSubscriptionStatus = () => {
-    if (currentSubscription && currentSubscription.status === 'active') {
-      if (new Date() > currentSubscription.endDate) {
-        const expired = { ...currentSubscription, status: 'expired' as const };
-        localStorage.setItem(`subscription_${user?.id}`, JSON.stringify(expired));
-        setCurrentSubscription(expired);
-      }
-    }
+    if (user) loadSubscription();
   };
 
   return (
     <SubscriptionContext.Provider
       value={{
         currentSubscription,
+        subscriptionHistory,
         subscriptionTier,
+        nextBillingDate,
+        graceUntil,
+        trialEndsAt,
+        trialDaysLeft,
+        trialEligible,
+        seat,
         isSubscribed,
         isPremium,
         isPro,
-        plans: subscriptionPlans,
+        plans,
+        quotes,
         subscribe,
+        startTrial,
+        previewCoupon,
+        buyGift,
+        listGifts,
+        redeemGift,
+        listSeats,
+        addSeat,
+        revokeSeat,
+        leaveSeat,
+        changePlan,
+        cancelScheduledChange,
         cancelSubscription,
+        resumeSubscription,
         checkSubscriptionStatus
       }}
     >
@@ -5,6 +5,7 @@ import ArticleCard from '../components/ArticleCard';
 import FeaturedArticle from '../components/FeaturedArticle';
 import { useNews } from '../context/NewsContext';
 import { useLanguage } from '../context/LanguageContext';
+import { oneCardPerStory } from '../utils/stories';
 
 interface HomePageProps {
   onArticleClick: (article: any) => void;
@@ -29,16 +30,19 @@ const HomePage: React.FC<HomePageProps> = ({ onArticleClick }) => {
     );
   }
 
-  const breakingNews = displayArticles.filter(article => 
+  // A story covered by several outlets gets one card
+  const stories = oneCardPerStory(displayArticles);
+
+  const breakingNews = stories.filter(article => 
     article.category === 'breaking' || 
     new Date(article.publishedAt).getTime() > Date.now() - 3600000
   ).slice(0, 5);
 
-  const featuredArticles = displayArticles.slice(0, 3);
-  const indiaNews = displayArticles.filter(article => article.category === 'india').slice(0, 6);
-  const worldNews = displayArticles.filter(article => article.category === 'world').slice(0, 4);
-  const businessNews = displayArticles.filter(article => article.category === 'business').slice(0, 4);
-  const sportsNews = displayArticles.filter(article => article.category === 'sports').slice(0, 4);
+  const featuredArticles = stories.slice(0, 3);
+  const indiaNews = stories.filter(article => article.category === 'india').slice(0, 6);
+  const worldNews = stories.filter(article => article.category === 'world').slice(0, 4);
+  const businessNews = stories.filter(article => article.category === 'business').slice(0, 4);
+  const sportsNews = stories.filter(article => article.category === 'sports').slice(0, 4);
   
   // Get cultural context for current language
   const culturalContext = getCulturalContext(currentLanguage);
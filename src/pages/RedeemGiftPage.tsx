@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Gift, AlertCircle } from 'lucide-react';
+import { useSubscription } from '../context/SubscriptionContext';
+import { useAuth } from '../context/AuthContext';
+
+const RedeemGiftPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { redeemGift } = useSubscription();
+  const { isAuthenticated } = useAuth();
+  const [code, setCode] = useState(searchParams.get('code') || '');
+  const [error, setError] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsRedeeming(true);
+    setError('');
+
+    try {
+      await redeemGift(code.trim());
+      navigate('/subscription/success');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not redeem this gift code');
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center px-4 py-12">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex flex-col items-center text-center mb-6">
+          <div className="bg-red-100 rounded-full p-4 mb-4">
+            <Gift className="w-10 h-10 text-red-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Redeem a gift</h1>
+          <p className="text-gray-600">
+            Enter the gift code you received to start your SignalAI subscription.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-600 mr-2 flex-shrink-0" />
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isAuthenticated ? (
+          <form onSubmit={handleRedeem} className="space-y-4">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="GIFT-XXXX-XXXX-XXXX"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg font-mono tracking-wider uppercase focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={isRedeeming || !code.trim()}
+              className="w-full bg-red-600 hover:bg-red-700 text-white py-3 rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRedeeming ? 'Redeeming...' : 'Redeem gift'}
+            </button>
+          </form>
+        ) : (
+          <p className="text-center text-sm text-gray-700 bg-gray-50 rounded-lg p-4">
+            Please login or create an account to redeem your gift. Your code will still be here afterwards.
+          </p>
+        )}
+
+        <p className="text-center text-sm text-gray-500 mt-6">
+          <Link to="/subscription" className="text-red-600 hover:text-red-700 font-medium">
+            View plans
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default RedeemGiftPage;
@@ -1,65 +1,64 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Search, Filter, Clock, TrendingUp } from 'lucide-react';
+import { Search, Filter, Clock, TrendingUp, AlertCircle } from 'lucide-react';
 import ArticleCard from '../components/ArticleCard';
 import FeaturedArticle from '../components/FeaturedArticle';
-import { useNews } from '../context/NewsContext';
+import SearchFacets from '../components/SearchFacets';
+import { useNews, Article } from '../context/NewsContext';
 import { useLanguage } from '../context/LanguageContext';
+import type { SearchHit } from '../utils/searchIndex';
+import { QuerySyntaxError } from '../utils/searchQuery';
+import { readSelection, toggleParam, clearParams, hasSelection, applyFacets, facetCounts, FacetKey } from '../utils/searchFacets';
+
+const RESULTS_SHOWN = 30;
 
 interface SearchPageProps {
   onArticleClick: (article: any) => void;
 }
 
 const SearchPage: React.FC<SearchPageProps> = ({ onArticleClick }) => {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const query = searchParams.get('q') || '';
-  const { searchArticles, getArticlesByCategory, isLoading } = useNews();
+  const { search, isLoading } = useNews();
   const { translations } = useLanguage();
   
-  const [filteredArticles, setFilteredArticles] = useState<any[]>([]);
+  // Every match for the query; facets narrow this down
+  const [matches, setMatches] = useState<SearchHit<Article>[]>([]);
   const [sortBy, setSortBy] = useState<'newest' | 'relevance' | 'popular'>('relevance');
+  const [queryError, setQueryError] = useState<string | null>(null);
 
   useEffect(() => {
     if (query) {
-      let results = searchArticles(query);
-      
-      // Add city-specific filtering if the query contains city names
-      const cityKeywords = ['delhi', 'mumbai', 'bangalore', 'chennai', 'kolkata', 'hyderabad'];
-      const cityMatch = cityKeywords.find(city => query.toLowerCase().includes(city));
-      
-      if (cityMatch) {
-        // Get additional local news articles
-        const localArticles = getArticlesByCategory('india').filter(article =>
-          article.title.toLowerCase().includes(cityMatch) ||
-          article.summary.toLowerCase().includes(cityMatch)
-        );
-        results = [...results, ...localArticles];
+      // Hits come back ranked by relevance (BM25 over title, tags, summary and content)
+      try {
+        setMatches(search(query, Infinity));
+        setQueryError(null);
+      } catch (error) {
+        if (!(error instanceof QuerySyntaxError)) throw error;
+        setQueryError(error.message);
+        setMatches([]);
       }
+    }
+  }, [query, search]);
+
+  const selection = useMemo(() => readSelection(searchParams), [searchParams]);
+  const filtering = hasSelection(selection);
+  const counts = useMemo(() => facetCounts(matches, hit => hit.article, selection), [matches, selection]);
+  const filtered = useMemo(() => applyFacets(matches, hit => hit.article, selection), [matches, selection]);
 
-      // Remove duplicates and sort
-      const uniqueResults = results.filter((article, index, self) =>
-        index === self.findIndex(a => a.id === article.id)
-      );
-
-      // Apply sorting
-      uniqueResults.sort((a, b) => {
-        switch (sortBy) {
-          case 'newest':
-            return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
-          case 'popular':
-            return Math.random() - 0.5;
-          case 'relevance':
-          default:
-            // Simple relevance score based on title match
-            const aScore = a.title.toLowerCase().includes(query.toLowerCase()) ? 2 : 1;
-            const bScore = b.title.toLowerCase().includes(query.toLowerCase()) ? 2 : 1;
-            return bScore - aScore;
-        }
-      });
-
-      setFilteredArticles(uniqueResults.slice(0, 30));
+  const results = useMemo(() => {
+    const hits = [...filtered];
+    if (sortBy === 'newest') {
+      hits.sort((a, b) => new Date(b.article.publishedAt).getTime() - new Date(a.article.publishedAt).getTime());
+    } else if (sortBy === 'popular') {
+      hits.sort((a, b) => (b.article.views || 0) - (a.article.views || 0));
     }
-  }, [query, searchArticles, getArticlesByCategory, sortBy]);
+    return hits.slice(0, RESULTS_SHOWN);
+  }, [filtered, sortBy]);
+
+  // Facet choices are kept in the URL so filtered searches can be shared
+  const toggleFacet = (key: FacetKey, value: string) => setSearchParams(toggleParam(searchParams, key, value));
+  const clearFacets = () => setSearchParams(clearParams(searchParams));
 
   if (isLoading) {
     return (
@@ -94,7 +93,9 @@ const SearchPage: React.FC<SearchPageProps> = ({ onArticleClick }) => {
             <div className="bg-red-600 p-2">
               <TrendingUp className="w-4 h-4 text-white" />
             </div>
-            <span className="text-sm">{filteredArticles.length} articles found</span>
+            <span className="text-sm">
+              {filtering ? `${filtered.length} of ${matches.length} articles` : `${matches.length} articles found`}
+            </span>
           </div>
           
           <div className="flex items-center space-x-2">
@@ -112,56 +113,99 @@ const SearchPage: React.FC<SearchPageProps> = ({ onArticleClick }) => {
         </div>
       </div>
 
-      {/* Featured Result */}
-      {filteredArticles.length > 0 && (
-        <div className="mb-8">
-          <h2 className="text-2xl font-bold bbc-heading mb-6">Featured Result</h2>
-          <FeaturedArticle 
-            article={filteredArticles[0]}
-            onClick={() => onArticleClick(filteredArticles[0])}
-            size="large"
-          />
-        </div>
-      )}
-
-      {/* Search Results */}
-      {filteredArticles.length > 1 && (
-        <div>
-          <h2 className="text-2xl font-bold bbc-heading mb-6">All Results</h2>
-          <div className="bbc-grid bbc-grid-articles gap-6">
-            {filteredArticles.slice(1).map(article => (
-              <ArticleCard
-                key={article.id}
-                article={article}
-                onClick={() => onArticleClick(article)}
-                showFullDetails={true}
-              />
-            ))}
+      <div className="lg:flex lg:items-start lg:space-x-8">
+        {matches.length > 0 && (
+          <div className="lg:w-64 flex-shrink-0 mb-8">
+            <SearchFacets counts={counts} hasSelection={filtering} onToggle={toggleFacet} onClear={clearFacets} />
           </div>
-        </div>
-      )}
+        )}
 
-      {/* No Results */}
-      {filteredArticles.length === 0 && query && (
-        <div className="text-center py-12">
-          <div className="bbc-card p-6 mx-auto mb-6 w-fit">
-            <Search className="w-16 h-16 bbc-accent" />
-          </div>
-          <h2 className="text-2xl font-bold bbc-heading mb-4">No results found</h2>
-          <p className="bbc-text mb-8">Try searching with different keywords or browse our categories</p>
-          <div className="flex flex-wrap justify-center gap-4">
-            {['India', 'World', 'Business', 'Technology', 'Sports'].map(category => (
-              <button
-                key={category}
-                onClick={() => window.location.href = `/category/${category.toLowerCase()}`}
-                className="bbc-button-primary text-white px-6 py-3 text-sm bbc-transition"
-              >
-                {category} News
+        <div className="flex-1 min-w-0">
+          {/* Featured Result */}
+          {results.length > 0 && (
+            <div className="mb-8">
+              <h2 className="text-2xl font-bold bbc-heading mb-6">Featured Result</h2>
+              <FeaturedArticle 
+                article={results[0].article}
+                onClick={() => onArticleClick(results[0].article)}
+                size="large"
+                highlightTerms={results[0].terms}
+                excerpt={results[0].snippet}
+              />
+            </div>
+          )}
+
+          {/* Search Results */}
+          {results.length > 1 && (
+            <div>
+              <h2 className="text-2xl font-bold bbc-heading mb-6">All Results</h2>
+              <div className="bbc-grid bbc-grid-articles gap-6">
+                {results.slice(1).map(hit => (
+                  <ArticleCard
+                    key={hit.article.id}
+                    article={hit.article}
+                    onClick={() => onArticleClick(hit.article)}
+                    showFullDetails={true}
+                    highlightTerms={hit.terms}
+                    excerpt={hit.snippet}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Malformed query */}
+          {queryError && (
+            <div className="bbc-card p-6 mb-8 border-l-4 border-red-600">
+              <div className="flex items-start space-x-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h2 className="font-bold bbc-heading mb-1">This search could not be run</h2>
+                  <p className="bbc-text text-sm mb-3">{queryError}</p>
+                  <p className="bbc-text text-xs">
+                    Search syntax: <code>"exact phrase"</code>, <code>-exclude</code>, <code>rbi OR sebi</code>,{' '}
+                    <code>category:business</code>, <code>author:"Priya Sharma"</code>, <code>source:</code>,{' '}
+                    <code>tag:</code>, <code>title:</code>, <code>language:hi</code>, <code>premium:false</code>,{' '}
+                    <code>after:2026-09-01</code>, <code>before:2026-10-01</code>, <code>last:7d</code>
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Filters exclude every match */}
+          {results.length === 0 && matches.length > 0 && (
+            <div className="text-center py-12">
+              <h2 className="text-2xl font-bold bbc-heading mb-4">No results match these filters</h2>
+              <button onClick={clearFacets} className="bbc-button-primary text-white px-6 py-3 text-sm bbc-transition">
+                Clear filters
               </button>
-            ))}
-          </div>
+            </div>
+          )}
+
+          {/* No Results */}
+          {matches.length === 0 && query && !queryError && (
+            <div className="text-center py-12">
+              <div className="bbc-card p-6 mx-auto mb-6 w-fit">
+                <Search className="w-16 h-16 bbc-accent" />
+              </div>
+              <h2 className="text-2xl font-bold bbc-heading mb-4">No results found</h2>
+              <p className="bbc-text mb-8">Try searching with different keywords or browse our categories</p>
+              <div className="flex flex-wrap justify-center gap-4">
+                {['India', 'World', 'Business', 'Technology', 'Sports'].map(category => (
+                  <button
+                    key={category}
+                    onClick={() => window.location.href = `/category/${category.toLowerCase()}`}
+                    className="bbc-button-primary text-white px-6 py-3 text-sm bbc-transition"
+                  >
+                    {category} News
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 };
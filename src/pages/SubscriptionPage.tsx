@@ -1,39 +1,57 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Crown, Star, Shield, Zap, CheckCircle, AlertCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Crown, Star, Shield, Zap, CheckCircle, AlertCircle, CalendarClock, Tag, X, Gift, Copy } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import { useSubscription } from '../context/SubscriptionContext';
+import { CouponPreview, GiftCode, useSubscription } from '../context/SubscriptionContext';
 import { useLanguage } from '../context/LanguageContext';
 import PlanCard from '../components/PlanCard';
 
-declare global {
-  interface Window {
-    Razorpay: any;
-  }
-}
-
 const SubscriptionPage: React.FC = () => {
   const { user, isAuthenticated } = useAuth();
-  const { plans, subscriptionTier, subscribe, currentSubscription } = useSubscription();
+  const {
+    plans,
+    quotes,
+    subscriptionTier,
+    isSubscribed,
+    seat,
+    subscribe,
+    startTrial,
+    trialEligible,
+    trialEndsAt,
+    previewCoupon,
+    buyGift,
+    listGifts,
+    changePlan,
+    cancelScheduledChange,
+    currentSubscription
+  } = useSubscription();
   const { currentLanguage } = useLanguage();
   const navigate = useNavigate();
 
   // ✅ Changed: track which plan is processing, not global boolean
   const [processingPlanId, setProcessingPlanId] = useState<string | null>(null);
   const [error, setError] = useState('');
-  const [isScriptLoaded, setIsScriptLoaded] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [couponInput, setCouponInput] = useState('');
+  const [coupon, setCoupon] = useState<CouponPreview | null>(null);
+  const [couponError, setCouponError] = useState('');
+  const [isCheckingCoupon, setIsCheckingCoupon] = useState(false);
+  // Buying for yourself, or one term of a plan as a gift
+  const [isGiftMode, setIsGiftMode] = useState(false);
+  const [giftRecipient, setGiftRecipient] = useState({ recipientEmail: '', recipientName: '', message: '' });
+  const [purchasedGiftCode, setPurchasedGiftCode] = useState('');
+  const [gifts, setGifts] = useState<GiftCode[]>([]);
 
   useEffect(() => {
-    const script = document.createElement('script');
-    script.src = 'https://checkout.razorpay.com/v1/checkout.js';
-    script.async = true;
-    script.onload = () => setIsScriptLoaded(true);
-    document.body.appendChild(script);
+    if (!isGiftMode || !isAuthenticated) return;
+    listGifts()
+      .then(setGifts)
+      .catch(err => console.error('Failed to load gifts:', err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isGiftMode, isAuthenticated, purchasedGiftCode]);
 
-    return () => {
-      document.body.removeChild(script);
-    };
-  }, []);
+  const scheduledChange = isSubscribed ? currentSubscription?.scheduledChange : null;
+  const scheduledPlan = scheduledChange ? plans.find(p => p.id === scheduledChange.planId) : undefined;
 
   const handleSubscribe = async (planId: string) => {
     if (!isAuthenticated) {
@@ -41,17 +59,26 @@ const SubscriptionPage: React.FC = () => {
       return;
     }
 
-    if (!isScriptLoaded) {
-      alert('Payment system is loading. Please try again in a moment.');
-      return;
-    }
-
     setProcessingPlanId(planId); // ✅ only the clicked plan
     setError('');
+    setNotice('');
 
     try {
-      await subscribe(planId);
-      navigate('/subscription/success');
+      if (!isSubscribed) {
+        const couponApplies = coupon?.prices.some(p => p.planId === planId);
+        await subscribe(planId, couponApplies ? coupon?.coupon.code : undefined);
+        navigate('/subscription/success');
+        return;
+      }
+
+      // Downgrades are booked for the next renewal; upgrades are paid for now
+      const quote = await changePlan(planId);
+      if (quote.timing === 'now') {
+        navigate('/subscription/success');
+      } else {
+        const plan = plans.find(p => p.id === planId);
+        setNotice(`You'll move to ${plan?.name} on ${new Date(quote.effectiveDate).toLocaleDateString()}.`);
+      }
     } catch (err: any) {
       setError(err.message || 'Subscription failed. Please try again.');
       console.error('Subscription error:', err);
@@ -60,6 +87,84 @@ const SubscriptionPage: React.FC = () => {
     }
   };
 
+  const handleBuyGift = async (planId: string) => {
+    if (!isAuthenticated) {
+      alert('Please login to buy a gift');
+      return;
+    }
+
+    setProcessingPlanId(planId);
+    setError('');
+    setNotice('');
+    setPurchasedGiftCode('');
+
+    try {
+      const code = await buyGift(planId, {
+        recipientEmail: giftRecipient.recipientEmail.trim() || undefined,
+        recipientName: giftRecipient.recipientName.trim() || undefined,
+        message: giftRecipient.message.trim() || undefined
+      });
+      if (code) {
+        setPurchasedGiftCode(code);
+      } else {
+        setNotice("Your payment is being processed. We'll email you the gift code as soon as it completes.");
+      }
+      setGiftRecipient({ recipientEmail: '', recipientName: '', message: '' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Gift purchase failed. Please try again.');
+    } finally {
+      setProcessingPlanId(null);
+    }
+  };
+
+  const handleStartTrial = async (planId: string) => {
+    setProcessingPlanId(planId);
+    setError('');
+    setNotice('');
+
+    try {
+      await startTrial(planId);
+      const plan = plans.find(p => p.id === planId);
+      setNotice(`Your ${plan?.name} trial has started. Enjoy!`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start your trial. Please try again.');
+    } finally {
+      setProcessingPlanId(null);
+    }
+  };
+
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!couponInput.trim()) return;
+
+    setIsCheckingCoupon(true);
+    setCouponError('');
+    try {
+      setCoupon(await previewCoupon(couponInput));
+    } catch (err) {
+      setCoupon(null);
+      setCouponError(err instanceof Error ? err.message : 'Could not check this code. Please try again.');
+    } finally {
+      setIsCheckingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setCoupon(null);
+    setCouponInput('');
+    setCouponError('');
+  };
+
+  const handleKeepPlan = async () => {
+    setError('');
+    setNotice('');
+    try {
+      await cancelScheduledChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not cancel the plan change. Please try again.');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       <div className="bg-gradient-to-r from-red-600 to-red-700 text-white py-16">
@@ -77,11 +182,13 @@ const SubscriptionPage: React.FC = () => {
               Get unlimited access to premium content, AI voice reading, and exclusive features
             </p>
 
-            {currentSubscription && currentSubscription.status === 'active' && (
+            {isSubscribed && (
               <div className="inline-flex items-center bg-green-500 text-white px-6 py-3 rounded-lg">
                 <CheckCircle className="w-5 h-5 mr-2" />
                 <span className="font-semibold">
-                  You have an active {subscriptionTier} subscription
+                  {trialEndsAt
+                    ? `Your ${subscriptionTier} trial ends on ${trialEndsAt.toLocaleDateString()}`
+                    : `You have an active ${subscriptionTier} subscription`}
                 </span>
               </div>
             )}
@@ -98,14 +205,185 @@ const SubscriptionPage: React.FC = () => {
         </div>
       )}
 
+      {notice && (
+        <div className="max-w-7xl mx-auto px-4 pt-8">
+          <div className="bg-green-50 border border-green-200 text-green-700 px-6 py-4 rounded-lg flex items-center">
+            <CheckCircle className="w-5 h-5 mr-3 flex-shrink-0" />
+            <p>{notice}</p>
+          </div>
+        </div>
+      )}
+
+      {scheduledChange && scheduledPlan && (
+        <div className="max-w-7xl mx-auto px-4 pt-8">
+          <div className="bg-blue-50 border border-blue-200 text-blue-800 px-6 py-4 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <CalendarClock className="w-5 h-5 mr-3 flex-shrink-0" />
+              <p>
+                Your plan changes to {scheduledPlan.name} on{' '}
+                {new Date(scheduledChange.effectiveDate).toLocaleDateString()}.
+              </p>
+            </div>
+            <button
+              onClick={handleKeepPlan}
+              className="ml-4 px-4 py-2 text-sm font-medium bg-white border border-blue-300 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              Keep current plan
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="max-w-7xl mx-auto px-4 py-12">
+        <div className="flex flex-col items-center mb-10">
+          <div className="inline-flex bg-white border border-gray-200 rounded-lg p-1 shadow-sm">
+            <button
+              onClick={() => setIsGiftMode(false)}
+              className={`px-5 py-2 rounded-md text-sm font-medium transition-colors ${!isGiftMode ? 'bg-red-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+            >
+              For me
+            </button>
+            <button
+              onClick={() => setIsGiftMode(true)}
+              className={`px-5 py-2 rounded-md text-sm font-medium transition-colors inline-flex items-center ${isGiftMode ? 'bg-red-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+            >
+              <Gift className="w-4 h-4 mr-2" />
+              As a gift
+            </button>
+          </div>
+          <Link to="/subscription/redeem" className="mt-3 text-sm text-red-600 hover:text-red-700 font-medium">
+            Have a gift code? Redeem it
+          </Link>
+        </div>
+
+        {isGiftMode && (
+          <div className="max-w-2xl mx-auto mb-10 bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Send SignalAI as a gift</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Pick a plan below. You get a single-use gift code for one billing period of that plan.
+              Add their email and we'll send it to them too.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+              <input
+                type="email"
+                value={giftRecipient.recipientEmail}
+                onChange={(e) => setGiftRecipient({ ...giftRecipient, recipientEmail: e.target.value })}
+                placeholder="Recipient's email (optional)"
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+              <input
+                type="text"
+                value={giftRecipient.recipientName}
+                onChange={(e) => setGiftRecipient({ ...giftRecipient, recipientName: e.target.value })}
+                placeholder="Recipient's name (optional)"
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+            </div>
+            <textarea
+              value={giftRecipient.message}
+              onChange={(e) => setGiftRecipient({ ...giftRecipient, message: e.target.value })}
+              placeholder="Add a personal message (optional)"
+              maxLength={500}
+              rows={2}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+
+            {purchasedGiftCode && (
+              <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+                <p className="text-sm text-green-800 mb-2">Your gift code is ready. We've emailed it to you as well.</p>
+                <div className="flex items-center justify-between bg-white border border-green-300 rounded-lg px-4 py-2">
+                  <span className="font-mono font-semibold tracking-wider text-gray-900">{purchasedGiftCode}</span>
+                  <button
+                    onClick={() => navigator.clipboard?.writeText(purchasedGiftCode)}
+                    className="ml-4 text-green-700 hover:text-green-900"
+                    aria-label="Copy gift code"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {gifts.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Gifts you've bought</h3>
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {gifts.map(gift => (
+                    <li key={gift.code} className="flex items-center justify-between py-2">
+                      <span>
+                        <span className="font-mono text-gray-900">{gift.code}</span>
+                        <span className="text-gray-500">
+                          {' '}· {plans.find(p => p.id === gift.planId)?.name || gift.planId}
+                          {gift.recipientEmail && ` · ${gift.recipientEmail}`}
+                        </span>
+                      </span>
+                      <span className={`text-xs font-medium ${gift.status === 'redeemed' ? 'text-gray-500' : 'text-green-700'}`}>
+                        {gift.status === 'redeemed' ? 'Redeemed' : 'Not yet redeemed'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {isAuthenticated && !isSubscribed && !isGiftMode && (
+          <div className="max-w-md mx-auto mb-10">
+            {coupon ? (
+              <div className="flex items-center justify-between bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg">
+                <div className="flex items-center">
+                  <Tag className="w-5 h-5 mr-3 flex-shrink-0" />
+                  <p className="text-sm">
+                    <span className="font-semibold">{coupon.coupon.code}</span> applied
+                    {coupon.coupon.description && ` — ${coupon.coupon.description}`}
+                  </p>
+                </div>
+                <button
+                  onClick={handleRemoveCoupon}
+                  className="ml-4 text-green-700 hover:text-green-900"
+                  aria-label="Remove promo code"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleApplyCoupon} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={couponInput}
+                  onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                  placeholder="Have a promo code?"
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={isCheckingCoupon || !couponInput.trim()}
+                  className="px-6 py-2 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                >
+                  {isCheckingCoupon ? 'Checking...' : 'Apply'}
+                </button>
+              </form>
+            )}
+            {couponError && (
+              <p className="mt-2 text-sm text-red-600">{couponError}</p>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 mb-16">
-          {plans.map(plan => (
+          {plans.filter(plan => !isGiftMode || plan.amount > 0).map(plan => (
             <PlanCard
               key={plan.id}
               plan={plan}
               currentTier={subscriptionTier}
-              onSubscribe={handleSubscribe}
+              currentPlanId={isSubscribed ? currentSubscription?.planId : seat?.planId}
+              quote={isGiftMode ? undefined : quotes[plan.id]}
+              isScheduled={!isGiftMode && scheduledChange?.planId === plan.id}
+              couponPrice={isSubscribed || isGiftMode ? undefined : coupon?.prices.find(p => p.planId === plan.id)}
+              onSubscribe={isGiftMode ? handleBuyGift : handleSubscribe}
+              onStartTrial={isAuthenticated && trialEligible && !isSubscribed && !isGiftMode ? handleStartTrial : undefined}
+              isGift={isGiftMode}
               // ✅ Pass only true for the plan being processed
               isProcessing={processingPlanId === plan.id}
             />
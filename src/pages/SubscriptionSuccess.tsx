@@ -113,7 +113,9 @@ const SubscriptionSuccess: React.FC = () => {
                 Your payment has been processed securely through Razorpay. A confirmation email has been sent to <span className="font-semibold text-gray-900">{user?.email}</span>
               </p>
               <p className="text-xs text-gray-500">
-                Order ID: {currentSubscription?.razorpayOrderId}
+                {currentSubscription?.providerSubscriptionId
+                  ? `Subscription ID: ${currentSubscription.providerSubscriptionId}`
+                  : `Order ID: ${currentSubscription?.razorpayOrderId}`}
               </p>
             </div>
 
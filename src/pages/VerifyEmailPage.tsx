@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { MailCheck, AlertCircle } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+
+// Landing page for the link in the verification email (/verify-email?token=...)
+const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { verifyEmail } = useAuth();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+  // Tokens work once, so the request must not repeat when the effect re-runs
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+    const token = searchParams.get('token');
+    if (!token) {
+      setStatus('failed');
+      setError('This verification link is incomplete');
+      return;
+    }
+    verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch(err => {
+        setStatus('failed');
+        setError(err instanceof Error ? err.message : 'Could not verify your email address');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center px-4 py-12">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex flex-col items-center text-center mb-6">
+          <div className="bg-red-100 rounded-full p-4 mb-4">
+            <MailCheck className="w-10 h-10 text-red-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {status === 'verified' ? 'Email verified' : 'Verify your email'}
+          </h1>
+          <p className="text-gray-600">
+            {status === 'verifying' && 'Confirming your email address...'}
+            {status === 'verified' && 'Thanks! Your SignalAI account is confirmed.'}
+          </p>
+        </div>
+
+        {status === 'failed' && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-600 mr-2 flex-shrink-0" />
+            <p className="text-sm text-red-800">
+              {error}. You can send a new link from your dashboard.
+            </p>
+          </div>
+        )}
+
+        <p className="text-center text-sm text-gray-500 mt-6">
+          <Link to="/" className="text-red-600 hover:text-red-700 font-medium">
+            Go to SignalAI
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
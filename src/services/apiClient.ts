@@ -0,0 +1,95 @@
+// Thin wrapper around fetch for talking to the SignalAI server (server/server.js)
+
+export const API_BASE_URL: string = import.meta.env.VITE_API_URL || 'http://localhost:5000';
+
+export class ApiError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+interface ApiRequestOptions extends Omit<RequestInit, 'body'> {
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+}
+
+// Session hooks installed by AuthContext: the current access token, and a
+// refresher that is tried once when the server answers 401.
+let accessToken: string | null = null;
+let refreshSession: (() => Promise<string | null>) | null = null;
+
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+export function setSessionRefresher(refresher: (() => Promise<string | null>) | null) {
+  refreshSession = refresher;
+}
+
+export function buildQuery(query?: ApiRequestOptions['query']): string {
+  if (!query) return '';
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+export async function apiRequest<T>(path: string, options: ApiRequestOptions = {}, retried = false): Promise<T> {
+  const { body, query, headers, ...rest } = options;
+
+  const response = await fetch(`${API_BASE_URL}${path}${buildQuery(query)}`, {
+    ...rest,
+    headers: {
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      ...headers
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+
+  if (response.status === 401 && accessToken && refreshSession && !retried) {
+    const refreshed = await refreshSession();
+    if (refreshed) return apiRequest<T>(path, options, true);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = (data && (data.message || data.error)) || `Request failed with status ${response.status}`;
+    throw new ApiError(message, response.status, data);
+  }
+
+  return data as T;
+}
+
+// For file downloads (e.g. invoice PDFs): same auth and refresh handling, but the body comes back as a Blob
+export async function apiBlob(path: string, retried = false): Promise<Blob> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {}
+  });
+
+  if (response.status === 401 && accessToken && refreshSession && !retried) {
+    const refreshed = await refreshSession();
+    if (refreshed) return apiBlob(path, true);
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    const message = (data && (data.message || data.error)) || `Request failed with status ${response.status}`;
+    throw new ApiError(message, response.status, data);
+  }
+
+  return response.blob();
+}
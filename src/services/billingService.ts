@@ -0,0 +1,54 @@
+// Billing details and GST invoices (server/routes/billing.js). Amounts are paise.
+import { apiBlob, apiRequest } from './apiClient';
+
+export interface BillingProfile {
+  legalName?: string | null;
+  gstin?: string | null;
+  stateCode?: string | null;   // GST state code; taken from the GSTIN when there is one
+  address?: string | null;
+}
+
+export interface GstState {
+  code: string;
+  name: string;
+}
+
+export interface InvoiceSummary {
+  id: string;
+  number: string;
+  issuedAt: string;
+  description: string;
+  total: number;
+  totalTax: number;
+  currency: string;
+}
+
+export async function getBillingProfile(): Promise<{ billing: BillingProfile; states: GstState[] }> {
+  return apiRequest('/api/billing/profile');
+}
+
+export async function saveBillingProfile(profile: BillingProfile): Promise<BillingProfile> {
+  const res = await apiRequest<{ billing: BillingProfile }>('/api/billing/profile', {
+    method: 'PUT',
+    body: profile
+  });
+  return res.billing;
+}
+
+export async function listInvoices(): Promise<InvoiceSummary[]> {
+  const res = await apiRequest<{ invoices: InvoiceSummary[] }>('/api/billing/invoices');
+  return res.invoices;
+}
+
+// Saves the invoice as a PDF or JSON file through a temporary link
+export async function downloadInvoice(invoice: InvoiceSummary, format: 'pdf' | 'json'): Promise<void> {
+  const blob = await apiBlob(`/api/billing/invoices/${encodeURIComponent(invoice.id)}/${format}`);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `invoice-${invoice.number.replace(/\//g, '-')}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,123 @@
+// Checkout adapters matching the server's payment providers (server/lib/payments).
+// The server says which provider created an order; the matching adapter collects
+// the payment and hands back the fields /api/verify expects.
+import { apiRequest } from './apiClient';
+
+declare global {
+  interface Window {
+    Razorpay: new (options: Record<string, unknown>) => { open: () => void };
+  }
+}
+
+export type PaymentProviderName = 'razorpay' | 'mock';
+
+// Either a one-off order or a recurring provider subscription
+export interface CheckoutOrder {
+  order_id?: string;
+  subscription_id?: string;
+  amount: number;
+  currency: string;
+  key_id: string;
+  provider: PaymentProviderName;
+}
+
+export interface CheckoutResult {
+  razorpay_order_id?: string;
+  razorpay_subscription_id?: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+export interface CheckoutOptions {
+  order: CheckoutOrder;
+  description: string;
+  prefill: { name?: string; email?: string };
+}
+
+export interface CheckoutAdapter {
+  open: (options: CheckoutOptions) => Promise<CheckoutResult>;
+}
+
+export class CheckoutCancelledError extends Error {
+  constructor() {
+    super('Payment cancelled');
+    this.name = 'CheckoutCancelledError';
+  }
+}
+
+const RAZORPAY_SCRIPT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+let razorpayScript: Promise<void> | null = null;
+
+function loadRazorpayScript(): Promise<void> {
+  if (window.Razorpay) return Promise.resolve();
+  if (!razorpayScript) {
+    razorpayScript = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = RAZORPAY_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        razorpayScript = null;
+        reject(new Error('Payment system failed to load. Please try again.'));
+      };
+      document.body.appendChild(script);
+    });
+  }
+  return razorpayScript;
+}
+
+const razorpayCheckout: CheckoutAdapter = {
+  open: async ({ order, description, prefill }) => {
+    await loadRazorpayScript();
+
+    return new Promise<CheckoutResult>((resolve, reject) => {
+      const razorpay = new window.Razorpay({
+        key: order.key_id,
+        name: 'SignalAI News',
+        description,
+        image: '/News.png',
+        // Subscriptions take their amount from the provider plan
+        ...(order.subscription_id
+          ? { subscription_id: order.subscription_id }
+          : { order_id: order.order_id, amount: order.amount, currency: order.currency }),
+        handler: (response: CheckoutResult) => resolve(response),
+        prefill,
+        theme: {
+          color: '#bb1919'
+        },
+        modal: {
+          ondismiss: () => reject(new CheckoutCancelledError())
+        }
+      });
+      razorpay.open();
+    });
+  }
+};
+
+// Scenario for the offline mock provider: success | failure | dismiss | delayed.
+// Set VITE_MOCK_PAYMENT_SCENARIO, or override per browser via localStorage.
+export const MOCK_SCENARIO_KEY = 'SignalAI-mock-payment-scenario';
+
+const mockCheckout: CheckoutAdapter = {
+  open: async ({ order }) => {
+    const scenario = localStorage.getItem(MOCK_SCENARIO_KEY) || import.meta.env.VITE_MOCK_PAYMENT_SCENARIO || 'success';
+    if (scenario === 'dismiss') {
+      throw new CheckoutCancelledError();
+    }
+
+    const id = order.subscription_id || order.order_id || '';
+    return apiRequest<CheckoutResult>(`/api/mock-checkout/${encodeURIComponent(id)}/pay`, {
+      method: 'POST',
+      body: { scenario }
+    });
+  }
+};
+
+const adapters: Record<PaymentProviderName, CheckoutAdapter> = {
+  razorpay: razorpayCheckout,
+  mock: mockCheckout
+};
+
+export function getCheckoutAdapter(provider: PaymentProviderName | undefined): CheckoutAdapter {
+  return adapters[provider || 'razorpay'] || razorpayCheckout;
+}
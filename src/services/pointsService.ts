@@ -0,0 +1,84 @@
+// SignalAI points ledger (server/routes/points.js). The balance is the sum of the entries.
+import { apiRequest } from './apiClient';
+
+export type PointsReason =
+  | 'opening_balance'
+  | 'welcome_bonus'
+  | 'subscription_bonus'
+  | 'refund_clawback'
+  | 'reward_redemption'
+  | 'points_expired'
+  | PointRuleId;
+
+// Activity rules (server/lib/pointRules.js); each is also the ledger reason it credits
+export type PointRuleId =
+  | 'post_published'
+  | 'like_received'
+  | 'article_read'
+  | 'daily_login'
+  | 'referral'
+  | 'monthly_allowance';
+
+export interface PointsEntry {
+  id: string;
+  type: 'credit' | 'debit';
+  amount: number;
+  reason: PointsReason;
+  ref: { type: string; id?: string } | null;
+  expiresAt: string | null;   // credits only; unspent points lapse at this time
+  createdAt: string;
+}
+
+export interface ExpiringPoints {
+  amount: number;
+  expiresAt: string;
+}
+
+export interface PointsSummary {
+  balance: number;
+  expiring: ExpiringPoints[];   // due to lapse within 30 days, soonest first
+  entries: PointsEntry[];       // newest first
+}
+
+export interface PointRule {
+  id: PointRuleId;
+  points: number;
+  dailyCap?: number;
+  monthlyCap?: number;
+  streakBonus?: number;
+  maxStreakDays?: number;
+  earnedToday: number;       // times the user was rewarded under this rule today
+  earnedThisMonth: number;
+}
+
+export interface LoginStreak {
+  lastDay: string;   // India date, e.g. '2026-10-19'
+  days: number;
+}
+
+export interface AwardResult {
+  awarded: number;
+  skipped?: string;   // why nothing was credited, e.g. 'daily_cap' or 'too_fast'
+}
+
+export async function getPoints(limit = 50): Promise<PointsSummary> {
+  return apiRequest(`/api/points?limit=${limit}`);
+}
+
+export async function getPointRules(): Promise<{ rules: PointRule[]; streak: LoginStreak | null }> {
+  return apiRequest('/api/points/rules');
+}
+
+// The server looks the post up and credits its author
+export async function recordLike(postId: string): Promise<AwardResult> {
+  return apiRequest('/api/points/likes', { method: 'POST', body: { postId } });
+}
+
+// The server times the read: finishing counts once enough time has passed since the start
+export async function startReading(articleId: string): Promise<void> {
+  await apiRequest(`/api/points/reads/${encodeURIComponent(articleId)}/start`, { method: 'POST' });
+}
+
+export async function finishReading(articleId: string): Promise<AwardResult> {
+  return apiRequest(`/api/points/reads/${encodeURIComponent(articleId)}/finish`, { method: 'POST' });
+}
@@ -0,0 +1,69 @@
+// Referral program (server/routes/referrals.js) and the bits of it that live in the browser
+import { apiRequest } from './apiClient';
+
+const REFERRAL_KEY = 'SignalAI-referral';
+const DEVICE_KEY = 'SignalAI-device';
+
+export type ReferralStatus = 'pending' | 'qualified' | 'rejected';
+
+export interface ReferralReward {
+  type: 'points' | 'premium_week';
+  points?: number;
+  skipped?: string | null;   // e.g. 'monthly_cap' when the month's referral points are used up
+  subscriptionId?: string;
+  endDate?: string;
+}
+
+export interface Referral {
+  id: string;
+  referee: string | null;   // '@username' of the reader who signed up
+  status: ReferralStatus;
+  rejectedReason: 'self_referral' | 'duplicate_device' | 'unknown_device' | 'duplicate_email' | null;
+  qualifiedBy: 'verified' | 'subscribed' | null;
+  reward: ReferralReward | null;
+  createdAt: string;
+  qualifiedAt: string | null;
+}
+
+export interface ReferralSummary {
+  code: string;
+  link: string;
+  reward: 'points' | 'premium_week';
+  stats: {
+    total: number;
+    pending: number;
+    qualified: number;
+    rejected: number;
+    pointsEarned: number;
+  };
+  referrals: Referral[];
+}
+
+export async function getReferrals(): Promise<ReferralSummary> {
+  return apiRequest('/api/referrals');
+}
+
+// Remembers the code from a referral link (?ref=CODE) until the visitor registers
+export function captureReferralCode(): void {
+  const code = new URLSearchParams(window.location.search).get('ref');
+  if (code) localStorage.setItem(REFERRAL_KEY, code.trim().toUpperCase());
+}
+
+export function pendingReferralCode(): string {
+  return localStorage.getItem(REFERRAL_KEY) || '';
+}
+
+export function clearReferralCode(): void {
+  localStorage.removeItem(REFERRAL_KEY);
+}
+
+// A random id for this browser, sent at signup and login so the server can
+// spot several accounts opened on one device
+export function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+}
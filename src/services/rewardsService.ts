@@ -0,0 +1,65 @@
+// Points rewards catalog and redemptions (server/routes/rewards.js)
+import { apiRequest } from './apiClient';
+
+export type RewardType = 'book' | 'appointment_discount' | 'premium_month' | 'event_ticket';
+
+export interface RewardEvent {
+  startsAt: string;
+  venue: string;
+}
+
+export interface Reward {
+  id: string;
+  type: RewardType;
+  name: string;
+  description: string;
+  pointsCost: number;
+  stock: number | null;        // null: no stock limit
+  remaining: number | null;
+  perUserLimit: number;
+  redeemedByYou: number;
+  bookId?: string;
+  discountPercent?: number;
+  planId?: string;
+  event?: RewardEvent;
+}
+
+// What a redemption granted depends on its type: a book, a voucher or ticket code, or a subscription
+export interface Redemption {
+  id: string;
+  rewardId: string;
+  type: RewardType;
+  name: string;
+  pointsCost: number;
+  createdAt: string;
+  bookId?: string;
+  code?: string;
+  discountPercent?: number;
+  usedAt?: string | null;
+  subscriptionId?: string;
+  endDate?: string;
+  event?: RewardEvent;
+}
+
+export async function listRewards(): Promise<Reward[]> {
+  const res = await apiRequest<{ rewards: Reward[] }>('/api/rewards');
+  return res.rewards;
+}
+
+export async function listRedemptions(): Promise<Redemption[]> {
+  const res = await apiRequest<{ redemptions: Redemption[] }>('/api/rewards/redemptions');
+  return res.redemptions;
+}
+
+export async function redeemReward(rewardId: string): Promise<{ redemption: Redemption; balance: number }> {
+  return apiRequest(`/api/rewards/${encodeURIComponent(rewardId)}/redeem`, { method: 'POST' });
+}
+
+// Marks an appointment voucher used and returns its discount
+export async function applyAppointmentVoucher(code: string): Promise<number> {
+  const res = await apiRequest<{ discountPercent: number }>('/api/rewards/vouchers/use', {
+    method: 'POST',
+    body: { code }
+  });
+  return res.discountPercent;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { isIndic, normalizeIndic, soundKey, stemIndic, transliterate } from './indic';
+import { SearchIndex, tokenize } from './searchIndex';
+import { parseQuery, runQuery } from './searchQuery';
+
+function article(id: string, title: string) {
+  return { id, title, summary: '', content: '', tags: [], author: '', source: '', publishedAt: '2026-10-01T00:00:00Z' };
+}
+
+function searchIds(titles: string[], query: string): string[] {
+  const index = new SearchIndex();
+  index.sync(titles.map((title, i) => article(String(i + 1), title)));
+  return index.search(query).map(hit => hit.article.id);
+}
+
+describe('transliterate', () => {
+  it('reads a consonant with its inherent vowel, except at the end of the word', () => {
+    expect(transliterate('समाचार')).toBe('samaachaar');
+    expect(transliterate('ਪੰਜਾਬ')).toBe('panjaab');
+  });
+
+  it('leaves no vowel after a virama', () => {
+    expect(transliterate('प्रति')).toBe('prati');
+    expect(transliterate('दिल्ली')).toBe('dilli');
+  });
+
+  it('reads Bengali anusvara as "ng"', () => {
+    expect(transliterate('বাংলা')).toBe('baanglaa');
+  });
+});
+
+describe('soundKey', () => {
+  it.each([
+    ['mumbai', 'मुंबई'],
+    ['baarish', 'बारिश'],
+    ['barish', 'बारिश'],
+    ['delhi', 'दिल्ली'],
+    ['punjab', 'ਪੰਜਾਬ'],
+    ['bengaluru', 'ಬೆಂಗಳೂರು'],
+    ['kolkata', 'কলকাতা'],
+    ['bangla', 'বাংলা'],
+    ['chennai', 'சென்னை'],
+    ['krishna', 'कृष्ण']
+  ])('gives "%s" the key of %s', (roman, indic) => {
+    expect(soundKey(roman)).toBe(soundKey(indic));
+  });
+
+  it('reads e as i and u as a', () => {
+    expect(soundKey('delhi')).toBe(soundKey('dilli'));
+    expect(soundKey('punjab')).toBe(soundKey('panjab'));
+  });
+
+  it('keeps the g after a nasal', () => {
+    expect(soundKey('bengaluru')).toBe('pinklr');
+    expect(soundKey('ganga')).toBe('kank');
+  });
+
+  it('tells a vowel after the first consonant from a cluster', () => {
+    expect(soundKey('board')).not.toBe(soundKey('प्रति'));
+    expect(soundKey('prati')).toBe(soundKey('प्रति'));
+  });
+});
+
+describe('normalizeIndic and stemIndic', () => {
+  it('drops nukta and folds candrabindu into anusvara', () => {
+    expect(normalizeIndic('ज़िंदगी')).toBe(normalizeIndic('जिंदगी'));
+    expect(normalizeIndic('माँ')).toBe('मां');
+  });
+
+  it('strips Hindi and Bengali inflections', () => {
+    expect(stemIndic('चुनावों')).toBe('चुनाव');
+    expect(stemIndic('খবরগুলো')).toBe('খবর');
+  });
+
+  it('removes zero-width joiners', () => {
+    expect(normalizeIndic('क्\u200dष')).toBe('क्ष');
+    expect(normalizeIndic('र्\u200cय')).toBe('र्य');
+  });
+
+  it('leaves other scripts and Latin text alone', () => {
+    expect(stemIndic('சென்னையில்')).toBe('சென்னையில்');
+    expect(transliterate('delhi')).toBe('delhi');
+    expect(isIndic('delhi')).toBe(false);
+    expect(isIndic('2026 ಮಳೆ')).toBe(true);
+  });
+});
+
+describe('search across scripts', () => {
+  const titles = [
+    'मुंबई में भारी बारिश',
+    'दिल्ली में चुनाव',
+    'ਪੰਜਾਬ ਦੀ ਖ਼ਬਰ',
+    'ಬೆಂಗಳೂರು ಮಳೆ',
+    'प्रति व्यक्ति आय बढ़ी',
+    'Election board meets'
+  ];
+
+  it.each([
+    ['mumbai baarish', '1'],
+    ['delhi', '2'],
+    ['punjab', '3'],
+    ['bengaluru', '4']
+  ])('finds "%s" in Indic script', (query, id) => {
+    expect(searchIds(titles, query)).toEqual([id]);
+  });
+
+  it('does not match the English "board" with प्रति', () => {
+    expect(searchIds(titles, 'board')).toEqual(['6']);
+  });
+
+  it('finds Marathi text, and words written with joiners', () => {
+    expect(searchIds(['मुंबई मध्ये मुसळधार पाऊस', 'पुण्यात ऊन'], 'mumbai')).toEqual(['1']);
+    expect(searchIds(['क्\u200dषेत्र में बदलाव'], 'क्षेत्र')).toEqual(['1']);
+  });
+
+  it('finds the Indic word from its Roman spelling and the other way round', () => {
+    expect(searchIds(['Delhi votes today'], 'दिल्ली')).toEqual(['1']);
+  });
+
+  it('keeps a word whose stem is a stopword', () => {
+    expect(tokenize('नेताओं')).toEqual(['नेताओं']);
+    const articles = ['नेताओं की बैठक', 'मंत्री ने कहा'].map((title, i) => ({ ...article(String(i + 1), title), category: 'india', language: 'hi' }));
+    const index = new SearchIndex<typeof articles[number]>();
+    index.sync(articles);
+    const hits = runQuery(index, articles, parseQuery('नेताओं'));
+    expect(hits.map(hit => hit.article.id)).toEqual(['1']);
+  });
+
+  it('does not match English words with each other by sound', () => {
+    expect(searchIds(['The party met on Monday'], 'party')).toEqual(['1']);
+    expect(searchIds(['The party met on Monday'], 'pretty')).toEqual([]);
+  });
+});
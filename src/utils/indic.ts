@@ -0,0 +1,205 @@
+// Search support for the Indic languages in LanguageContext: script
+// normalization, light Hindi and Bengali stemming, and a loose phonetic key
+// that lets "mumbai baarish" find मुंबई बारिश.
+//
+// The Unicode blocks for Devanagari, Bengali, Gurmukhi, Gujarati, Odia, Tamil,
+// Telugu and Kannada share one layout: the same offset in each block is the
+// same letter. One table of Latin sounds by offset therefore transliterates
+// all of them.
+
+interface ScriptBlock {
+  start: number;
+  name: string;
+}
+
+const BLOCKS: ScriptBlock[] = [
+  { start: 0x0900, name: 'Devanagari' },
+  { start: 0x0980, name: 'Bengali' },
+  { start: 0x0a00, name: 'Gurmukhi' },
+  { start: 0x0a80, name: 'Gujarati' },
+  { start: 0x0b00, name: 'Oriya' },
+  { start: 0x0b80, name: 'Tamil' },
+  { start: 0x0c00, name: 'Telugu' },
+  { start: 0x0c80, name: 'Kannada' }
+];
+
+const INDIC_START = 0x0900;
+const INDIC_END = 0x0cff;
+
+// Latin sound per offset within a block. Consonants get their inherent vowel
+// from transliterate().
+const SOUNDS: Record<number, string> = {
+  0x01: 'n', 0x02: 'n', 0x03: '',
+  0x05: 'a', 0x06: 'aa', 0x07: 'i', 0x08: 'i', 0x09: 'u', 0x0a: 'u', 0x0b: 'ri', 0x0c: 'li',
+  0x0d: 'e', 0x0e: 'e', 0x0f: 'e', 0x10: 'ai', 0x11: 'o', 0x12: 'o', 0x13: 'o', 0x14: 'au',
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'n',
+  0x1a: 'ch', 0x1b: 'chh', 0x1c: 'j', 0x1d: 'jh', 0x1e: 'n',
+  0x1f: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n',
+  0x24: 't', 0x25: 'th', 0x26: 'd', 0x27: 'dh', 0x28: 'n', 0x29: 'n',
+  0x2a: 'p', 0x2b: 'ph', 0x2c: 'b', 0x2d: 'bh', 0x2e: 'm',
+  0x2f: 'y', 0x30: 'r', 0x31: 'r', 0x32: 'l', 0x33: 'l', 0x34: 'l', 0x35: 'v',
+  0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h',
+  0x3e: 'aa', 0x3f: 'i', 0x40: 'i', 0x41: 'u', 0x42: 'u', 0x43: 'ri', 0x44: 'ri',
+  0x45: 'e', 0x46: 'e', 0x47: 'e', 0x48: 'ai', 0x49: 'o', 0x4a: 'o', 0x4b: 'o', 0x4c: 'au',
+  0x60: 'ri', 0x61: 'li', 0x62: 'li', 0x63: 'li',
+  0x66: '0', 0x67: '1', 0x68: '2', 0x69: '3', 0x6a: '4', 0x6b: '5', 0x6c: '6', 0x6d: '7', 0x6e: '8', 0x6f: '9',
+  // Script-specific letters past the shared range
+  0x70: 'r', 0x71: 'v'
+};
+
+// Letters read differently in one script: Gurmukhi tippi (nasal) and addak
+// (doubles the next consonant), and Bengali anusvara, always "ng" (বাংলা, Bangla)
+const SCRIPT_SOUNDS: Record<string, Record<number, string>> = {
+  Gurmukhi: { 0x70: 'n', 0x71: '' },
+  Bengali: { 0x02: 'ng' }
+};
+
+// Nukta in each script, dropped so ज़ and ज match
+const NUKTA = /[\u093c\u09bc\u0a3c\u0abc\u0b3c\u0cbc]/g;
+const NUKTA_OFFSET = 0x3c;
+const JOINERS = /[\u200c\u200d]/g;
+
+function blockOf(code: number): ScriptBlock | undefined {
+  if (code < INDIC_START || code > INDIC_END) return undefined;
+  return BLOCKS.find(block => code >= block.start && code < block.start + 0x80);
+}
+
+export function isIndic(word: string): boolean {
+  for (const char of word) {
+    if (blockOf(char.codePointAt(0)!)) return true;
+  }
+  return false;
+}
+
+function scriptOf(word: string): string | undefined {
+  for (const char of word) {
+    const block = blockOf(char.codePointAt(0)!);
+    if (block) return block.name;
+  }
+  return undefined;
+}
+
+// One spelling per word: joiners and nukta removed, candrabindu folded into
+// anusvara, split vowel signs composed
+export function normalizeIndic(word: string): string {
+  return word
+    .normalize('NFC')
+    .replace(JOINERS, '')
+    .normalize('NFD')
+    .replace(NUKTA, '')
+    .replace(/\u0901/g, '\u0902')
+    .normalize('NFC');
+}
+
+// Inflectional suffixes, longest first (after Ramanathan & Rao's light Hindi
+// stemmer), written as normalizeIndic leaves them: য় is য
+const HINDI_SUFFIXES = [
+  'ाएंगी', 'ाएंगे', 'ाऊंगी', 'ाऊंगा', 'ाइयों', 'ाइयां',
+  'ाएगी', 'ाएगा', 'ाओगी', 'ाओगे', 'एंगी', 'ेंगी', 'एंगे', 'ेंगे', 'ूंगी', 'ूंगा', 'ातीं', 'नाओं', 'नाएं', 'ताओं', 'ताएं', 'ियों', 'ियां',
+  'ाकर', 'ाइए', 'ाईं', 'ाया', 'ेगी', 'ेगा', 'ोगी', 'ोगे', 'ाने', 'ाना', 'ाते', 'ाती', 'ाता', 'तीं', 'ाओं', 'ाएं', 'ुओं', 'ुएं', 'ुआं',
+  'कर', 'ाओ', 'िए', 'ाई', 'ाए', 'ने', 'नी', 'ना', 'ते', 'ीं', 'ती', 'ता', 'ां', 'ों', 'ें',
+  'ो', 'े', 'ू', 'ु', 'ी', 'ि', 'ा'
+];
+
+const BENGALI_SUFFIXES = [
+  'গুলোর', 'গুলির', 'েদের', 'গুলো', 'গুলি', 'খানা', 'টির', 'টার',
+  'দের', 'েরা', 'টি', 'টা', 'ের', 'কে', 'তে', 'রা', 'েই', 'ায',
+  'ে', 'ি', 'া'
+];
+
+// Suffixes are only removed when at least this many characters remain
+const MIN_STEM_LENGTH = 2;
+
+function stripSuffix(word: string, suffixes: string[]): string {
+  const suffix = suffixes.find(s => word.endsWith(s) && [...word.slice(0, -s.length)].length >= MIN_STEM_LENGTH);
+  return suffix ? word.slice(0, -suffix.length) : word;
+}
+
+// Light stemming for Hindi (and other Devanagari text) and Bengali
+export function stemIndic(word: string): string {
+  const script = scriptOf(word);
+  if (script === 'Devanagari') return stripSuffix(word, HINDI_SUFFIXES);
+  if (script === 'Bengali') return stripSuffix(word, BENGALI_SUFFIXES);
+  return word;
+}
+
+function offsetIn(block: ScriptBlock, char: string | undefined): number {
+  return char === undefined ? -1 : char.codePointAt(0)! - block.start;
+}
+
+function isConsonant(offset: number): boolean {
+  return offset >= 0x15 && offset <= 0x39;
+}
+
+// Vowel signs and the virama (0x4d), which replace a consonant's inherent vowel
+function replacesVowel(offset: number): boolean {
+  return (offset >= 0x3e && offset <= 0x4d) || offset === 0x62 || offset === 0x63;
+}
+
+// Latin letters for an Indic word; Latin text passes through. A consonant
+// without a vowel sign or virama is read with its inherent "a", except at the
+// end of the word, where Hindi and Punjabi do not pronounce it.
+export function transliterate(word: string): string {
+  const chars = [...word];
+  let out = '';
+  chars.forEach((char, i) => {
+    const block = blockOf(char.codePointAt(0)!);
+    if (!block) {
+      out += char;
+      return;
+    }
+    const offset = offsetIn(block, char);
+    const sound = SCRIPT_SOUNDS[block.name]?.[offset] ?? SOUNDS[offset];
+    out += sound ?? '';
+
+    if (!isConsonant(offset)) return;
+    let next = i + 1;
+    while (offsetIn(block, chars[next]) === NUKTA_OFFSET) next++;
+    // Only a letter of the same script can carry on the syllable
+    const following = offsetIn(block, chars[next]);
+    if (following >= 0 && following < 0x80 && !replacesVowel(following)) out += 'a';
+  });
+  return out;
+}
+
+// Letters that spell one sound in Roman text, folded together
+function foldSounds(latin: string): string {
+  return latin
+    .normalize('NFD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/c(?!h)/g, 'k')
+    .replace(/q/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/w/g, 'v')
+    .replace(/f/g, 'p')
+    .replace(/z/g, 'j')
+    .replace(/([bcdgjklprst])h/g, '$1')
+    .replace(/n(?=[bp])/g, 'm')
+    .replace(/b/g, 'p')
+    .replace(/g/g, 'k')
+    .replace(/d/g, 't')
+    .replace(/j/g, 'c')
+    .replace(/e/g, 'i')
+    .replace(/u/g, 'a');
+}
+
+// How a word sounds, loosely: vowel length, aspiration, voicing, doubled
+// letters and final vowels are ignored, "e" is read as "i" and "u" as "a", and
+// "a" and "o" (Bengali's inherent vowel, which Roman spellings write as "o")
+// are dropped. The many Roman spellings of a word, its spellings in the
+// different scripts and its stem share one key.
+//
+// One vowel is kept: whether the first consonant is followed by a vowel. The
+// scripts spell a cluster with a virama, so प्रति keys as "prt" while "board"
+// keys as "part".
+export function soundKey(word: string): string {
+  const sounds = foldSounds(transliterate(word));
+  const [, start, gap, rest] = /^([aeiou]*[^aeiou]?)([aeiou]*)(.*)$/.exec(sounds)!;
+  const kept = rest && gap ? gap.replace(/[ao]/g, '') || 'a' : '';
+  return (start.replace(/[ao]/g, '') + kept + rest.replace(/[ao]/g, ''))
+    .replace(/(.)\1+/g, '$1')
+    .replace(/i+$/, '');
+}
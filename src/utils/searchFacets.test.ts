@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { applyFacets, clearParams, emptySelection, facetCounts, hasSelection, readSelection, toggleParam, type FacetArticle } from './searchFacets';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+function article(fields: Partial<FacetArticle> = {}, hoursOld = 1): FacetArticle {
+  return { category: 'india', language: 'en', source: 'Fixture Times', author: 'Asha Rao', publishedAt: new Date(NOW - hoursOld * HOUR_MS).toISOString(), ...fields };
+}
+
+const ARTICLES = [
+  article({ category: 'business' }),
+  article({ category: 'business', language: 'hi', isPremium: true }, 30),
+  article({ category: 'world', source: 'Fixture Herald' }, 24 * 10),
+  article({ category: 'india' }, 24 * 60)
+];
+
+const same = (a: FacetArticle) => a;
+
+describe('facet selections in the URL', () => {
+  it('reads repeated params, ignoring duplicates and unknown keys', () => {
+    const selection = readSelection(new URLSearchParams('category=business&category=world&category=business&q=rbi&date='));
+    expect(selection.category).toEqual(['business', 'world']);
+    expect(selection.date).toEqual([]);
+    expect(hasSelection(selection)).toBe(true);
+    expect(hasSelection(emptySelection())).toBe(false);
+  });
+
+  it('switches one value on and off, and clears only the facets', () => {
+    const on = toggleParam(new URLSearchParams('q=rbi&category=business'), 'category', 'world');
+    expect(on.toString()).toBe('q=rbi&category=business&category=world');
+    expect(toggleParam(on, 'category', 'business').toString()).toBe('q=rbi&category=world');
+    expect(clearParams(on).toString()).toBe('q=rbi');
+  });
+});
+
+describe('applyFacets', () => {
+  it('treats values in one facet as alternatives and combines facets', () => {
+    const selection = { ...emptySelection(), category: ['business', 'world'], language: ['en'] };
+    expect(applyFacets(ARTICLES, same, selection, NOW)).toEqual([ARTICLES[0], ARTICLES[2]]);
+  });
+
+  it('puts each article in one date bucket', () => {
+    const bucket = (date: string) => applyFacets(ARTICLES, same, { ...emptySelection(), date: [date] }, NOW);
+    expect(bucket('day')).toEqual([ARTICLES[0]]);
+    expect(bucket('week')).toEqual([ARTICLES[1]]);
+    expect(bucket('month')).toEqual([ARTICLES[2]]);
+    expect(bucket('older')).toEqual([ARTICLES[3]]);
+  });
+});
+
+describe('facetCounts', () => {
+  it('counts each facet over the results narrowed by the other facets', () => {
+    const counts = facetCounts(ARTICLES, same, { ...emptySelection(), category: ['business'], language: ['en'] }, NOW);
+    expect(counts.category).toEqual([
+      { value: 'business', count: 1, selected: true },
+      { value: 'india', count: 1, selected: false },
+      { value: 'world', count: 1, selected: false }
+    ]);
+    expect(counts.language).toEqual([
+      { value: 'en', count: 1, selected: true },
+      { value: 'hi', count: 1, selected: false }
+    ]);
+  });
+
+  it('lists fixed-order facets in their order, and keeps selected values that no longer match', () => {
+    const counts = facetCounts(ARTICLES, same, { ...emptySelection(), source: ['Fixture Herald'], access: ['premium'] }, NOW);
+    expect(counts.access).toEqual([
+      { value: 'free', count: 1, selected: false },
+      { value: 'premium', count: 0, selected: true }
+    ]);
+    expect(facetCounts(ARTICLES, same, emptySelection(), NOW).date.map(v => v.value)).toEqual(['day', 'week', 'month', 'older']);
+  });
+});
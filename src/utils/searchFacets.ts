@@ -0,0 +1,131 @@
+// Facets for narrowing search results. Selections live in the URL as repeated
+// params (?category=business&category=world&date=week), so a filtered search
+// can be shared. Values selected within one facet are alternatives; facets
+// combine with each other. Each facet's counts are taken over the results
+// narrowed by the *other* facets, so picking a second value in the same facet
+// stays possible.
+
+export interface FacetArticle {
+  category: string;
+  language: string;
+  source: string;
+  author: string;
+  isPremium?: boolean;
+  publishedAt: string;
+}
+
+export type FacetKey = 'category' | 'language' | 'source' | 'author' | 'access' | 'date';
+
+export type FacetSelection = Record<FacetKey, string[]>;
+
+export interface FacetValue {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+interface FacetDefinition {
+  key: FacetKey;
+  label: string;
+  valueOf: (article: FacetArticle, now: number) => string;
+  // Values listed in this order instead of by count
+  order?: string[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Publish dates fall in exactly one bucket
+export const DATE_BUCKETS: { value: string; label: string; maxAgeMs: number }[] = [
+  { value: 'day', label: 'Past 24 hours', maxAgeMs: DAY_MS },
+  { value: 'week', label: '1–7 days ago', maxAgeMs: 7 * DAY_MS },
+  { value: 'month', label: '1–4 weeks ago', maxAgeMs: 30 * DAY_MS },
+  { value: 'older', label: 'Older', maxAgeMs: Infinity }
+];
+
+function dateBucket(article: FacetArticle, now: number): string {
+  const age = now - (Date.parse(article.publishedAt) || 0);
+  return DATE_BUCKETS.find(bucket => age <= bucket.maxAgeMs)!.value;
+}
+
+export const FACETS: FacetDefinition[] = [
+  { key: 'category', label: 'Category', valueOf: a => a.category },
+  { key: 'language', label: 'Language', valueOf: a => a.language },
+  { key: 'source', label: 'Source', valueOf: a => a.source },
+  { key: 'author', label: 'Author', valueOf: a => a.author },
+  { key: 'access', label: 'Access', valueOf: a => (a.isPremium ? 'premium' : 'free'), order: ['free', 'premium'] },
+  { key: 'date', label: 'Published', valueOf: dateBucket, order: DATE_BUCKETS.map(b => b.value) }
+];
+
+export function emptySelection(): FacetSelection {
+  return { category: [], language: [], source: [], author: [], access: [], date: [] };
+}
+
+export function readSelection(params: URLSearchParams): FacetSelection {
+  const selection = emptySelection();
+  for (const facet of FACETS) {
+    selection[facet.key] = [...new Set(params.getAll(facet.key).filter(Boolean))];
+  }
+  return selection;
+}
+
+// A copy of `params` with one facet value switched on or off
+export function toggleParam(params: URLSearchParams, key: FacetKey, value: string): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const values = next.getAll(key);
+  next.delete(key);
+  const updated = values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+  updated.forEach(v => next.append(key, v));
+  return next;
+}
+
+export function clearParams(params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  FACETS.forEach(facet => next.delete(facet.key));
+  return next;
+}
+
+export function hasSelection(selection: FacetSelection): boolean {
+  return FACETS.some(facet => selection[facet.key].length > 0);
+}
+
+function matches(article: FacetArticle, selection: FacetSelection, now: number, except?: FacetKey): boolean {
+  return FACETS.every(facet =>
+    facet.key === except ||
+    selection[facet.key].length === 0 ||
+    selection[facet.key].includes(facet.valueOf(article, now))
+  );
+}
+
+export function applyFacets<T>(items: T[], articleOf: (item: T) => FacetArticle, selection: FacetSelection, now = Date.now()): T[] {
+  return items.filter(item => matches(articleOf(item), selection, now));
+}
+
+// Every facet's values with their counts; selected values are always listed,
+// even when nothing matches them any more
+export function facetCounts<T>(
+  items: T[],
+  articleOf: (item: T) => FacetArticle,
+  selection: FacetSelection,
+  now = Date.now()
+): Record<FacetKey, FacetValue[]> {
+  const result = {} as Record<FacetKey, FacetValue[]>;
+  for (const facet of FACETS) {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      const article = articleOf(item);
+      if (!matches(article, selection, now, facet.key)) continue;
+      const value = facet.valueOf(article, now);
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    selection[facet.key].forEach(value => { if (!counts.has(value)) counts.set(value, 0); });
+
+    const values = [...counts.entries()].map(([value, count]) => ({ value, count, selected: selection[facet.key].includes(value) }));
+    const order = facet.order;
+    values.sort(order
+      ? (a, b) => order.indexOf(a.value) - order.indexOf(b.value)
+      : (a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    result[facet.key] = values;
+  }
+  return result;
+}
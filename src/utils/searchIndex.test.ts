@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { SearchIndex, highlight, tokenize, type SearchableArticle } from './searchIndex';
+
+function article(id: string, fields: Partial<SearchableArticle> = {}): SearchableArticle {
+  return { id, title: '', summary: '', content: '', tags: [], author: '', source: '', publishedAt: '2026-10-01T00:00:00Z', ...fields };
+}
+
+function indexOf(articles: SearchableArticle[]) {
+  const index = new SearchIndex();
+  index.sync(articles);
+  return index;
+}
+
+describe('tokenize', () => {
+  it('drops stopwords and strips English suffixes', () => {
+    expect(tokenize('The elections in the cities')).toEqual(['election', 'city']);
+  });
+
+  it('keeps numbers, even single digits', () => {
+    expect(tokenize('5 states, 2026')).toEqual(['5', 'state', '2026']);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('ranks a match in the title above one in the content', () => {
+    const index = indexOf([
+      article('body', { title: 'Budget session', content: 'The monsoon delayed the budget session.' }),
+      article('title', { title: 'Monsoon arrives', content: 'Rain across the coast.' })
+    ]);
+    expect(index.search('monsoon').map(hit => hit.article.id)).toEqual(['title', 'body']);
+  });
+
+  it('weighs a rare word above a common one', () => {
+    const index = indexOf([
+      article('1', { title: 'Kerala rain' }),
+      article('2', { title: 'Kerala floods' }),
+      article('3', { title: 'Kerala budget' })
+    ]);
+    const [top] = index.search('kerala floods');
+    expect(top.article.id).toBe('2');
+    expect(top.terms).toEqual(['kerala', 'flood']);
+  });
+
+  it('breaks ties with the newer article', () => {
+    const index = indexOf([
+      article('old', { title: 'Cricket final', publishedAt: '2026-09-01T00:00:00Z' }),
+      article('new', { title: 'Cricket final', publishedAt: '2026-10-01T00:00:00Z' })
+    ]);
+    expect(index.search('cricket').map(hit => hit.article.id)).toEqual(['new', 'old']);
+  });
+
+  it('finds authors and sources, and honours the limit', () => {
+    const index = indexOf([
+      article('1', { title: 'One', author: 'Asha Rao' }),
+      article('2', { title: 'Two', source: 'Asha Weekly' })
+    ]);
+    expect(index.search('asha')).toHaveLength(2);
+    expect(index.search('asha', 1)).toHaveLength(1);
+    expect(index.search('the')).toEqual([]);
+  });
+
+  it('re-indexes only what changed when synced', () => {
+    const first = article('1', { title: 'Monsoon arrives' });
+    const index = indexOf([first, article('2', { title: 'Budget' })]);
+    expect(index.size).toBe(2);
+
+    index.sync([{ ...first, title: 'Cyclone warning' }]);
+    expect(index.size).toBe(1);
+    expect(index.search('monsoon')).toEqual([]);
+    expect(index.search('budget')).toEqual([]);
+    expect(index.search('cyclone').map(hit => hit.article.id)).toEqual(['1']);
+  });
+
+  it('uses the summary as the snippet, or the passage of the content that matched', () => {
+    const content = `${'Opening words. '.repeat(20)}The cyclone made landfall near Puri. ${'Closing words. '.repeat(20)}`;
+    const index = indexOf([
+      article('summary', { summary: 'A cyclone is coming.', content }),
+      article('content', { summary: 'Weather update.', content })
+    ]);
+    const snippets = Object.fromEntries(index.search('cyclone').map(hit => [hit.article.id, hit.snippet]));
+    expect(snippets.summary).toBe('A cyclone is coming.');
+    expect(snippets.content).toMatch(/^….*The cyclone made landfall near Puri\..*…$/);
+    expect(snippets.content.length).toBeLessThanOrEqual(202);
+  });
+});
+
+describe('highlight', () => {
+  it('marks the words matching the query terms', () => {
+    expect(highlight('Elections in Delhi', tokenize('election'))).toEqual([
+      { text: 'Elections', match: true },
+      { text: ' in Delhi', match: false }
+    ]);
+  });
+});
@@ -0,0 +1,347 @@
+// In-memory full-text index over articles, ranked with BM25F: each field's
+// term frequency is length-normalized and weighted (title > tags > summary >
+// content), then the weighted frequency is scored with BM25's saturation and
+// the term's inverse document frequency. NewsContext keeps one index and syncs
+// it with its article list, so only added, changed or removed articles are
+// (re)indexed.
+//
+// Indic words are normalized and stemmed (utils/indic), and every word is also
+// indexed under its sound key, so a Roman-script query finds the same word in
+// an Indic script and the other way round. Sound keys only match across
+// scripts: English words are never matched loosely against each other.
+import { isIndic, normalizeIndic, stemIndic, soundKey, transliterate } from './indic';
+
+export interface SearchableArticle {
+  id: string;
+  title: string;
+  summary: string;
+  content: string;
+  tags: string[];
+  author: string;
+  source: string;
+  publishedAt: string;
+}
+
+export interface SearchHit<T> {
+  article: T;
+  score: number;
+  terms: string[];   // the query terms this article matched, for highlighting
+  snippet: string;   // the summary, or a passage of the content when only the content matched
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface Field {
+  weight: number;
+  text: (article: SearchableArticle) => string;
+}
+
+const FIELDS: Field[] = [
+  { weight: 3, text: a => a.title || '' },
+  { weight: 2, text: a => (a.tags || []).join(' ') },
+  { weight: 1.5, text: a => a.summary || '' },
+  { weight: 1, text: a => a.content || '' },
+  { weight: 1, text: a => `${a.author || ''} ${a.source || ''}` }
+];
+
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_LENGTH = 200;
+
+const STOPWORDS = new Set([
+  ...'a an and are as at be by for from has have in is it its of on or that the this to was were will with'.split(' '),
+  // Hindi and Bengali function words, and common Roman spellings of the Hindi ones
+  ...'के का की में है हैं और से को पर ने यह वह भी ही तो था थे थी एक कि'.split(' '),
+  ...'এবং ও এই সে তার করে হয় থেকে জন্য না'.split(' '),
+  ...'ka ki ke mein hai aur se ko ne'.split(' ')
+]);
+
+// Zero-width (non-)joiners sit inside Indic words and are removed by normalizeIndic
+const WORD = /[\p{L}\p{M}\p{N}\u200c\u200d]+/gu;
+
+// Sound keys shorter than this match too much; a key must also keep at least
+// this share of the word's letters (as transliterated), since a long word that
+// folds into a short key has lost what set it apart
+const MIN_KEY_LENGTH = 2;
+const MIN_KEY_SHARE = 1 / 3;
+// A word matched only through its sound key scores less than an exact match
+const SOUND_MATCH_WEIGHT = 0.8;
+// Index entries for sound keys, apart from words
+const INDIC_KEY = '\u0001i:';
+const LATIN_KEY = '\u0001l:';
+
+// Light English suffix stripping, so "elections" finds "election"
+function stem(word: string): string {
+  if (!/^[a-z]+$/.test(word) || word.length < 4) return word;
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(ss|us|is)$/.test(word)) return word;
+  if (/(ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
+  return word;
+}
+
+// A word as indexed: its search term, and the index entries for its sound
+// keys (of the word as written and of its stem, as stemming can cut too deep)
+export interface IndexedWord {
+  term: string;
+  keys: string[];
+}
+
+const keys = new Map<string, string | null>();
+
+function keyOf(word: string): string | null {
+  if (!keys.has(word)) {
+    const key = soundKey(word);
+    const minLength = Math.max(MIN_KEY_LENGTH, Math.ceil(transliterate(word).length * MIN_KEY_SHARE));
+    keys.set(word, key.length >= minLength ? key : null);
+  }
+  return keys.get(word)!;
+}
+
+const analyzed = new Map<string, IndexedWord | null>();
+
+// Words repeat across articles, so each distinct spelling is analyzed once
+function analyze(word: string): IndexedWord | null {
+  if (!analyzed.has(word)) analyzed.set(word, analyzeWord(word));
+  return analyzed.get(word)!;
+}
+
+function analyzeWord(word: string): IndexedWord | null {
+  let lower = word.normalize('NFKC').toLowerCase();
+  const indic = isIndic(lower);
+  if (indic) lower = normalizeIndic(lower);
+  if (STOPWORDS.has(lower) || (lower.length < 2 && !/\d/.test(lower))) return null;
+
+  // A stem can be a stopword (नेताओं → ने); the word is then kept whole, since
+  // a query for it would lose the stem
+  const stemmed = indic ? stemIndic(lower) : stem(lower);
+  const t = STOPWORDS.has(stemmed) ? lower : stemmed;
+  const prefix = indic ? INDIC_KEY : LATIN_KEY;
+  const wordKeys = new Set([keyOf(lower), keyOf(t)].filter((key): key is string => !!key).map(key => prefix + key));
+  return { term: t, keys: [...wordKeys] };
+}
+
+// Sound-key entries a query word may match: Indic spellings for any word,
+// Roman spellings only for an Indic word
+const queryEntries = new Map<string, string[]>();
+
+function keyEntriesFor(queryTerm: string): string[] {
+  if (!queryEntries.has(queryTerm)) {
+    const key = keyOf(queryTerm);
+    queryEntries.set(queryTerm, !key ? [] : isIndic(queryTerm) ? [INDIC_KEY + key, LATIN_KEY + key] : [INDIC_KEY + key]);
+  }
+  return queryEntries.get(queryTerm)!;
+}
+
+// True when a document word matches a query term, exactly or by sound across scripts
+export function wordsMatch(queryTerm: string, word: IndexedWord): boolean {
+  return queryTerm === word.term || keyEntriesFor(queryTerm).some(entry => word.keys.includes(entry));
+}
+
+function matchesAny(queryTerms: string[], word: IndexedWord): boolean {
+  return queryTerms.some(q => wordsMatch(q, word));
+}
+
+export function analyzeText(text: string): IndexedWord[] {
+  const words: IndexedWord[] = [];
+  for (const match of String(text || '').matchAll(WORD)) {
+    const word = analyze(match[0]);
+    if (word) words.push(word);
+  }
+  return words;
+}
+
+export function tokenize(text: string): string[] {
+  return analyzeText(text).map(word => word.term);
+}
+
+// Splits text into plain and matching runs for rendering with <mark>
+export function highlight(text: string, terms: string[]): HighlightSegment[] {
+  const source = String(text || '');
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of source.matchAll(WORD)) {
+    const word = analyze(match[0]);
+    if (!word || !matchesAny(terms, word)) continue;
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: source.slice(last, start), match: false });
+    segments.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < source.length) segments.push({ text: source.slice(last), match: false });
+  return segments;
+}
+
+function containsTerm(text: string, terms: string[]): number {
+  for (const match of String(text || '').matchAll(WORD)) {
+    const word = analyze(match[0]);
+    if (word && matchesAny(terms, word)) return match.index ?? 0;
+  }
+  return -1;
+}
+
+// The summary when it mentions a matched term, otherwise the passage of the
+// content around the first match
+function snippetFor(article: SearchableArticle, terms: string[]): string {
+  if (containsTerm(article.summary, terms) >= 0 || !article.content) return article.summary;
+  const at = containsTerm(article.content, terms);
+  if (at < 0) return article.summary;
+
+  const { content } = article;
+  const from = Math.max(0, at - SNIPPET_LENGTH / 4);
+  const space = content.indexOf(' ', from);
+  const start = from === 0 || space < 0 || space >= at ? from : space + 1;
+  let end = start + SNIPPET_LENGTH;
+  if (end >= content.length) {
+    end = content.length;
+  } else if (content.lastIndexOf(' ', end) > at) {
+    end = content.lastIndexOf(' ', end);
+  }
+  const passage = content.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${passage}${end < content.length ? '…' : ''}`;
+}
+
+function indexedText(article: SearchableArticle): string {
+  return FIELDS.map(field => field.text(article)).join('\u0000');
+}
+
+interface IndexedDoc<T> {
+  article: T;
+  text: string;
+  lengths: number[];
+  frequencies: Map<string, number[]>;
+}
+
+export class SearchIndex<T extends SearchableArticle> {
+  private docs = new Map<string, IndexedDoc<T>>();
+  private postings = new Map<string, Set<string>>();
+  private totalLengths = FIELDS.map(() => 0);
+  private synced: readonly T[] | null = null;
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  // Adds the article, or re-indexes it when its text changed
+  add(article: T): void {
+    const text = indexedText(article);
+    const existing = this.docs.get(article.id);
+    if (existing && existing.text === text) {
+      existing.article = article;
+      return;
+    }
+    if (existing) this.remove(article.id);
+
+    const frequencies = new Map<string, number[]>();
+    const lengths = FIELDS.map((field, f) => {
+      const words = analyzeText(field.text(article));
+      for (const word of words) {
+        for (const entry of [word.term, ...word.keys]) {
+          if (!frequencies.has(entry)) frequencies.set(entry, FIELDS.map(() => 0));
+          frequencies.get(entry)![f]++;
+        }
+      }
+      return words.length;
+    });
+
+    for (const t of frequencies.keys()) {
+      if (!this.postings.has(t)) this.postings.set(t, new Set());
+      this.postings.get(t)!.add(article.id);
+    }
+    lengths.forEach((length, f) => { this.totalLengths[f] += length; });
+    this.docs.set(article.id, { article, text, lengths, frequencies });
+  }
+
+  remove(id: string): void {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+    for (const t of doc.frequencies.keys()) {
+      const ids = this.postings.get(t);
+      ids?.delete(id);
+      if (ids && ids.size === 0) this.postings.delete(t);
+    }
+    doc.lengths.forEach((length, f) => { this.totalLengths[f] -= length; });
+    this.docs.delete(id);
+  }
+
+  // Brings the index in line with `articles`: new and edited articles are
+  // indexed, missing ones removed. Calling it again with the same array is free.
+  sync(articles: readonly T[]): void {
+    if (articles === this.synced) return;
+    const present = new Set<string>();
+    for (const article of articles) {
+      present.add(article.id);
+      if (this.docs.get(article.id)?.article !== article) this.add(article);
+    }
+    for (const id of [...this.docs.keys()]) {
+      if (!present.has(id)) this.remove(id);
+    }
+    this.synced = articles;
+  }
+
+  // BM25F score of one index entry (a word or a sound key) for each document containing it
+  private entryScores(entry: string, averages: number[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const ids = this.postings.get(entry);
+    if (!ids) return scores;
+    const count = this.docs.size;
+    const idf = Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5));
+
+    for (const id of ids) {
+      const doc = this.docs.get(id)!;
+      const frequencies = doc.frequencies.get(entry)!;
+      let weighted = 0;
+      FIELDS.forEach((field, f) => {
+        if (frequencies[f] === 0) return;
+        weighted += field.weight * frequencies[f] / (1 - B + B * doc.lengths[f] / averages[f]);
+      });
+      scores.set(id, idf * (weighted * (K1 + 1)) / (weighted + K1));
+    }
+    return scores;
+  }
+
+  search(query: string, limit = 50): SearchHit<T>[] {
+    return this.searchTerms(tokenize(query), limit);
+  }
+
+  // Ranks terms that were already analyzed (tokenize), such as a parsed
+  // query's: analyzing a stem again could stem it further
+  searchTerms(queryTerms: readonly string[], limit = 50): SearchHit<T>[] {
+    const terms = [...new Set(queryTerms)];
+    if (terms.length === 0 || this.docs.size === 0) return [];
+
+    const averages = this.totalLengths.map(total => total / this.docs.size || 1);
+    const scores = new Map<string, { score: number; terms: string[] }>();
+
+    for (const t of terms) {
+      // Each document scores a word once: exactly, or else by its best sound match
+      const termScores = this.entryScores(t, averages);
+      for (const entry of keyEntriesFor(t)) {
+        for (const [id, score] of this.entryScores(entry, averages)) {
+          termScores.set(id, Math.max(termScores.get(id) || 0, SOUND_MATCH_WEIGHT * score));
+        }
+      }
+
+      for (const [id, score] of termScores) {
+        const entry = scores.get(id) || { score: 0, terms: [] };
+        entry.score += score;
+        entry.terms.push(t);
+        scores.set(id, entry);
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([id, { score, terms: matched }]) => ({ article: this.docs.get(id)!.article, score, terms: matched }))
+      .sort((a, b) =>
+        b.score - a.score ||
+        (Date.parse(b.article.publishedAt) || 0) - (Date.parse(a.article.publishedAt) || 0)
+      )
+      .slice(0, limit)
+      .map(hit => ({ ...hit, snippet: snippetFor(hit.article, hit.terms) }));
+  }
+}
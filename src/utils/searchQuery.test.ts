@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { QuerySyntaxError, parseQuery, positiveTerms, runQuery, type QueryArticle } from './searchQuery';
+import { SearchIndex } from './searchIndex';
+
+const NOW = new Date(2026, 9, 19, 12).getTime();
+
+function article(id: string, fields: Partial<QueryArticle> = {}): QueryArticle {
+  return {
+    id, title: '', summary: '', content: '', tags: [], author: '', source: '', category: 'india', language: 'en',
+    publishedAt: new Date(2026, 9, 18).toISOString(), ...fields
+  };
+}
+
+const ARTICLES = [
+  article('rbi', { title: 'RBI keeps repo rate unchanged', category: 'business', tags: ['RBI'], author: 'Priya Sharma', source: 'Reuters' }),
+  article('bank', { title: 'Reserve Bank of India holds rates', category: 'business', isPremium: true, publishedAt: new Date(2026, 9, 10).toISOString() }),
+  article('cricket', { title: 'Rate of scoring rises in cricket', category: 'sports', publishedAt: new Date(2026, 8, 1).toISOString() }),
+  article('hindi', { title: 'आरबीआई ने दरें नहीं बदलीं', category: 'business', language: 'hi', publishedAt: new Date(2026, 9, 19, 6).toISOString() })
+];
+
+function ids(query: string): string[] {
+  const index = new SearchIndex<QueryArticle>();
+  index.sync(ARTICLES);
+  return runQuery(index, ARTICLES, parseQuery(query, NOW)).map(hit => hit.article.id).sort();
+}
+
+function syntaxError(query: string): string {
+  try {
+    parseQuery(query, NOW);
+  } catch (error) {
+    expect(error).toBeInstanceOf(QuerySyntaxError);
+    return (error as Error).message;
+  }
+  throw new Error(`"${query}" parsed`);
+}
+
+describe('parseQuery', () => {
+  it('groups clauses joined with OR', () => {
+    const query = parseQuery('rbi OR "reserve bank" category:business', NOW);
+    expect(query.groups.map(group => group.map(clause => clause.raw))).toEqual([['rbi', '"reserve bank"'], ['category:business']]);
+  });
+
+  it('drops words that are only stopwords', () => {
+    expect(parseQuery('the rates', NOW).groups).toHaveLength(1);
+  });
+
+  it('resolves filter aliases', () => {
+    const [[clause]] = parseQuery('by:"Priya Sharma"', NOW).groups;
+    expect(clause).toMatchObject({ kind: 'field', field: 'author', value: 'Priya Sharma' });
+  });
+
+  it.each([
+    ['', 'Enter a word, phrase or filter to search for.'],
+    ['the', '"the" only has common words that are not searched. Add a more specific word.'],
+    ['-cricket', 'The query only excludes words. Add a word or filter to search for, for example budget -cricket.'],
+    ['rbi OR', 'OR needs a word, phrase or filter on both sides, for example rbi OR "reserve bank".'],
+    ['(rbi)', 'Parentheses are not supported. Use OR between alternatives, for example rbi OR "reserve bank".'],
+    ['"repo rate', 'The phrase "repo rate is missing its closing quote.'],
+    ['categry:business', 'Unknown filter "categry:". Did you mean category:? To search for the text itself, put it in quotes.'],
+    ['after:2026-02-30', '"after:2026-02-30" is not a valid date. Write dates as YYYY-MM-DD, for example after:2026-09-01.'],
+    ['after:2026-10-01 before:2026-09-01', 'after:2026-10-01 is not earlier than before:2026-09-01, so nothing can match.'],
+    ['last:0d', '"last:0d" needs a period such as last:12h, last:7d or last:2w.'],
+    ['premium:maybe', '"premium:maybe" should be premium:true or premium:false.'],
+    ['source:', '"source:" is missing a value, for example source:reuters.']
+  ])('explains what is wrong with %j', (query, message) => {
+    expect(syntaxError(query)).toBe(message);
+  });
+
+  it('ranks and highlights only the words that are not excluded', () => {
+    expect(positiveTerms(parseQuery('rates -cricket title:repo', NOW))).toEqual(['rate', 'repo']);
+  });
+});
+
+describe('runQuery', () => {
+  it('needs every word, and matches phrases in order', () => {
+    expect(ids('rate')).toEqual(['bank', 'cricket', 'rbi']);
+    expect(ids('repo rate')).toEqual(['rbi']);
+    expect(ids('"rate repo"')).toEqual([]);
+  });
+
+  it('finds words whose stem would stem again', () => {
+    const articles = [
+      article('earnings', { title: 'Quarterly earnings beat estimates' }),
+      article('housing', { title: 'Housing sales slow in the metros' })
+    ];
+    const index = new SearchIndex<QueryArticle>();
+    index.sync(articles);
+    const found = (query: string) => runQuery(index, articles, parseQuery(query, NOW)).map(hit => hit.article.id);
+    expect(found('earnings')).toEqual(['earnings']);
+    expect(found('housing')).toEqual(['housing']);
+  });
+
+  it('matches either side of OR and leaves out excluded words', () => {
+    expect(ids('repo OR "reserve bank"')).toEqual(['bank', 'rbi']);
+    expect(ids('rate -cricket')).toEqual(['bank', 'rbi']);
+  });
+
+  it('filters by field', () => {
+    expect(ids('category:business')).toEqual(['bank', 'hindi', 'rbi']);
+    expect(ids('author:priya source:REUTERS tag:rbi')).toEqual(['rbi']);
+    expect(ids('lang:hi')).toEqual(['hindi']);
+    expect(ids('premium:yes')).toEqual(['bank']);
+    expect(ids('title:"reserve bank"')).toEqual(['bank']);
+    expect(ids('rate -category:sports')).toEqual(['bank', 'rbi']);
+  });
+
+  it('filters by publish date', () => {
+    expect(ids('after:2026-10-01')).toEqual(['bank', 'hindi', 'rbi']);
+    expect(ids('before:2026-10-01')).toEqual(['cricket']);
+    expect(ids('last:12h')).toEqual(['hindi']);
+    expect(ids('last:1w')).toEqual(['hindi', 'rbi']);
+  });
+
+  it('ranks a filter-only query newest first', () => {
+    const index = new SearchIndex<QueryArticle>();
+    index.sync(ARTICLES);
+    const hits = runQuery(index, ARTICLES, parseQuery('category:business', NOW));
+    expect(hits.map(hit => hit.article.id)).toEqual(['hindi', 'rbi', 'bank']);
+  });
+});
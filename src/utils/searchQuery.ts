@@ -0,0 +1,303 @@
+// Query syntax for article search:
+//
+//   words "exact phrase"        all must appear (ranked with the search index)
+//   -word -"phrase" -tag:x      must not appear / match
+//   a OR b                      either side may match
+//   category:business  author:"Priya Sharma"  source:reuters  tag:rbi
+//   title:budget  language:hi  premium:false
+//   after:2026-09-01  before:2026-10-01  last:7d (h, d or w)
+//
+// parseQuery throws QuerySyntaxError with a message meant for the reader.
+import { tokenize, analyzeText, wordsMatch, IndexedWord, SearchIndex, SearchableArticle, SearchHit } from './searchIndex';
+
+export interface QueryArticle extends SearchableArticle {
+  category: string;
+  language: string;
+  isPremium?: boolean;
+}
+
+export type QueryClause =
+  | { kind: 'text'; raw: string; tokens: string[]; negated: boolean }
+  | { kind: 'field'; field: string; raw: string; value: string; negated: boolean; test: (article: QueryArticle) => boolean };
+
+export interface ParsedQuery {
+  // Every group must match; a group matches when any of its clauses does
+  groups: QueryClause[][];
+}
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+const DURATION_UNITS: Record<string, number> = { h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+function normalize(text: string): string {
+  return String(text || '').normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function publishedTime(article: QueryArticle): number {
+  return Date.parse(article.publishedAt) || 0;
+}
+
+// Local midnight of a YYYY-MM-DD date
+function parseDay(value: string, raw: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+  if (!match || !date || date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) {
+    throw new QuerySyntaxError(`"${raw}" is not a valid date. Write dates as YYYY-MM-DD, for example after:2026-09-01.`);
+  }
+  return date.getTime();
+}
+
+// Fields a filter can use, each building the test for its value
+const FILTERS: Record<string, (value: string, raw: string, now: number) => (article: QueryArticle) => boolean> = {
+  category: value => article => normalize(article.category) === normalize(value),
+  author: value => article => normalize(article.author).includes(normalize(value)),
+  source: value => article => normalize(article.source).includes(normalize(value)),
+  tag: value => article => (article.tags || []).some(tag => normalize(tag) === normalize(value)),
+  language: value => article => normalize(article.language) === normalize(value),
+  title: (value, raw) => {
+    const tokens = tokenize(value);
+    if (tokens.length === 0) throw new QuerySyntaxError(`"${raw}" only has common words that are not searched.`);
+    return article => containsSequence(analyzeText(article.title), tokens);
+  },
+  premium: (value, raw) => {
+    if (!['true', 'false', 'yes', 'no'].includes(normalize(value))) {
+      throw new QuerySyntaxError(`"${raw}" should be premium:true or premium:false.`);
+    }
+    const wanted = ['true', 'yes'].includes(normalize(value));
+    return article => !!article.isPremium === wanted;
+  },
+  after: (value, raw) => {
+    const since = parseDay(value, raw);
+    return article => publishedTime(article) >= since;
+  },
+  before: (value, raw) => {
+    const until = parseDay(value, raw);
+    return article => publishedTime(article) < until;
+  },
+  last: (value, raw, now) => {
+    const match = /^(\d+)([hdw])$/i.exec(value);
+    if (!match || Number(match[1]) === 0) {
+      throw new QuerySyntaxError(`"${raw}" needs a period such as last:12h, last:7d or last:2w.`);
+    }
+    const since = now - Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+    return article => publishedTime(article) >= since;
+  }
+};
+
+const EXAMPLES: Record<string, string> = {
+  category: 'business', author: '"Priya Sharma"', source: 'reuters', tag: 'rbi', language: 'hi',
+  title: 'budget', premium: 'false', after: '2026-09-01', before: '2026-10-01', last: '7d'
+};
+
+const ALIASES: Record<string, string> = { lang: 'language', tags: 'tag', cat: 'category', by: 'author' };
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function unknownFilter(name: string): QuerySyntaxError {
+  const known = Object.keys(FILTERS);
+  const suggestion = known.find(field => editDistance(name, field) <= 2);
+  return new QuerySyntaxError(
+    `Unknown filter "${name}:".` +
+    (suggestion ? ` Did you mean ${suggestion}:?` : ` Filters are ${known.map(f => `${f}:`).join(', ')}.`) +
+    ' To search for the text itself, put it in quotes.'
+  );
+}
+
+// Words match exactly, or across scripts by sound (see searchIndex)
+function containsSequence(words: IndexedWord[], sequence: string[]): boolean {
+  for (let i = 0; i + sequence.length <= words.length; i++) {
+    if (sequence.every((t, j) => wordsMatch(t, words[i + j]))) return true;
+  }
+  return false;
+}
+
+interface Token {
+  kind: 'or' | 'clause';
+  clause?: QueryClause;
+}
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close < 0) {
+    throw new QuerySyntaxError(`The phrase ${input.slice(start, start + 30)} is missing its closing quote.`);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function readWord(input: string, start: number): { value: string; end: number } {
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+  return { value: input.slice(start, end), end };
+}
+
+function lex(input: string, now: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    if (input[i] === '(' || input[i] === ')') {
+      throw new QuerySyntaxError('Parentheses are not supported. Use OR between alternatives, for example rbi OR "reserve bank".');
+    }
+
+    const negated = input[i] === '-';
+    const start = negated ? i + 1 : i;
+    if (negated && (start >= input.length || /\s/.test(input[start]))) {
+      throw new QuerySyntaxError('"-" must be followed by a word, phrase or filter, for example -cricket.');
+    }
+
+    if (input[start] === '"') {
+      const { value, end } = readQuoted(input, start);
+      const raw = input.slice(i, end);
+      if (!value.trim()) throw new QuerySyntaxError('Empty quotes "" do not search for anything.');
+      tokens.push({ kind: 'clause', clause: { kind: 'text', raw, tokens: tokenize(value), negated } });
+      i = end;
+      continue;
+    }
+
+    const field = /^([a-zA-Z]+):/.exec(input.slice(start));
+    if (field) {
+      const lower = field[1].toLowerCase();
+      const name = Object.prototype.hasOwnProperty.call(ALIASES, lower) ? ALIASES[lower] : lower;
+      if (!Object.prototype.hasOwnProperty.call(FILTERS, name)) throw unknownFilter(field[1]);
+      const valueStart = start + field[0].length;
+      const { value, end } = input[valueStart] === '"' ? readQuoted(input, valueStart) : readWord(input, valueStart);
+      const raw = input.slice(i, end);
+      if (!value.trim()) {
+        throw new QuerySyntaxError(`"${raw}" is missing a value, for example ${name}:${EXAMPLES[name]}.`);
+      }
+      tokens.push({ kind: 'clause', clause: { kind: 'field', field: name, raw, value, negated, test: FILTERS[name](value.trim(), raw, now) } });
+      i = end;
+      continue;
+    }
+
+    const { value, end } = readWord(input, start);
+    if (value === 'OR' && !negated) {
+      tokens.push({ kind: 'or' });
+    } else {
+      tokens.push({ kind: 'clause', clause: { kind: 'text', raw: input.slice(i, end), tokens: tokenize(value), negated } });
+    }
+    i = end;
+  }
+  return tokens;
+}
+
+function dateFilter(groups: QueryClause[][], field: string) {
+  const clause = groups.find(group => group.length === 1 && !group[0].negated && group[0].kind === 'field' && group[0].field === field)?.[0];
+  return clause && clause.kind === 'field' ? clause : undefined;
+}
+
+// after: on or later than before: can never match
+function checkDateRange(groups: QueryClause[][]) {
+  const after = dateFilter(groups, 'after');
+  const before = dateFilter(groups, 'before');
+  if (after && before && parseDay(after.value, after.raw) >= parseDay(before.value, before.raw)) {
+    throw new QuerySyntaxError(`${after.raw} is not earlier than ${before.raw}, so nothing can match.`);
+  }
+}
+
+export function parseQuery(input: string, now = Date.now()): ParsedQuery {
+  const tokens = lex(input, now);
+  const groups: QueryClause[][] = [];
+  let joinNext = false;
+
+  tokens.forEach((token, index) => {
+    if (token.kind === 'or') {
+      if (index === 0 || index === tokens.length - 1 || tokens[index + 1].kind === 'or') {
+        throw new QuerySyntaxError('OR needs a word, phrase or filter on both sides, for example rbi OR "reserve bank".');
+      }
+      joinNext = true;
+      return;
+    }
+    if (joinNext) {
+      groups[groups.length - 1].push(token.clause!);
+      joinNext = false;
+    } else {
+      groups.push([token.clause!]);
+    }
+  });
+
+  // Words made only of stopwords ("the") are not searched
+  const searchable = groups
+    .map(group => group.filter(clause => clause.kind === 'field' || clause.tokens.length > 0))
+    .filter(group => group.length > 0);
+
+  if (searchable.length === 0) {
+    throw new QuerySyntaxError(input.trim()
+      ? `"${input.trim()}" only has common words that are not searched. Add a more specific word.`
+      : 'Enter a word, phrase or filter to search for.');
+  }
+  if (searchable.every(group => group.every(clause => clause.negated && clause.kind === 'text'))) {
+    throw new QuerySyntaxError('The query only excludes words. Add a word or filter to search for, for example budget -cricket.');
+  }
+  checkDateRange(searchable);
+  return { groups: searchable };
+}
+
+function clauseMatches(clause: QueryClause, article: QueryArticle, fieldWords: () => IndexedWord[][]): boolean {
+  const matched = clause.kind === 'field'
+    ? clause.test(article)
+    : fieldWords().some(words => containsSequence(words, clause.tokens));
+  return clause.negated ? !matched : matched;
+}
+
+// Analyzed fields per article object; edited articles are new objects
+const analyzedFields = new WeakMap<QueryArticle, IndexedWord[][]>();
+
+export function matchesQuery(article: QueryArticle, query: ParsedQuery): boolean {
+  const fieldWords = () => {
+    if (!analyzedFields.has(article)) {
+      analyzedFields.set(article, [article.title, (article.tags || []).join(' '), article.summary, article.content, `${article.author} ${article.source}`].map(analyzeText));
+    }
+    return analyzedFields.get(article)!;
+  };
+  return query.groups.every(group => group.some(clause => clauseMatches(clause, article, fieldWords)));
+}
+
+// The words to rank and highlight by: every searched word that is not excluded
+export function positiveTerms(query: ParsedQuery): string[] {
+  const terms = new Set<string>();
+  for (const group of query.groups) {
+    for (const clause of group) {
+      if (clause.negated) continue;
+      if (clause.kind === 'text') clause.tokens.forEach(t => terms.add(t));
+      if (clause.kind === 'field' && clause.field === 'title') tokenize(clause.value).forEach(t => terms.add(t));
+    }
+  }
+  return [...terms];
+}
+
+// Articles matching the query, ranked by the index's relevance score for the
+// searched words, newest first among equals (and for filter-only queries)
+export function runQuery<T extends QueryArticle>(index: SearchIndex<T>, articles: readonly T[], query: ParsedQuery, limit = 50): SearchHit<T>[] {
+  const terms = positiveTerms(query);
+  const ranked = new Map(index.searchTerms(terms, index.size).map(hit => [hit.article.id, hit]));
+  // When some words are required, only articles the index found for them can match
+  const needsWords = query.groups.some(group => group.every(clause => clause.kind === 'text' && !clause.negated));
+
+  return articles
+    .filter(article => (!needsWords || ranked.has(article.id)) && matchesQuery(article, query))
+    .map(article => ranked.get(article.id) || { article, score: 0, terms: [], snippet: article.summary })
+    .sort((a, b) => b.score - a.score || publishedTime(b.article) - publishedTime(a.article))
+    .slice(0, limit)
+    .map(hit => ({ ...hit, terms }));
+}
@@ -0,0 +1,16 @@
+import type { StoryCoverage } from '../context/NewsContext';
+
+// Drops the other outlets' versions of a story that is already in the list,
+// keeping its canonical version where present (else the first one listed)
+export function oneCardPerStory<T extends { id: string; coverage?: StoryCoverage }>(articles: T[]): T[] {
+  const listed = new Set(articles.map(a => a.id));
+  const shown = new Set<string>();
+  return articles.filter(article => {
+    const coverage = article.coverage;
+    if (!coverage) return true;
+    if (shown.has(coverage.clusterId)) return false;
+    if (article.id !== coverage.canonicalId && listed.has(coverage.canonicalId)) return false;
+    shown.add(coverage.clusterId);
+    return true;
+  });
+}